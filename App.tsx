@@ -1,14 +1,27 @@
 
 import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
-import { AppScreen, UserData, RouteItem, Goal, Mission, MissionCategory, InsightChip, Product, BrandConfig, VerificationResult } from './types';
+import { AppScreen, UserData, RouteItem, Goal, Mission, MissionCategory, InsightChip, Product, BrandConfig, MissionVerification, PhotoEvidence } from './types';
 import { mockApi, RoutesWithMissions } from './services/mockApi';
-import { verifyPhoto } from './services/photoVerifyApi';
+import { PhotoVerifyApiError, verifyPhoto, verifyPhotoAsync, type VerificationContext } from './services/photoVerifyApi';
+import * as photoVerifySession from './services/photoVerifySession';
+import { collectPhotoEvidence } from './services/photoEvidence';
+import { compressImage, resolveCompressionPolicy } from './services/imageCompression';
 import Layout from './components/Layout';
 import { useBrand, createBlankBrand } from './context/BrandContext';
-import { offlineDb } from './services/offlineDb';
+import { offlineDb, type SyncQueueItem } from './services/offlineDb';
 import { applyDynamicManifest, initInstallPrompt, canInstall, promptInstall } from './pwa/dynamicManifest';
 import { LanguageContext, useLanguage, getLanguageFromURL } from './i18n';
 
+// ── Photo helpers (compressed Blob ↔ data URL shown / sent; the offline queue keeps the Blob) ──
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
 const ProgressCircle: React.FC<{ current: number, total: number, label: string, color: string }> = ({ current, total, label, color }) => {
   const percentage = total === 0 ? 0 : (current / total) * 100;
   const radius = 24;
@@ -246,19 +259,30 @@ const App: React.FC = () => {
   const [tempPhoto, setTempPhoto] = useState<string | null>(null);
   const [isValidating, setIsValidating] = useState(false);
   const [loginInput, setLoginInput] = useState(brand.defaultEmpCode);
-
-  // Photo verification state
-  const [isVerifying, setIsVerifying] = useState(false);
-  const [verificationResult, setVerificationResult] = useState<VerificationResult | null>(null);
-  const [verificationError, setVerificationError] = useState<string | null>(null);
+  const [loginPin, setLoginPin] = useState('');
+  const [loginError, setLoginError] = useState<string | null>(null);
+
+  // Photo verification state, per mission (keyed by taskid)
+  const [verifications, setVerifications] = useState<Record<number, MissionVerification>>({});
+  const verificationRunRef = useRef(0);
+  const currentVerification = selectedMission ? verifications[selectedMission.taskid] : undefined;
+  const verificationResult = currentVerification?.result ?? null;
+  const verificationError = currentVerification?.error ?? null;
+  const isVerifying = !!currentVerification && !verificationResult && !verificationError;
   const [currentProductIndex, setCurrentProductIndex] = useState(0);
 
   // PWA state
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [installAvailable, setInstallAvailable] = useState(false);
   const [pendingSyncs, setPendingSyncs] = useState(0);
+  // Photos verified after reconnecting that did not pass: the rep may need to go back to the store
+  const [deferredFailures, setDeferredFailures] = useState<Array<{ id: string; missionName: string; customerName: string }>>([]);
+  // Set on every render below, so the online listener syncs with current state
+  const syncQueuedItemRef = useRef<(item: SyncQueueItem) => Promise<boolean>>(async () => false);
 
   const cameraInputRef = useRef<HTMLInputElement>(null);
+  // Capture time / GPS of the current photo, read from the original camera file
+  const photoEvidenceRef = useRef<Promise<PhotoEvidence> | null>(null);
   const mapContainerRef = useRef<HTMLDivElement>(null);
   // Leaflet Map loaded at runtime via CDN — no TS types available
   const mapInstanceRef = useRef<{ remove: () => void } | null>(null);
@@ -301,8 +325,7 @@ const App: React.FC = () => {
       // Process sync queue when back online
       const synced = await offlineDb.processSyncQueue(async (item) => {
         try {
-          await mockApi.updateTaskStatus(Number(item.taskId), item.data);
-          return true;
+          return await syncQueuedItemRef.current(item);
         } catch { return false; }
       });
       if (synced > 0) console.log(`[PWA] Synced ${synced} offline completions`);
@@ -336,10 +359,27 @@ const App: React.FC = () => {
     return () => window.removeEventListener('popstate', handlePopState);
   }, [brands]);
 
-  const loadUserData = async (code: string) => {
+  // pin: given on the login form; without one (emp_code link) only a stored session of this rep is kept
+  const loadUserData = async (code: string, pin?: string) => {
     setIsLoading(true);
+    setLoginError(null);
     try {
       if (navigator.onLine) {
+        // Per-rep photo verification session: the backend checks the PIN
+        // and refuses verifications without a session
+        if (pin) {
+          try {
+            await photoVerifySession.startSession(code, pin);
+          } catch (err) {
+            if (err instanceof photoVerifySession.InvalidCredentialsError) {
+              setLoginError(t(err.status === 423 ? 'login.pinLocked' : 'login.invalidPin'));
+              return;
+            }
+            console.warn('[PhotoVerify] Could not open session', err);
+          }
+        } else if (photoVerifySession.getSession()?.empCode !== code) {
+          void photoVerifySession.endSession();
+        }
         // Online: fetch from API and cache in IndexedDB
         const userData = await mockApi.getUserInfo(code, brand.labels.companyName);
         setUser(userData);
@@ -369,7 +409,8 @@ const App: React.FC = () => {
           })();
         }
       } else {
-        // Offline: load from IndexedDB cache
+        // Offline: load from IndexedDB cache (never reuse another rep's session)
+        if (photoVerifySession.getSession()?.empCode !== code) void photoVerifySession.endSession();
         if (brandId) {
           const cachedUser = await offlineDb.getUserData(brandId, code);
           const cachedRoutes = await offlineDb.getRoutes(brandId, code);
@@ -411,7 +452,8 @@ const App: React.FC = () => {
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    await loadUserData(loginInput);
+    await loadUserData(loginInput, loginPin);
+    setLoginPin('');
   };
 
   // MAINT-004: Namespace localStorage keys per user+brand to avoid collision
@@ -488,13 +530,26 @@ const App: React.FC = () => {
       setUserInputVal('');
     }
 
-    setTempPhoto(null);
-    setVerificationResult(null);
-    setVerificationError(null);
-    setIsVerifying(false);
+    // Reopening a mission shows its verification (running or finished) again
+    setTempPhoto(verifications[mission.taskid]?.photo ?? null);
+    photoEvidenceRef.current = null;
     setScreen(AppScreen.MISSION_EXECUTION);
   };
 
+  // Apply progress / outcome of one verification run, unless it was replaced or cleared
+  const updateVerification = (taskid: number, runId: number, patch: Partial<MissionVerification>) => {
+    setVerifications(prev => prev[taskid]?.runId === runId ? { ...prev, [taskid]: { ...prev[taskid], ...patch } } : prev);
+  };
+
+  const clearVerification = () => {
+    if (!selectedMission) return;
+    const taskid = selectedMission.taskid;
+    setVerifications(prev => {
+      const { [taskid]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
   // Core completion logic (shared by normal and post-verification flows)
   const finalizeMission = async (extraFeedback?: Record<string, unknown>) => {
     setIsValidating(true);
@@ -539,69 +594,161 @@ const App: React.FC = () => {
       }
     }
 
-    setTimeout(() => {
-      if (selectedMission && selectedRoute) {
-        const updated = missions.map(m => m.taskid === selectedMission.taskid ? { ...m, status: 'done' as const } : m);
-        setMissions(updated);
-        localStorage.setItem(storageKey(selectedRoute.visit_id), JSON.stringify(updated));
-
-        const doneCount = updated.filter(m => m.status === 'done').length;
-        const allDone = doneCount === updated.length;
-        if (allDone) {
-          setRoutes(prev => prev.map(r => r.visit_id === selectedRoute.visit_id ? { ...r, status: 'completed' as const } : r));
-        } else if (doneCount > 0) {
-          setRoutes(prev => prev.map(r => r.visit_id === selectedRoute.visit_id ? { ...r, status: 'in_progress' as const } : r));
-        }
+    setTimeout(markMissionDone, 400);
+  };
 
-        setIsValidating(false);
-        setShowAchievement(true);
+  // Mark the open mission done locally and show the achievement
+  const markMissionDone = () => {
+    if (selectedMission && selectedRoute) {
+      const updated = missions.map(m => m.taskid === selectedMission.taskid ? { ...m, status: 'done' as const } : m);
+      setMissions(updated);
+      localStorage.setItem(storageKey(selectedRoute.visit_id), JSON.stringify(updated));
+
+      const doneCount = updated.filter(m => m.status === 'done').length;
+      const allDone = doneCount === updated.length;
+      if (allDone) {
+        setRoutes(prev => prev.map(r => r.visit_id === selectedRoute.visit_id ? { ...r, status: 'completed' as const } : r));
+      } else if (doneCount > 0) {
+        setRoutes(prev => prev.map(r => r.visit_id === selectedRoute.visit_id ? { ...r, status: 'in_progress' as const } : r));
       }
-    }, 400);
+
+      setIsValidating(false);
+      setShowAchievement(true);
+    }
+  };
+
+  // Back to pending (e.g. a deferred verification failed), in this session and in localStorage
+  const reopenMission = (visitId: number, taskid: number) => {
+    const reopen = (list: Mission[]) => list.map(m => m.taskid === taskid ? { ...m, status: 'pending' as const } : m);
+    const stored = localStorage.getItem(storageKey(visitId));
+    if (stored) {
+      try {
+        localStorage.setItem(storageKey(visitId), JSON.stringify(reopen(JSON.parse(stored))));
+      } catch { /* invalid JSON, skip */ }
+    }
+    if (selectedRoute?.visit_id === visitId) setMissions(prev => reopen(prev));
+    setRoutes(prev => prev.map(r => r.visit_id === visitId && r.status === 'completed' ? { ...r, status: 'in_progress' as const } : r));
   };
 
+  // ── PWA: sync one queued item (false = keep it queued) ──
+  const syncQueuedItem = async (item: SyncQueueItem): Promise<boolean> => {
+    if (item.type === 'mission_complete') {
+      await mockApi.updateTaskStatus(Number(item.taskId), item.data);
+      return true;
+    }
+
+    // Deferred photo verification: a network error throws and leaves it queued
+    const { photo, config, context, feedback, missionName, customerName } = item.data;
+    const photoDataUrl = await blobToDataUrl(photo);
+    const result = await verifyPhoto(item.taskId, photoDataUrl, config, context);
+    const taskid = Number(item.taskId);
+
+    if (result.passed) {
+      await mockApi.updateTaskStatus(taskid, {
+        ...feedback,
+        photo_evidence: photoDataUrl,
+        verification_passed: true,
+        verification_confidence: result.overallConfidence,
+        verification_score: result.score,
+        verification_model: result.modelUsed,
+        verification_criteria_results: result.criteriaResults,
+      });
+      return true;
+    }
+
+    // Not approved: reopen the mission with its result (retry or complete anyway) and tell the rep
+    reopenMission(Number(item.visitId), taskid);
+    setVerifications(prev => ({
+      ...prev,
+      [taskid]: { runId: ++verificationRunRef.current, photo: photoDataUrl, stage: 'done', result, error: null, finalized: false },
+    }));
+    setDeferredFailures(prev => [...prev, { id: item.id, missionName, customerName }]);
+    return true;
+  };
+  syncQueuedItemRef.current = syncQueuedItem;
+
   const completeMission = async () => {
     if (!selectedMission) return;
 
     // ── Photo Verification flow ──
+    // Runs as a backend job: the user may leave the mission and keep working meanwhile
     if (selectedMission.type === 'take_photo' && selectedMission.verificationConfig && tempPhoto) {
-      setIsVerifying(true);
-      setVerificationResult(null);
-      setVerificationError(null);
+      const taskid = selectedMission.taskid;
+      const customer = selectedRoute?.customer;
+      const context: VerificationContext = {
+        customerId: customer?.code,
+        customerLocation: customer?.lat !== undefined && customer?.lng !== undefined
+          ? { lat: customer.lat, lng: customer.lng }
+          : undefined,
+        evidence: (await photoEvidenceRef.current) ?? undefined,
+      };
+
+      // Offline: keep the photo and verify it on reconnect; the mission counts as done meanwhile
+      if (!navigator.onLine && brandId && selectedRoute) {
+        setIsValidating(true);
+        await offlineDb.queuePhotoVerification(brandId, String(selectedRoute.visit_id), String(taskid), {
+          photo: await dataUrlToBlob(tempPhoto),
+          config: selectedMission.verificationConfig,
+          context,
+          feedback: { mission_type: selectedMission.type, timestamp: new Date().toISOString(), verification_deferred: true },
+          missionName: selectedMission.name,
+          customerName: selectedRoute.customer.name,
+        });
+        setPendingSyncs(await offlineDb.getPendingSyncCount());
+        setTimeout(markMissionDone, 400);
+        return;
+      }
+
+      const runId = ++verificationRunRef.current;
+      setVerifications(prev => ({
+        ...prev,
+        [taskid]: { runId, photo: tempPhoto, stage: 'queued', result: null, error: null, finalized: false },
+      }));
 
       try {
-        const result = await verifyPhoto(
-          String(selectedMission.taskid),
+        const result = await verifyPhotoAsync(
+          String(taskid),
           tempPhoto,
-          selectedMission.verificationConfig
+          selectedMission.verificationConfig,
+          context,
+          (stage) => updateVerification(taskid, runId, { stage }),
         );
-        setVerificationResult(result);
-        setIsVerifying(false);
-
-        if (result.passed) {
-          // Auto-complete after showing results briefly
-          setTimeout(() => {
-            finalizeMission({
-              verification_passed: true,
-              verification_confidence: result.overallConfidence,
-              verification_model: result.modelUsed,
-              verification_criteria_results: result.criteriaResults,
-            });
-          }, 1500);
-        }
-        // If failed, user sees results and can retry or force-complete
-        return;
+        // A passed result completes the mission once it is on screen (see effect below);
+        // if failed, user sees results and can retry or force-complete
+        updateVerification(taskid, runId, { stage: 'done', result });
       } catch (err) {
         console.error('[PhotoVerify] Verification error:', err);
-        setVerificationError(err instanceof Error ? err.message : 'Error de verificación');
-        setIsVerifying(false);
-        return;
+        const error = err instanceof PhotoVerifyApiError && err.code === 'BUDGET_EXCEEDED' ? t('mission.budgetExceeded')
+          : err instanceof Error ? err.message : 'Error de verificación';
+        updateVerification(taskid, runId, { error });
       }
+      return;
     }
 
     // ── Normal completion (no verification needed) ──
     finalizeMission();
   };
 
+  // Auto-complete a passed verification after showing results briefly.
+  // If the user left the mission meanwhile, this runs when they reopen it.
+  useEffect(() => {
+    if (!selectedMission || !currentVerification?.result?.passed || currentVerification.finalized) return;
+    const { runId, result } = currentVerification;
+    const taskid = selectedMission.taskid;
+
+    const timer = setTimeout(() => {
+      updateVerification(taskid, runId, { finalized: true });
+      finalizeMission({
+        verification_passed: true,
+        verification_confidence: result.overallConfidence,
+        verification_score: result.score,
+        verification_model: result.modelUsed,
+        verification_criteria_results: result.criteriaResults,
+      });
+    }, 1500);
+    return () => clearTimeout(timer);
+  }, [selectedMission, currentVerification]);
+
   // Force-complete a mission after failed verification (user override)
   const forceCompleteMission = () => {
     finalizeMission({
@@ -614,8 +761,8 @@ const App: React.FC = () => {
   // Retry photo capture after failed verification
   const retryPhotoCapture = () => {
     setTempPhoto(null);
-    setVerificationResult(null);
-    setVerificationError(null);
+    photoEvidenceRef.current = null;
+    clearVerification();
     cameraInputRef.current?.click();
   };
 
@@ -824,6 +971,17 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {/* ──────── PWA: Deferred verifications that did not pass ──────── */}
+      {deferredFailures.map(f => (
+        <div key={f.id} className="sticky top-0 z-50 flex items-center gap-3 py-2 px-4 text-white text-xs font-bold bg-red-500 shadow-md animate-fade-in">
+          <svg className="w-4 h-4 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M12 9v2m0 4h.01M5.07 19h13.86c1.54 0 2.5-1.67 1.73-3L13.73 4c-.77-1.33-2.69-1.33-3.46 0L3.34 16c-.77 1.33.19 3 1.73 3z" /></svg>
+          <span className="flex-1 break-words">{t('offline.verificationFailed', { mission: f.missionName, customer: f.customerName })}</span>
+          <button onClick={() => setDeferredFailures(prev => prev.filter(x => x.id !== f.id))} className="bg-white/20 px-2 py-0.5 rounded-full text-[10px] uppercase tracking-widest shrink-0">
+            {t('offline.dismiss')}
+          </button>
+        </div>
+      ))}
+
       {showAchievement && (
         <AchievementOverlay
           completedCount={missions.filter(m => m.status === 'done').length}
@@ -1232,6 +1390,21 @@ const App: React.FC = () => {
                    style={{ '--tw-ring-color': brand.colors.primary } as any}
                  />
               </div>
+              <div className="space-y-1.5">
+                 <label className="text-[11px] font-bold uppercase text-slate-500 ml-1 tracking-wide">{t('login.pin')}</label>
+                 <input
+                   type="password"
+                   inputMode="numeric"
+                   autoComplete="current-password"
+                   value={loginPin}
+                   onChange={(e) => setLoginPin(e.target.value.replace(/\D/g, ''))}
+                   className="w-full bg-slate-50 border-2 border-slate-100 rounded-2xl p-3.5 text-sm font-bold outline-none transition-all focus:border-slate-200"
+                   style={{ '--tw-ring-color': brand.colors.primary } as any}
+                 />
+              </div>
+              {loginError && (
+                <p className="text-xs font-bold text-red-500 text-center">{loginError}</p>
+              )}
               <button disabled={isLoading} className="w-full text-white font-bold py-3.5 rounded-[24px] shadow-xl uppercase tracking-widest text-xs active:scale-95 transition-all disabled:opacity-50" style={{ backgroundColor: brand.colors.primary }}>
                  {isLoading ? t('login.loggingIn') : brand.labels.loginButton}
               </button>
@@ -1572,6 +1745,18 @@ const App: React.FC = () => {
                             {getCategoryLabel(m.category)}
                           </span>
                           <h4 className="text-sm font-black text-slate-900 leading-tight tracking-tight break-words">{m.name}</h4>
+                          {/* ── Verification still running (or waiting to be seen) for this mission ── */}
+                          {m.status === 'pending' && verifications[m.taskid] && (() => {
+                            const v = verifications[m.taskid];
+                            const label = v.result ? t(v.result.passed ? 'mission.verifySuccess' : 'mission.verifyFailed')
+                              : v.error ? t('mission.verifyError')
+                              : t('mission.analyzing');
+                            return (
+                              <span className={`text-[10px] font-bold uppercase tracking-wider ${v.result?.passed ? 'text-emerald-600' : v.result || v.error ? 'text-red-500' : 'text-violet-600 animate-pulse'}`}>
+                                {label}
+                              </span>
+                            );
+                          })()}
                         </div>
 
                         {m.status === 'done' && (
@@ -1794,11 +1979,18 @@ const App: React.FC = () => {
                              <input type="file" ref={cameraInputRef} capture="environment" accept="image/*" className="hidden" onChange={(e) => {
                                 const file = e.target.files?.[0];
                                 if (file) {
-                                   setVerificationResult(null);
-                                   setVerificationError(null);
-                                   const reader = new FileReader();
-                                   reader.onload = () => setTempPhoto(reader.result as string);
-                                   reader.readAsDataURL(file);
+                                   clearVerification();
+                                   // Evidence comes from the original file: compression drops EXIF
+                                   photoEvidenceRef.current = collectPhotoEvidence(file).catch(() => ({}));
+                                   const config = selectedMission?.verificationConfig;
+                                   const policy = resolveCompressionPolicy(brand.imageCompression, config?.imageCompression);
+                                   compressImage(file, policy, config?.criteria)
+                                     .then(({ blob }) => blobToDataUrl(blob))
+                                     .catch((err) => {
+                                       console.warn('[PhotoVerify] Compression failed, sending the original photo', err);
+                                       return blobToDataUrl(file);
+                                     })
+                                     .then(setTempPhoto);
                                 }
                              }} />
 
@@ -1807,7 +1999,8 @@ const App: React.FC = () => {
                                <div className="absolute inset-0 bg-white/80 backdrop-blur-sm flex flex-col items-center justify-center gap-3 z-10 rounded-[28px]">
                                  <div className="w-12 h-12 border-4 border-violet-200 border-t-violet-600 rounded-full animate-spin"></div>
                                  <span className="text-sm font-black text-violet-700 uppercase tracking-widest">{t('mission.analyzing')}</span>
-                                 <span className="text-[10px] font-bold text-slate-400">{t('mission.aiVerifying')}</span>
+                                 <span className="text-[10px] font-bold text-slate-400">{t(`mission.stage.${currentVerification?.stage ?? 'queued'}`)}</span>
+                                 <span className="text-[10px] font-semibold text-slate-400 px-6 text-center">{t('mission.verifyInBackground')}</span>
                                </div>
                              )}
 
@@ -1839,6 +2032,20 @@ const App: React.FC = () => {
                                   {Math.round(verificationResult.overallConfidence * 100)}% {t('mission.confidence')}
                                 </span>
                               </div>
+                              {verificationResult.score !== undefined && (
+                                <div className="mb-3">
+                                  <div className="flex items-baseline justify-between mb-1">
+                                    <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">{t('mission.score')}</span>
+                                    <span className="text-sm font-black text-slate-700">{Math.round(verificationResult.score)}<span className="text-[10px] text-slate-400">/100</span></span>
+                                  </div>
+                                  <div className="h-1.5 rounded-full bg-white/70 overflow-hidden">
+                                    <div
+                                      className={`h-full rounded-full ${verificationResult.passed ? 'bg-emerald-500' : 'bg-red-400'}`}
+                                      style={{ width: `${Math.min(100, Math.max(0, verificationResult.score))}%` }}
+                                    />
+                                  </div>
+                                </div>
+                              )}
                               <div className="space-y-1.5">
                                 {verificationResult.criteriaResults.map((cr) => (
                                   <div key={cr.criterionId} className="flex items-start gap-2 text-xs">
@@ -1854,6 +2061,16 @@ const App: React.FC = () => {
                                   </div>
                                 ))}
                               </div>
+                              {verificationResult.duplicateOf && (
+                                <p className="mt-2 text-[10px] font-bold text-amber-600 break-words">
+                                  ⚠ {t('mission.duplicatePhoto', { date: new Date(verificationResult.duplicateOf.verifiedAt).toLocaleDateString() })}
+                                </p>
+                              )}
+                              {verificationResult.integrity?.issues.map((issue) => (
+                                <p key={`${issue.imageIndex}-${issue.code}`} className="mt-2 text-[10px] font-bold text-amber-600 break-words">
+                                  ⚠ {t(`mission.integrity.${issue.code}`)}
+                                </p>
+                              ))}
                             </div>
 
                             {/* Action buttons for failed verification */}
@@ -1884,13 +2101,13 @@ const App: React.FC = () => {
                             <p className="text-[10px] text-amber-600 break-words">{verificationError}</p>
                             <div className="flex gap-2">
                               <button
-                                onClick={() => { setVerificationError(null); completeMission(); }}
+                                onClick={() => completeMission()}
                                 className="flex-1 py-2 text-[10px] font-bold uppercase tracking-widest rounded-xl border border-amber-300 text-amber-700 active:scale-95"
                               >
                                 {t('mission.retry')}
                               </button>
                               <button
-                                onClick={() => { setVerificationError(null); finalizeMission({ verification_error: verificationError }); }}
+                                onClick={() => { clearVerification(); finalizeMission({ verification_error: verificationError }); }}
                                 className="flex-1 py-2 text-[10px] font-bold uppercase tracking-widest rounded-xl bg-slate-100 text-slate-500 border border-slate-200 active:scale-95"
                               >
                                 {t('mission.completeNoVerify')}
@@ -2003,7 +2220,7 @@ const App: React.FC = () => {
               </div>
            </div>
 
-           <button onClick={() => { window.history.pushState({}, '', '/config'); setScreen(AppScreen.BRAND_SELECT); }} className="w-full mt-auto py-3 bg-white border-2 text-[10px] font-bold uppercase tracking-widest rounded-[24px] shadow-sm active:bg-slate-50 transition-all" style={{ borderColor: `${brand.colors.primary}30`, color: brand.colors.primary }}>
+           <button onClick={() => { void photoVerifySession.endSession(); window.history.pushState({}, '', '/config'); setScreen(AppScreen.BRAND_SELECT); }} className="w-full mt-auto py-3 bg-white border-2 text-[10px] font-bold uppercase tracking-widest rounded-[24px] shadow-sm active:bg-slate-50 transition-all" style={{ borderColor: `${brand.colors.primary}30`, color: brand.colors.primary }}>
              {t('profile.logout')}
            </button>
         </div>
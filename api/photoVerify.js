@@ -1,9 +1,47 @@
-
 export const config = {
   runtime: 'edge',
-  maxDuration: 60, // Allow up to 60s for AI verification
 };
 
+// The only call the PWA makes with the server-side credential: opening a
+// rep session after login (services/photoVerifySession.ts). Everything
+// else goes straight to the backend with the rep's own access token, so
+// any other path or grant is refused instead of being forwarded under
+// PHOTO_VERIFY_TOKEN. The rep's PIN goes along: the backend checks it,
+// locks the rep out after repeated wrong PINs and rate-limits each code.
+const ALLOWED_PATHS = {
+  'auth/token': ['POST'],
+};
+
+const EMP_CODE_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const DEVICE_ID_PATTERN = /^[A-Za-z0-9_-]{8,128}$/;
+const PIN_PATTERN = /^\d{4,12}$/;
+
+function reply(body, status) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    },
+  });
+}
+
+// Rebuilds the exchange from known fields only: the proxy never forwards
+// tenantId or anything else the backend would act on for the operator
+function exchangeBody(body) {
+  if (!body || body.grantType !== 'emp_code') return null;
+  if (typeof body.empCode !== 'string' || !EMP_CODE_PATTERN.test(body.empCode)) return null;
+  if (typeof body.deviceId !== 'string' || !DEVICE_ID_PATTERN.test(body.deviceId)) return null;
+  if (typeof body.pin !== 'string' || !PIN_PATTERN.test(body.pin)) return null;
+  return {
+    grantType: 'emp_code',
+    empCode: body.empCode,
+    pin: body.pin,
+    deviceId: body.deviceId,
+    ...(typeof body.deviceName === 'string' ? { deviceName: body.deviceName.slice(0, 200) } : {}),
+  };
+}
+
 export default async function handler(req) {
   // Target: photo-verify backend on Vercel
   const PHOTO_VERIFY_URL = process.env.PHOTO_VERIFY_API_URL || 'https://salesmate-wl.vercel.app';
@@ -15,37 +53,38 @@ export default async function handler(req) {
       status: 200,
       headers: {
         'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'POST, GET, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type',
       },
     });
   }
 
   try {
-    // Determine the sub-path: /api/photoVerify/verify → /api/verify
+    // Determine the sub-path: /api/photoVerify/auth/token → /api/auth/token
     const url = new URL(req.url);
-    const subPath = url.pathname.replace(/^\/api\/photoVerify\/?/, '');
-    const targetPath = subPath ? `/api/${subPath}` : '/api/verify';
-
-    // Forward query params for GET requests
-    const targetUrl = `${PHOTO_VERIFY_URL}${targetPath}${url.search}`;
+    const subPath = url.pathname.replace(/^\/api\/photoVerify\/?/, '').replace(/\/+$/, '');
+    const methods = ALLOWED_PATHS[subPath];
 
-    const headers = {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${PHOTO_VERIFY_TOKEN}`,
-    };
-
-    const fetchOptions = {
-      method: req.method,
-      headers,
-    };
+    if (!methods) {
+      return reply({ success: false, error: { code: 'NOT_FOUND', message: 'Not available through this proxy' } }, 404);
+    }
+    if (!methods.includes(req.method)) {
+      return reply({ success: false, error: { code: 'METHOD_NOT_ALLOWED', message: `${req.method} is not allowed` } }, 405);
+    }
 
-    // Forward body for POST/PUT
-    if (req.method === 'POST' || req.method === 'PUT') {
-      fetchOptions.body = await req.text();
+    const body = exchangeBody(await req.json().catch(() => null));
+    if (!body) {
+      return reply({ success: false, error: { code: 'VALIDATION_ERROR', message: 'Invalid session request' } }, 400);
     }
 
-    const response = await fetch(targetUrl, fetchOptions);
+    const response = await fetch(`${PHOTO_VERIFY_URL}/api/${subPath}`, {
+      method: req.method,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${PHOTO_VERIFY_TOKEN}`,
+      },
+      body: JSON.stringify(body),
+    });
     const data = await response.text();
 
     return new Response(data, {
@@ -53,15 +92,10 @@ export default async function handler(req) {
       headers: {
         'Content-Type': 'application/json',
         'Access-Control-Allow-Origin': '*',
+        ...(response.headers.get('retry-after') ? { 'Retry-After': response.headers.get('retry-after') } : {}),
       },
     });
   } catch (e) {
-    return new Response(JSON.stringify({ success: false, error: { message: e.message } }), {
-      status: 500,
-      headers: {
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*',
-      },
-    });
+    return reply({ success: false, error: { message: e.message } }, 500);
   }
 }
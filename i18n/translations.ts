@@ -84,6 +84,9 @@ export const translations: Record<Lang, Record<string, string>> = {
     'login.loggingIn': 'Ingresando...',
     'login.installApp': 'Instalar App',
     'login.changeBrand': '← Cambiar marca',
+    'login.pin': 'PIN',
+    'login.invalidPin': 'Código o PIN incorrecto',
+    'login.pinLocked': 'Demasiados intentos. Intenta más tarde.',
 
     // Dashboard
     'dashboard.myRoute': 'Mi Ruta',
@@ -149,15 +152,28 @@ export const translations: Record<Lang, Record<string, string>> = {
     'mission.aiVerification': 'Verificación IA',
     'mission.executeCapture': 'Ejecutar y capturar',
     'mission.analyzing': 'Analizando...',
-    'mission.aiVerifying': 'Verificación con IA en proceso',
+    'mission.stage.queued': 'En cola',
+    'mission.stage.starting': 'Verificación con IA en proceso',
+    'mission.stage.analyzing': 'La IA está revisando la foto',
+    'mission.stage.saving': 'Guardando resultado',
+    'mission.stage.done': 'Listo',
+    'mission.verifyInBackground': 'Puedes seguir con otras misiones; el resultado te espera aquí',
     'mission.approved': 'Aprobado',
     'mission.notApproved': 'No aprobado',
     'mission.verifySuccess': 'Verificación exitosa',
     'mission.verifyFailed': 'Verificación fallida',
     'mission.confidence': 'confianza',
+    'mission.score': 'Puntaje de ejecución',
+    'mission.duplicatePhoto': 'Esta foto ya se usó en una verificación del {date}',
+    'mission.integrity.too_far': 'La foto se tomó lejos del punto de venta',
+    'mission.integrity.too_old': 'La foto es demasiado antigua',
+    'mission.integrity.future_timestamp': 'La fecha de la foto está en el futuro',
+    'mission.integrity.missing_timestamp': 'La foto no tiene fecha de captura',
+    'mission.integrity.missing_location': 'La foto no tiene ubicación GPS',
     'mission.retryPhoto': 'Reintentar foto',
     'mission.completeAnyway': 'Completar igual',
     'mission.verifyError': 'Error al verificar la foto',
+    'mission.budgetExceeded': 'Tu empresa alcanzó su presupuesto mensual de verificación con IA. Completa la misión sin verificar o avisa a tu supervisor.',
     'mission.retry': 'Reintentar',
     'mission.completeNoVerify': 'Completar sin verificar',
     'mission.marketIntel': 'Inteligencia de Mercado',
@@ -177,6 +193,8 @@ export const translations: Record<Lang, Record<string, string>> = {
     'offline.mode': 'Modo Offline',
     'offline.pending': 'pendiente',
     'offline.pendingPlural': 'pendientes',
+    'offline.verificationFailed': 'La foto de «{mission}» en {customer} no fue aprobada. Revisa la misión: puede que debas volver a la tienda.',
+    'offline.dismiss': 'Entendido',
 
     // Screen titles
     'screen.guidedMission': 'Misión Guiada',
@@ -278,6 +296,9 @@ export const translations: Record<Lang, Record<string, string>> = {
     'login.loggingIn': 'Logging in...',
     'login.installApp': 'Install App',
     'login.changeBrand': '← Change brand',
+    'login.pin': 'PIN',
+    'login.invalidPin': 'Wrong code or PIN',
+    'login.pinLocked': 'Too many attempts. Try again later.',
 
     // Dashboard
     'dashboard.myRoute': 'My Route',
@@ -343,15 +364,28 @@ export const translations: Record<Lang, Record<string, string>> = {
     'mission.aiVerification': 'AI Verification',
     'mission.executeCapture': 'Execute and capture',
     'mission.analyzing': 'Analyzing...',
-    'mission.aiVerifying': 'AI verification in progress',
+    'mission.stage.queued': 'Queued',
+    'mission.stage.starting': 'AI verification in progress',
+    'mission.stage.analyzing': 'AI is reviewing the photo',
+    'mission.stage.saving': 'Saving result',
+    'mission.stage.done': 'Done',
+    'mission.verifyInBackground': 'You can keep working on other missions; the result will be waiting here',
     'mission.approved': 'Approved',
     'mission.notApproved': 'Not approved',
     'mission.verifySuccess': 'Verification successful',
     'mission.verifyFailed': 'Verification failed',
     'mission.confidence': 'confidence',
+    'mission.score': 'Execution score',
+    'mission.duplicatePhoto': 'This photo was already used in a verification on {date}',
+    'mission.integrity.too_far': 'The photo was taken far from the point of sale',
+    'mission.integrity.too_old': 'The photo is too old',
+    'mission.integrity.future_timestamp': 'The photo date is in the future',
+    'mission.integrity.missing_timestamp': 'The photo has no capture date',
+    'mission.integrity.missing_location': 'The photo has no GPS location',
     'mission.retryPhoto': 'Retry photo',
     'mission.completeAnyway': 'Complete anyway',
     'mission.verifyError': 'Error verifying photo',
+    'mission.budgetExceeded': 'Your company has reached its monthly AI verification budget. Complete the mission without verifying or tell your supervisor.',
     'mission.retry': 'Retry',
     'mission.completeNoVerify': 'Complete without verifying',
     'mission.marketIntel': 'Market Intelligence',
@@ -371,6 +405,8 @@ export const translations: Record<Lang, Record<string, string>> = {
     'offline.mode': 'Offline Mode',
     'offline.pending': 'pending',
     'offline.pendingPlural': 'pending',
+    'offline.verificationFailed': 'The photo for "{mission}" at {customer} was not approved. Check the mission: you may need to go back to the store.',
+    'offline.dismiss': 'Got it',
 
     // Screen titles
     'screen.guidedMission': 'Guided Mission',
@@ -472,6 +508,9 @@ export const translations: Record<Lang, Record<string, string>> = {
     'login.loggingIn': 'Entrando...',
     'login.installApp': 'Instalar App',
     'login.changeBrand': '← Mudar marca',
+    'login.pin': 'PIN',
+    'login.invalidPin': 'Código ou PIN incorreto',
+    'login.pinLocked': 'Muitas tentativas. Tente mais tarde.',
 
     // Dashboard
     'dashboard.myRoute': 'Minha Rota',
@@ -537,15 +576,28 @@ export const translations: Record<Lang, Record<string, string>> = {
     'mission.aiVerification': 'Verificação IA',
     'mission.executeCapture': 'Executar e capturar',
     'mission.analyzing': 'Analisando...',
-    'mission.aiVerifying': 'Verificação com IA em andamento',
+    'mission.stage.queued': 'Na fila',
+    'mission.stage.starting': 'Verificação com IA em andamento',
+    'mission.stage.analyzing': 'A IA está analisando a foto',
+    'mission.stage.saving': 'Salvando resultado',
+    'mission.stage.done': 'Pronto',
+    'mission.verifyInBackground': 'Você pode continuar com outras missões; o resultado ficará aqui',
     'mission.approved': 'Aprovado',
     'mission.notApproved': 'Não aprovado',
     'mission.verifySuccess': 'Verificação bem-sucedida',
     'mission.verifyFailed': 'Verificação falhou',
     'mission.confidence': 'confiança',
+    'mission.score': 'Pontuação de execução',
+    'mission.duplicatePhoto': 'Esta foto já foi usada em uma verificação de {date}',
+    'mission.integrity.too_far': 'A foto foi tirada longe do ponto de venda',
+    'mission.integrity.too_old': 'A foto é antiga demais',
+    'mission.integrity.future_timestamp': 'A data da foto está no futuro',
+    'mission.integrity.missing_timestamp': 'A foto não tem data de captura',
+    'mission.integrity.missing_location': 'A foto não tem localização GPS',
     'mission.retryPhoto': 'Tentar foto novamente',
     'mission.completeAnyway': 'Concluir mesmo assim',
     'mission.verifyError': 'Erro ao verificar a foto',
+    'mission.budgetExceeded': 'Sua empresa atingiu o orçamento mensal de verificação com IA. Conclua a missão sem verificar ou avise seu supervisor.',
     'mission.retry': 'Tentar novamente',
     'mission.completeNoVerify': 'Concluir sem verificar',
     'mission.marketIntel': 'Inteligência de Mercado',
@@ -565,6 +617,8 @@ export const translations: Record<Lang, Record<string, string>> = {
     'offline.mode': 'Modo Offline',
     'offline.pending': 'pendente',
     'offline.pendingPlural': 'pendentes',
+    'offline.verificationFailed': 'A foto de «{mission}» em {customer} não foi aprovada. Confira a missão: talvez seja preciso voltar à loja.',
+    'offline.dismiss': 'Entendi',
 
     // Screen titles
     'screen.guidedMission': 'Missão Guiada',
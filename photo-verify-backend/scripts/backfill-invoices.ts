@@ -0,0 +1,46 @@
+// ============================================
+// Invoice Backfill
+// ============================================
+// Usage: npm run invoices:backfill -- <fromMonth> [toMonth] [tenantId]
+// e.g.   npm run invoices:backfill -- 2025-06 2026-02
+//
+// Issues the invoice of every closed month from fromMonth to toMonth
+// (default: last month) for every active tenant, or only tenantId.
+// Months already invoiced are left as they are, so it is safe to rerun.
+
+import { generateMonthlyInvoices, parseInvoiceMonth, previousMonth } from '../src/lib/services/invoices';
+
+async function main() {
+  if (!process.env.POSTGRES_URL) {
+    console.error('ERROR: POSTGRES_URL not set. Copy .env.example to .env.local and configure it.');
+    process.exit(1);
+  }
+
+  const from = process.argv[2];
+  const to = process.argv[3] || previousMonth();
+  const tenantId = process.argv[4];
+  if (!from) {
+    console.error('Usage: npm run invoices:backfill -- <fromMonth> [toMonth] [tenantId]');
+    process.exit(1);
+  }
+
+  let period = parseInvoiceMonth(from);
+  const last = parseInvoiceMonth(to);
+  console.log(`Backfilling invoices ${from} → ${to}${tenantId ? ` for tenant ${tenantId}` : ''}...\n`);
+
+  while (period.start <= last.start) {
+    const counts = await generateMonthlyInvoices(period.month, {
+      budgetMs: Infinity,
+      tenantIds: tenantId ? [tenantId] : undefined,
+    });
+    console.log(`  ${counts.month}: ${counts.created} issued, ${counts.existing} already issued, ${counts.skipped} without usage`);
+    period = parseInvoiceMonth(period.end.toISOString().slice(0, 7));
+  }
+
+  console.log('\n=== Backfill complete! ===');
+}
+
+main().catch((err) => {
+  console.error('Backfill failed:', err);
+  process.exit(1);
+});
@@ -0,0 +1,84 @@
+// ============================================
+// Webhook Receiver - Local Stand-in for Testing
+// ============================================
+// Usage: npm run webhook-receiver
+// Or: npx tsx scripts/webhook-receiver.ts [port] [secret] [failFirstN]
+//
+// Register it with:
+//   POST /api/webhooks { "url": "http://localhost:4000/hooks", "secret": "<secret>", "events": [...] }
+// with WEBHOOK_ALLOW_PRIVATE_URLS=true on the backend (localhost is refused otherwise)
+//
+// failFirstN makes the receiver answer 500 to the first N requests,
+// to exercise retries, backoff and the dead-letter queue.
+
+import { createServer } from 'http';
+import { createHmac, timingSafeEqual } from 'crypto';
+
+const MAX_CLOCK_SKEW_SECONDS = 5 * 60;
+
+function verifySignature(secret: string, timestamp: string, body: string, header: string): boolean {
+  const expected = `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(header);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function main() {
+  const port = parseInt(process.argv[2] || process.env.WEBHOOK_RECEIVER_PORT || '4000', 10);
+  const secret = process.argv[3] || process.env.WEBHOOK_SECRET || 'whsec_local-development-secret';
+  let failRemaining = parseInt(process.argv[4] || '0', 10);
+  const seenEvents = new Set<string>();
+
+  const server = createServer((req, res) => {
+    if (req.method !== 'POST') {
+      res.writeHead(405).end();
+      return;
+    }
+
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+      const timestamp = String(req.headers['x-webhook-timestamp'] || '');
+      const signature = String(req.headers['x-webhook-signature'] || '');
+      const deliveryId = String(req.headers['x-webhook-id'] || '');
+
+      if (!verifySignature(secret, timestamp, body, signature)) {
+        console.log(`✗ ${deliveryId} rejected: bad signature`);
+        res.writeHead(401).end('invalid signature');
+        return;
+      }
+
+      if (Math.abs(Date.now() / 1000 - parseInt(timestamp, 10)) > MAX_CLOCK_SKEW_SECONDS) {
+        console.log(`✗ ${deliveryId} rejected: stale timestamp`);
+        res.writeHead(401).end('stale timestamp');
+        return;
+      }
+
+      if (failRemaining > 0) {
+        failRemaining--;
+        console.log(`✗ ${deliveryId} simulated failure (${failRemaining} left)`);
+        res.writeHead(500).end('simulated failure');
+        return;
+      }
+
+      const event = JSON.parse(body);
+      const duplicate = seenEvents.has(event.id);
+      seenEvents.add(event.id);
+
+      console.log(`✓ ${event.type} ${event.id}${duplicate ? ' (duplicate, ignored)' : ''}`);
+      if (!duplicate) console.log(JSON.stringify(event.data, null, 2));
+
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end('{"received":true}');
+    });
+  });
+
+  server.listen(port, () => {
+    console.log('\n=== PHOTO_VERIFY - Webhook Receiver ===\n');
+    console.log('Listening: ', `http://localhost:${port}/hooks`);
+    console.log('Secret:    ', secret);
+    console.log('Fail first:', failRemaining);
+    console.log('\nWaiting for events... (Ctrl+C to stop)\n');
+  });
+}
+
+main();
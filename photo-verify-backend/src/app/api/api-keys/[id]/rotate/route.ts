@@ -0,0 +1,84 @@
+// ============================================
+// POST /api/api-keys/[id]/rotate - Rotate an API Key
+// ============================================
+// Issues a replacement with the same name, role and scopes; the caller
+// must hold every permission of that role (403 otherwise). The old key
+// keeps working for graceSeconds (default 24h) so integrations can be
+// switched over; body: { graceSeconds? }.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, isAuthError, requireJwt, requirePermission } from '@/lib/auth/middleware';
+import { rotateApiKey } from '@/lib/auth/api-keys';
+import { RotateApiKeySchema, type ApiResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  const requestId = crypto.randomUUID();
+
+  const auth = await authenticate(request);
+  if (isAuthError(auth)) return auth;
+
+  const permissionError = requirePermission(auth, 'api-keys:admin') ?? requireJwt(auth);
+  if (permissionError) return permissionError;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parsed = RotateApiKeySchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid rotation request',
+            details: parsed.error.flatten(),
+          },
+          meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+        } satisfies ApiResponse,
+        { status: 400 }
+      );
+    }
+
+    const rotated = await rotateApiKey(auth, id, parsed.data.graceSeconds);
+
+    if (!rotated) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'NOT_FOUND', message: `API key ${id} not found` },
+          meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+        } satisfies ApiResponse,
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { ...rotated.apiKey, key: rotated.key, previousExpiresAt: rotated.previousExpiresAt.toISOString() },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error(`[api-keys:rotate] Error:`, error);
+
+    const message = error instanceof Error ? error.message : 'Failed to rotate API key';
+    const status = message.endsWith('is revoked') || message.startsWith('Unknown role') ? 409 : message.includes('you do not hold') ? 403 : 500;
+    const code = status === 409 ? 'CONFLICT' : status === 403 ? 'FORBIDDEN' : 'INTERNAL_ERROR';
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code, message },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status }
+    );
+  }
+}
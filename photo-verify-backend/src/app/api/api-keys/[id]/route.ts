@@ -0,0 +1,58 @@
+// ============================================
+// DELETE /api/api-keys/[id] - Revoke an API Key
+// ============================================
+// Takes effect on the next request. Revoking twice is harmless.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, isAuthError, requireJwt, requirePermission } from '@/lib/auth/middleware';
+import { revokeApiKey } from '@/lib/auth/api-keys';
+import type { ApiResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  const requestId = crypto.randomUUID();
+
+  const auth = await authenticate(request);
+  if (isAuthError(auth)) return auth;
+
+  const permissionError = requirePermission(auth, 'api-keys:admin') ?? requireJwt(auth);
+  if (permissionError) return permissionError;
+
+  try {
+    const revoked = await revokeApiKey(auth, id);
+
+    if (!revoked) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'NOT_FOUND', message: `API key ${id} not found` },
+          meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+        } satisfies ApiResponse,
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: revoked,
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`[api-keys:revoke] Error:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to revoke API key' },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+// ============================================
+// /api/api-keys - Tenant API Keys (admin)
+// ============================================
+// GET  → keys of a tenant (?tenantId, default the caller's); never the key itself
+// POST → issue a key; the response carries it once, store it then
+// Managing keys needs a user's JWT: an API key cannot mint keys.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, isAuthError, requireJwt, requirePermission } from '@/lib/auth/middleware';
+import { targetTenant } from '@/lib/auth/permissions';
+import { issueApiKey, listApiKeys } from '@/lib/auth/api-keys';
+import { CreateApiKeySchema, type ApiResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+// --- GET /api/api-keys - List keys ---
+export async function GET(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  const auth = await authenticate(request);
+  if (isAuthError(auth)) return auth;
+
+  const permissionError = requirePermission(auth, 'api-keys:admin') ?? requireJwt(auth);
+  if (permissionError) return permissionError;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const keys = await listApiKeys(targetTenant(auth, searchParams.get('tenantId')));
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: keys,
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`[api-keys:list] Error:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch API keys' },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// --- POST /api/api-keys - Issue a key ---
+export async function POST(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  const auth = await authenticate(request);
+  if (isAuthError(auth)) return auth;
+
+  const permissionError = requirePermission(auth, 'api-keys:admin') ?? requireJwt(auth);
+  if (permissionError) return permissionError;
+
+  try {
+    const body = await request.json();
+    const parsed = CreateApiKeySchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid API key request',
+            details: parsed.error.flatten(),
+          },
+          meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+        } satisfies ApiResponse,
+        { status: 400 }
+      );
+    }
+
+    const { apiKey, key } = await issueApiKey(auth, parsed.data);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { ...apiKey, key },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error(`[api-keys:create] Error:`, error);
+
+    const message = error instanceof Error ? error.message : 'Failed to issue API key';
+    const status = message.startsWith('Unknown role') ? 400 : message.includes('you do not hold') ? 403 : 500;
+    const code = status === 400 ? 'VALIDATION_ERROR' : status === 403 ? 'FORBIDDEN' : 'INTERNAL_ERROR';
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code, message: status === 500 ? 'Failed to issue API key' : message },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status }
+    );
+  }
+}
@@ -0,0 +1,127 @@
+// ============================================
+// GET /api/audit - Audit Log
+// ============================================
+// Who changed what, newest first, with before/after diffs.
+//
+// Query params:
+//   ?entityType=task&entityId=xxx     (one entity's history)
+//   ?actor=xxx                        (userId: a user, api-key:<id>, an emp_code)
+//   ?action=task_updated,task_deleted (one or several actions)
+//   ?from=...&to=...                  (ISO datetimes, to is exclusive)
+//   ?limit=50&cursor=xxx              (max 200; nextCursor comes with each page)
+//   ?format=ndjson                    (every matching entry as one JSON per line)
+//   ?tenantId=xxx                     (tenants:admin only)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, isAuthError, requirePermission } from '@/lib/auth/middleware';
+import { targetTenant } from '@/lib/auth/permissions';
+import { exportAuditEntries, listAuditEntries, recordAudit } from '@/lib/services/audit';
+import { AuditQuerySchema, type ApiResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  // 1. Authenticate and check the permission
+  const auth = await authenticate(request);
+  if (isAuthError(auth)) return auth;
+
+  const permissionError = requirePermission(auth, 'audit:read');
+  if (permissionError) return permissionError;
+
+  // 2. Validate the filters
+  const { searchParams } = new URL(request.url);
+  const parsed = AuditQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid audit query',
+          details: parsed.error.flatten(),
+        },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 400 }
+    );
+  }
+
+  const { format, limit, tenantId: requested, ...filters } = parsed.data;
+  const tenantId = targetTenant(auth, requested);
+
+  try {
+    // 3. NDJSON export: streamed page by page, and itself audited
+    if (format === 'ndjson') {
+      const entries = exportAuditEntries(tenantId, filters);
+      const first = await entries.next(); // Surfaces a bad cursor before the 200
+
+      await recordAudit({
+        tenantId,
+        action: 'audit_exported',
+        entityType: 'audit_log',
+        userId: auth.userId,
+        details: { filters },
+      });
+
+      const encoder = new TextEncoder();
+      const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          try {
+            if (!first.done) controller.enqueue(encoder.encode(`${JSON.stringify(first.value)}\n`));
+            for await (const entry of entries) {
+              controller.enqueue(encoder.encode(`${JSON.stringify(entry)}\n`));
+            }
+            controller.close();
+          } catch (error) {
+            console.error(`[audit:export] Error for tenant ${tenantId}:`, error);
+            controller.error(error);
+          }
+        },
+      });
+
+      return new Response(stream, {
+        headers: {
+          'Content-Type': 'application/x-ndjson; charset=utf-8',
+          'Content-Disposition': `attachment; filename="audit-${tenantId}-${new Date().toISOString().slice(0, 10)}.ndjson"`,
+          'X-Request-Id': requestId,
+        },
+      });
+    }
+
+    // 4. One page
+    const page = await listAuditEntries(tenantId, filters, limit);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          entries: page.entries,
+          pagination: { limit, count: page.entries.length, nextCursor: page.nextCursor },
+        },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`[audit] Error for tenant ${tenantId}:`, error);
+
+    const message = error instanceof Error ? error.message : '';
+    const status = message === 'Invalid cursor' ? 400 : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: status === 400 ? 'VALIDATION_ERROR' : 'INTERNAL_ERROR',
+          message: status === 400 ? message : 'Failed to fetch audit log',
+        },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status }
+    );
+  }
+}
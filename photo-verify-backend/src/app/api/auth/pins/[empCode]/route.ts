@@ -0,0 +1,109 @@
+// ============================================
+// /api/auth/pins/[empCode] - Rep PINs (admin)
+// ============================================
+// PUT    → set or replace the rep's PIN ({ pin }), clearing a lockout
+// DELETE → remove it; the rep can no longer open sessions
+// Both accept ?tenantId (admin: another tenant's rep)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, isAuthError, requirePermission } from '@/lib/auth/middleware';
+import { targetTenant } from '@/lib/auth/permissions';
+import { removeRepPin, setRepPin } from '@/lib/auth/pins';
+import { RepPinSchema, type ApiResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ empCode: string }> };
+
+// --- PUT /api/auth/pins/:empCode - Set a rep's PIN ---
+export async function PUT(request: NextRequest, context: RouteContext) {
+  const { empCode } = await context.params;
+  const requestId = crypto.randomUUID();
+
+  const auth = await authenticate(request);
+  if (isAuthError(auth)) return auth;
+
+  const permissionError = requirePermission(auth, 'sessions:admin');
+  if (permissionError) return permissionError;
+
+  const parsed = RepPinSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Invalid PIN', details: parsed.error.flatten() },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 400 }
+    );
+  }
+
+  try {
+    await setRepPin(auth, targetTenant(auth, new URL(request.url).searchParams.get('tenantId')), empCode, parsed.data.pin);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { empCode },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`[auth:pins:set] Error:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to set PIN' },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// --- DELETE /api/auth/pins/:empCode - Remove a rep's PIN ---
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const { empCode } = await context.params;
+  const requestId = crypto.randomUUID();
+
+  const auth = await authenticate(request);
+  if (isAuthError(auth)) return auth;
+
+  const permissionError = requirePermission(auth, 'sessions:admin');
+  if (permissionError) return permissionError;
+
+  try {
+    const removed = await removeRepPin(auth, targetTenant(auth, new URL(request.url).searchParams.get('tenantId')), empCode);
+
+    if (!removed) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'NOT_FOUND', message: `No PIN set for ${empCode}` },
+          meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+        } satisfies ApiResponse,
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { empCode },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`[auth:pins:remove] Error:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to remove PIN' },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 500 }
+    );
+  }
+}
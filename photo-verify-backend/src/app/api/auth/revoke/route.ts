@@ -0,0 +1,41 @@
+// ============================================
+// POST /api/auth/revoke - Log a Rep Out
+// ============================================
+// Body: { refreshToken }. Revokes that token's session, so its access
+// tokens stop working too. Always answers 200: an unknown or already
+// revoked token leaves nothing to do.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { revokeByRefreshToken } from '@/lib/auth/sessions';
+import type { ApiResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const refreshToken = typeof body?.refreshToken === 'string' ? body.refreshToken : null;
+
+  if (!refreshToken) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'refreshToken is required' },
+      } satisfies ApiResponse,
+      { status: 400 }
+    );
+  }
+
+  try {
+    const revoked = await revokeByRefreshToken(refreshToken);
+    return NextResponse.json({ success: true, data: { revoked } } satisfies ApiResponse, { status: 200 });
+  } catch (error) {
+    console.error(`[auth:revoke] Error:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to revoke session' },
+      } satisfies ApiResponse,
+      { status: 500 }
+    );
+  }
+}
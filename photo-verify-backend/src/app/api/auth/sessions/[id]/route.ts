@@ -0,0 +1,60 @@
+// ============================================
+// DELETE /api/auth/sessions/[id] - Revoke a Rep Session
+// ============================================
+// Its refresh token and access tokens stop working on the next request.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, isAuthError, requirePermission } from '@/lib/auth/middleware';
+import { targetTenant } from '@/lib/auth/permissions';
+import { revokeSession } from '@/lib/auth/sessions';
+import type { ApiResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  const requestId = crypto.randomUUID();
+
+  const auth = await authenticate(request);
+  if (isAuthError(auth)) return auth;
+
+  const permissionError = requirePermission(auth, 'sessions:admin');
+  if (permissionError) return permissionError;
+
+  try {
+    const tenantId = targetTenant(auth, new URL(request.url).searchParams.get('tenantId'));
+    const session = await revokeSession(auth, tenantId, id);
+
+    if (!session) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'NOT_FOUND', message: `Session ${id} not found` },
+          meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+        } satisfies ApiResponse,
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: session,
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`[auth:sessions:revoke] Error:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to revoke session' },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+// ============================================
+// /api/auth/sessions - Rep Sessions (admin)
+// ============================================
+// GET    → sessions (?tenantId, ?empCode, ?active=true), newest first
+// DELETE → revoke every open session of a rep (?empCode, ?tenantId)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, isAuthError, requirePermission } from '@/lib/auth/middleware';
+import { targetTenant } from '@/lib/auth/permissions';
+import { listSessions, revokeSessionsForEmployee } from '@/lib/auth/sessions';
+import type { ApiResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+// --- GET /api/auth/sessions - List sessions ---
+export async function GET(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  const auth = await authenticate(request);
+  if (isAuthError(auth)) return auth;
+
+  const permissionError = requirePermission(auth, 'sessions:admin');
+  if (permissionError) return permissionError;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const sessions = await listSessions(targetTenant(auth, searchParams.get('tenantId')), {
+      empCode: searchParams.get('empCode') ?? undefined,
+      activeOnly: searchParams.get('active') === 'true',
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: sessions,
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`[auth:sessions:list] Error:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch sessions' },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// --- DELETE /api/auth/sessions?empCode= - Revoke a rep's sessions ---
+export async function DELETE(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  const auth = await authenticate(request);
+  if (isAuthError(auth)) return auth;
+
+  const permissionError = requirePermission(auth, 'sessions:admin');
+  if (permissionError) return permissionError;
+
+  const { searchParams } = new URL(request.url);
+  const empCode = searchParams.get('empCode');
+  if (!empCode) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'empCode is required' },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 400 }
+    );
+  }
+
+  try {
+    const revoked = await revokeSessionsForEmployee(auth, targetTenant(auth, searchParams.get('tenantId')), empCode);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { empCode, revoked },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`[auth:sessions:revoke] Error:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to revoke sessions' },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+// ============================================
+// POST /api/auth/token - Rep Session Token Exchange
+// ============================================
+// grantType "emp_code": called after the rep logs in, with an operator or
+//   admin credential (e.g. the PWA's server-side proxy). Checks the rep's
+//   PIN (see auth/pins.ts), opens a session for { empCode, deviceId } and
+//   returns an access + refresh token.
+// grantType "refresh_token": called by the device itself, no credential.
+//   Returns a new pair; the refresh token it sent stops working.
+// Both are limited per device; refreshes also per IP, exchanges per
+// tenant (they all arrive from the proxy's address) and per emp_code.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, isAuthError, requirePermission } from '@/lib/auth/middleware';
+import { verifyRepPin } from '@/lib/auth/pins';
+import { refreshSession, startSession } from '@/lib/auth/sessions';
+import { clientIp, clientRateLimit, rateLimitMiddleware } from '@/lib/rate-limit';
+import { TokenExchangeSchema, type ApiResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+const DEVICE_LIMIT = { maxRequests: 10, windowSeconds: 60 };
+const IP_LIMIT = { maxRequests: 60, windowSeconds: 60 };
+const EMP_CODE_LIMIT = { maxRequests: 5, windowSeconds: 60 };
+
+export async function POST(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  const body = await request.json().catch(() => null);
+  const parsed = TokenExchangeSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid token request',
+          details: parsed.error.flatten(),
+        },
+      } satisfies ApiResponse,
+      { status: 400 }
+    );
+  }
+
+  const input = parsed.data;
+
+  // --- Refresh: the refresh token is the credential ---
+  if (input.grantType === 'refresh_token') {
+    const rateLimited = await clientRateLimit('auth:refresh', `ip:${clientIp(request)}`, IP_LIMIT)
+      ?? await clientRateLimit('auth:refresh', `device:${input.deviceId}`, DEVICE_LIMIT);
+    if (rateLimited) return rateLimited;
+
+    try {
+      const tokens = await refreshSession(input.refreshToken, input.deviceId);
+      return NextResponse.json({ success: true, data: tokens } satisfies ApiResponse, { status: 200 });
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: error instanceof Error ? error.message : 'Invalid refresh token',
+          },
+        } satisfies ApiResponse,
+        { status: 401 }
+      );
+    }
+  }
+
+  // --- Exchange: a trusted caller opens the session ---
+  const auth = await authenticate(request);
+  if (isAuthError(auth)) return auth;
+
+  const permissionError = requirePermission(auth, 'sessions:create');
+  if (permissionError) return permissionError;
+
+  if (auth.sessionId) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'FORBIDDEN', message: 'A rep session cannot open other sessions' },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 403 }
+    );
+  }
+
+  const rateLimited = await rateLimitMiddleware(auth.tenantId, 'auth:token')
+    ?? await clientRateLimit('auth:token', `emp:${auth.tenantId}:${input.empCode}`, EMP_CODE_LIMIT)
+    ?? await clientRateLimit('auth:token', `device:${input.deviceId}`, DEVICE_LIMIT);
+  if (rateLimited) return rateLimited;
+
+  try {
+    const pin = await verifyRepPin(auth.tenantId, input.empCode, input.pin);
+    if (pin !== 'ok') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: pin === 'locked'
+            ? { code: 'LOCKED', message: 'Too many wrong PINs; try again later' }
+            : { code: 'UNAUTHORIZED', message: 'Invalid employee code or PIN' },
+          meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+        } satisfies ApiResponse,
+        { status: pin === 'locked' ? 423 : 401 }
+      );
+    }
+
+    const tokens = await startSession(auth, input);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: tokens,
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error(`[auth:token] Error:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to open session' },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -2,17 +2,21 @@
 // GET /api/billing - Billing & Usage Dashboard API
 // ============================================
 // Returns usage summaries per tenant with token counts,
-// estimated costs, and breakdowns by model/provider/period.
+// estimated costs, average execution scores, and breakdowns
+// by model/provider/period, plus where the tenant stands against its
+// monthly budget (tenants.config.budget) this month.
 //
 // Query params:
 //   ?from=2026-01-01&to=2026-02-01   (date range, ISO format)
-//   ?tenantId=xxx                      (filter by tenant, admin only)
+//   ?tenantId=xxx                      (filter by tenant, tenants:admin only)
 //   ?groupBy=day|week|month            (time grouping, default: day)
 
 import { NextRequest, NextResponse } from 'next/server';
 import { sql } from 'drizzle-orm';
-import { authenticate, isAuthError } from '@/lib/auth/middleware';
+import { authenticate, isAuthError, requirePermission } from '@/lib/auth/middleware';
+import { hasPermission, targetTenant } from '@/lib/auth/permissions';
 import { getDb } from '@/lib/db';
+import { getBudgetStatus } from '@/lib/services/budget';
 import type { ApiResponse } from '@/lib/types';
 
 export const runtime = 'nodejs';
@@ -20,10 +24,13 @@ export const runtime = 'nodejs';
 export async function GET(request: NextRequest) {
   const requestId = crypto.randomUUID();
 
-  // 1. Authenticate
+  // 1. Authenticate and check the permission
   const auth = await authenticate(request);
   if (isAuthError(auth)) return auth;
 
+  const permissionError = requirePermission(auth, 'billing:read');
+  if (permissionError) return permissionError;
+
   try {
     const db = getDb();
     const { searchParams } = new URL(request.url);
@@ -33,9 +40,7 @@ export async function GET(request: NextRequest) {
     const toDate = searchParams.get('to') || new Date().toISOString().split('T')[0];
     const groupBy = searchParams.get('groupBy') || 'day';
     // Only allow filtering other tenants if admin
-    const tenantId = auth.role === 'admin' && searchParams.get('tenantId')
-      ? searchParams.get('tenantId')!
-      : auth.tenantId;
+    const tenantId = targetTenant(auth, searchParams.get('tenantId'));
 
     // 2. Summary totals
     const summaryResult = await db.execute(sql`
@@ -47,7 +52,9 @@ export async function GET(request: NextRequest) {
         ROUND(COALESCE(SUM(estimated_cost_usd), 0)::numeric, 6) AS total_cost_usd,
         ROUND(AVG(processing_time_ms)::numeric, 0)::int AS avg_processing_ms,
         COUNT(*) FILTER (WHERE passed = true)::int AS passed_count,
-        COUNT(*) FILTER (WHERE passed = false)::int AS failed_count
+        COUNT(*) FILTER (WHERE passed = false)::int AS failed_count,
+        ROUND(AVG(score)::numeric, 1) AS avg_score,
+        ROUND(MIN(score)::numeric, 1) AS min_score
       FROM verifications
       WHERE tenant_id = ${tenantId}
         AND created_at >= ${fromDate}::timestamptz
@@ -62,7 +69,8 @@ export async function GET(request: NextRequest) {
         COALESCE(SUM(input_tokens), 0)::int AS input_tokens,
         COALESCE(SUM(output_tokens), 0)::int AS output_tokens,
         ROUND(COALESCE(SUM(estimated_cost_usd), 0)::numeric, 6) AS cost_usd,
-        ROUND(AVG(processing_time_ms)::numeric, 0)::int AS avg_ms
+        ROUND(AVG(processing_time_ms)::numeric, 0)::int AS avg_ms,
+        ROUND(AVG(score)::numeric, 1) AS avg_score
       FROM verifications
       WHERE tenant_id = ${tenantId}
         AND created_at >= ${fromDate}::timestamptz
@@ -92,7 +100,8 @@ export async function GET(request: NextRequest) {
         COALESCE(SUM(output_tokens), 0)::int AS output_tokens,
         ROUND(COALESCE(SUM(estimated_cost_usd), 0)::numeric, 6) AS cost_usd,
         COUNT(*) FILTER (WHERE passed = true)::int AS passed,
-        COUNT(*) FILTER (WHERE passed = false)::int AS failed
+        COUNT(*) FILTER (WHERE passed = false)::int AS failed,
+        ROUND(AVG(score)::numeric, 1) AS avg_score
       FROM verifications
       WHERE tenant_id = ${tenantId}
         AND created_at >= ${fromDate}::timestamptz
@@ -101,9 +110,9 @@ export async function GET(request: NextRequest) {
       ORDER BY period ASC
     `);
 
-    // 5. All tenants summary (admin only)
+    // 5. All tenants summary (tenants:admin only)
     let allTenants = null;
-    if (auth.role === 'admin' && !searchParams.get('tenantId')) {
+    if (hasPermission(auth, 'tenants:admin') && !searchParams.get('tenantId')) {
       allTenants = await db.execute(sql`
         SELECT
           t.id AS tenant_id,
@@ -114,7 +123,8 @@ export async function GET(request: NextRequest) {
           COALESCE(SUM(v.output_tokens), 0)::int AS output_tokens,
           ROUND(COALESCE(SUM(v.estimated_cost_usd), 0)::numeric, 6) AS cost_usd,
           COUNT(v.id) FILTER (WHERE v.passed = true)::int AS passed,
-          COUNT(v.id) FILTER (WHERE v.passed = false)::int AS failed
+          COUNT(v.id) FILTER (WHERE v.passed = false)::int AS failed,
+          ROUND(AVG(v.score)::numeric, 1) AS avg_score
         FROM tenants t
         LEFT JOIN verifications v ON v.tenant_id = t.id
           AND v.created_at >= ${fromDate}::timestamptz
@@ -125,6 +135,9 @@ export async function GET(request: NextRequest) {
       `);
     }
 
+    // 6. Monthly budget (current month, whatever the range)
+    const budget = await getBudgetStatus(tenantId);
+
     const summary = summaryResult.rows[0] ?? {};
 
     return NextResponse.json(
@@ -134,6 +147,7 @@ export async function GET(request: NextRequest) {
           period: { from: fromDate, to: toDate, groupBy },
           tenantId,
           summary,
+          budget,
           byModel: byModel.rows,
           timeSeries: timeSeries.rows,
           ...(allTenants ? { allTenants: allTenants.rows } : {}),
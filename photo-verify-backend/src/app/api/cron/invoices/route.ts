@@ -0,0 +1,52 @@
+// ============================================
+// GET /api/cron/invoices - Monthly Invoice Run
+// ============================================
+// Invoked on the 1st to 3rd of each month by Vercel Cron (see
+// vercel.json). Issues last month's invoice for every active tenant that
+// used the service; tenants already invoiced are left alone, so the
+// later runs pick up whatever did not fit in the time budget.
+// Protected by CRON_SECRET.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { generateMonthlyInvoices, previousMonth } from '@/lib/services/invoices';
+import type { ApiResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Invalid cron secret' },
+      } satisfies ApiResponse,
+      { status: 401 }
+    );
+  }
+
+  try {
+    const counts = await generateMonthlyInvoices(previousMonth());
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: counts,
+        meta: { tenantId: 'system', requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`[cron:invoices] Error:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Invoice run failed' },
+      } satisfies ApiResponse,
+      { status: 500 }
+    );
+  }
+}
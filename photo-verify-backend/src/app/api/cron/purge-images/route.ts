@@ -0,0 +1,51 @@
+// ============================================
+// GET /api/cron/purge-images - Image Retention Purge
+// ============================================
+// Invoked daily by Vercel Cron (see vercel.json). Deletes the photos of
+// verifications past their tenant's retention limits
+// (tenants.config.imageRetention). Whatever does not fit in one run is
+// picked up by the next. Protected by CRON_SECRET.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { purgeExpiredImages } from '@/lib/services/retention';
+import type { ApiResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Invalid cron secret' },
+      } satisfies ApiResponse,
+      { status: 401 }
+    );
+  }
+
+  try {
+    const counts = await purgeExpiredImages();
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: counts,
+        meta: { tenantId: 'system', requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`[cron:purge-images] Error:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Image purge failed' },
+      } satisfies ApiResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+// ============================================
+// GET /api/cron/verify-jobs - Async Verification Worker
+// ============================================
+// Invoked by Vercel Cron (see vercel.json). Runs queued verification
+// jobs (VERIFY_JOB_DRIVER=postgres) and retries jobs whose inline run
+// died. Not tenant-scoped, so it is protected by CRON_SECRET instead
+// of a tenant JWT.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { processQueuedJobs } from '@/lib/services/jobs';
+import type { ApiResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Invalid cron secret' },
+      } satisfies ApiResponse,
+      { status: 401 }
+    );
+  }
+
+  try {
+    const counts = await processQueuedJobs();
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: counts,
+        meta: { tenantId: 'system', requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`[cron:verify-jobs] Error:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Verification job run failed' },
+      } satisfies ApiResponse,
+      { status: 500 }
+    );
+  }
+}
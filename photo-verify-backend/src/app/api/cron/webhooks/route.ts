@@ -0,0 +1,50 @@
+// ============================================
+// GET /api/cron/webhooks - Webhook Retry Worker
+// ============================================
+// Invoked by Vercel Cron (see vercel.json). Attempts every pending
+// delivery whose backoff has elapsed. Not tenant-scoped, so it is
+// protected by CRON_SECRET instead of a tenant JWT.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { processDueDeliveries } from '@/lib/services/webhooks';
+import type { ApiResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Invalid cron secret' },
+      } satisfies ApiResponse,
+      { status: 401 }
+    );
+  }
+
+  try {
+    const counts = await processDueDeliveries();
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: counts,
+        meta: { tenantId: 'system', requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`[cron:webhooks] Error:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Webhook retry run failed' },
+      } satisfies ApiResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -14,7 +14,10 @@ export async function GET() {
     postgres: 'unchecked',
     kv: 'unchecked',
     openai: process.env.OPENAI_API_KEY ? 'configured' : 'missing',
+    local_vision: process.env.LOCAL_VISION_BASE_URL ? 'configured' : 'not_configured',
     blob: process.env.BLOB_READ_WRITE_TOKEN ? 'configured' : 'missing',
+    storage: process.env.STORAGE_DRIVER || 'vercel-blob',
+    rate_limit: process.env.RATE_LIMIT_BACKEND || (process.env.KV_REST_API_URL ? 'kv' : 'memory'),
   };
 
   // Check Postgres
@@ -45,7 +48,9 @@ export async function GET() {
     checks.kv = 'disconnected';
   }
 
-  const allHealthy = checks.postgres !== 'disconnected' && checks.openai !== 'missing';
+  // A self-hosted vision server can stand in for OpenAI (air-gapped deployments)
+  const visionAvailable = checks.openai !== 'missing' || checks.local_vision === 'configured';
+  const allHealthy = checks.postgres !== 'disconnected' && visionAvailable;
 
   return NextResponse.json(checks, {
     status: allHealthy ? 200 : 503,
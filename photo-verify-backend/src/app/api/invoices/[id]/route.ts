@@ -0,0 +1,93 @@
+// ============================================
+// GET /api/invoices/[id] - One Invoice
+// ============================================
+// ?format=json (default) → invoice + lines
+// ?format=csv            → one row per line plus a total row (download)
+// ?format=html           → printable page; print / "Save as PDF" for a PDF
+// Admins may read any tenant's invoice; everyone else only their own.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, isAuthError, requirePermission } from '@/lib/auth/middleware';
+import { hasPermission } from '@/lib/auth/permissions';
+import { getInvoice, invoiceToCsv, invoiceToHtml } from '@/lib/services/invoices';
+import type { ApiResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const FORMATS = ['json', 'csv', 'html'] as const;
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  const requestId = crypto.randomUUID();
+
+  const auth = await authenticate(request);
+  if (isAuthError(auth)) return auth;
+
+  const permissionError = requirePermission(auth, 'invoices:read');
+  if (permissionError) return permissionError;
+
+  const format = new URL(request.url).searchParams.get('format') ?? 'json';
+  if (!FORMATS.includes(format as typeof FORMATS[number])) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: `Invalid format: ${format}. Use one of: ${FORMATS.join(', ')}` },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 400 }
+    );
+  }
+
+  try {
+    const invoice = await getInvoice(hasPermission(auth, 'tenants:admin') ? null : auth.tenantId, id);
+
+    if (!invoice) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'NOT_FOUND', message: `Invoice ${id} not found` },
+          meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+        } satisfies ApiResponse,
+        { status: 404 }
+      );
+    }
+
+    if (format === 'csv') {
+      return new NextResponse(invoiceToCsv(invoice), {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${invoice.number}.csv"`,
+        },
+      });
+    }
+
+    if (format === 'html') {
+      return new NextResponse(invoiceToHtml(invoice), {
+        status: 200,
+        headers: { 'Content-Type': 'text/html; charset=utf-8' },
+      });
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: invoice,
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`[invoices:get] Error for tenant ${auth.tenantId}:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch invoice' },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 500 }
+    );
+  }
+}
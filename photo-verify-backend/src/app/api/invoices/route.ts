@@ -0,0 +1,115 @@
+// ============================================
+// /api/invoices - Monthly Invoices
+// ============================================
+// GET  → the tenant's invoices, newest first (?tenantId=xxx, tenants:admin only)
+// POST → issue the invoice of a closed month: { month: "YYYY-MM", tenantId? }
+//        201 when issued, 200 with the stored one if it already exists
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, isAuthError, requirePermission } from '@/lib/auth/middleware';
+import { targetTenant } from '@/lib/auth/permissions';
+import { generateInvoice, listInvoices } from '@/lib/services/invoices';
+import { CreateInvoiceSchema, type ApiResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+// --- GET /api/invoices - List invoices ---
+export async function GET(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  const auth = await authenticate(request);
+  if (isAuthError(auth)) return auth;
+
+  const permissionError = requirePermission(auth, 'invoices:read');
+  if (permissionError) return permissionError;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    // Only allow listing other tenants if admin
+    const tenantId = targetTenant(auth, searchParams.get('tenantId'));
+
+    const invoices = await listInvoices(tenantId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: invoices,
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`[invoices:list] Error for tenant ${auth.tenantId}:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch invoices' },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// --- POST /api/invoices - Issue a month's invoice (admin only) ---
+export async function POST(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  const auth = await authenticate(request);
+  if (isAuthError(auth)) return auth;
+
+  const permissionError = requirePermission(auth, 'invoices:issue');
+  if (permissionError) return permissionError;
+
+  try {
+    const body = await request.json();
+    const parsed = CreateInvoiceSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid invoice request',
+            details: parsed.error.flatten(),
+          },
+          meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+        } satisfies ApiResponse,
+        { status: 400 }
+      );
+    }
+
+    const outcome = await generateInvoice(targetTenant(auth, parsed.data.tenantId), parsed.data.month, {
+      issuedBy: auth.userId,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { ...outcome!.invoice, created: outcome!.created },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: outcome!.created ? 201 : 200 }
+    );
+  } catch (error) {
+    console.error(`[invoices:create] Error for tenant ${auth.tenantId}:`, error);
+
+    const message = error instanceof Error ? error.message : 'Failed to issue invoice';
+    const status = message.includes('not found') ? 404
+      : message.includes('not closed') ? 409
+      : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: status === 404 ? 'NOT_FOUND' : status === 409 ? 'PERIOD_OPEN' : 'INTERNAL_ERROR',
+          message,
+        },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status }
+    );
+  }
+}
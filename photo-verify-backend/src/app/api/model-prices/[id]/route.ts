@@ -0,0 +1,63 @@
+// ============================================
+// DELETE /api/model-prices/[id] - Withdraw a Scheduled Price
+// ============================================
+// Only prices not yet in effect can be deleted; the range they closed
+// runs on again. A price already in effect is replaced with a new one.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, isAuthError, requirePermission } from '@/lib/auth/middleware';
+import { deleteModelPrice } from '@/lib/services/pricing';
+import type { ApiResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  const requestId = crypto.randomUUID();
+
+  const auth = await authenticate(request);
+  if (isAuthError(auth)) return auth;
+
+  const permissionError = requirePermission(auth, 'model-prices:admin');
+  if (permissionError) return permissionError;
+
+  try {
+    const deleted = await deleteModelPrice(auth, id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'NOT_FOUND', message: `Model price ${id} not found` },
+          meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+        } satisfies ApiResponse,
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { id, deleted: true },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`[model-prices:delete] Error:`, error);
+
+    const message = error instanceof Error ? error.message : 'Failed to delete model price';
+    const status = message.includes('already in effect') ? 409 : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: status === 409 ? 'CONFLICT' : 'INTERNAL_ERROR', message },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+// ============================================
+// /api/model-prices - Model Price Table (admin)
+// ============================================
+// GET  → prices (filters: ?model, ?tenantId, ?at=<ISO date> in effect then)
+// POST → add a price; an open-ended one closes the price it replaces
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, isAuthError, requirePermission } from '@/lib/auth/middleware';
+import { createModelPrice, listModelPrices } from '@/lib/services/pricing';
+import { CreateModelPriceSchema, type ApiResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+// --- GET /api/model-prices - List prices ---
+export async function GET(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  const auth = await authenticate(request);
+  if (isAuthError(auth)) return auth;
+
+  const permissionError = requirePermission(auth, 'model-prices:admin');
+  if (permissionError) return permissionError;
+
+  const { searchParams } = new URL(request.url);
+  const at = searchParams.get('at');
+  if (at && Number.isNaN(Date.parse(at))) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: `Invalid date: ${at}` },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 400 }
+    );
+  }
+
+  try {
+    const prices = await listModelPrices({
+      model: searchParams.get('model') ?? undefined,
+      tenantId: searchParams.get('tenantId') ?? undefined,
+      at: at ? new Date(at) : undefined,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: prices,
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`[model-prices:list] Error:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch model prices' },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// --- POST /api/model-prices - Add a price ---
+export async function POST(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  const auth = await authenticate(request);
+  if (isAuthError(auth)) return auth;
+
+  const permissionError = requirePermission(auth, 'model-prices:admin');
+  if (permissionError) return permissionError;
+
+  try {
+    const body = await request.json();
+    const parsed = CreateModelPriceSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid model price',
+            details: parsed.error.flatten(),
+          },
+          meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+        } satisfies ApiResponse,
+        { status: 400 }
+      );
+    }
+
+    const price = await createModelPrice(auth, parsed.data);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: price,
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error(`[model-prices:create] Error:`, error);
+
+    const message = error instanceof Error ? error.message : 'Failed to add model price';
+    const status = message.startsWith('Price overlaps') ? 409 : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: status === 409 ? 'CONFLICT' : 'INTERNAL_ERROR', message },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status }
+    );
+  }
+}
@@ -0,0 +1,134 @@
+// ============================================
+// /api/reviews/[id]/claim - Review Lease
+// ============================================
+// POST   → claim (or renew) a time-boxed lease on a pending item
+// DELETE → release the caller's lease
+// Only one reviewer can hold a live lease; expired leases can be taken over.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, isAuthError, requirePermission, requireUserId } from '@/lib/auth/middleware';
+import { claimReview, releaseReview } from '@/lib/services/reviews';
+import { ClaimReviewSchema, type ApiResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// --- POST /api/reviews/[id]/claim - Claim a review item ---
+export async function POST(request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  const requestId = crypto.randomUUID();
+
+  const auth = await authenticate(request);
+  if (isAuthError(auth)) return auth;
+
+  const permissionError = requirePermission(auth, 'verifications:review');
+  if (permissionError) return permissionError;
+
+  const userError = requireUserId(auth);
+  if (userError) return userError;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parsed = ClaimReviewSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid claim request',
+            details: parsed.error.flatten(),
+          },
+          meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+        } satisfies ApiResponse,
+        { status: 400 }
+      );
+    }
+
+    const claimed = await claimReview({ ...auth, userId: auth.userId! }, id, parsed.data.leaseSeconds);
+
+    if (!claimed) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'CONFLICT',
+            message: `Review ${id} is not pending, does not exist, or is claimed by another reviewer`,
+          },
+          meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+        } satisfies ApiResponse,
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: claimed,
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`[reviews:claim] Error:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to claim review' },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// --- DELETE /api/reviews/[id]/claim - Release a claim ---
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  const requestId = crypto.randomUUID();
+
+  const auth = await authenticate(request);
+  if (isAuthError(auth)) return auth;
+
+  const permissionError = requirePermission(auth, 'verifications:review');
+  if (permissionError) return permissionError;
+
+  const userError = requireUserId(auth);
+  if (userError) return userError;
+
+  try {
+    const released = await releaseReview({ ...auth, userId: auth.userId! }, id);
+
+    if (!released) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'CONFLICT', message: `You do not hold a claim on review ${id}` },
+          meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+        } satisfies ApiResponse,
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: released,
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`[reviews:release] Error:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to release review' },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 500 }
+    );
+  }
+}
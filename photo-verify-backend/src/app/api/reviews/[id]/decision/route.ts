@@ -0,0 +1,119 @@
+// ============================================
+// POST /api/reviews/[id]/decision - Approve / Reject
+// ============================================
+// The caller must hold a live claim on the item.
+// Body: { decision: 'approve' | 'reject', overrides?: [...], notes? }
+// Writes a new verification (mode: 'manual') with the per-criterion
+// overrides applied, moves the task out of manual_review, and audits it.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, isAuthError, requirePermission, requireUserId } from '@/lib/auth/middleware';
+import { getReview, holdsClaim, resolveReview } from '@/lib/services/reviews';
+import { withSignedImages } from '@/lib/services/storage';
+import { ReviewDecisionSchema, type ApiResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  const requestId = crypto.randomUUID();
+
+  const auth = await authenticate(request);
+  if (isAuthError(auth)) return auth;
+
+  const permissionError = requirePermission(auth, 'verifications:review');
+  if (permissionError) return permissionError;
+
+  const userError = requireUserId(auth);
+  if (userError) return userError;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = ReviewDecisionSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid review decision',
+            details: parsed.error.flatten(),
+          },
+          meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+        } satisfies ApiResponse,
+        { status: 400 }
+      );
+    }
+
+    const row = await getReview(auth, id);
+
+    if (!row) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'NOT_FOUND', message: `Review ${id} not found` },
+          meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+        } satisfies ApiResponse,
+        { status: 404 }
+      );
+    }
+
+    if (row.item.status !== 'pending' || !holdsClaim(row.item, auth)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'CONFLICT',
+            message: row.item.status !== 'pending'
+              ? `Review ${id} is already ${row.item.status}`
+              : `Claim review ${id} before deciding (POST /api/reviews/${id}/claim)`,
+          },
+          meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+        } satisfies ApiResponse,
+        { status: 409 }
+      );
+    }
+
+    const resolved = await resolveReview({ ...auth, userId: auth.userId! }, row.item, row.verification, parsed.data);
+
+    if (!resolved) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'CONFLICT', message: `Claim on review ${id} expired or was taken over` },
+          meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+        } satisfies ApiResponse,
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { ...resolved, verification: await withSignedImages(resolved.verification) },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`[reviews:decision] Error:`, error);
+
+    const message = error instanceof Error ? error.message : 'Failed to record review decision';
+    const status = message.startsWith('Unknown criterion') ? 400 : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: status === 400 ? 'VALIDATION_ERROR' : 'INTERNAL_ERROR',
+          message,
+        },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status }
+    );
+  }
+}
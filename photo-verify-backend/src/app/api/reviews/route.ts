@@ -0,0 +1,105 @@
+// ============================================
+// GET /api/reviews - Manual Review Queue
+// ============================================
+// Lists verifications awaiting (or resolved by) a human reviewer.
+//
+// Query params:
+//   ?status=pending|approved|rejected   (default: pending)
+//   ?reason=low_confidence|criteria_failed|low_score|provider_error|duplicate_photo|integrity_check
+//   ?taskId=xxx / ?externalTaskId=xxx
+//   ?claim=mine|unclaimed|claimed
+//   ?limit=20&offset=0
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, isAuthError, requirePermission } from '@/lib/auth/middleware';
+import { listReviews, type ReviewListFilters } from '@/lib/services/reviews';
+import { withSignedImages } from '@/lib/services/storage';
+import { REVIEW_STATUSES, type ApiResponse, type ReviewReason, type ReviewStatus } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+const REVIEW_REASONS: ReviewReason[] = [
+  'low_confidence',
+  'criteria_failed',
+  'low_score',
+  'provider_error',
+  'duplicate_photo',
+  'integrity_check',
+];
+const CLAIM_FILTERS: Array<NonNullable<ReviewListFilters['claim']>> = ['mine', 'unclaimed', 'claimed'];
+
+export async function GET(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  // 1. Authenticate and check the permission
+  const auth = await authenticate(request);
+  if (isAuthError(auth)) return auth;
+
+  const permissionError = requirePermission(auth, 'verifications:read');
+  if (permissionError) return permissionError;
+
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const status = searchParams.get('status') || 'pending';
+    const reason = searchParams.get('reason');
+    const claim = searchParams.get('claim');
+
+    if (
+      !REVIEW_STATUSES.includes(status as ReviewStatus)
+      || (reason && !REVIEW_REASONS.includes(reason as ReviewReason))
+      || (claim && !CLAIM_FILTERS.includes(claim as ReviewListFilters['claim'] & string))
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid filter',
+            details: { status: REVIEW_STATUSES, reason: REVIEW_REASONS, claim: CLAIM_FILTERS },
+          },
+          meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+        } satisfies ApiResponse,
+        { status: 400 }
+      );
+    }
+
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20', 10), 100);
+    const offset = parseInt(searchParams.get('offset') || '0', 10);
+
+    const rows = await listReviews(auth, {
+      status: status as ReviewStatus,
+      reason: (reason as ReviewReason) || undefined,
+      taskId: searchParams.get('taskId') || undefined,
+      externalTaskId: searchParams.get('externalTaskId') || undefined,
+      claim: (claim as ReviewListFilters['claim']) || undefined,
+      limit,
+      offset,
+    });
+    const reviews = await Promise.all(
+      rows.map(async (row) => ({ ...row, verification: await withSignedImages(row.verification) }))
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          reviews,
+          pagination: { limit, offset, count: reviews.length },
+        },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`[reviews:list] Error for tenant ${auth.tenantId}:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch review queue' },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 500 }
+    );
+  }
+}
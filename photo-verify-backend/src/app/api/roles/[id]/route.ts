@@ -0,0 +1,136 @@
+// ============================================
+// /api/roles/[id] - One Custom Role
+// ============================================
+// PUT    → change description / permissions (holders get them on their next request)
+// DELETE → remove the role; 409 while API keys still hold it
+// Built-in roles are defined in code and cannot be changed here.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, isAuthError, requirePermission } from '@/lib/auth/middleware';
+import { targetTenant } from '@/lib/auth/permissions';
+import { deleteRole, updateRole } from '@/lib/services/roles';
+import { UpdateRoleSchema, type ApiResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// --- PUT /api/roles/[id] - Update a custom role ---
+export async function PUT(request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  const requestId = crypto.randomUUID();
+
+  const auth = await authenticate(request);
+  if (isAuthError(auth)) return auth;
+
+  const permissionError = requirePermission(auth, 'roles:admin');
+  if (permissionError) return permissionError;
+
+  try {
+    const body = await request.json();
+    const parsed = UpdateRoleSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid role',
+            details: parsed.error.flatten(),
+          },
+          meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+        } satisfies ApiResponse,
+        { status: 400 }
+      );
+    }
+
+    const tenantId = targetTenant(auth, new URL(request.url).searchParams.get('tenantId'));
+    const role = await updateRole(auth, tenantId, id, parsed.data);
+
+    if (!role) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'NOT_FOUND', message: `Role ${id} not found` },
+          meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+        } satisfies ApiResponse,
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: role,
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`[roles:update] Error:`, error);
+
+    const message = error instanceof Error ? error.message : 'Failed to update role';
+    const status = message.startsWith('Cannot grant') ? 403 : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: status === 403 ? 'FORBIDDEN' : 'INTERNAL_ERROR', message },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status }
+    );
+  }
+}
+
+// --- DELETE /api/roles/[id] - Delete a custom role ---
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  const requestId = crypto.randomUUID();
+
+  const auth = await authenticate(request);
+  if (isAuthError(auth)) return auth;
+
+  const permissionError = requirePermission(auth, 'roles:admin');
+  if (permissionError) return permissionError;
+
+  try {
+    const tenantId = targetTenant(auth, new URL(request.url).searchParams.get('tenantId'));
+    const deleted = await deleteRole(auth, tenantId, id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'NOT_FOUND', message: `Role ${id} not found` },
+          meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+        } satisfies ApiResponse,
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { id, deleted: true },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`[roles:delete] Error:`, error);
+
+    const message = error instanceof Error ? error.message : 'Failed to delete role';
+    const status = message.includes('is held by') ? 409 : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: status === 409 ? 'CONFLICT' : 'INTERNAL_ERROR', message },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+// ============================================
+// /api/roles - Roles of a Tenant
+// ============================================
+// GET  → built-in roles and the tenant's custom roles (?tenantId)
+// POST → create a custom role: { name, description?, permissions[] }
+// A role can only grant permissions the caller holds (403 otherwise).
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, isAuthError, requirePermission } from '@/lib/auth/middleware';
+import { targetTenant } from '@/lib/auth/permissions';
+import { createRole, listRoles } from '@/lib/services/roles';
+import { CreateRoleSchema, type ApiResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+// --- GET /api/roles - List roles ---
+export async function GET(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  const auth = await authenticate(request);
+  if (isAuthError(auth)) return auth;
+
+  const permissionError = requirePermission(auth, 'roles:admin');
+  if (permissionError) return permissionError;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const roles = await listRoles(targetTenant(auth, searchParams.get('tenantId')));
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: roles,
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`[roles:list] Error:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch roles' },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// --- POST /api/roles - Create a custom role ---
+export async function POST(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  const auth = await authenticate(request);
+  if (isAuthError(auth)) return auth;
+
+  const permissionError = requirePermission(auth, 'roles:admin');
+  if (permissionError) return permissionError;
+
+  try {
+    const body = await request.json();
+    const parsed = CreateRoleSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid role',
+            details: parsed.error.flatten(),
+          },
+          meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+        } satisfies ApiResponse,
+        { status: 400 }
+      );
+    }
+
+    const role = await createRole(auth, targetTenant(auth, parsed.data.tenantId), parsed.data);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: role,
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error(`[roles:create] Error:`, error);
+
+    const message = error instanceof Error ? error.message : 'Failed to create role';
+    const status = message.startsWith('Cannot grant') ? 403 : message.endsWith('already exists') ? 409 : 500;
+    const code = status === 403 ? 'FORBIDDEN' : status === 409 ? 'CONFLICT' : 'INTERNAL_ERROR';
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code, message },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status }
+    );
+  }
+}
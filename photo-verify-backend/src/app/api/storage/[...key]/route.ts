@@ -0,0 +1,72 @@
+// ============================================
+// GET /api/storage/[...key] - Signed Photo Download
+// ============================================
+// Serves a stored photo to whoever holds a signed URL minted by the
+// storage service (vercel-blob and local drivers; s3 presigns its own).
+// The signature is the credential, so there is no tenant JWT here:
+// an <img src> can load it. Expired or tampered URLs get 403.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getStorageDriver, verifyProxySignature } from '@/lib/services/storage';
+import type { ApiResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ key: string[] }> };
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const { key: segments } = await context.params;
+  const key = segments.join('/');
+  const requestId = crypto.randomUUID();
+  const meta = { tenantId: segments[0] ?? 'unknown', requestId, timestamp: new Date().toISOString() };
+
+  const { searchParams } = new URL(request.url);
+  const expires = searchParams.get('expires');
+
+  if (!verifyProxySignature(key, expires, searchParams.get('signature'))) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'FORBIDDEN', message: 'Invalid or expired signed URL' },
+        meta,
+      } satisfies ApiResponse,
+      { status: 403 }
+    );
+  }
+
+  try {
+    const object = await getStorageDriver().get(key);
+
+    if (!object) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Image not found' },
+          meta,
+        } satisfies ApiResponse,
+        { status: 404 }
+      );
+    }
+
+    // Browsers may cache it, but not past the URL's expiry
+    const maxAge = Math.max(0, Number(expires) - Math.floor(Date.now() / 1000));
+    return new NextResponse(new Uint8Array(object.body), {
+      status: 200,
+      headers: {
+        'Content-Type': object.contentType,
+        'Content-Length': String(object.body.length),
+        'Cache-Control': `private, max-age=${maxAge}`,
+      },
+    });
+  } catch (error) {
+    console.error(`[storage] Error reading ${key}:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to read image' },
+        meta,
+      } satisfies ApiResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -5,7 +5,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { eq, and } from 'drizzle-orm';
 import { getDb, schema } from '@/lib/db';
-import { authenticate, isAuthError, requireRole } from '@/lib/auth/middleware';
+import { authenticate, isAuthError, requirePermission } from '@/lib/auth/middleware';
+import { ownRowsOf } from '@/lib/auth/permissions';
+import { recordAudit } from '@/lib/services/audit';
+import { resolveTemplate } from '@/lib/services/templates';
+import { withSignedImages } from '@/lib/services/storage';
+import { emitWebhookEvent } from '@/lib/services/webhooks';
 import { UpdateTaskSchema, type ApiResponse } from '@/lib/types';
 
 export const runtime = 'nodejs';
@@ -20,13 +25,22 @@ export async function GET(request: NextRequest, context: RouteContext) {
   const auth = await authenticate(request);
   if (isAuthError(auth)) return auth;
 
+  const permissionError = requirePermission(auth, 'tasks:read');
+  if (permissionError) return permissionError;
+
   try {
     const db = getDb();
 
+    // A rep sees only the tasks assigned to it, and its own verifications of them
+    const owner = ownRowsOf(auth);
     const [task] = await db
       .select()
       .from(schema.tasks)
-      .where(and(eq(schema.tasks.id, id), eq(schema.tasks.tenantId, auth.tenantId)))
+      .where(and(
+        eq(schema.tasks.id, id),
+        eq(schema.tasks.tenantId, auth.tenantId),
+        owner !== null ? eq(schema.tasks.assignedTo, owner) : undefined
+      ))
       .limit(1);
 
     if (!task) {
@@ -44,12 +58,16 @@ export async function GET(request: NextRequest, context: RouteContext) {
     const taskVerifications = await db
       .select()
       .from(schema.verifications)
-      .where(and(eq(schema.verifications.taskId, id), eq(schema.verifications.tenantId, auth.tenantId)));
+      .where(and(
+        eq(schema.verifications.taskId, id),
+        eq(schema.verifications.tenantId, auth.tenantId),
+        owner !== null ? eq(schema.verifications.submittedBy, owner) : undefined
+      ));
 
     return NextResponse.json(
       {
         success: true,
-        data: { ...task, verifications: taskVerifications },
+        data: { ...task, verifications: await Promise.all(taskVerifications.map(withSignedImages)) },
         meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
       } satisfies ApiResponse,
       { status: 200 }
@@ -75,8 +93,8 @@ export async function PUT(request: NextRequest, context: RouteContext) {
   const auth = await authenticate(request);
   if (isAuthError(auth)) return auth;
 
-  const roleError = requireRole(auth, 'admin', 'operator');
-  if (roleError) return roleError;
+  const permissionError = requirePermission(auth, 'tasks:write');
+  if (permissionError) return permissionError;
 
   try {
     const body = await request.json();
@@ -99,12 +117,32 @@ export async function PUT(request: NextRequest, context: RouteContext) {
 
     const db = getDb();
 
+    // Previous state, for the audit diff and to notify webhooks of manual status changes
+    const [previous] = await db
+      .select()
+      .from(schema.tasks)
+      .where(and(eq(schema.tasks.id, id), eq(schema.tasks.tenantId, auth.tenantId)))
+      .limit(1);
+
     // Build update object (only include provided fields)
     const updateData: Record<string, unknown> = { updatedAt: new Date() };
     if (parsed.data.title) updateData.title = parsed.data.title;
     if (parsed.data.description !== undefined) updateData.description = parsed.data.description;
     if (parsed.data.status) updateData.status = parsed.data.status;
-    if (parsed.data.photoVerificationConfig) updateData.photoVerificationConfig = parsed.data.photoVerificationConfig;
+    if (parsed.data.photoVerificationConfig) {
+      // An inline config detaches the task from its template
+      updateData.photoVerificationConfig = parsed.data.photoVerificationConfig;
+      updateData.templateId = null;
+      updateData.templateVersion = null;
+      updateData.configOverrides = null;
+    }
+    if (parsed.data.template) {
+      const template = await resolveTemplate(auth, parsed.data.template);
+      updateData.photoVerificationConfig = template.config;
+      updateData.templateId = template.templateId;
+      updateData.templateVersion = template.version;
+      updateData.configOverrides = parsed.data.template.overrides ?? null;
+    }
     if (parsed.data.assignedTo !== undefined) updateData.assignedTo = parsed.data.assignedTo;
     if (parsed.data.customerId !== undefined) updateData.customerId = parsed.data.customerId;
     if (parsed.data.dueDate) updateData.dueDate = new Date(parsed.data.dueDate);
@@ -127,6 +165,25 @@ export async function PUT(request: NextRequest, context: RouteContext) {
       );
     }
 
+    await recordAudit({
+      tenantId: auth.tenantId,
+      action: 'task_updated',
+      entityType: 'task',
+      entityId: id,
+      userId: auth.userId,
+      before: previous,
+      after: updated,
+    });
+
+    if (previous && previous.status !== updated.status) {
+      await emitWebhookEvent(auth.tenantId, 'task.status_changed', {
+        taskId: id,
+        previousStatus: previous.status,
+        status: updated.status,
+        changedBy: auth.userId,
+      });
+    }
+
     return NextResponse.json(
       {
         success: true,
@@ -137,13 +194,23 @@ export async function PUT(request: NextRequest, context: RouteContext) {
     );
   } catch (error) {
     console.error(`[tasks:update] Error:`, error);
+
+    // Template resolution errors are the caller's
+    const message = error instanceof Error ? error.message : '';
+    const status = message.startsWith('Template') && message.includes('not found') ? 404
+      : message.startsWith('Template') || message.startsWith('Invalid template') ? 400
+      : 500;
+
     return NextResponse.json(
       {
         success: false,
-        error: { code: 'INTERNAL_ERROR', message: 'Failed to update task' },
+        error: {
+          code: status === 404 ? 'NOT_FOUND' : status === 400 ? 'VALIDATION_ERROR' : 'INTERNAL_ERROR',
+          message: status === 500 ? 'Failed to update task' : message,
+        },
         meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
       } satisfies ApiResponse,
-      { status: 500 }
+      { status }
     );
   }
 }
@@ -156,8 +223,8 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
   const auth = await authenticate(request);
   if (isAuthError(auth)) return auth;
 
-  const roleError = requireRole(auth, 'admin');
-  if (roleError) return roleError;
+  const permissionError = requirePermission(auth, 'tasks:delete');
+  if (permissionError) return permissionError;
 
   try {
     const db = getDb();
@@ -179,12 +246,13 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
     }
 
     // Audit log
-    await db.insert(schema.auditLog).values({
+    await recordAudit({
       tenantId: auth.tenantId,
       action: 'task_deleted',
       entityType: 'task',
       entityId: id,
       userId: auth.userId,
+      before: deleted,
     });
 
     return NextResponse.json(
@@ -0,0 +1,177 @@
+// ============================================
+// POST /api/tasks/bulk - Bulk Task Creation / CSV Import
+// ============================================
+// Creates up to MAX_IMPORT_ROWS tasks in one request, sent as:
+//   application/json    → { tasks: [...], template?, idempotencyKey? } (or a bare array)
+//   text/csv            → the file as the body (?template=templateId[@version])
+//   multipart/form-data → "file" (.csv or .json) and an optional "template" field
+// Answers 200 with a report per row: created, existing (imported
+// before under the same idempotency key) or failed, with its errors.
+// Sending the same rows again creates nothing new, whatever their order.
+// The body is limited to MAX_BODY_BYTES as read, not as declared.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, isAuthError, requirePermission } from '@/lib/auth/middleware';
+import { rateLimitMiddleware } from '@/lib/rate-limit';
+import { contentImportKey, csvToRows, importTasks, jsonToRows, type ImportRow } from '@/lib/services/task-import';
+import { BulkCreateTasksSchema, TemplateReferenceSchema, type ApiResponse, type TemplateReference } from '@/lib/types';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+function tooLarge(tenantId: string, requestId: string): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: { code: 'PAYLOAD_TOO_LARGE', message: `Imports are limited to ${MAX_BODY_BYTES / 1024 / 1024} MB` },
+      meta: { tenantId, requestId, timestamp: new Date().toISOString() },
+    } satisfies ApiResponse,
+    { status: 413 }
+  );
+}
+
+// --- The body, or null once it goes past the limit (content-length may be missing or wrong) ---
+async function readBody(request: NextRequest, limit: number): Promise<Uint8Array<ArrayBuffer> | null> {
+  if (!request.body) return new Uint8Array();
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
+
+function invalidImport(tenantId: string, requestId: string, message: string, details?: unknown): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message, ...(details ? { details } : {}) },
+      meta: { tenantId, requestId, timestamp: new Date().toISOString() },
+    } satisfies ApiResponse,
+    { status: 400 }
+  );
+}
+
+export async function POST(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  // 1. Authenticate and check the permission
+  const auth = await authenticate(request);
+  if (isAuthError(auth)) return auth;
+
+  const permissionError = requirePermission(auth, 'tasks:write');
+  if (permissionError) return permissionError;
+
+  // 2. Rate limit
+  const rateLimited = await rateLimitMiddleware(auth.tenantId, 'tasks:import', {
+    maxRequests: 10,
+    windowSeconds: 60,
+  });
+  if (rateLimited) return rateLimited;
+
+  // Refused early when declared too large; the read below enforces it either way
+  if (Number(request.headers.get('content-length') ?? 0) > MAX_BODY_BYTES) return tooLarge(auth.tenantId, requestId);
+
+  const invalid = (message: string, details?: unknown) => invalidImport(auth.tenantId, requestId, message, details);
+
+  try {
+    // 3. Read the rows: JSON body, CSV body, or an uploaded file
+    const raw = await readBody(request, MAX_BODY_BYTES);
+    if (!raw) return tooLarge(auth.tenantId, requestId);
+
+    const contentType = request.headers.get('content-type') ?? '';
+    let format: 'csv' | 'json' = 'json';
+    let content: string;
+    let templateRef = new URL(request.url).searchParams.get('template');
+
+    if (contentType.includes('multipart/form-data')) {
+      const form = await new Response(raw, { headers: { 'content-type': contentType } }).formData();
+      const file = form.get('file');
+      if (!(file instanceof File)) return invalid('No file provided. Use form field "file".');
+      content = await file.text();
+      format = file.name.toLowerCase().endsWith('.json') || file.type.includes('json') ? 'json' : 'csv';
+      templateRef = (form.get('template') as string | null) || templateRef;
+    } else {
+      content = new TextDecoder().decode(raw);
+      if (contentType.includes('text/csv')) format = 'csv';
+    }
+
+    let rows: ImportRow[];
+    let template: TemplateReference | undefined;
+    let bodyKey: string | undefined;
+
+    if (format === 'csv') {
+      rows = csvToRows(content);
+    } else {
+      let body: unknown;
+      try {
+        body = JSON.parse(content);
+      } catch {
+        return invalid('Invalid JSON body');
+      }
+      const parsed = BulkCreateTasksSchema.safeParse(Array.isArray(body) ? { tasks: body } : body);
+      if (!parsed.success) return invalid('Invalid bulk task data', parsed.error.flatten());
+      rows = jsonToRows(parsed.data.tasks);
+      template = parsed.data.template;
+      bodyKey = parsed.data.idempotencyKey;
+    }
+
+    if (templateRef) {
+      const parsed = TemplateReferenceSchema.safeParse({ ref: templateRef });
+      if (!parsed.success) return invalid('Invalid template reference', parsed.error.flatten());
+      template = parsed.data;
+    }
+
+    const headerKey = request.headers.get('idempotency-key')?.trim();
+    if (headerKey && headerKey.length > 100) return invalid('Idempotency-Key is limited to 100 characters');
+
+    // 4. Import
+    const explicitKey = headerKey || bodyKey;
+    const report = await importTasks(auth, rows, {
+      importKey: explicitKey || contentImportKey(content),
+      namespace: explicitKey,
+      template,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: report,
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`[tasks:import] Error for tenant ${auth.tenantId}:`, error);
+
+    const message = error instanceof Error ? error.message : '';
+    if (message.startsWith('Invalid CSV') || message.startsWith('Import is limited')) return invalid(message);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to import tasks' },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 500 }
+    );
+  }
+}
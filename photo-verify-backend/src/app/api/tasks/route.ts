@@ -3,51 +3,97 @@
 // ============================================
 
 import { NextRequest, NextResponse } from 'next/server';
-import { eq, and, desc } from 'drizzle-orm';
+import { eq, and, gte, lt, inArray, getTableColumns, type SQL } from 'drizzle-orm';
 import { getDb, schema } from '@/lib/db';
-import { authenticate, isAuthError, requireRole } from '@/lib/auth/middleware';
+import { cursorValue, decodeCursor, keysetAfter, keysetOrder, toPage, type Keyset, type SortKey } from '@/lib/db/pagination';
+import { authenticate, isAuthError, requirePermission } from '@/lib/auth/middleware';
+import { ownRowsOf } from '@/lib/auth/permissions';
 import { rateLimitMiddleware } from '@/lib/rate-limit';
-import { CreateTaskSchema, type ApiResponse } from '@/lib/types';
+import { recordAudit } from '@/lib/services/audit';
+import { resolveTemplate } from '@/lib/services/templates';
+import { CreateTaskSchema, ListTasksQuerySchema, type ApiResponse, type ListTasksQuery } from '@/lib/types';
 
 export const runtime = 'nodejs';
 
+const TASK_SORT_KEYS: Record<ListTasksQuery['sort'], SortKey> = {
+  createdAt: { name: 'createdAt', column: schema.tasks.createdAt, type: 'timestamptz' },
+  updatedAt: { name: 'updatedAt', column: schema.tasks.updatedAt, type: 'timestamptz' },
+  dueDate: { name: 'dueDate', column: schema.tasks.dueDate, type: 'timestamptz' },
+  title: { name: 'title', column: schema.tasks.title, type: 'text' },
+};
+
 // --- GET /api/tasks - List tasks for tenant ---
+// Filters: ?status=pending,in_progress ?assignedTo ?customerId ?templateId ?dueFrom ?dueTo
+// Sorting: ?sort=createdAt|updatedAt|dueDate|title ?order=desc|asc (no due date sorts as latest)
+// Paging:  ?limit=50 (max 100) ?cursor=<pagination.nextCursor of the previous page>
 export async function GET(request: NextRequest) {
   const requestId = crypto.randomUUID();
 
   const auth = await authenticate(request);
   if (isAuthError(auth)) return auth;
 
+  const permissionError = requirePermission(auth, 'tasks:read');
+  if (permissionError) return permissionError;
+
   const rateLimited = await rateLimitMiddleware(auth.tenantId, 'tasks:list');
   if (rateLimited) return rateLimited;
 
   try {
     const { searchParams } = new URL(request.url);
-    const status = searchParams.get('status');
-    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10), 100);
-    const offset = parseInt(searchParams.get('offset') || '0', 10);
-
-    const db = getDb();
+    const parsed = ListTasksQuerySchema.safeParse(Object.fromEntries(searchParams));
 
-    const conditions = [eq(schema.tasks.tenantId, auth.tenantId)];
-    if (status) {
-      conditions.push(eq(schema.tasks.status, status as typeof schema.tasks.status.enumValues[number]));
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid task query',
+            details: parsed.error.flatten(),
+          },
+          meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+        } satisfies ApiResponse,
+        { status: 400 }
+      );
     }
 
-    const tasks = await db
-      .select()
-      .from(schema.tasks)
+    const query = parsed.data;
+    const t = schema.tasks;
+    const keyset: Keyset = { sort: TASK_SORT_KEYS[query.sort], order: query.order, id: t.id };
+
+    const conditions: SQL[] = [eq(t.tenantId, auth.tenantId)];
+    const owner = ownRowsOf(auth); // A rep sees only the tasks assigned to it
+    if (owner !== null) conditions.push(eq(t.assignedTo, owner));
+    if (query.status) conditions.push(inArray(t.status, query.status));
+    if (query.assignedTo) conditions.push(eq(t.assignedTo, query.assignedTo));
+    if (query.customerId) conditions.push(eq(t.customerId, query.customerId));
+    if (query.templateId) conditions.push(eq(t.templateId, query.templateId));
+    if (query.dueFrom) conditions.push(gte(t.dueDate, new Date(query.dueFrom)));
+    if (query.dueTo) conditions.push(lt(t.dueDate, new Date(query.dueTo)));
+    if (query.cursor) conditions.push(keysetAfter(keyset, decodeCursor(keyset, query.cursor)));
+
+    const db = getDb();
+    const rows = await db
+      .select({ ...getTableColumns(t), cursorValue: cursorValue(keyset) })
+      .from(t)
       .where(and(...conditions))
-      .orderBy(desc(schema.tasks.createdAt))
-      .limit(limit)
-      .offset(offset);
+      .orderBy(...keysetOrder(keyset))
+      .limit(query.limit + 1);
+
+    const page = toPage(keyset, rows, query.limit);
 
     return NextResponse.json(
       {
         success: true,
         data: {
-          tasks,
-          pagination: { limit, offset, count: tasks.length },
+          tasks: page.rows,
+          pagination: {
+            limit: query.limit,
+            count: page.rows.length,
+            sort: query.sort,
+            order: query.order,
+            nextCursor: page.nextCursor,
+          },
         },
         meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
       } satisfies ApiResponse,
@@ -55,13 +101,17 @@ export async function GET(request: NextRequest) {
     );
   } catch (error) {
     console.error(`[tasks:list] Error:`, error);
+
+    const invalidCursor = error instanceof Error && error.message === 'Invalid cursor';
     return NextResponse.json(
       {
         success: false,
-        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch tasks' },
+        error: invalidCursor
+          ? { code: 'VALIDATION_ERROR', message: 'Invalid cursor' }
+          : { code: 'INTERNAL_ERROR', message: 'Failed to fetch tasks' },
         meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
       } satisfies ApiResponse,
-      { status: 500 }
+      { status: invalidCursor ? 400 : 500 }
     );
   }
 }
@@ -73,9 +123,8 @@ export async function POST(request: NextRequest) {
   const auth = await authenticate(request);
   if (isAuthError(auth)) return auth;
 
-  // Require admin or operator role
-  const roleError = requireRole(auth, 'admin', 'operator');
-  if (roleError) return roleError;
+  const permissionError = requirePermission(auth, 'tasks:write');
+  if (permissionError) return permissionError;
 
   const rateLimited = await rateLimitMiddleware(auth.tenantId, 'tasks:create');
   if (rateLimited) return rateLimited;
@@ -99,13 +148,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Resolve (and pin) the template version, or take the inline config
+    const template = parsed.data.template ? await resolveTemplate(auth, parsed.data.template) : null;
+
     const db = getDb();
     const [task] = await db.insert(schema.tasks).values({
       tenantId: auth.tenantId,
       title: parsed.data.title,
       description: parsed.data.description,
       type: 'photo_verify',
-      photoVerificationConfig: parsed.data.photoVerificationConfig,
+      photoVerificationConfig: template?.config ?? parsed.data.photoVerificationConfig!,
+      templateId: template?.templateId,
+      templateVersion: template?.version,
+      configOverrides: parsed.data.template?.overrides,
       assignedTo: parsed.data.assignedTo,
       customerId: parsed.data.customerId,
       dueDate: parsed.data.dueDate ? new Date(parsed.data.dueDate) : undefined,
@@ -113,13 +168,14 @@ export async function POST(request: NextRequest) {
     }).returning();
 
     // Audit log
-    await db.insert(schema.auditLog).values({
+    await recordAudit({
       tenantId: auth.tenantId,
       action: 'task_created',
       entityType: 'task',
       entityId: task.id,
       userId: auth.userId,
-      details: { title: parsed.data.title },
+      after: task,
+      details: { title: parsed.data.title, template: template ? `${template.templateId}@${template.version}` : undefined },
     });
 
     return NextResponse.json(
@@ -132,13 +188,23 @@ export async function POST(request: NextRequest) {
     );
   } catch (error) {
     console.error(`[tasks:create] Error:`, error);
+
+    // Template resolution errors are the caller's
+    const message = error instanceof Error ? error.message : '';
+    const status = message.startsWith('Template') && message.includes('not found') ? 404
+      : message.startsWith('Template') || message.startsWith('Invalid template') ? 400
+      : 500;
+
     return NextResponse.json(
       {
         success: false,
-        error: { code: 'INTERNAL_ERROR', message: 'Failed to create task' },
+        error: {
+          code: status === 404 ? 'NOT_FOUND' : status === 400 ? 'VALIDATION_ERROR' : 'INTERNAL_ERROR',
+          message: status === 500 ? 'Failed to create task' : message,
+        },
         meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
       } satisfies ApiResponse,
-      { status: 500 }
+      { status }
     );
   }
 }
@@ -5,8 +5,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { eq } from 'drizzle-orm';
 import { getDb, schema } from '@/lib/db';
-import { authenticate, isAuthError, requireRole } from '@/lib/auth/middleware';
+import { authenticate, isAuthError, requirePermission } from '@/lib/auth/middleware';
 import { signToken } from '@/lib/auth/jwt';
+import { recordAudit } from '@/lib/services/audit';
 import { CreateTenantSchema, type ApiResponse } from '@/lib/types';
 
 export const runtime = 'nodejs';
@@ -18,8 +19,8 @@ export async function GET(request: NextRequest) {
   const auth = await authenticate(request);
   if (isAuthError(auth)) return auth;
 
-  const roleError = requireRole(auth, 'admin');
-  if (roleError) return roleError;
+  const permissionError = requirePermission(auth, 'tenants:admin');
+  if (permissionError) return permissionError;
 
   try {
     const db = getDb();
@@ -53,8 +54,8 @@ export async function POST(request: NextRequest) {
   const auth = await authenticate(request);
   if (isAuthError(auth)) return auth;
 
-  const roleError = requireRole(auth, 'admin');
-  if (roleError) return roleError;
+  const permissionError = requirePermission(auth, 'tenants:admin');
+  if (permissionError) return permissionError;
 
   try {
     const body = await request.json();
@@ -113,12 +114,13 @@ export async function POST(request: NextRequest) {
     });
 
     // Audit log
-    await db.insert(schema.auditLog).values({
+    await recordAudit({
       tenantId: auth.tenantId,
       action: 'tenant_created',
       entityType: 'tenant',
       entityId: tenant.id,
       userId: auth.userId,
+      after: tenant,
       details: { name: parsed.data.name, slug: parsed.data.slug },
     });
 
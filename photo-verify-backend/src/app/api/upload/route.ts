@@ -1,25 +1,35 @@
 // ============================================
 // POST /api/upload - Photo Upload Endpoint
 // ============================================
-// Upload a photo to Vercel Blob storage
-// Returns a URL that can be used with /api/verify
+// Upload a photo to the configured storage driver (private)
+// Returns a storage reference ("url") to pass to /api/verify, a signed
+// URL to display the photo until expiresAt, plus the photo's
+// perceptual hash and any earlier verification it duplicates (report
+// only: the tenant's duplicate policy is enforced by /api/verify)
 
 import { NextRequest, NextResponse } from 'next/server';
-import { authenticate, isAuthError } from '@/lib/auth/middleware';
+import { authenticate, isAuthError, requirePermission } from '@/lib/auth/middleware';
 import { rateLimitMiddleware } from '@/lib/rate-limit';
-import { uploadImage } from '@/lib/services/storage';
+import { isSafeKeySegment, uploadImage } from '@/lib/services/storage';
+import { checkStorageQuota, recordStorageUsage } from '@/lib/services/retention';
+import { findDuplicate, getDuplicatePolicy, tryPerceptualHash } from '@/lib/services/duplicates';
 import type { ApiResponse } from '@/lib/types';
 
 export const runtime = 'nodejs';
 export const maxDuration = 30;
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 export async function POST(request: NextRequest) {
   const requestId = crypto.randomUUID();
 
-  // 1. Authenticate
+  // 1. Authenticate and check the permission
   const auth = await authenticate(request);
   if (isAuthError(auth)) return auth;
 
+  const permissionError = requirePermission(auth, 'verifications:create');
+  if (permissionError) return permissionError;
+
   // 2. Rate limit
   const rateLimited = await rateLimitMiddleware(auth.tenantId, 'upload', {
     maxRequests: 30,
@@ -55,6 +65,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // taskId becomes a storage path segment
+    if (!isSafeKeySegment(taskId)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'taskId may only contain letters, digits, "_", "-" and "." (not leading), up to 128 characters.',
+          },
+          meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+        } satisfies ApiResponse,
+        { status: 400 }
+      );
+    }
+
     // Validate file type
     const allowedTypes = ['image/jpeg', 'image/png', 'image/webp', 'image/heic'];
     if (!allowedTypes.includes(file.type)) {
@@ -71,17 +96,34 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 4. Upload to Blob storage
+    // 4. Check the tenant's storage quota, then upload
+    const storageWarning = await checkStorageQuota(auth.tenantId, file.size);
     const result = await uploadImage(auth.tenantId, taskId, file, file.name);
+    await recordStorageUsage(auth.tenantId, result.size);
+
+    // 5. Hash and look for reuse (taskId is ours when it is a UUID, otherwise external)
+    const perceptualHash = await tryPerceptualHash(Buffer.from(await file.arrayBuffer()));
+    const policy = await getDuplicatePolicy(auth.tenantId);
+    const duplicateOf = await findDuplicate(
+      auth.tenantId,
+      [perceptualHash],
+      { ...policy, action: 'flag' },
+      UUID_PATTERN.test(taskId) ? { taskId, externalTaskId: taskId } : { externalTaskId: taskId }
+    );
 
     return NextResponse.json(
       {
         success: true,
         data: {
-          url: result.url,
+          url: result.ref,
+          signedUrl: result.url,
+          expiresAt: result.expiresAt.toISOString(),
           size: result.size,
           filename: file.name,
           contentType: file.type,
+          perceptualHash,
+          duplicateOf,
+          ...(storageWarning ? { storageWarning } : {}),
         },
         meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
       } satisfies ApiResponse,
@@ -90,16 +132,19 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error(`[upload] Error for tenant ${auth.tenantId}:`, error);
 
+    const message = error instanceof Error ? error.message : 'Upload failed';
+    const status = message.startsWith('Storage quota exceeded') ? 413 : 500;
+
     return NextResponse.json(
       {
         success: false,
         error: {
-          code: 'INTERNAL_ERROR',
-          message: error instanceof Error ? error.message : 'Upload failed',
+          code: status === 413 ? 'STORAGE_QUOTA_EXCEEDED' : 'INTERNAL_ERROR',
+          message,
         },
         meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
       } satisfies ApiResponse,
-      { status: 500 }
+      { status }
     );
   }
 }
@@ -5,63 +5,116 @@
 // - externalTaskId (for hybrid/external mode)
 // - taskId (for internal mode)
 // - tenantId (all verifications for a tenant)
+//
+// Filters: ?customerId ?passed=true|false ?minConfidence ?maxConfidence
+//          ?model ?mode=ai|manual ?from ?to (ISO datetimes, to is exclusive)
+// Sorting: ?sort=createdAt|score|overallConfidence ?order=desc|asc (no score sorts as highest)
+// Paging:  ?limit=20 (max 100) ?cursor=<pagination.nextCursor of the previous page>
 
 import { NextRequest, NextResponse } from 'next/server';
-import { eq, and, desc } from 'drizzle-orm';
-import { authenticate, isAuthError } from '@/lib/auth/middleware';
+import { eq, and, gte, lt, lte, type SQL } from 'drizzle-orm';
+import { authenticate, isAuthError, requirePermission } from '@/lib/auth/middleware';
+import { ownRowsOf } from '@/lib/auth/permissions';
 import { getDb, schema } from '@/lib/db';
-import type { ApiResponse } from '@/lib/types';
+import { cursorValue, decodeCursor, keysetAfter, keysetOrder, toPage, type Keyset, type SortKey } from '@/lib/db/pagination';
+import { withSignedImages } from '@/lib/services/storage';
+import { ListVerificationsQuerySchema, type ApiResponse, type ListVerificationsQuery } from '@/lib/types';
 
 export const runtime = 'nodejs';
 
+const VERIFICATION_SORT_KEYS: Record<ListVerificationsQuery['sort'], SortKey> = {
+  createdAt: { name: 'createdAt', column: schema.verifications.createdAt, type: 'timestamptz' },
+  score: { name: 'score', column: schema.verifications.score, type: 'real' },
+  overallConfidence: { name: 'overallConfidence', column: schema.verifications.overallConfidence, type: 'real' },
+};
+
 export async function GET(request: NextRequest) {
   const requestId = crypto.randomUUID();
 
-  // 1. Authenticate
+  // 1. Authenticate and check the permission
   const auth = await authenticate(request);
   if (isAuthError(auth)) return auth;
 
-  try {
-    const db = getDb();
-    const { searchParams } = new URL(request.url);
+  const permissionError = requirePermission(auth, 'verifications:read');
+  if (permissionError) return permissionError;
 
-    const externalTaskId = searchParams.get('externalTaskId');
-    const taskId = searchParams.get('taskId');
-    const limit = Math.min(parseInt(searchParams.get('limit') || '20', 10), 100);
-    const offset = parseInt(searchParams.get('offset') || '0', 10);
+  // 2. Validate the filters
+  const { searchParams } = new URL(request.url);
+  const parsed = ListVerificationsQuerySchema.safeParse(Object.fromEntries(searchParams));
 
-    // Build query conditions
-    const conditions = [eq(schema.verifications.tenantId, auth.tenantId)];
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid verification query',
+          details: parsed.error.flatten(),
+        },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 400 }
+    );
+  }
 
-    if (externalTaskId) {
-      conditions.push(eq(schema.verifications.externalTaskId, externalTaskId));
-    }
+  try {
+    const query = parsed.data;
+    const v = schema.verifications;
+    const keyset: Keyset = { sort: VERIFICATION_SORT_KEYS[query.sort], order: query.order, id: v.id };
 
-    if (taskId) {
-      conditions.push(eq(schema.verifications.taskId, taskId));
-    }
+    // 3. Build query conditions
+    const conditions: SQL[] = [eq(v.tenantId, auth.tenantId)];
+    const owner = ownRowsOf(auth); // A rep sees only its own verifications
+    if (owner !== null) conditions.push(eq(v.submittedBy, owner));
+    if (query.externalTaskId) conditions.push(eq(v.externalTaskId, query.externalTaskId));
+    if (query.taskId) conditions.push(eq(v.taskId, query.taskId));
+    if (query.customerId) conditions.push(eq(v.customerId, query.customerId));
+    if (query.passed !== undefined) conditions.push(eq(v.passed, query.passed));
+    if (query.minConfidence !== undefined) conditions.push(gte(v.overallConfidence, query.minConfidence));
+    if (query.maxConfidence !== undefined) conditions.push(lte(v.overallConfidence, query.maxConfidence));
+    if (query.model) conditions.push(eq(v.modelUsed, query.model));
+    if (query.mode) conditions.push(eq(v.mode, query.mode));
+    if (query.from) conditions.push(gte(v.createdAt, new Date(query.from)));
+    if (query.to) conditions.push(lt(v.createdAt, new Date(query.to)));
+    if (query.cursor) conditions.push(keysetAfter(keyset, decodeCursor(keyset, query.cursor)));
 
-    // Execute query
-    const verifications = await db
+    // 4. Execute query
+    const db = getDb();
+    const rows = await db
       .select({
         id: schema.verifications.id,
         taskId: schema.verifications.taskId,
         externalTaskId: schema.verifications.externalTaskId,
         imageUrl: schema.verifications.imageUrl,
+        imageUrls: schema.verifications.imageUrls,
+        imagesPurgedAt: schema.verifications.imagesPurgedAt,
         passed: schema.verifications.passed,
         overallConfidence: schema.verifications.overallConfidence,
+        score: schema.verifications.score,
         criteriaResults: schema.verifications.criteriaResults,
         configUsed: schema.verifications.configUsed,
         modelUsed: schema.verifications.modelUsed,
         processingTimeMs: schema.verifications.processingTimeMs,
         retryCount: schema.verifications.retryCount,
+        attempts: schema.verifications.attempts,
+        mode: schema.verifications.mode,
+        reviewedBy: schema.verifications.reviewedBy,
+        customerId: schema.verifications.customerId,
+        duplicateOf: schema.verifications.duplicateOf,
+        evidence: schema.verifications.evidence,
+        integrity: schema.verifications.integrity,
         createdAt: schema.verifications.createdAt,
+        cursorValue: cursorValue(keyset),
       })
       .from(schema.verifications)
       .where(and(...conditions))
-      .orderBy(desc(schema.verifications.createdAt))
-      .limit(limit)
-      .offset(offset);
+      .orderBy(...keysetOrder(keyset))
+      .limit(query.limit + 1);
+
+    const page = toPage(keyset, rows, query.limit);
+
+    // Stored photos are private: hand out signed URLs
+    const verifications = await Promise.all(page.rows.map(withSignedImages));
 
     return NextResponse.json(
       {
@@ -69,9 +122,11 @@ export async function GET(request: NextRequest) {
         data: {
           verifications,
           pagination: {
-            limit,
-            offset,
+            limit: query.limit,
             count: verifications.length,
+            sort: query.sort,
+            order: query.order,
+            nextCursor: page.nextCursor,
           },
         },
         meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
@@ -81,16 +136,19 @@ export async function GET(request: NextRequest) {
   } catch (error) {
     console.error(`[verifications] Error for tenant ${auth.tenantId}:`, error);
 
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    const status = message === 'Invalid cursor' ? 400 : 500;
+
     return NextResponse.json(
       {
         success: false,
         error: {
-          code: 'INTERNAL_ERROR',
-          message: error instanceof Error ? error.message : 'Internal server error',
+          code: status === 400 ? 'VALIDATION_ERROR' : 'INTERNAL_ERROR',
+          message,
         },
         meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
       } satisfies ApiResponse,
-      { status: 500 }
+      { status }
     );
   }
 }
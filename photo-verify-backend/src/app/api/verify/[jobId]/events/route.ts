@@ -0,0 +1,97 @@
+// ============================================
+// GET /api/verify/[jobId]/events - Job Progress (Server-Sent Events)
+// ============================================
+// Streams the job until it finishes:
+//   event: progress → { status, stage }     (whenever either changes)
+//   event: result   → the finished job view (status "succeeded")
+//   event: failed   → the finished job view (status "failed")
+//   event: timeout  → the stream ran out of time; reconnect or poll
+// Authenticated like any other route (Authorization header), so
+// browsers read it with fetch() rather than EventSource.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, isAuthError, requirePermission } from '@/lib/auth/middleware';
+import { getVerifyJob, type VerificationJobView } from '@/lib/services/jobs';
+import type { ApiResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+const POLL_INTERVAL_MS = 1000;
+const STREAM_DURATION_MS = 50_000; // Below maxDuration, so the stream ends cleanly
+
+type RouteContext = { params: Promise<{ jobId: string }> };
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const { jobId } = await context.params;
+  const requestId = crypto.randomUUID();
+
+  const auth = await authenticate(request);
+  if (isAuthError(auth)) return auth;
+
+  const permissionError = requirePermission(auth, 'verifications:read');
+  if (permissionError) return permissionError;
+
+  const first = await getVerifyJob(auth, jobId).catch(() => null);
+  if (!first) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'NOT_FOUND', message: `Verification job ${jobId} not found` },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const deadline = Date.now() + STREAM_DURATION_MS;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      let job: VerificationJobView | null = first;
+      let last = '';
+
+      try {
+        while (job && !request.signal.aborted) {
+          const current = `${job.status}:${job.stage}`;
+          if (current !== last) {
+            last = current;
+            send('progress', { status: job.status, stage: job.stage });
+          }
+
+          if (job.status === 'succeeded' || job.status === 'failed') {
+            send(job.status === 'succeeded' ? 'result' : 'failed', job);
+            break;
+          }
+
+          if (Date.now() >= deadline) {
+            send('timeout', { status: job.status, stage: job.stage });
+            break;
+          }
+
+          await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+          job = await getVerifyJob(auth, jobId);
+        }
+      } catch (error) {
+        console.error(`[verify:events] Error for job ${jobId}:`, error);
+        send('error', { message: 'Failed to read verification job' });
+      }
+
+      controller.close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Request-Id': requestId,
+    },
+  });
+}
@@ -0,0 +1,60 @@
+// ============================================
+// GET /api/verify/[jobId] - Async Verification Job Status
+// ============================================
+// Poll until status is "succeeded" (result holds the same payload as a
+// synchronous POST /api/verify) or "failed" (error says why).
+// For push updates, follow /api/verify/[jobId]/events instead.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, isAuthError, requirePermission } from '@/lib/auth/middleware';
+import { getVerifyJob } from '@/lib/services/jobs';
+import type { ApiResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ jobId: string }> };
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const { jobId } = await context.params;
+  const requestId = crypto.randomUUID();
+
+  const auth = await authenticate(request);
+  if (isAuthError(auth)) return auth;
+
+  const permissionError = requirePermission(auth, 'verifications:read');
+  if (permissionError) return permissionError;
+
+  try {
+    const job = await getVerifyJob(auth, jobId);
+
+    if (!job) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'NOT_FOUND', message: `Verification job ${jobId} not found` },
+          meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+        } satisfies ApiResponse,
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: job,
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`[verify:job] Error:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch verification job' },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -4,13 +4,18 @@
 // Supports two modes:
 // 1. Internal: taskId (references our DB) - config from task
 // 2. External/Hybrid: externalTaskId + config inline (task in Retool/external API)
+// Accepts a single image (imageUrl / imageBase64) or an ordered set (images[])
+// With async: true, answers 202 with a job id (see /api/verify/[jobId])
+// A tenant over its monthly budget gets 402 BUDGET_EXCEEDED before
+// anything is uploaded or queued
 
 import { NextRequest, NextResponse } from 'next/server';
-import { authenticate, isAuthError } from '@/lib/auth/middleware';
+import { authenticate, isAuthError, requirePermission } from '@/lib/auth/middleware';
 import { rateLimitMiddleware } from '@/lib/rate-limit';
-import { verifyPhoto, verifyPhotoExternal } from '@/lib/services/verification';
-import { uploadBase64Image } from '@/lib/services/storage';
-import { VerifyRequestSchema, type ApiResponse, type VerificationResult } from '@/lib/types';
+import { createVerifyJob, executeVerifyRequest, prepareVerifyRequest } from '@/lib/services/jobs';
+import { enforceBudget } from '@/lib/services/budget';
+import { isSafeKeySegment } from '@/lib/services/storage';
+import { VerifyRequestSchema, type ApiResponse } from '@/lib/types';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60; // 60s for Hobby plan
@@ -18,10 +23,13 @@ export const maxDuration = 60; // 60s for Hobby plan
 export async function POST(request: NextRequest) {
   const requestId = crypto.randomUUID();
 
-  // 1. Authenticate
+  // 1. Authenticate and check the permission
   const auth = await authenticate(request);
   if (isAuthError(auth)) return auth;
 
+  const permissionError = requirePermission(auth, 'verifications:create');
+  if (permissionError) return permissionError;
+
   // 2. Rate limit
   const rateLimited = await rateLimitMiddleware(auth.tenantId, 'verify', {
     maxRequests: 20,     // 20 verifications
@@ -49,58 +57,42 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { taskId, externalTaskId, imageUrl, imageBase64, config } = parsed.data;
-
-    // 4. Determine the reference ID for storage path
-    const referenceId = taskId || externalTaskId || requestId;
-
-    // 5. If base64, upload to Blob first and get URL
-    let finalImageInput: { url?: string; base64?: string };
+    // 4. Refuse early when over budget, then resolve the template and
+    //    upload base64 images (storage path by reference ID; IDs that
+    //    are not a safe path segment fall back to the request ID)
+    const budget = await enforceBudget(auth.tenantId);
+    const { taskId, externalTaskId } = parsed.data;
+    const referenceId = [taskId, externalTaskId].find((id): id is string => !!id && isSafeKeySegment(id)) ?? requestId;
+    const payload = await prepareVerifyRequest(auth, parsed.data, referenceId);
 
-    if (imageBase64) {
-      try {
-        const uploaded = await uploadBase64Image(auth.tenantId, referenceId, imageBase64);
-        finalImageInput = { url: uploaded.url };
-      } catch {
-        // If Blob upload fails, use base64 directly (works but uses more tokens)
-        finalImageInput = { base64: imageBase64 };
-      }
-    } else {
-      finalImageInput = { url: imageUrl };
-    }
-
-    // 6. Run verification based on mode
-    let result: VerificationResult;
+    // 5. Async mode: queue the job and answer right away
+    if (parsed.data.async) {
+      const job = await createVerifyJob(auth, payload);
 
-    if (taskId) {
-      // --- INTERNAL MODE: task lives in our DB ---
-      result = await verifyPhoto(taskId, finalImageInput, auth, config);
-    } else if (externalTaskId && config) {
-      // --- EXTERNAL/HYBRID MODE: task lives in Retool/external API ---
-      result = await verifyPhotoExternal(externalTaskId, finalImageInput, config, auth);
-    } else {
       return NextResponse.json(
         {
-          success: false,
-          error: {
-            code: 'VALIDATION_ERROR',
-            message: 'Either taskId or (externalTaskId + config) must be provided',
+          success: true,
+          data: {
+            jobId: job.jobId,
+            status: job.status,
+            statusUrl: `/api/verify/${job.jobId}`,
+            eventsUrl: `/api/verify/${job.jobId}/events`,
           },
           meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
         } satisfies ApiResponse,
-        { status: 400 }
+        { status: 202 }
       );
     }
 
+    // 6. Run verification based on mode (the budget checked above applies;
+    //    a queued job checks it again when it runs)
+    const result = await executeVerifyRequest(auth, payload, { budget });
+
     // 7. Return result
     return NextResponse.json(
       {
         success: true,
-        data: {
-          ...result,
-          mode: taskId ? 'internal' : 'external',
-          taskReference: taskId || externalTaskId,
-        },
+        data: result,
         meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
       } satisfies ApiResponse,
       { status: 200 }
@@ -109,13 +101,19 @@ export async function POST(request: NextRequest) {
     console.error(`[verify] Error for tenant ${auth.tenantId}:`, error);
 
     const message = error instanceof Error ? error.message : 'Internal server error';
-    const status = message.includes('not found') ? 404 : 500;
+    const status = message.includes('not found') ? 404
+      : message.startsWith('Template') || message.startsWith('Invalid template') || message.startsWith('Either') ? 400
+      : message.startsWith('Monthly budget exceeded') ? 402
+      : 500;
 
     return NextResponse.json(
       {
         success: false,
         error: {
-          code: status === 404 ? 'NOT_FOUND' : 'INTERNAL_ERROR',
+          code: status === 404 ? 'NOT_FOUND'
+            : status === 400 ? 'VALIDATION_ERROR'
+            : status === 402 ? 'BUDGET_EXCEEDED'
+            : 'INTERNAL_ERROR',
           message,
         },
         meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
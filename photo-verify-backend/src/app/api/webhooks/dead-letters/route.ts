@@ -0,0 +1,52 @@
+// ============================================
+// GET /api/webhooks/dead-letters - Dead Letter Queue
+// ============================================
+// Deliveries that exhausted their retries.
+// Query params: ?limit=20&offset=0
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, isAuthError, requirePermission } from '@/lib/auth/middleware';
+import { listDeadLetters } from '@/lib/services/webhooks';
+import type { ApiResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  const auth = await authenticate(request);
+  if (isAuthError(auth)) return auth;
+
+  const permissionError = requirePermission(auth, 'webhooks:admin');
+  if (permissionError) return permissionError;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20', 10), 100);
+    const offset = parseInt(searchParams.get('offset') || '0', 10);
+
+    const deadLetters = await listDeadLetters(auth, limit, offset);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          deadLetters,
+          pagination: { limit, offset, count: deadLetters.length },
+        },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`[webhooks:dead-letters] Error for tenant ${auth.tenantId}:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch dead letters' },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 500 }
+    );
+  }
+}
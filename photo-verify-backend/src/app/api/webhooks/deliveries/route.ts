@@ -0,0 +1,77 @@
+// ============================================
+// GET /api/webhooks/deliveries - Delivery Log
+// ============================================
+// Query params:
+//   ?status=pending|delivered|dead
+//   ?limit=20&offset=0
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, isAuthError, requirePermission } from '@/lib/auth/middleware';
+import { listDeliveries } from '@/lib/services/webhooks';
+import type { WebhookDelivery } from '@/lib/db/schema';
+import type { ApiResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+const DELIVERY_STATUSES: Array<WebhookDelivery['status']> = ['pending', 'delivered', 'dead'];
+
+export async function GET(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  const auth = await authenticate(request);
+  if (isAuthError(auth)) return auth;
+
+  const permissionError = requirePermission(auth, 'webhooks:admin');
+  if (permissionError) return permissionError;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+
+    if (status && !DELIVERY_STATUSES.includes(status as WebhookDelivery['status'])) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid filter',
+            details: { status: DELIVERY_STATUSES },
+          },
+          meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+        } satisfies ApiResponse,
+        { status: 400 }
+      );
+    }
+
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20', 10), 100);
+    const offset = parseInt(searchParams.get('offset') || '0', 10);
+
+    const deliveries = await listDeliveries(auth, {
+      status: (status as WebhookDelivery['status']) || undefined,
+      limit,
+      offset,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          deliveries,
+          pagination: { limit, offset, count: deliveries.length },
+        },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`[webhooks:deliveries] Error for tenant ${auth.tenantId}:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch webhook deliveries' },
+        meta: { tenantId: auth.tenantId, requestId, timestamp: new Date().toISOString() },
+      } satisfies ApiResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,238 @@
+// ============================================
+// API Keys - Long-lived Tenant Credentials
+// ============================================
+// For integrations (Retool, ETL jobs) that cannot renew a 24h JWT.
+// A key looks like pvk_<prefix>_<secret>: the prefix finds the row, and
+// only the SHA-256 of the whole key is stored, so it is shown once, on
+// issue. Sent as "Authorization: Bearer pvk_..." or "X-API-Key: pvk_...".
+//
+// A key carries a role and optional scopes (see API_KEY_RESOURCES),
+// records when it was last used (at most once a minute), and is
+// revoked or rotated; a rotated key keeps working for a grace period.
+
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { and, desc, eq, isNull } from 'drizzle-orm';
+import { getDb, schema } from '@/lib/db';
+import { hasPermission, resolveRolePermissions, targetTenant, ungrantable } from './permissions';
+import type { AuthContext, CreateApiKeyInput } from '@/lib/types';
+
+export const API_KEY_PREFIX = 'pvk_';
+export const API_KEY_HEADER = 'x-api-key';
+
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+export type ApiKeyView = Omit<schema.ApiKey, 'keyHash'> & { scopes: string[] };
+
+// --- Key material ---
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function generateApiKey(): { key: string; prefix: string } {
+  const prefix = randomBytes(6).toString('hex');
+  return { key: `${API_KEY_PREFIX}${prefix}_${randomBytes(24).toString('base64url')}`, prefix };
+}
+
+export function parseApiKey(key: string): { prefix: string } | null {
+  const match = /^pvk_([0-9a-f]{12})_[A-Za-z0-9_-]{32}$/.exec(key);
+  return match ? { prefix: match[1] } : null;
+}
+
+export function isApiKey(credential: string): boolean {
+  return credential.startsWith(API_KEY_PREFIX);
+}
+
+// --- Scopes: "<resource>" grants every method, "<resource>:read" GET / HEAD only ---
+export function scopeAllows(scopes: string[], method: string, pathname: string): boolean {
+  if (scopes.length === 0) return true;
+  const resource = pathname.split('/')[2] ?? '';
+  const read = method === 'GET' || method === 'HEAD';
+  return scopes.some((scope) => {
+    const [name, access] = scope.split(':');
+    return name === resource && (!access || access === (read ? 'read' : 'write'));
+  });
+}
+
+function toView(row: schema.ApiKey): ApiKeyView {
+  const { keyHash: _keyHash, ...view } = row;
+  return { ...view, scopes: row.scopes as string[] };
+}
+
+// ============================================
+// Verification
+// ============================================
+
+// --- Resolve a key to an auth context (throws when it is not valid) ---
+export async function verifyApiKey(key: string): Promise<AuthContext & { scopes: string[] }> {
+  const parsed = parseApiKey(key);
+  if (!parsed) throw new Error('Invalid API key format');
+
+  const db = getDb();
+  const [row] = await db
+    .select({ key: schema.apiKeys, tenantSlug: schema.tenants.slug, tenantActive: schema.tenants.isActive })
+    .from(schema.apiKeys)
+    .innerJoin(schema.tenants, eq(schema.tenants.id, schema.apiKeys.tenantId))
+    .where(eq(schema.apiKeys.prefix, parsed.prefix))
+    .limit(1);
+
+  const expected = Buffer.from(row?.key.keyHash ?? '', 'hex');
+  const actual = Buffer.from(hashApiKey(key), 'hex');
+  if (!row || expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new Error('Invalid API key');
+  }
+
+  const now = new Date();
+  if (row.key.revokedAt) throw new Error('API key has been revoked');
+  if (row.key.expiresAt && row.key.expiresAt <= now) throw new Error('API key has expired');
+  if (!row.tenantActive) throw new Error('Tenant is not active');
+
+  if (!row.key.lastUsedAt || now.getTime() - row.key.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await db.update(schema.apiKeys).set({ lastUsedAt: now }).where(eq(schema.apiKeys.id, row.key.id));
+  }
+
+  return {
+    tenantId: row.key.tenantId,
+    tenantSlug: row.tenantSlug,
+    userId: `api-key:${row.key.id}`,
+    role: row.key.role,
+    apiKeyId: row.key.id,
+    scopes: row.key.scopes as string[],
+  };
+}
+
+// ============================================
+// Management (admin endpoints)
+// ============================================
+
+export async function listApiKeys(tenantId: string): Promise<ApiKeyView[]> {
+  const db = getDb();
+  const rows = await db
+    .select()
+    .from(schema.apiKeys)
+    .where(eq(schema.apiKeys.tenantId, tenantId))
+    .orderBy(desc(schema.apiKeys.createdAt));
+  return rows.map(toView);
+}
+
+// --- Insert + audit statements for a new key (run in one batch) ---
+function issueStatements(auth: AuthContext, input: CreateApiKeyInput, rotatedFrom?: string) {
+  const db = getDb();
+  const id = randomUUID();
+  const tenantId = input.tenantId ?? auth.tenantId;
+  const { key, prefix } = generateApiKey();
+
+  const insert = db.insert(schema.apiKeys).values({
+    id,
+    tenantId,
+    name: input.name,
+    prefix,
+    keyHash: hashApiKey(key),
+    role: input.role,
+    scopes: input.scopes,
+    createdBy: auth.userId ?? null,
+    rotatedFrom: rotatedFrom ?? null,
+    expiresAt: input.expiresAt ? new Date(input.expiresAt) : null,
+  });
+  const audit = db.insert(schema.auditLog).values({
+    tenantId,
+    action: rotatedFrom ? 'api_key_rotated' : 'api_key_issued',
+    entityType: 'api_key',
+    entityId: id,
+    userId: auth.userId,
+    details: { name: input.name, role: input.role, scopes: input.scopes, prefix, rotatedFrom },
+  });
+  return { id, key, insert, audit };
+}
+
+async function loadView(id: string): Promise<ApiKeyView> {
+  const [row] = await getDb().select().from(schema.apiKeys).where(eq(schema.apiKeys.id, id)).limit(1);
+  return toView(row);
+}
+
+// --- Issue a key; the plain key is only returned here ---
+// The role must exist in the key's tenant and grant nothing the issuer lacks
+export async function issueApiKey(auth: AuthContext, input: CreateApiKeyInput): Promise<{ apiKey: ApiKeyView; key: string }> {
+  const tenantId = targetTenant(auth, input.tenantId);
+  const permissions = await resolveRolePermissions(tenantId, input.role);
+  if (!permissions) throw new Error(`Unknown role: ${input.role}`);
+
+  const missing = ungrantable(auth, permissions);
+  if (missing.length > 0) throw new Error(`Role ${input.role} grants permissions you do not hold: ${missing.join(', ')}`);
+
+  const { id, key, insert, audit } = issueStatements(auth, { ...input, tenantId });
+  await getDb().batch([insert, audit]);
+  return { apiKey: await loadView(id), key };
+}
+
+// --- A key of the caller's tenant (any tenant with tenants:admin) ---
+async function findApiKey(auth: AuthContext, id: string): Promise<schema.ApiKey | null> {
+  const db = getDb();
+  const [row] = await db
+    .select()
+    .from(schema.apiKeys)
+    .where(hasPermission(auth, 'tenants:admin') ? eq(schema.apiKeys.id, id) : and(eq(schema.apiKeys.id, id), eq(schema.apiKeys.tenantId, auth.tenantId)))
+    .limit(1);
+  return row ?? null;
+}
+
+// --- Revoke at once (null if not found) ---
+export async function revokeApiKey(auth: AuthContext, id: string): Promise<ApiKeyView | null> {
+  const db = getDb();
+  const existing = await findApiKey(auth, id);
+  if (!existing) return null;
+
+  const [row] = await db
+    .update(schema.apiKeys)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(schema.apiKeys.id, id), isNull(schema.apiKeys.revokedAt)))
+    .returning();
+
+  if (row) {
+    await db.insert(schema.auditLog).values({
+      tenantId: existing.tenantId,
+      action: 'api_key_revoked',
+      entityType: 'api_key',
+      entityId: id,
+      userId: auth.userId,
+      details: { name: existing.name, prefix: existing.prefix },
+    });
+  }
+  return toView(row ?? existing);
+}
+
+// --- Issue a replacement; the old key expires after graceSeconds ---
+// The replacement keeps the old key's role, so rotating is issuing: the
+// caller must hold everything that role grants
+export async function rotateApiKey(
+  auth: AuthContext,
+  id: string,
+  graceSeconds: number,
+): Promise<{ apiKey: ApiKeyView; key: string; previousExpiresAt: Date } | null> {
+  const db = getDb();
+  const existing = await findApiKey(auth, id);
+  if (!existing) return null;
+  if (existing.revokedAt) throw new Error(`API key ${id} is revoked`);
+
+  const permissions = await resolveRolePermissions(existing.tenantId, existing.role);
+  if (!permissions) throw new Error(`Unknown role: ${existing.role}`);
+
+  const missing = ungrantable(auth, permissions);
+  if (missing.length > 0) throw new Error(`Role ${existing.role} grants permissions you do not hold: ${missing.join(', ')}`);
+
+  const graceEnd = new Date(Date.now() + graceSeconds * 1000);
+  const previousExpiresAt = existing.expiresAt && existing.expiresAt < graceEnd ? existing.expiresAt : graceEnd;
+
+  const { id: newId, key, insert, audit } = issueStatements(auth, {
+    name: existing.name,
+    role: existing.role,
+    scopes: existing.scopes as string[],
+    tenantId: existing.tenantId,
+  }, id);
+  await db.batch([
+    db.update(schema.apiKeys).set({ expiresAt: previousExpiresAt }).where(eq(schema.apiKeys.id, id)),
+    insert,
+    audit,
+  ]);
+  return { apiKey: await loadView(newId), key, previousExpiresAt };
+}
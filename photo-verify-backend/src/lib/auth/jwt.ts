@@ -18,7 +18,9 @@ export interface TokenPayload extends JWTPayload {
   tenantId: string;
   tenantSlug: string;
   userId?: string;
-  role: 'admin' | 'operator' | 'viewer';
+  role: string; // Built-in or custom role
+  sid?: string; // Session of a rep's access token
+  did?: string; // Device that session is bound to
 }
 
 // --- Sign a new JWT ---
@@ -31,6 +33,19 @@ export async function signToken(payload: Omit<TokenPayload, 'iss' | 'iat' | 'exp
     .sign(getSecret());
 }
 
+// --- Sign a short-lived access token for a rep session ---
+export async function signAccessToken(
+  payload: Omit<TokenPayload, 'iss' | 'iat' | 'exp'> & { sid: string; did: string },
+  expiresAt: Date,
+): Promise<string> {
+  return new SignJWT(payload as unknown as Record<string, unknown>)
+    .setProtectedHeader({ alg: 'HS256' })
+    .setIssuedAt()
+    .setIssuer(getIssuer())
+    .setExpirationTime(Math.floor(expiresAt.getTime() / 1000))
+    .sign(getSecret());
+}
+
 // --- Verify and decode a JWT ---
 export async function verifyToken(token: string): Promise<AuthContext> {
   try {
@@ -49,6 +64,7 @@ export async function verifyToken(token: string): Promise<AuthContext> {
       tenantSlug: tp.tenantSlug,
       userId: tp.userId,
       role: tp.role || 'viewer',
+      ...(tp.sid ? { sessionId: tp.sid, deviceId: tp.did } : {}),
     };
   } catch (error) {
     if (error instanceof Error) {
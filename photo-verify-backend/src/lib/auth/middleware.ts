@@ -1,17 +1,25 @@
 // ============================================
-// Auth Middleware - Extract and validate JWT
+// Auth Middleware - Extract and validate JWT or API key
 // ============================================
+// A JWT (Bearer <token>) or an API key (Bearer pvk_... or X-API-Key).
+// API keys are also checked against their scopes for the endpoint; a
+// rep's access token against its session and device (X-Device-Id).
+// The role is resolved to its permissions here; routes then call
+// requirePermission (see permissions.ts).
 
 import { NextRequest, NextResponse } from 'next/server';
 import { extractToken, verifyToken } from './jwt';
-import type { AuthContext, ApiResponse } from '@/lib/types';
+import { API_KEY_HEADER, isApiKey, scopeAllows, verifyApiKey } from './api-keys';
+import { DEVICE_HEADER, isSessionActive } from './sessions';
+import { hasPermission, resolveRolePermissions } from './permissions';
+import type { AuthContext, ApiResponse, Permission } from '@/lib/types';
 
 // --- Header name for passing auth context to route handlers ---
 export const AUTH_HEADER = 'x-auth-context';
 
 // --- Authenticate request and return auth context ---
 export async function authenticate(request: NextRequest): Promise<AuthContext | NextResponse> {
-  const token = extractToken(request.headers.get('authorization'));
+  const token = request.headers.get(API_KEY_HEADER) ?? extractToken(request.headers.get('authorization'));
 
   if (!token) {
     return NextResponse.json(
@@ -19,16 +27,29 @@ export async function authenticate(request: NextRequest): Promise<AuthContext |
         success: false,
         error: {
           code: 'UNAUTHORIZED',
-          message: 'Missing or invalid Authorization header. Use: Bearer <token>',
+          message: 'Missing or invalid Authorization header. Use: Bearer <token> or X-API-Key: <key>',
         },
       } satisfies ApiResponse,
       { status: 401 }
     );
   }
 
+  if (isApiKey(token)) {
+    const auth = await authenticateApiKey(request, token);
+    return isAuthError(auth) ? auth : withPermissions(auth);
+  }
+
+  let auth: AuthContext;
   try {
-    const auth = await verifyToken(token);
-    return auth;
+    auth = await verifyToken(token);
+    if (auth.sessionId) {
+      if (request.headers.get(DEVICE_HEADER) !== auth.deviceId) {
+        throw new Error('Access token is bound to another device');
+      }
+      if (!(await isSessionActive(auth.tenantId, auth.sessionId))) {
+        throw new Error('Session has been revoked');
+      }
+    }
   } catch (error) {
     return NextResponse.json(
       {
@@ -41,6 +62,59 @@ export async function authenticate(request: NextRequest): Promise<AuthContext |
       { status: 401 }
     );
   }
+  return withPermissions(auth);
+}
+
+// --- Attach the permissions of the role (custom roles are looked up) ---
+async function withPermissions(auth: AuthContext): Promise<AuthContext | NextResponse> {
+  const permissions = await resolveRolePermissions(auth.tenantId, auth.role);
+  if (!permissions) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: `Role ${auth.role} does not exist in this tenant`,
+        },
+      } satisfies ApiResponse,
+      { status: 403 }
+    );
+  }
+  return { ...auth, permissions };
+}
+
+async function authenticateApiKey(request: NextRequest, key: string): Promise<AuthContext | NextResponse> {
+  let verified: Awaited<ReturnType<typeof verifyApiKey>>;
+  try {
+    verified = await verifyApiKey(key);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: error instanceof Error ? error.message : 'Invalid API key',
+        },
+      } satisfies ApiResponse,
+      { status: 401 }
+    );
+  }
+
+  const { scopes, ...auth } = verified;
+  const { pathname } = new URL(request.url);
+  if (!scopeAllows(scopes, request.method, pathname)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: `This API key is not scoped for ${request.method} ${pathname}`,
+        },
+      } satisfies ApiResponse,
+      { status: 403 }
+    );
+  }
+  return auth;
 }
 
 // --- Helper: check if result is auth context or error response ---
@@ -48,15 +122,49 @@ export function isAuthError(result: AuthContext | NextResponse): result is NextR
   return result instanceof NextResponse;
 }
 
-// --- Helper: require specific role ---
-export function requireRole(auth: AuthContext, ...roles: AuthContext['role'][]): NextResponse | null {
-  if (!roles.includes(auth.role)) {
+// --- Helper: require a permission ---
+export function requirePermission(auth: AuthContext, permission: Permission): NextResponse | null {
+  if (!hasPermission(auth, permission)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: `This action requires the ${permission} permission`,
+        },
+      } satisfies ApiResponse,
+      { status: 403 }
+    );
+  }
+  return null;
+}
+
+// --- Helper: require a user identity (reviews, leases, etc.) ---
+export function requireUserId(auth: AuthContext): NextResponse | null {
+  if (!auth.userId) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'This action requires a token that identifies the user (userId)',
+        },
+      } satisfies ApiResponse,
+      { status: 403 }
+    );
+  }
+  return null;
+}
+
+// --- Helper: refuse API keys (key management needs a user's JWT) ---
+export function requireJwt(auth: AuthContext): NextResponse | null {
+  if (auth.apiKeyId) {
     return NextResponse.json(
       {
         success: false,
         error: {
           code: 'FORBIDDEN',
-          message: `This action requires one of these roles: ${roles.join(', ')}`,
+          message: 'This action cannot be performed with an API key',
         },
       } satisfies ApiResponse,
       { status: 403 }
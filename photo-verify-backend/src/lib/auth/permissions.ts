@@ -0,0 +1,76 @@
+// ============================================
+// Permissions - Roles as Named Permission Sets
+// ============================================
+// Routes check permissions (requirePermission in middleware.ts), never
+// role names. The built-in roles are defined here; tenants add
+// their own in tenant_roles (see services/roles.ts). Custom roles cannot
+// hold PLATFORM_PERMISSIONS, so only the built-in admin acts across
+// tenants, prices models or issues invoices.
+
+import { and, eq } from 'drizzle-orm';
+import { getDb, schema } from '@/lib/db';
+import { BUILT_IN_ROLES, PERMISSIONS, type AuthContext, type BuiltInRole, type Permission } from '@/lib/types';
+
+export const ROLE_PERMISSIONS: Record<BuiltInRole, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  operator: [
+    'tasks:read', 'tasks:write',
+    'templates:read', 'templates:write',
+    'verifications:read', 'verifications:create', 'verifications:review',
+    'billing:read', 'invoices:read',
+    'sessions:create',
+  ],
+  viewer: [
+    'tasks:read', 'templates:read', 'verifications:read', 'billing:read', 'invoices:read',
+  ],
+  // Rep session access tokens (auth/sessions.ts): photograph, verify, see own
+  // results. Reads are scoped to the rep's own rows (see ownRowsOf).
+  rep: [
+    'tasks:read',
+    'verifications:read', 'verifications:create',
+  ],
+};
+
+export function isBuiltInRole(role: string): role is BuiltInRole {
+  return (BUILT_IN_ROLES as readonly string[]).includes(role);
+}
+
+// --- What a request may do: resolved permissions, else its built-in role's ---
+export function permissionsOf(auth: Pick<AuthContext, 'role' | 'permissions'>): readonly Permission[] {
+  if (auth.permissions) return auth.permissions;
+  return isBuiltInRole(auth.role) ? ROLE_PERMISSIONS[auth.role] : [];
+}
+
+export function hasPermission(auth: Pick<AuthContext, 'role' | 'permissions'>, permission: Permission): boolean {
+  return permissionsOf(auth).includes(permission);
+}
+
+// --- Permissions the caller would hand out without holding them ---
+export function ungrantable(auth: Pick<AuthContext, 'role' | 'permissions'>, permissions: readonly Permission[]): Permission[] {
+  const held = permissionsOf(auth);
+  return permissions.filter((p) => !held.includes(p));
+}
+
+// --- The tenant a request acts on: another one only with tenants:admin ---
+export function targetTenant(auth: AuthContext, requested: string | null | undefined): string {
+  return requested && hasPermission(auth, 'tenants:admin') ? requested : auth.tenantId;
+}
+
+// --- The rep role reads only its own rows: the userId (emp_code) to match, else null ---
+// Tasks assigned to it, and the verifications, jobs and reviews it submitted.
+export function ownRowsOf(auth: Pick<AuthContext, 'role' | 'userId'>): string | null {
+  return auth.role === 'rep' ? auth.userId ?? '' : null;
+}
+
+// --- Permissions of a role in a tenant (null if the role does not exist) ---
+export async function resolveRolePermissions(tenantId: string, role: string): Promise<Permission[] | null> {
+  if (isBuiltInRole(role)) return [...ROLE_PERMISSIONS[role]];
+
+  const db = getDb();
+  const [row] = await db
+    .select({ permissions: schema.tenantRoles.permissions })
+    .from(schema.tenantRoles)
+    .where(and(eq(schema.tenantRoles.tenantId, tenantId), eq(schema.tenantRoles.name, role)))
+    .limit(1);
+  return row ? (row.permissions as Permission[]) : null;
+}
@@ -0,0 +1,123 @@
+// ============================================
+// Rep PINs - Proof of Login for the Session Exchange
+// ============================================
+// An emp_code alone is easy to guess, so opening a rep session (see
+// sessions.ts) also takes the PIN an admin set for that rep. Only a
+// salted scrypt hash is stored. MAX_PIN_FAILURES wrong PINs in a row
+// lock the rep out for PIN_LOCKOUT_MINUTES; the right PIN resets the
+// count. A rep without a PIN cannot open a session.
+
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { and, eq, sql } from 'drizzle-orm';
+import { getDb, schema } from '@/lib/db';
+import { recordAudit } from '@/lib/services/audit';
+import type { AuthContext } from '@/lib/types';
+
+export const MAX_PIN_FAILURES = 5;
+export const PIN_LOCKOUT_MINUTES = 15;
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+const KEY_LENGTH = 32;
+
+export type PinVerdict = 'ok' | 'invalid' | 'locked';
+
+// --- Hash material ---
+
+export async function hashPin(pin: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(pin, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64url')}$${hash.toString('base64url')}`;
+}
+
+export async function pinMatches(stored: string, pin: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'base64url');
+  const actual = await scryptAsync(pin, Buffer.from(salt, 'base64url'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// ============================================
+// Check
+// ============================================
+
+// --- Is this the rep's PIN? Counts the failure and locks when it is not ---
+export async function verifyRepPin(tenantId: string, empCode: string, pin: string, now: Date = new Date()): Promise<PinVerdict> {
+  const db = getDb();
+  const c = schema.repCredentials;
+  const [credential] = await db
+    .select()
+    .from(c)
+    .where(and(eq(c.tenantId, tenantId), eq(c.empCode, empCode)))
+    .limit(1);
+
+  if (!credential) return 'invalid';
+  if (credential.lockedUntil && credential.lockedUntil > now) return 'locked';
+
+  if (await pinMatches(credential.pinHash, pin)) {
+    if (credential.failedAttempts > 0 || credential.lockedUntil) {
+      await db.update(c).set({ failedAttempts: 0, lockedUntil: null }).where(eq(c.id, credential.id));
+    }
+    return 'ok';
+  }
+
+  // Counted in SQL so concurrent guesses cannot share one attempt
+  const lockedUntil = new Date(now.getTime() + PIN_LOCKOUT_MINUTES * 60_000);
+  await db.update(c)
+    .set({
+      failedAttempts: sql`case when ${c.failedAttempts} + 1 >= ${MAX_PIN_FAILURES} then 0 else ${c.failedAttempts} + 1 end`,
+      lockedUntil: sql`case when ${c.failedAttempts} + 1 >= ${MAX_PIN_FAILURES} then ${lockedUntil.toISOString()}::timestamptz else ${c.lockedUntil} end`,
+    })
+    .where(eq(c.id, credential.id));
+  return 'invalid';
+}
+
+// ============================================
+// Admin
+// ============================================
+
+// --- Set (or replace) a rep's PIN; clears a lockout ---
+export async function setRepPin(auth: AuthContext, tenantId: string, empCode: string, pin: string): Promise<void> {
+  const db = getDb();
+  const c = schema.repCredentials;
+  const pinHash = await hashPin(pin);
+  const now = new Date();
+
+  const [row] = await db.insert(c)
+    .values({ tenantId, empCode, pinHash, updatedBy: auth.userId ?? null })
+    .onConflictDoUpdate({
+      target: [c.tenantId, c.empCode],
+      set: { pinHash, failedAttempts: 0, lockedUntil: null, updatedBy: auth.userId ?? null, updatedAt: now },
+    })
+    .returning({ id: c.id });
+
+  await recordAudit({
+    tenantId,
+    action: 'rep_pin_set',
+    entityType: 'rep_credential',
+    entityId: row.id,
+    userId: auth.userId,
+    details: { empCode },
+  });
+}
+
+// --- Remove a rep's PIN (false if they had none); open sessions are left alone ---
+export async function removeRepPin(auth: AuthContext, tenantId: string, empCode: string): Promise<boolean> {
+  const db = getDb();
+  const c = schema.repCredentials;
+  const [row] = await db.delete(c)
+    .where(and(eq(c.tenantId, tenantId), eq(c.empCode, empCode)))
+    .returning({ id: c.id });
+  if (!row) return false;
+
+  await recordAudit({
+    tenantId,
+    action: 'rep_pin_removed',
+    entityType: 'rep_credential',
+    entityId: row.id,
+    userId: auth.userId,
+    details: { empCode },
+  });
+  return true;
+}
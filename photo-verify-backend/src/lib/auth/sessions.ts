@@ -0,0 +1,283 @@
+// ============================================
+// Rep Sessions - Access + Refresh Tokens per Device
+// ============================================
+// Instead of one shared token in the PWA bundle, each rep gets a session
+// bound to their emp_code and device:
+// - a trusted caller (operator/admin JWT or API key, e.g. the PWA's
+//   server-side proxy) exchanges { empCode, deviceId } after login;
+// - the access token is a JWT valid for 15 minutes with the built-in rep
+//   role, carrying the session (sid) and device (did); requests must
+//   send the same X-Device-Id;
+// - the refresh token (pvr_<sessionId>.<secret>) is single use: every
+//   refresh returns a new one and slides the 30-day expiry. Presenting
+//   the previous one again means it was copied, so the session is revoked.
+//
+// auth_sessions is the revocation list: a revoked session stops its
+// access tokens on the next request, not when they expire.
+
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { and, desc, eq, isNull } from 'drizzle-orm';
+import { getDb, schema } from '@/lib/db';
+import { signAccessToken } from './jwt';
+import type { AuthContext, SessionTokens } from '@/lib/types';
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+export const REFRESH_TOKEN_TTL_DAYS = 30;
+export const DEVICE_HEADER = 'x-device-id';
+
+const REFRESH_TOKEN_PREFIX = 'pvr_';
+
+export type SessionView = Omit<schema.AuthSession, 'refreshTokenHash' | 'previousTokenHash'>;
+
+// --- Token material ---
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function sameHash(a: string | null, b: string): boolean {
+  if (!a || a.length !== b.length) return false;
+  return timingSafeEqual(Buffer.from(a, 'hex'), Buffer.from(b, 'hex'));
+}
+
+export function generateRefreshToken(sessionId: string): string {
+  return `${REFRESH_TOKEN_PREFIX}${sessionId}.${randomBytes(32).toString('base64url')}`;
+}
+
+export function parseRefreshToken(token: string): { sessionId: string } | null {
+  const match = /^pvr_([0-9a-f-]{36})\.[A-Za-z0-9_-]{43}$/.exec(token);
+  return match ? { sessionId: match[1] } : null;
+}
+
+// --- What a refresh attempt means for the session (pure) ---
+export type RefreshVerdict = 'rotate' | 'reuse' | 'invalid' | 'revoked' | 'expired' | 'wrong_device';
+
+export function judgeRefresh(
+  session: Pick<schema.AuthSession, 'deviceId' | 'refreshTokenHash' | 'previousTokenHash' | 'expiresAt' | 'revokedAt'>,
+  tokenHash: string,
+  deviceId: string,
+  now: Date,
+): RefreshVerdict {
+  if (session.revokedAt) return 'revoked';
+  if (session.expiresAt <= now) return 'expired';
+  if (sameHash(session.refreshTokenHash, tokenHash)) {
+    return session.deviceId === deviceId ? 'rotate' : 'wrong_device';
+  }
+  return sameHash(session.previousTokenHash, tokenHash) ? 'reuse' : 'invalid';
+}
+
+const REFRESH_ERRORS: Record<Exclude<RefreshVerdict, 'rotate'>, string> = {
+  reuse: 'Refresh token was already used; session revoked',
+  invalid: 'Invalid refresh token',
+  revoked: 'Session has been revoked',
+  expired: 'Session has expired',
+  wrong_device: 'Refresh token is bound to another device',
+};
+
+function toView(row: schema.AuthSession): SessionView {
+  const { refreshTokenHash: _current, previousTokenHash: _previous, ...view } = row;
+  return view;
+}
+
+async function issueTokens(
+  session: Pick<schema.AuthSession, 'id' | 'tenantId' | 'empCode' | 'deviceId'>,
+  tenantSlug: string,
+  refreshToken: string,
+  refreshExpiresAt: Date,
+): Promise<SessionTokens> {
+  const accessExpiresAt = new Date(Date.now() + ACCESS_TOKEN_TTL_SECONDS * 1000);
+  const accessToken = await signAccessToken({
+    tenantId: session.tenantId,
+    tenantSlug,
+    userId: session.empCode,
+    role: 'rep',
+    sid: session.id,
+    did: session.deviceId,
+  }, accessExpiresAt);
+
+  return {
+    sessionId: session.id,
+    accessToken,
+    accessTokenExpiresAt: accessExpiresAt.toISOString(),
+    refreshToken,
+    refreshTokenExpiresAt: refreshExpiresAt.toISOString(),
+  };
+}
+
+function refreshExpiry(from: Date): Date {
+  return new Date(from.getTime() + REFRESH_TOKEN_TTL_DAYS * 24 * 3600 * 1000);
+}
+
+// ============================================
+// Exchange
+// ============================================
+
+// --- Open a session for a rep on a device (replaces that device's open one) ---
+export async function startSession(
+  auth: AuthContext,
+  input: { empCode: string; deviceId: string; deviceName?: string },
+): Promise<SessionTokens> {
+  const db = getDb();
+  const s = schema.authSessions;
+  const id = randomUUID();
+  const refreshToken = generateRefreshToken(id);
+  const expiresAt = refreshExpiry(new Date());
+
+  await db.batch([
+    db.update(s)
+      .set({ revokedAt: new Date(), revokedReason: 'replaced' })
+      .where(and(
+        eq(s.tenantId, auth.tenantId),
+        eq(s.empCode, input.empCode),
+        eq(s.deviceId, input.deviceId),
+        isNull(s.revokedAt)
+      )),
+    db.insert(s).values({
+      id,
+      tenantId: auth.tenantId,
+      empCode: input.empCode,
+      deviceId: input.deviceId,
+      deviceName: input.deviceName ?? null,
+      refreshTokenHash: hashToken(refreshToken),
+      createdBy: auth.userId ?? null,
+      expiresAt,
+    }),
+    db.insert(schema.auditLog).values({
+      tenantId: auth.tenantId,
+      action: 'session_started',
+      entityType: 'auth_session',
+      entityId: id,
+      userId: auth.userId,
+      details: { empCode: input.empCode, deviceId: input.deviceId, apiKeyId: auth.apiKeyId },
+    }),
+  ]);
+
+  return issueTokens({ id, tenantId: auth.tenantId, empCode: input.empCode, deviceId: input.deviceId }, auth.tenantSlug, refreshToken, expiresAt);
+}
+
+// --- Trade a refresh token for a new pair (throws when refused) ---
+export async function refreshSession(refreshToken: string, deviceId: string): Promise<SessionTokens> {
+  const parsed = parseRefreshToken(refreshToken);
+  if (!parsed) throw new Error(REFRESH_ERRORS.invalid);
+
+  const db = getDb();
+  const s = schema.authSessions;
+  const [row] = await db
+    .select({ session: s, tenantSlug: schema.tenants.slug, tenantActive: schema.tenants.isActive })
+    .from(s)
+    .innerJoin(schema.tenants, eq(schema.tenants.id, s.tenantId))
+    .where(eq(s.id, parsed.sessionId))
+    .limit(1);
+  if (!row) throw new Error(REFRESH_ERRORS.invalid);
+  if (!row.tenantActive) throw new Error('Tenant is not active');
+
+  const now = new Date();
+  const tokenHash = hashToken(refreshToken);
+  const verdict = judgeRefresh(row.session, tokenHash, deviceId, now);
+
+  if (verdict === 'reuse') {
+    await closeSession(row.session, 'refresh_reuse', null, { deviceId });
+  }
+  if (verdict !== 'rotate') throw new Error(REFRESH_ERRORS[verdict]);
+
+  const next = generateRefreshToken(row.session.id);
+  const expiresAt = refreshExpiry(now);
+  // Only the holder of the current token wins a concurrent refresh
+  const [rotated] = await db
+    .update(s)
+    .set({ refreshTokenHash: hashToken(next), previousTokenHash: tokenHash, refreshedAt: now, expiresAt })
+    .where(and(eq(s.id, row.session.id), eq(s.refreshTokenHash, tokenHash), isNull(s.revokedAt)))
+    .returning({ id: s.id });
+  if (!rotated) throw new Error(REFRESH_ERRORS.invalid);
+
+  return issueTokens(row.session, row.tenantSlug, next, expiresAt);
+}
+
+// --- Is the session behind an access token still open? ---
+export async function isSessionActive(tenantId: string, sessionId: string): Promise<boolean> {
+  const db = getDb();
+  const s = schema.authSessions;
+  const [row] = await db
+    .select({ revokedAt: s.revokedAt, expiresAt: s.expiresAt })
+    .from(s)
+    .where(and(eq(s.id, sessionId), eq(s.tenantId, tenantId)))
+    .limit(1);
+  return !!row && !row.revokedAt && row.expiresAt > new Date();
+}
+
+// ============================================
+// Revocation
+// ============================================
+
+async function closeSession(
+  session: Pick<schema.AuthSession, 'id' | 'tenantId' | 'empCode'>,
+  reason: string,
+  userId: string | null | undefined,
+  details: Record<string, unknown> = {},
+): Promise<void> {
+  const db = getDb();
+  const s = schema.authSessions;
+  await db.batch([
+    db.update(s)
+      .set({ revokedAt: new Date(), revokedReason: reason })
+      .where(and(eq(s.id, session.id), isNull(s.revokedAt))),
+    db.insert(schema.auditLog).values({
+      tenantId: session.tenantId,
+      action: 'session_revoked',
+      entityType: 'auth_session',
+      entityId: session.id,
+      userId: userId ?? undefined,
+      details: { empCode: session.empCode, reason, ...details },
+    }),
+  ]);
+}
+
+// --- Logout: the refresh token revokes its own session ---
+export async function revokeByRefreshToken(refreshToken: string): Promise<boolean> {
+  const parsed = parseRefreshToken(refreshToken);
+  if (!parsed) return false;
+
+  const db = getDb();
+  const [session] = await db.select().from(schema.authSessions).where(eq(schema.authSessions.id, parsed.sessionId)).limit(1);
+  if (!session || session.revokedAt || !sameHash(session.refreshTokenHash, hashToken(refreshToken))) return false;
+
+  await closeSession(session, 'logout', session.empCode);
+  return true;
+}
+
+export async function listSessions(
+  tenantId: string,
+  filters: { empCode?: string; activeOnly?: boolean } = {},
+): Promise<SessionView[]> {
+  const db = getDb();
+  const s = schema.authSessions;
+  const conditions = [
+    eq(s.tenantId, tenantId),
+    filters.empCode ? eq(s.empCode, filters.empCode) : undefined,
+    filters.activeOnly ? isNull(s.revokedAt) : undefined,
+  ].filter(Boolean);
+
+  const rows = await db.select().from(s).where(and(...conditions)).orderBy(desc(s.createdAt)).limit(200);
+  return rows.map(toView);
+}
+
+// --- Admin: revoke one session (null if not found) ---
+export async function revokeSession(auth: AuthContext, tenantId: string, id: string): Promise<SessionView | null> {
+  const db = getDb();
+  const s = schema.authSessions;
+  const [session] = await db.select().from(s).where(and(eq(s.id, id), eq(s.tenantId, tenantId))).limit(1);
+  if (!session) return null;
+
+  if (!session.revokedAt) await closeSession(session, 'admin', auth.userId);
+  const [row] = await db.select().from(s).where(eq(s.id, id)).limit(1);
+  return toView(row);
+}
+
+// --- Admin: revoke every open session of a rep (lost device, leaving the company) ---
+export async function revokeSessionsForEmployee(auth: AuthContext, tenantId: string, empCode: string): Promise<number> {
+  const open = await listSessions(tenantId, { empCode, activeOnly: true });
+  for (const session of open) {
+    await closeSession(session, 'admin', auth.userId);
+  }
+  return open.length;
+}
@@ -0,0 +1,116 @@
+// ============================================
+// Keyset Pagination
+// ============================================
+// Stable cursors for list endpoints. Rows are ordered by a sort column,
+// then id, and a cursor carries the last row's sort value and id: rows
+// written meanwhile never shift a page the way OFFSET does, and every
+// page is an index range scan.
+//
+// Sort values travel as Postgres text (column::text), so timestamps
+// keep their microseconds and reals their exact digits. NULLs sort as
+// Postgres does by default (greatest: last ascending, first descending),
+// so the (tenant_id, column, id) indexes serve both directions. A
+// cursor only works with the sort it came from.
+
+import { sql, type SQL } from 'drizzle-orm';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface SortKey {
+  name: string; // As in ?sort=
+  column: AnyPgColumn;
+  type: 'timestamptz' | 'real' | 'integer' | 'text';
+}
+
+export interface Keyset {
+  sort: SortKey;
+  order: SortOrder;
+  id: AnyPgColumn;
+}
+
+export interface CursorPosition {
+  value: string | null;
+  id: string;
+}
+
+export interface Page<T> {
+  rows: T[];
+  nextCursor: string | null;
+}
+
+const VALUE_PATTERNS: Record<SortKey['type'], RegExp> = {
+  timestamptz: /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}(\.\d{1,6})?([+-]\d{2}(:?\d{2})?|Z)$/,
+  real: /^(-?\d+(\.\d+)?(e[+-]?\d+)?|-?Infinity|NaN)$/i,
+  integer: /^-?\d+$/,
+  text: /^/,
+};
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function encodeCursor(keyset: Keyset, position: CursorPosition): string {
+  return Buffer.from(JSON.stringify([keyset.sort.name, keyset.order, position.value, position.id])).toString('base64url');
+}
+
+// --- Throws "Invalid cursor" for anything not issued under this sort ---
+export function decodeCursor(keyset: Keyset, cursor: string): CursorPosition {
+  try {
+    const [name, order, value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (
+      name === keyset.sort.name
+      && order === keyset.order
+      && (value === null || (typeof value === 'string' && VALUE_PATTERNS[keyset.sort.type].test(value)))
+      && typeof id === 'string' && UUID_PATTERN.test(id)
+    ) {
+      return { value, id };
+    }
+  } catch {
+    // Falls through
+  }
+  throw new Error('Invalid cursor');
+}
+
+// --- ORDER BY: sort column, then id ---
+export function keysetOrder(keyset: Keyset): SQL[] {
+  const direction = sql.raw(keyset.order);
+  return [sql`${keyset.sort.column} ${direction}`, sql`${keyset.id} ${direction}`];
+}
+
+// --- WHERE: rows after the cursor's position ---
+export function keysetAfter(keyset: Keyset, position: CursorPosition): SQL {
+  const { column, type } = keyset.sort;
+  const asc = keyset.order === 'asc';
+  const beyond = sql.raw(asc ? '>' : '<');
+  const idBeyond = sql`${keyset.id} ${beyond} ${position.id}`;
+
+  // Among the NULLs: the rest of them, then (descending) every value
+  if (position.value === null) {
+    return asc
+      ? sql`(${column} is null and ${idBeyond})`
+      : sql`((${column} is null and ${idBeyond}) or ${column} is not null)`;
+  }
+
+  // Among the values: the rest of them, then (ascending) the NULLs
+  const value = sql`${position.value}::${sql.raw(type)}`;
+  return asc
+    ? sql`(${column} > ${value} or (${column} = ${value} and ${idBeyond}) or ${column} is null)`
+    : sql`(${column} < ${value} or (${column} = ${value} and ${idBeyond}))`;
+}
+
+// --- The sort value to select with each row, for the next cursor ---
+export function cursorValue(keyset: Keyset): SQL<string | null> {
+  return sql<string | null>`${keyset.sort.column}::text`;
+}
+
+// --- Rows fetched with limit + 1: trim the extra one into a next cursor ---
+export function toPage<T extends { id: string; cursorValue: string | null }>(
+  keyset: Keyset,
+  rows: T[],
+  limit: number,
+): Page<Omit<T, 'cursorValue'>> {
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    rows: page.map(({ cursorValue: _, ...row }) => row),
+    nextCursor: rows.length > limit && last ? encodeCursor(keyset, { value: last.cursorValue, id: last.id }) : null,
+  };
+}
@@ -10,6 +10,7 @@ import {
   jsonb,
   real,
   integer,
+  bigint,
   boolean,
   index,
   uniqueIndex,
@@ -21,6 +22,7 @@ export const tenants = pgTable('tenants', {
   name: text('name').notNull(),
   slug: text('slug').notNull().unique(),
   config: jsonb('config').notNull().default({}),
+  storageUsedBytes: bigint('storage_used_bytes', { mode: 'number' }).notNull().default(0),  // Counted against config.storageLimitMb
   isActive: boolean('is_active').notNull().default(true),
   createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
@@ -28,6 +30,35 @@ export const tenants = pgTable('tenants', {
   uniqueIndex('tenants_slug_idx').on(table.slug),
 ]);
 
+// --- Verification Templates (reusable criteria, tenant-scoped) ---
+export const verificationTemplates = pgTable('verification_templates', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').notNull().references(() => tenants.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  description: text('description'),
+  latestVersion: integer('latest_version').notNull().default(0),
+  createdBy: text('created_by'),
+  archivedAt: timestamp('archived_at', { withTimezone: true }),  // Archived: no new references, pinned ones keep working
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index('verification_templates_tenant_idx').on(table.tenantId),
+]);
+
+// --- Template Versions (immutable config snapshots) ---
+export const verificationTemplateVersions = pgTable('verification_template_versions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  templateId: uuid('template_id').notNull().references(() => verificationTemplates.id, { onDelete: 'cascade' }),
+  tenantId: uuid('tenant_id').notNull().references(() => tenants.id, { onDelete: 'cascade' }),
+  version: integer('version').notNull(),
+  config: jsonb('config').notNull(),  // PhotoVerificationConfig
+  notes: text('notes'),
+  createdBy: text('created_by'),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex('verification_template_versions_template_version_idx').on(table.templateId, table.version),
+]);
+
 // --- Tasks (PHOTO_VERIFY missions) ---
 export const tasks = pgTable('tasks', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -38,17 +69,29 @@ export const tasks = pgTable('tasks', {
   status: text('status', {
     enum: ['pending', 'in_progress', 'completed', 'failed', 'manual_review'],
   }).notNull().default('pending'),
-  photoVerificationConfig: jsonb('photo_verification_config').notNull(),
+  photoVerificationConfig: jsonb('photo_verification_config').notNull(),  // Resolved config (template version + overrides)
+  templateId: uuid('template_id').references(() => verificationTemplates.id, { onDelete: 'set null' }),
+  templateVersion: integer('template_version'),  // Pinned version of templateId
+  configOverrides: jsonb('config_overrides'),  // Task-level overrides applied on top of the template
   assignedTo: text('assigned_to'),
   customerId: text('customer_id'),
   dueDate: timestamp('due_date', { withTimezone: true }),
   metadata: jsonb('metadata').default({}),
+  idempotencyKey: text('idempotency_key'),  // Bulk imports: a row imported twice maps to the same task
   createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
 }, (table) => [
   index('tasks_tenant_idx').on(table.tenantId),
+  uniqueIndex('tasks_tenant_idempotency_idx').on(table.tenantId, table.idempotencyKey),
   index('tasks_status_idx').on(table.status),
   index('tasks_tenant_status_idx').on(table.tenantId, table.status),
+  // GET /api/tasks: one per sort key (+ id, the cursor tiebreak) and per selective filter
+  index('tasks_tenant_created_idx').on(table.tenantId, table.createdAt, table.id),
+  index('tasks_tenant_updated_idx').on(table.tenantId, table.updatedAt, table.id),
+  index('tasks_tenant_due_idx').on(table.tenantId, table.dueDate, table.id),
+  index('tasks_tenant_title_idx').on(table.tenantId, table.title, table.id),
+  index('tasks_tenant_assigned_idx').on(table.tenantId, table.assignedTo, table.createdAt),
+  index('tasks_tenant_customer_idx').on(table.tenantId, table.customerId, table.createdAt),
 ]);
 
 // --- Verifications (results of photo analysis) ---
@@ -57,9 +100,12 @@ export const verifications = pgTable('verifications', {
   taskId: uuid('task_id').references(() => tasks.id, { onDelete: 'cascade' }),  // Optional: for internal tasks
   externalTaskId: text('external_task_id'),  // For tasks from external APIs (Retool, etc.)
   tenantId: uuid('tenant_id').notNull().references(() => tenants.id, { onDelete: 'cascade' }),
-  imageUrl: text('image_url').notNull(),
+  imageUrl: text('image_url'),  // First image of the set (kept for single-image clients); null once purged
+  imageUrls: jsonb('image_urls').notNull().default([]),  // Ordered image set: [{ url, label? }]; [] once purged
+  imagesPurgedAt: timestamp('images_purged_at', { withTimezone: true }),  // Photos deleted by the tenant's retention policy
   passed: boolean('passed').notNull(),
   overallConfidence: real('overall_confidence').notNull(),
+  score: real('score'),  // 0-100 weighted execution score (null when the model gave no verdict)
   criteriaResults: jsonb('criteria_results').notNull().default([]),
   configUsed: jsonb('config_used'),  // Store the config snapshot used for this verification
   modelUsed: text('model_used').notNull(),
@@ -68,14 +114,128 @@ export const verifications = pgTable('verifications', {
   outputTokens: integer('output_tokens'),
   estimatedCostUsd: real('estimated_cost_usd'),
   rawModelResponse: text('raw_model_response'),
-  retryCount: integer('retry_count').notNull().default(0),
+  retryCount: integer('retry_count').notNull().default(0),  // Failed vision calls before the verdict
+  attempts: jsonb('attempts').notNull().default([]),  // VisionAttempt per call: provider, model, outcome, raw response
+  mode: text('mode', { enum: ['ai', 'manual'] }).notNull().default('ai'),  // 'manual' = reviewer decision
+  reviewedBy: text('reviewed_by'),  // Reviewer userId for manual verifications
+  submittedBy: text('submitted_by'),  // userId of the requester (a rep's emp_code); reps read only their own
+  customerId: text('customer_id'),  // Point of sale (task.customerId or request customerId), scopes duplicate detection
+  imageHashes: jsonb('image_hashes').notNull().default([]),  // Perceptual hash per image (hex dHash, null if undecodable)
+  duplicateOf: uuid('duplicate_of'),  // Earlier verification whose photo was reused
+  evidence: jsonb('evidence').notNull().default([]),  // Capture metadata per image as sent by the client
+  integrity: jsonb('integrity'),  // IntegrityReport: capture age / distance checks and their issues
   createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
 }, (table) => [
   index('verifications_task_idx').on(table.taskId),
   index('verifications_external_task_idx').on(table.externalTaskId),
   index('verifications_tenant_idx').on(table.tenantId),
-  index('verifications_tenant_created_idx').on(table.tenantId, table.createdAt),
+  index('verifications_tenant_created_idx').on(table.tenantId, table.createdAt, table.id),
   index('verifications_tenant_external_idx').on(table.tenantId, table.externalTaskId),
+  index('verifications_tenant_customer_created_idx').on(table.tenantId, table.customerId, table.createdAt),
+  index('verifications_tenant_submitted_created_idx').on(table.tenantId, table.submittedBy, table.createdAt),
+  // GET /api/verifications: sort keys (+ id, the cursor tiebreak) and the model / verdict filters
+  index('verifications_tenant_score_idx').on(table.tenantId, table.score, table.id),
+  index('verifications_tenant_confidence_idx').on(table.tenantId, table.overallConfidence, table.id),
+  index('verifications_tenant_model_created_idx').on(table.tenantId, table.modelUsed, table.createdAt),
+  index('verifications_tenant_passed_created_idx').on(table.tenantId, table.passed, table.createdAt),
+]);
+
+// --- Review Queue (verifications awaiting a human decision) ---
+export const reviewQueue = pgTable('review_queue', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').notNull().references(() => tenants.id, { onDelete: 'cascade' }),
+  verificationId: uuid('verification_id').notNull().references(() => verifications.id, { onDelete: 'cascade' }),
+  taskId: uuid('task_id').references(() => tasks.id, { onDelete: 'cascade' }),
+  externalTaskId: text('external_task_id'),
+  status: text('status', {
+    enum: ['pending', 'approved', 'rejected'],
+  }).notNull().default('pending'),
+  reason: text('reason', {
+    enum: ['low_confidence', 'criteria_failed', 'low_score', 'provider_error', 'duplicate_photo', 'integrity_check'],
+  }).notNull(),
+  claimedBy: text('claimed_by'),  // Reviewer holding the lease
+  claimExpiresAt: timestamp('claim_expires_at', { withTimezone: true }),  // Lease ends; item can be claimed again
+  resolvedBy: text('resolved_by'),
+  resolvedAt: timestamp('resolved_at', { withTimezone: true }),
+  resolutionVerificationId: uuid('resolution_verification_id').references(() => verifications.id, { onDelete: 'set null' }),
+  notes: text('notes'),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index('review_queue_tenant_status_idx').on(table.tenantId, table.status, table.createdAt),
+  index('review_queue_verification_idx').on(table.verificationId),
+  index('review_queue_task_idx').on(table.taskId),
+]);
+
+// --- Webhook Deliveries (one row per event x endpoint) ---
+export const webhookDeliveries = pgTable('webhook_deliveries', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').notNull().references(() => tenants.id, { onDelete: 'cascade' }),
+  endpointId: text('endpoint_id').notNull(),  // tenants.config.webhooks[].id
+  url: text('url').notNull(),
+  event: text('event').notNull(),
+  eventId: uuid('event_id').notNull(),  // Same for every endpoint receiving the event
+  payload: jsonb('payload').notNull(),
+  status: text('status', {
+    enum: ['pending', 'delivered', 'dead'],
+  }).notNull().default('pending'),
+  attempts: integer('attempts').notNull().default(0),
+  nextAttemptAt: timestamp('next_attempt_at', { withTimezone: true }).notNull().defaultNow(),
+  lastStatusCode: integer('last_status_code'),
+  lastError: text('last_error'),
+  deliveredAt: timestamp('delivered_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index('webhook_deliveries_due_idx').on(table.status, table.nextAttemptAt),
+  index('webhook_deliveries_tenant_idx').on(table.tenantId, table.createdAt),
+]);
+
+// --- Webhook Dead Letters (deliveries that exhausted their retries) ---
+export const webhookDeadLetters = pgTable('webhook_dead_letters', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').notNull().references(() => tenants.id, { onDelete: 'cascade' }),
+  deliveryId: uuid('delivery_id').notNull().references(() => webhookDeliveries.id, { onDelete: 'cascade' }),
+  endpointId: text('endpoint_id').notNull(),
+  url: text('url').notNull(),
+  event: text('event').notNull(),
+  payload: jsonb('payload').notNull(),
+  attempts: integer('attempts').notNull(),
+  lastStatusCode: integer('last_status_code'),
+  lastError: text('last_error'),
+  redeliveredAt: timestamp('redelivered_at', { withTimezone: true }),
+  redeliveryId: uuid('redelivery_id'),  // New delivery created by the redelivery endpoint
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index('webhook_dead_letters_tenant_idx').on(table.tenantId, table.createdAt),
+]);
+
+// --- Verification Jobs (async POST /api/verify) ---
+// The request is stored after images are uploaded, so payload holds
+// URLs (base64 only if the Blob upload failed) and is cleared when done.
+export const verificationJobs = pgTable('verification_jobs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').notNull().references(() => tenants.id, { onDelete: 'cascade' }),
+  status: text('status', {
+    enum: ['queued', 'running', 'succeeded', 'failed'],
+  }).notNull().default('queued'),
+  stage: text('stage').notNull().default('queued'),  // Progress within the run: analyzing, saving...
+  taskId: uuid('task_id'),
+  externalTaskId: text('external_task_id'),
+  payload: jsonb('payload'),  // VerifyJobPayload: images, config, context
+  auth: jsonb('auth').notNull(),  // { tenantSlug, userId, role } of the requester, replayed by the worker
+  result: jsonb('result'),  // VerificationResult once succeeded
+  error: text('error'),
+  attempts: integer('attempts').notNull().default(0),
+  lockedUntil: timestamp('locked_until', { withTimezone: true }),  // Worker lease; expired = crashed run, retried
+  verificationId: uuid('verification_id'),
+  startedAt: timestamp('started_at', { withTimezone: true }),
+  completedAt: timestamp('completed_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index('verification_jobs_status_idx').on(table.status, table.createdAt),
+  index('verification_jobs_tenant_idx').on(table.tenantId, table.createdAt),
 ]);
 
 // --- Audit Log (for tracking all operations) ---
@@ -85,19 +245,167 @@ export const auditLog = pgTable('audit_log', {
   action: text('action').notNull(),
   entityType: text('entity_type').notNull(),
   entityId: text('entity_id'),
-  userId: text('user_id'),
+  userId: text('user_id'),                // Actor: a user, api-key:<id> or an emp_code; null or 'system' for jobs
   details: jsonb('details').default({}),
+  changes: jsonb('changes'),              // { field: { before, after } } for changed fields (secrets redacted)
   createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
 }, (table) => [
   index('audit_tenant_idx').on(table.tenantId),
   index('audit_created_idx').on(table.createdAt),
+  // GET /api/audit pages newest first, optionally narrowed to one entity or actor
+  index('audit_tenant_created_idx').on(table.tenantId, table.createdAt, table.id),
+  index('audit_entity_idx').on(table.tenantId, table.entityType, table.entityId),
+  index('audit_actor_idx').on(table.tenantId, table.userId),
+]);
+
+// --- Custom Roles (named permission sets per tenant; built-in roles live in code) ---
+export const tenantRoles = pgTable('tenant_roles', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').notNull().references(() => tenants.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  description: text('description'),
+  permissions: jsonb('permissions').notNull(),  // Permission[]
+  createdBy: text('created_by'),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex('tenant_roles_name_idx').on(table.tenantId, table.name),
+]);
+
+// --- API Keys (long-lived tenant credentials; only a hash is stored) ---
+export const apiKeys = pgTable('api_keys', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').notNull().references(() => tenants.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  prefix: text('prefix').notNull().unique(),  // Public part of the key, used to look it up
+  keyHash: text('key_hash').notNull(),  // SHA-256 of the whole key
+  role: text('role').notNull(),  // Built-in or custom role (tenant_roles.name)
+  scopes: jsonb('scopes').notNull().default([]),  // Empty = every endpoint the role allows
+  createdBy: text('created_by'),
+  rotatedFrom: uuid('rotated_from'),  // The key this one replaced
+  lastUsedAt: timestamp('last_used_at', { withTimezone: true }),
+  expiresAt: timestamp('expires_at', { withTimezone: true }),
+  revokedAt: timestamp('revoked_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index('api_keys_tenant_idx').on(table.tenantId),
+]);
+
+// --- Rep Sessions (refresh tokens bound to an emp_code + device; only hashes are stored) ---
+export const authSessions = pgTable('auth_sessions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').notNull().references(() => tenants.id, { onDelete: 'cascade' }),
+  empCode: text('emp_code').notNull(),
+  deviceId: text('device_id').notNull(),
+  deviceName: text('device_name'),
+  refreshTokenHash: text('refresh_token_hash').notNull(),  // SHA-256 of the current refresh token
+  previousTokenHash: text('previous_token_hash'),  // The one it replaced; presenting it again revokes the session
+  createdBy: text('created_by'),
+  refreshedAt: timestamp('refreshed_at', { withTimezone: true }),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),  // Slides forward on every refresh
+  revokedAt: timestamp('revoked_at', { withTimezone: true }),
+  revokedReason: text('revoked_reason'),  // logout, admin, replaced, refresh_reuse
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index('auth_sessions_tenant_emp_idx').on(table.tenantId, table.empCode),
+]);
+
+// --- Rep PINs (proof of login for the session exchange; only a scrypt hash is stored) ---
+export const repCredentials = pgTable('rep_credentials', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').notNull().references(() => tenants.id, { onDelete: 'cascade' }),
+  empCode: text('emp_code').notNull(),
+  pinHash: text('pin_hash').notNull(),  // scrypt$<salt>$<hash>
+  failedAttempts: integer('failed_attempts').notNull().default(0),  // Wrong PINs in a row
+  lockedUntil: timestamp('locked_until', { withTimezone: true }),
+  updatedBy: text('updated_by'),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex('rep_credentials_tenant_emp_idx').on(table.tenantId, table.empCode),
+]);
+
+// --- Model Prices (USD per 1M tokens, effective-dated; tenant rows are negotiated overrides) ---
+export const modelPrices = pgTable('model_prices', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  model: text('model').notNull(),  // Model id, e.g. gpt-4o-mini
+  tenantId: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }),  // null = list price
+  inputPer1M: real('input_per_1m').notNull(),
+  outputPer1M: real('output_per_1m').notNull(),
+  effectiveFrom: timestamp('effective_from', { withTimezone: true }).notNull(),
+  effectiveTo: timestamp('effective_to', { withTimezone: true }),  // Exclusive; null = until replaced
+  notes: text('notes'),
+  createdBy: text('created_by'),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index('model_prices_model_idx').on(table.model, table.tenantId, table.effectiveFrom),
+]);
+
+// --- Invoices (a frozen billing month per tenant; never updated) ---
+export const invoices = pgTable('invoices', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').notNull().references(() => tenants.id, { onDelete: 'cascade' }),
+  number: text('number').notNull().unique(),  // INV-<YYYYMM>-<tenant slug>
+  tenantName: text('tenant_name').notNull(),  // As of issue
+  periodStart: timestamp('period_start', { withTimezone: true }).notNull(),
+  periodEnd: timestamp('period_end', { withTimezone: true }).notNull(),  // Exclusive
+  currency: text('currency').notNull().default('USD'),
+  verifications: integer('verifications').notNull(),
+  costUsd: real('cost_usd').notNull(),  // Estimated provider cost, before markup
+  totalCents: integer('total_cents').notNull(),
+  markupRules: jsonb('markup_rules').notNull(),  // InvoicingConfig applied
+  issuedBy: text('issued_by'),
+  issuedAt: timestamp('issued_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex('invoices_tenant_period_idx').on(table.tenantId, table.periodStart),
+]);
+
+// --- Invoice Lines (one per model used in the period) ---
+export const invoiceLines = pgTable('invoice_lines', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  invoiceId: uuid('invoice_id').notNull().references(() => invoices.id, { onDelete: 'cascade' }),
+  tenantId: uuid('tenant_id').notNull().references(() => tenants.id, { onDelete: 'cascade' }),
+  position: integer('position').notNull(),
+  modelUsed: text('model_used').notNull(),  // provider/model
+  description: text('description').notNull(),
+  verifications: integer('verifications').notNull(),
+  inputTokens: integer('input_tokens').notNull(),
+  outputTokens: integer('output_tokens').notNull(),
+  costUsd: real('cost_usd').notNull(),
+  markupPercent: real('markup_percent').notNull(),
+  amountCents: integer('amount_cents').notNull(),
+}, (table) => [
+  index('invoice_lines_invoice_idx').on(table.invoiceId, table.position),
+]);
+
+// --- Rate Limit Counters (RATE_LIMIT_BACKEND=postgres) ---
+export const rateLimitCounters = pgTable('rate_limit_counters', {
+  key: text('key').primaryKey(),  // rl:<tenantId>:<scope>:<window index>
+  count: integer('count').notNull().default(0),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),  // Expired rows restart at 1, and get swept
+}, (table) => [
+  index('rate_limit_counters_expires_idx').on(table.expiresAt),
 ]);
 
 // --- Type exports for Drizzle select/insert ---
 export type Tenant = typeof tenants.$inferSelect;
 export type NewTenant = typeof tenants.$inferInsert;
+export type VerificationTemplate = typeof verificationTemplates.$inferSelect;
+export type VerificationTemplateVersion = typeof verificationTemplateVersions.$inferSelect;
 export type Task = typeof tasks.$inferSelect;
 export type NewTask = typeof tasks.$inferInsert;
 export type Verification = typeof verifications.$inferSelect;
 export type NewVerification = typeof verifications.$inferInsert;
+export type ReviewQueueItem = typeof reviewQueue.$inferSelect;
+export type NewReviewQueueItem = typeof reviewQueue.$inferInsert;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type WebhookDeadLetter = typeof webhookDeadLetters.$inferSelect;
+export type VerificationJob = typeof verificationJobs.$inferSelect;
 export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type TenantRole = typeof tenantRoles.$inferSelect;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type AuthSession = typeof authSessions.$inferSelect;
+export type RepCredential = typeof repCredentials.$inferSelect;
+export type ModelPrice = typeof modelPrices.$inferSelect;
+export type Invoice = typeof invoices.$inferSelect;
+export type InvoiceLine = typeof invoiceLines.$inferSelect;
@@ -1,93 +1,218 @@
 // ============================================
-// Rate Limiting - Vercel KV (Upstash Redis)
+// Rate Limiting - Sliding Window + Tenant Quotas
 // ============================================
+// Every limited request counts against, in order:
+//   1. the route's limit for the endpoint (per tenant)
+//   2. the tenant's maxRequestsPerMinute (tenants.config)
+//   3. the tenant's maxRequestsPerDay quota (tenants.config)
+// 1 and 2 use a sliding window counter: the previous window's count,
+// weighted by how much of it still falls in the last windowSeconds,
+// plus the current one. The daily quota is a fixed window that resets
+// at 00:00 UTC.
+//
+// Public routes without a tenant yet (the token exchange) use
+// clientRateLimit instead: the endpoint's limit per IP or device.
+//
+// Counters live in the RATE_LIMIT_BACKEND store (see stores.ts). When
+// the store or the tenant config cannot be read, RATE_LIMIT_FAIL_MODE
+// decides: open (default) lets the request through, closed answers 503.
 
-import { kv } from '@vercel/kv';
 import { NextResponse } from 'next/server';
+import { getTenantConfig } from '@/lib/services/tenants';
+import { getRateLimitStore, type RateLimitStore } from './stores';
 import type { ApiResponse } from '@/lib/types';
 
-interface RateLimitConfig {
+export { createMemoryRateLimitStore, getRateLimitStore, type MemoryRateLimitStore, type RateLimitStore } from './stores';
+
+const DEFAULT_MAX_PER_MINUTE = 30;
+const DEFAULT_MAX_PER_DAY = 1000;
+const DAY_SECONDS = 24 * 3600;
+
+export interface RateLimitConfig {
   maxRequests: number;
   windowSeconds: number;
+  sliding?: boolean; // Default true; false = fixed window (daily quota)
 }
 
-interface RateLimitResult {
+export interface RateLimitResult {
   allowed: boolean;
+  limit: number;
   remaining: number;
-  resetAt: number;
+  resetAt: number; // Unix seconds: when the next request will be allowed (denied) or the window rolls over
+}
+
+export type RateLimitScope = 'endpoint' | 'tenant_minute' | 'tenant_day' | 'client';
+
+// --- Sliding window estimate ---
+export function slidingWindowCount(
+  previous: number,
+  current: number,
+  elapsedSeconds: number,
+  windowSeconds: number,
+): number {
+  return previous * (1 - elapsedSeconds / windowSeconds) + current;
 }
 
-// --- Check rate limit for a given key ---
+// --- Seconds until the estimate leaves room for one more request (no new hits meanwhile) ---
+export function secondsUntilAllowed(
+  previous: number,
+  current: number,
+  elapsedSeconds: number,
+  windowSeconds: number,
+  maxRequests: number,
+): number {
+  const room = maxRequests - 1;
+  if (current <= room && previous > 0) {
+    // Still in this window, once enough of the previous one has slid out
+    const elapsedNeeded = windowSeconds * (1 - (room - current) / previous);
+    return Math.max(0, Math.ceil(elapsedNeeded - elapsedSeconds));
+  }
+  // In the next window, the current count slides out instead
+  const elapsedNeeded = current > 0 ? Math.max(0, windowSeconds * (1 - room / current)) : 0;
+  return Math.ceil(windowSeconds - elapsedSeconds + elapsedNeeded);
+}
+
+// --- Count one request against a limit (throws when the store is unreachable) ---
 export async function checkRateLimit(
   key: string,
-  config: RateLimitConfig
+  config: RateLimitConfig,
+  store: RateLimitStore = getRateLimitStore(),
+  nowMs: number = Date.now(),
 ): Promise<RateLimitResult> {
-  try {
-    const now = Math.floor(Date.now() / 1000);
-    const windowKey = `rl:${key}:${Math.floor(now / config.windowSeconds)}`;
+  const { maxRequests, windowSeconds } = config;
+  const sliding = config.sliding ?? true;
+  const now = nowMs / 1000;
+  const window = Math.floor(now / windowSeconds);
+  const elapsed = now - window * windowSeconds;
+  const windowEnd = (window + 1) * windowSeconds;
 
-    // Increment counter
-    const count = await kv.incr(windowKey);
+  // Sliding windows read the previous counter, so it must outlive its window
+  const current = await store.incr(`rl:${key}:${window}`, sliding ? windowSeconds * 2 : windowSeconds);
+  const previous = sliding ? (await store.get(`rl:${key}:${window - 1}`)) ?? 0 : 0;
 
-    // Set expiry on first request in window
-    if (count === 1) {
-      await kv.expire(windowKey, config.windowSeconds);
-    }
+  const count = slidingWindowCount(previous, current, elapsed, windowSeconds);
+  const allowed = count <= maxRequests;
+  const resetAt = allowed || !sliding
+    ? windowEnd
+    : Math.ceil(now) + secondsUntilAllowed(previous, current, elapsed, windowSeconds, maxRequests);
+
+  return {
+    allowed,
+    limit: maxRequests,
+    remaining: Math.max(0, Math.floor(maxRequests - count)),
+    resetAt,
+  };
+}
 
-    const resetAt = (Math.floor(now / config.windowSeconds) + 1) * config.windowSeconds;
+// --- Tenant limits (tenants.config) ---
+async function getTenantLimits(tenantId: string): Promise<{ perMinute: number; perDay: number }> {
+  const config = await getTenantConfig(tenantId);
+  return {
+    perMinute: config.maxRequestsPerMinute ?? DEFAULT_MAX_PER_MINUTE,
+    perDay: config.maxRequestsPerDay ?? DEFAULT_MAX_PER_DAY,
+  };
+}
 
-    return {
-      allowed: count <= config.maxRequests,
-      remaining: Math.max(0, config.maxRequests - count),
-      resetAt,
-    };
-  } catch (error) {
-    // If KV is down, allow the request (fail open for POC)
-    console.error('Rate limit check failed:', error);
-    return { allowed: true, remaining: -1, resetAt: 0 };
-  }
+function failClosed(): boolean {
+  return process.env.RATE_LIMIT_FAIL_MODE === 'closed';
 }
 
+function rateLimitedResponse(result: RateLimitResult, config: RateLimitConfig, scope: RateLimitScope): NextResponse {
+  const retryAfter = Math.max(1, result.resetAt - Math.floor(Date.now() / 1000));
+  const message = scope === 'tenant_day'
+    ? `Daily request quota of ${config.maxRequests} exceeded. It resets at ${new Date(result.resetAt * 1000).toISOString()}.`
+    : `Rate limit exceeded. Try again in ${retryAfter} seconds.`;
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: scope === 'tenant_day' ? 'QUOTA_EXCEEDED' : 'RATE_LIMITED',
+        message,
+        details: {
+          scope,
+          limit: config.maxRequests,
+          window: `${config.windowSeconds}s`,
+          resetAt: new Date(result.resetAt * 1000).toISOString(),
+        },
+      },
+    } satisfies ApiResponse,
+    {
+      status: 429,
+      headers: {
+        'Retry-After': String(retryAfter),
+        'X-RateLimit-Limit': String(result.limit),
+        'X-RateLimit-Remaining': String(result.remaining),
+        'X-RateLimit-Reset': String(result.resetAt),
+      },
+    }
+  );
+}
+
+type RateLimitCheck = [key: string, limit: RateLimitConfig, scope: RateLimitScope];
+
 // --- Rate limit middleware for API routes ---
 export async function rateLimitMiddleware(
   tenantId: string,
   endpoint: string,
   config?: Partial<RateLimitConfig>
 ): Promise<NextResponse | null> {
-  const defaults: RateLimitConfig = {
+  const endpointLimit: RateLimitConfig = {
     maxRequests: 30,   // 30 requests
     windowSeconds: 60, // per minute
     ...config,
   };
 
-  const key = `${tenantId}:${endpoint}`;
-  const result = await checkRateLimit(key, defaults);
+  return enforce(async () => {
+    const tenant = await getTenantLimits(tenantId);
+    return [
+      [`${tenantId}:${endpoint}`, endpointLimit, 'endpoint'],
+      [`${tenantId}:minute`, { maxRequests: tenant.perMinute, windowSeconds: 60 }, 'tenant_minute'],
+      [`${tenantId}:day`, { maxRequests: tenant.perDay, windowSeconds: DAY_SECONDS, sliding: false }, 'tenant_day'],
+    ];
+  });
+}
+
+// --- Per-client limit for routes called before a tenant is known ---
+// client is e.g. "ip:<address>" or "device:<deviceId>"
+export async function clientRateLimit(
+  endpoint: string,
+  client: string,
+  config?: Partial<RateLimitConfig>
+): Promise<NextResponse | null> {
+  const limit: RateLimitConfig = {
+    maxRequests: 30,
+    windowSeconds: 60,
+    ...config,
+  };
+  return enforce(async () => [[`client:${endpoint}:${client}`, limit, 'client']]);
+}
+
+// --- The caller's address as the platform forwards it ---
+export function clientIp(request: Request): string {
+  return request.headers.get('x-forwarded-for')?.split(',')[0].trim()
+    || request.headers.get('x-real-ip')
+    || 'unknown';
+}
+
+// --- Count against each limit in order; the first one exceeded answers 429 ---
+async function enforce(checks: () => Promise<RateLimitCheck[]>): Promise<NextResponse | null> {
+  try {
+    for (const [key, limit, scope] of await checks()) {
+      const result = await checkRateLimit(key, limit);
+      if (!result.allowed) return rateLimitedResponse(result, limit, scope);
+    }
+    return null; // Allowed
+  } catch (error) {
+    console.error('Rate limit check failed:', error);
+    if (!failClosed()) return null;
 
-  if (!result.allowed) {
     return NextResponse.json(
       {
         success: false,
-        error: {
-          code: 'RATE_LIMITED',
-          message: `Rate limit exceeded. Try again in ${result.resetAt - Math.floor(Date.now() / 1000)} seconds.`,
-          details: {
-            limit: defaults.maxRequests,
-            window: `${defaults.windowSeconds}s`,
-            resetAt: new Date(result.resetAt * 1000).toISOString(),
-          },
-        },
+        error: { code: 'RATE_LIMIT_UNAVAILABLE', message: 'Rate limiting is unavailable. Try again shortly.' },
       } satisfies ApiResponse,
-      {
-        status: 429,
-        headers: {
-          'Retry-After': String(result.resetAt - Math.floor(Date.now() / 1000)),
-          'X-RateLimit-Limit': String(defaults.maxRequests),
-          'X-RateLimit-Remaining': String(result.remaining),
-          'X-RateLimit-Reset': String(result.resetAt),
-        },
-      }
+      { status: 503, headers: { 'Retry-After': '5' } }
     );
   }
-
-  return null; // Allowed
 }
@@ -0,0 +1,136 @@
+// ============================================
+// Rate Limit Counter Stores
+// ============================================
+// A store only needs expiring counters. Pick one with RATE_LIMIT_BACKEND:
+//   kv       - Vercel KV; shared by every serverless instance (default
+//              when KV_REST_API_URL is set)
+//   postgres - rate_limit_counters table; shared, no KV needed
+//   memory   - per process (default otherwise): dev and tests only
+
+import { kv } from '@vercel/kv';
+import { eq, and, gt, lt, sql } from 'drizzle-orm';
+import { getDb, schema } from '@/lib/db';
+
+const SWEEP_PROBABILITY = 0.01; // Postgres: share of increments that also delete expired rows
+const MEMORY_SWEEP_INTERVAL_MS = 60_000; // Memory: at most one pass over expired entries per minute
+
+export interface RateLimitStore {
+  name: string;
+  incr(key: string, ttlSeconds: number): Promise<number>; // TTL set on the first increment
+  get(key: string): Promise<number | null>;
+}
+
+// --- Vercel KV ---
+export const kvRateLimitStore: RateLimitStore = {
+  name: 'kv',
+  async incr(key, ttlSeconds) {
+    const count = await kv.incr(key);
+    if (count === 1) await kv.expire(key, ttlSeconds);
+    return count;
+  },
+  get: (key) => kv.get<number>(key),
+};
+
+// --- Postgres (one upsert per increment) ---
+export const postgresRateLimitStore: RateLimitStore = {
+  name: 'postgres',
+  async incr(key, ttlSeconds) {
+    const db = getDb();
+    const c = schema.rateLimitCounters;
+    const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+
+    // An expired row counts as a fresh one
+    const [row] = await db.insert(c)
+      .values({ key, count: 1, expiresAt })
+      .onConflictDoUpdate({
+        target: c.key,
+        set: {
+          count: sql`case when ${c.expiresAt} <= now() then 1 else ${c.count} + 1 end`,
+          expiresAt: sql`case when ${c.expiresAt} <= now() then excluded.expires_at else ${c.expiresAt} end`,
+        },
+      })
+      .returning({ count: c.count });
+
+    if (Math.random() < SWEEP_PROBABILITY) {
+      await db.delete(c).where(lt(c.expiresAt, new Date()));
+    }
+    return row.count;
+  },
+  async get(key) {
+    const db = getDb();
+    const c = schema.rateLimitCounters;
+    const [row] = await db
+      .select({ count: c.count })
+      .from(c)
+      .where(and(eq(c.key, key), gt(c.expiresAt, new Date())))
+      .limit(1);
+    return row?.count ?? null;
+  },
+};
+
+// --- In-process ---
+// Every window opens a new key, so expired entries are swept on
+// increment (at most once per MEMORY_SWEEP_INTERVAL_MS), not only when
+// their own key comes back
+export interface MemoryRateLimitStore extends RateLimitStore {
+  size(): number; // Entries held, expired or not
+}
+
+export function createMemoryRateLimitStore(now: () => number = Date.now): MemoryRateLimitStore {
+  const entries = new Map<string, { value: number; expiresAt: number }>();
+  let nextSweepAt = now() + MEMORY_SWEEP_INTERVAL_MS;
+
+  const live = (key: string) => {
+    const entry = entries.get(key);
+    if (entry && entry.expiresAt <= now()) entries.delete(key);
+    return entries.get(key);
+  };
+
+  const sweep = () => {
+    const at = now();
+    if (at < nextSweepAt) return;
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= at) entries.delete(key);
+    }
+    nextSweepAt = at + MEMORY_SWEEP_INTERVAL_MS;
+  };
+
+  return {
+    name: 'memory',
+    async incr(key, ttlSeconds) {
+      sweep();
+      const entry = live(key) ?? { value: 0, expiresAt: now() + ttlSeconds * 1000 };
+      entry.value++;
+      entries.set(key, entry);
+      return entry.value;
+    },
+    async get(key) {
+      return live(key)?.value ?? null;
+    },
+    size: () => entries.size,
+  };
+}
+
+// --- Selection (RATE_LIMIT_BACKEND) ---
+
+let _store: RateLimitStore | null = null;
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!_store) {
+    const name = process.env.RATE_LIMIT_BACKEND || (process.env.KV_REST_API_URL ? 'kv' : 'memory');
+    switch (name) {
+      case 'kv':
+        _store = kvRateLimitStore;
+        break;
+      case 'postgres':
+        _store = postgresRateLimitStore;
+        break;
+      case 'memory':
+        _store = createMemoryRateLimitStore();
+        break;
+      default:
+        throw new Error(`Unknown rate limit backend: ${name}. Use one of: kv, postgres, memory`);
+    }
+  }
+  return _store;
+}
@@ -0,0 +1,144 @@
+// ============================================
+// Audit Log
+// ============================================
+// Who changed what, and how. Writers pass the entity's state before
+// and after the change; only the fields that differ are kept, in the
+// `changes` column, with secrets (webhook secrets, key hashes, ...)
+// redacted. A create has no "before", a delete no "after".
+//
+// GET /api/audit reads it newest first, with keyset cursors on
+// (created_at, id).
+
+import { and, eq, getTableColumns, gte, inArray, lt, type SQL } from 'drizzle-orm';
+import { getDb, schema } from '@/lib/db';
+import { cursorValue, decodeCursor, keysetAfter, keysetOrder, toPage, type Keyset } from '@/lib/db/pagination';
+import type { AuditQuery } from '@/lib/types';
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export interface AuditInput {
+  tenantId: string;
+  action: string;
+  entityType: string;
+  entityId?: string | null;
+  userId?: string | null;
+  before?: object | null;
+  after?: object | null;
+  details?: Record<string, unknown>;
+}
+
+const REDACTED = '[redacted]';
+const SECRET_KEY = /secret|password|token|keyhash|pinhash/i;
+const IGNORED_FIELDS = new Set(['createdAt', 'updatedAt']);
+const EXPORT_PAGE_SIZE = 500;
+
+// --- Canonical JSON value: sorted keys, ISO dates, optionally secrets redacted ---
+function canonical(value: unknown, redact: boolean): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map((v) => canonical(v, redact));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => {
+          const v = (value as Record<string, unknown>)[key];
+          return [key, redact && SECRET_KEY.test(key) && v != null ? REDACTED : canonical(v, redact)];
+        })
+    );
+  }
+  return value ?? null;
+}
+
+// --- Fields that differ between two states (null when nothing changed) ---
+// A rotated secret still shows up as changed, with both sides redacted.
+export function diffChanges(before: object | null | undefined, after: object | null | undefined): AuditChanges | null {
+  const raw = [canonical(before ?? {}, false), canonical(after ?? {}, false)] as Record<string, unknown>[];
+  const shown = [canonical(before ?? {}, true), canonical(after ?? {}, true)] as Record<string, unknown>[];
+
+  const changes: AuditChanges = {};
+  for (const key of new Set([...Object.keys(raw[0]), ...Object.keys(raw[1])])) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    if (JSON.stringify(raw[0][key] ?? null) === JSON.stringify(raw[1][key] ?? null)) continue;
+    changes[key] = { before: shown[0][key] ?? null, after: shown[1][key] ?? null };
+  }
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+// --- Row to insert: for db.batch alongside the change itself ---
+export function auditEntry(input: AuditInput): typeof schema.auditLog.$inferInsert {
+  return {
+    tenantId: input.tenantId,
+    action: input.action,
+    entityType: input.entityType,
+    entityId: input.entityId ?? null,
+    userId: input.userId ?? null,
+    details: input.details ?? {},
+    changes: input.before !== undefined || input.after !== undefined ? diffChanges(input.before, input.after) : null,
+  };
+}
+
+export async function recordAudit(input: AuditInput): Promise<void> {
+  const db = getDb();
+  await db.insert(schema.auditLog).values(auditEntry(input));
+}
+
+// ============================================
+// Query
+// ============================================
+
+export type AuditFilters = Omit<AuditQuery, 'format' | 'tenantId' | 'limit'>;
+
+export interface AuditPage {
+  entries: schema.AuditLogEntry[];
+  nextCursor: string | null;
+}
+
+// Newest first; created_at keeps its microseconds in the cursor (see db/pagination.ts)
+const AUDIT_KEYSET: Keyset = {
+  sort: { name: 'createdAt', column: schema.auditLog.createdAt, type: 'timestamptz' },
+  order: 'desc',
+  id: schema.auditLog.id,
+};
+
+function auditConditions(tenantId: string, filters: AuditFilters): SQL[] {
+  const a = schema.auditLog;
+  const conditions: SQL[] = [eq(a.tenantId, tenantId)];
+
+  if (filters.entityType) conditions.push(eq(a.entityType, filters.entityType));
+  if (filters.entityId) conditions.push(eq(a.entityId, filters.entityId));
+  if (filters.actor) conditions.push(eq(a.userId, filters.actor));
+  if (filters.action) {
+    const actions = filters.action.split(',').map((s) => s.trim()).filter(Boolean);
+    conditions.push(actions.length === 1 ? eq(a.action, actions[0]) : inArray(a.action, actions));
+  }
+  if (filters.from) conditions.push(gte(a.createdAt, new Date(filters.from)));
+  if (filters.to) conditions.push(lt(a.createdAt, new Date(filters.to)));
+  if (filters.cursor) conditions.push(keysetAfter(AUDIT_KEYSET, decodeCursor(AUDIT_KEYSET, filters.cursor)));
+  return conditions;
+}
+
+// --- One page, newest first; throws "Invalid cursor" ---
+export async function listAuditEntries(tenantId: string, filters: AuditFilters, limit: number): Promise<AuditPage> {
+  const conditions = auditConditions(tenantId, filters);
+  const db = getDb();
+  const a = schema.auditLog;
+  const rows = await db
+    .select({ ...getTableColumns(a), cursorValue: cursorValue(AUDIT_KEYSET) })
+    .from(a)
+    .where(and(...conditions))
+    .orderBy(...keysetOrder(AUDIT_KEYSET))
+    .limit(limit + 1);
+
+  const page = toPage(AUDIT_KEYSET, rows, limit);
+  return { entries: page.rows, nextCursor: page.nextCursor };
+}
+
+// --- Every matching entry, page by page (NDJSON export) ---
+export async function* exportAuditEntries(tenantId: string, filters: AuditFilters): AsyncGenerator<schema.AuditLogEntry> {
+  let cursor = filters.cursor;
+  do {
+    const page = await listAuditEntries(tenantId, { ...filters, cursor }, EXPORT_PAGE_SIZE);
+    yield* page.entries;
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+}
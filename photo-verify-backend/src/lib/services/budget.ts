@@ -0,0 +1,109 @@
+// ============================================
+// Monthly Budget
+// ============================================
+// tenants.config.budget caps the month's (UTC) estimated vision spend,
+// the sum of verifications.estimated_cost_usd since the 1st:
+//   warnAtPercent      results carry the budget status, budget.warning fires
+//   100%               'block' refuses new verifications; 'downgrade' runs
+//                      them on the cheaper downgradeTo model instead
+//   hardLimitPercent   'downgrade' refuses them too
+// A refusal throws "Monthly budget exceeded: ...", answered with 402
+// BUDGET_EXCEEDED. budget.exceeded fires when spend crosses 100% (and
+// again at the hard limit when downgrading).
+//
+// The check runs before the vision call, so verifications in flight when
+// the limit is crossed may overshoot it by their own cost.
+
+import { sql } from 'drizzle-orm';
+import { getDb } from '@/lib/db';
+import { getTenantConfig } from './tenants';
+import { emitWebhookEvent } from './webhooks';
+import { resolveVisionModel } from './vision';
+import { BudgetSchema, type BudgetConfig, type BudgetState, type BudgetStatus } from '@/lib/types';
+
+const STATE_RANK: Record<BudgetState, number> = { ok: 0, warning: 1, downgraded: 2, exceeded: 3 };
+
+// --- Tenant policy (tenants.config.budget) ---
+export async function getBudgetPolicy(tenantId: string): Promise<BudgetConfig> {
+  const config = await getTenantConfig(tenantId);
+  return BudgetSchema.parse(config.budget ?? {});
+}
+
+export function monthStart(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+// --- Spend since the start of the month ---
+export async function getMonthlySpend(tenantId: string, now: Date = new Date()): Promise<number> {
+  const db = getDb();
+  const result = await db.execute(sql`
+    SELECT COALESCE(SUM(estimated_cost_usd), 0)::float8 AS spent
+    FROM verifications
+    WHERE tenant_id = ${tenantId}
+      AND created_at >= ${monthStart(now).toISOString()}::timestamptz
+  `);
+  return Number((result.rows[0] as { spent?: number } | undefined)?.spent ?? 0);
+}
+
+// --- Where a spend stands against the policy ---
+export function evaluateBudget(spentUsd: number, policy: BudgetConfig, now: Date = new Date()): BudgetStatus {
+  const start = monthStart(now);
+  const status: BudgetStatus = {
+    state: 'ok',
+    month: start.toISOString().slice(0, 7),
+    spentUsd: Math.round(spentUsd * 1_000_000) / 1_000_000,
+    monthlyUsd: policy.monthlyUsd ?? null,
+    percentUsed: null,
+    action: policy.action,
+    resetsAt: new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1)).toISOString(),
+  };
+  if (!policy.monthlyUsd) return status;
+
+  const percent = (spentUsd / policy.monthlyUsd) * 100;
+  status.percentUsed = Math.round(percent * 10) / 10;
+
+  if (percent >= 100) {
+    if (policy.action === 'downgrade' && policy.downgradeTo && percent < policy.hardLimitPercent) {
+      status.state = 'downgraded';
+      status.downgradeTo = resolveVisionModel(policy.downgradeTo);
+    } else {
+      status.state = 'exceeded';
+    }
+  } else if (percent >= policy.warnAtPercent) {
+    status.state = 'warning';
+  }
+  return status;
+}
+
+export async function getBudgetStatus(tenantId: string, now: Date = new Date()): Promise<BudgetStatus> {
+  const [policy, spent] = await Promise.all([getBudgetPolicy(tenantId), getMonthlySpend(tenantId, now)]);
+  return evaluateBudget(spent, policy, now);
+}
+
+// --- Refuse a verification once the tenant is over its budget ---
+// Returns the status otherwise (downgraded: run on status.downgradeTo).
+export async function enforceBudget(tenantId: string): Promise<BudgetStatus> {
+  const status = await getBudgetStatus(tenantId);
+  if (status.state === 'exceeded') {
+    throw new Error(
+      `Monthly budget exceeded: $${status.spentUsd.toFixed(2)} of $${status.monthlyUsd!.toFixed(2)} spent in ${status.month}. It resets at ${status.resetsAt}.`
+    );
+  }
+  return status;
+}
+
+// --- Status after a verification's cost, alerting when it crosses a threshold ---
+export async function recordBudgetSpend(
+  tenantId: string,
+  before: BudgetStatus,
+  costUsd: number,
+): Promise<BudgetStatus> {
+  if (!before.monthlyUsd || !costUsd) return before;
+
+  const policy = await getBudgetPolicy(tenantId);
+  const after = evaluateBudget(before.spentUsd + costUsd, policy);
+  if (STATE_RANK[after.state] > STATE_RANK[before.state]) {
+    await emitWebhookEvent(tenantId, after.state === 'warning' ? 'budget.warning' : 'budget.exceeded', { ...after });
+  }
+  return after;
+}
@@ -0,0 +1,202 @@
+// ============================================
+// Criterion Types - Prompting & Deterministic Rules
+// ============================================
+// Each criterion type knows how to describe itself to the vision
+// model and how to judge the model's answer. The model's own
+// "passed" is only trusted where no rule applies (e.g. text, or a
+// count without min / max); everything else is recomputed here so
+// a verdict never depends on the model doing the comparison.
+
+import type { BrandDetection, CriterionType, CriterionValue, VerificationCriterion } from '@/lib/types';
+
+// --- One criterion as the model reported it ---
+export interface ModelCriterionResult {
+  criterion_id: string;
+  passed: boolean;
+  value: CriterionValue;
+  confidence: number;
+  reasoning: string;
+  image_index?: number | null;
+  detections?: Array<{ brand: string; box: number[]; confidence?: number; image_index?: number | null }>;
+}
+
+export interface CriterionVerdict {
+  passed: boolean;
+  value: CriterionValue;
+  detections?: BrandDetection[];
+  progress?: number; // 0-1, how close a measurable criterion came (partial credit)
+}
+
+interface CriterionRules {
+  instructions: string; // System prompt line: how to answer this type
+  describe(criterion: VerificationCriterion): string; // Extra details in the criteria list
+  evaluate(criterion: VerificationCriterion, result: ModelCriterionResult): CriterionVerdict;
+}
+
+// --- Helpers ---
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+const quoteList = (values: string[]) => values.map((v) => `"${v}"`).join(', ');
+
+function toNumber(value: CriterionValue): number {
+  if (typeof value === 'number') return value;
+  return parseFloat(String(value).replace('%', ''));
+}
+
+function toList(value: CriterionValue): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === 'string' && value.trim()) return value.split(/\s*(?:,|>|→)\s*/).filter(Boolean);
+  return [];
+}
+
+function withinBounds(value: number, criterion: VerificationCriterion): boolean {
+  if (Number.isNaN(value)) return false;
+  if (criterion.min !== undefined && value < criterion.min) return false;
+  if (criterion.max !== undefined && value > criterion.max) return false;
+  return true;
+}
+
+// Share of the way to `min`; overshooting `max` earns nothing
+function progressTowards(value: number, criterion: VerificationCriterion): number | undefined {
+  if (Number.isNaN(value)) return 0;
+  if (criterion.max !== undefined && value > criterion.max) return 0;
+  if (criterion.min === undefined || criterion.min <= 0) return undefined;
+  return Math.min(1, Math.max(0, value / criterion.min));
+}
+
+function describeBounds(criterion: VerificationCriterion, unit: string = ''): string {
+  let details = '';
+  if (criterion.min !== undefined) details += ` | min: ${criterion.min}${unit}`;
+  if (criterion.max !== undefined) details += ` | max: ${criterion.max}${unit}`;
+  return details;
+}
+
+// Keep only well-formed boxes, clamped to the image
+function toDetections(raw: ModelCriterionResult['detections']): BrandDetection[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((d) => d && typeof d.brand === 'string' && Array.isArray(d.box) && d.box.length === 4
+      && d.box.every((n) => typeof n === 'number' && Number.isFinite(n)))
+    .map((d) => {
+      const [x, y, w, h] = d.box.map((n) => Math.min(1, Math.max(0, n)));
+      const detection: BrandDetection = { brand: d.brand, box: [x, y, w, h] };
+      if (typeof d.confidence === 'number') detection.confidence = d.confidence;
+      if (typeof d.image_index === 'number') detection.imageIndex = d.image_index;
+      return detection;
+    });
+}
+
+// --- Rules per type ---
+
+const RULES: Record<CriterionType, CriterionRules> = {
+  boolean: {
+    instructions: 'For "boolean" criteria: determine if the condition is true or false',
+    describe: (c) => (c.expectedValue !== undefined ? ` | expected: ${c.expectedValue}` : ''),
+    evaluate: (c, r) => ({
+      passed: c.expectedValue !== undefined ? r.value === c.expectedValue : r.passed,
+      value: r.value,
+    }),
+  },
+
+  count: {
+    instructions: 'For "count" criteria: count the specific items asked about',
+    describe: (c) => (c.expectedValue !== undefined ? ` | expected: ${c.expectedValue}` : '') + describeBounds(c),
+    evaluate: (c, r) => {
+      if (c.min === undefined && c.max === undefined) return { passed: r.passed, value: r.value };
+      const count = typeof r.value === 'number' ? r.value : parseInt(String(r.value), 10);
+      return { passed: r.passed && withinBounds(count, c), value: r.value, progress: progressTowards(count, c) };
+    },
+  },
+
+  text: {
+    instructions: 'For "text" criteria: extract or identify the requested text/information',
+    describe: (c) => (c.expectedValue !== undefined ? ` | expected: ${c.expectedValue}` : ''),
+    evaluate: (_c, r) => ({ passed: r.passed, value: r.value }),
+  },
+
+  enum: {
+    instructions: 'For "enum" criteria: "value" must be exactly one of the listed options',
+    describe: (c) => ` | options: ${quoteList(c.options ?? [])}`,
+    evaluate: (c, r) => {
+      const options = c.options ?? [];
+      const option = options.find((o) => normalize(o) === normalize(String(r.value)));
+      if (!option) return { passed: false, value: r.value };
+
+      const accepted = c.acceptedValues ?? (c.expectedValue !== undefined ? [String(c.expectedValue)] : null);
+      return { passed: accepted ? accepted.includes(option) : r.passed, value: option };
+    },
+  },
+
+  percentage: {
+    instructions: 'For "percentage" criteria: "value" is a number from 0 to 100 (e.g. share of shelf), not a fraction',
+    describe: (c) => describeBounds(c, '%'),
+    evaluate: (c, r) => {
+      const percentage = toNumber(r.value);
+      if (Number.isNaN(percentage) || percentage < 0 || percentage > 100) return { passed: false, value: r.value };
+      const hasBounds = c.min !== undefined || c.max !== undefined;
+      return {
+        passed: hasBounds ? withinBounds(percentage, c) : r.passed,
+        value: percentage,
+        progress: progressTowards(percentage, c),
+      };
+    },
+  },
+
+  presence_of_brand: {
+    instructions: 'For "presence_of_brand" criteria: list every sighting of the listed brands in "detections" as '
+      + '{"brand", "box": [x, y, width, height] normalized 0-1 from the top-left, "confidence", "image_index"}, '
+      + 'and set "value" to the brands you found',
+    describe: (c) => ` | brands: ${quoteList(c.brands ?? [])}` + (c.min !== undefined ? ` | min per brand: ${c.min}` : ''),
+    evaluate: (c, r) => {
+      const detections = toDetections(r.detections);
+      // Without boxes, fall back to the brand names the model listed
+      const seen = detections.length > 0 ? detections.map((d) => d.brand) : toList(r.value);
+      const required = c.min ?? 1;
+
+      const found = (c.brands ?? []).filter(
+        (brand) => seen.filter((s) => normalize(s) === normalize(brand)).length >= required
+      );
+
+      return {
+        passed: found.length === (c.brands ?? []).length,
+        value: found,
+        detections,
+        progress: found.length / Math.max(1, (c.brands ?? []).length),
+      };
+    },
+  },
+
+  ordered_sequence: {
+    instructions: 'For "ordered_sequence" criteria: set "value" to the listed products you see, as an array '
+      + 'in left-to-right order as they appear on the shelf',
+    describe: (c) => ` | expected order (left to right): ${quoteList(c.sequence ?? [])}`,
+    evaluate: (c, r) => {
+      const observed = toList(r.value);
+      // The expected items must appear in this order; other products may sit in between
+      let next = 0;
+      for (const item of observed) {
+        if (next < (c.sequence ?? []).length && normalize(item) === normalize(c.sequence![next])) next++;
+      }
+      return {
+        passed: next === (c.sequence ?? []).length,
+        value: observed,
+        progress: next / Math.max(1, (c.sequence ?? []).length),
+      };
+    },
+  },
+};
+
+// --- Public API ---
+
+export function criterionTypeInstructions(types: Iterable<CriterionType>): string[] {
+  return [...new Set(types)].map((type) => RULES[type].instructions);
+}
+
+export function describeCriterion(criterion: VerificationCriterion): string {
+  return RULES[criterion.type].describe(criterion);
+}
+
+export function evaluateCriterion(criterion: VerificationCriterion, result: ModelCriterionResult): CriterionVerdict {
+  return RULES[criterion.type].evaluate(criterion, result);
+}
@@ -0,0 +1,167 @@
+// ============================================
+// Duplicate Photo Detection - Perceptual Hashing
+// ============================================
+// Catches reps reusing an old photo across visits. Every image
+// gets a 64-bit difference hash (dHash): shrink to 9x8 greyscale
+// and record whether each pixel is brighter than its right-hand
+// neighbour. Re-encoding, resizing or light edits flip only a few
+// bits, so near-duplicates are hashes within a small Hamming distance.
+
+import sharp from 'sharp';
+import { eq, and, gte, ne, or, isNull, desc } from 'drizzle-orm';
+import { getDb, schema } from '@/lib/db';
+import { getTenantConfig } from './tenants';
+import type { ImageInput } from './vision';
+import {
+  DuplicateDetectionSchema,
+  type DuplicateDetectionConfig,
+  type DuplicateMatch,
+} from '@/lib/types';
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+const FETCH_TIMEOUT_MS = 10_000;
+// Upper bound on earlier verifications compared per request
+const MAX_CANDIDATES = 2000;
+
+// --- Hashing ---
+
+export async function computePerceptualHash(image: Buffer): Promise<string> {
+  const pixels = await sharp(image)
+    .rotate() // Respect EXIF orientation so a rotated re-upload hashes the same
+    .greyscale()
+    .resize(HASH_WIDTH, HASH_HEIGHT, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let bits = 0n;
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const left = pixels[y * HASH_WIDTH + x];
+      const right = pixels[y * HASH_WIDTH + x + 1];
+      bits = (bits << 1n) | (left > right ? 1n : 0n);
+    }
+  }
+
+  return bits.toString(16).padStart(16, '0');
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+}
+
+export async function loadImageBytes(image: ImageInput): Promise<Buffer> {
+  if (image.base64) {
+    return Buffer.from(image.base64.replace(/^data:image\/\w+;base64,/, ''), 'base64');
+  }
+
+  const response = await fetch(image.url!, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image: HTTP ${response.status}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+// --- Best-effort hashing: undecodable or unreachable images get null ---
+// Hashing must never fail the upload or verification itself.
+export async function tryPerceptualHash(image: ImageInput | Buffer): Promise<string | null> {
+  try {
+    return await computePerceptualHash(Buffer.isBuffer(image) ? image : await loadImageBytes(image));
+  } catch (error) {
+    console.warn('[duplicates] Could not hash image:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+export async function hashImages(images: ImageInput[]): Promise<Array<string | null>> {
+  return Promise.all(images.map((image) => tryPerceptualHash(image)));
+}
+
+// --- Tenant policy (tenants.config.duplicateDetection) ---
+export async function getDuplicatePolicy(tenantId: string): Promise<DuplicateDetectionConfig> {
+  const config = await getTenantConfig(tenantId);
+  return DuplicateDetectionSchema.parse(config.duplicateDetection ?? {});
+}
+
+// --- Find the closest earlier verification reusing one of these images ---
+// Verifications of the same task are skipped: resubmitting a photo for the
+// task it was taken for is a retry, not a recycled photo.
+export async function findDuplicate(
+  tenantId: string,
+  hashes: Array<string | null>,
+  policy: DuplicateDetectionConfig,
+  context: { taskId?: string; externalTaskId?: string; customerId?: string | null },
+): Promise<DuplicateMatch | null> {
+  if (!policy.enabled || hashes.every((h) => h === null)) return null;
+
+  const db = getDb();
+  const since = new Date(Date.now() - policy.windowDays * 24 * 60 * 60 * 1000);
+
+  const conditions = [
+    eq(schema.verifications.tenantId, tenantId),
+    eq(schema.verifications.mode, 'ai'),
+    gte(schema.verifications.createdAt, since),
+  ];
+  // Without a customer to scope by, fall back to the whole tenant
+  if (policy.scope === 'customer' && context.customerId) {
+    conditions.push(eq(schema.verifications.customerId, context.customerId));
+  }
+  if (context.taskId) {
+    conditions.push(or(isNull(schema.verifications.taskId), ne(schema.verifications.taskId, context.taskId))!);
+  }
+  if (context.externalTaskId) {
+    conditions.push(or(
+      isNull(schema.verifications.externalTaskId),
+      ne(schema.verifications.externalTaskId, context.externalTaskId)
+    )!);
+  }
+
+  const candidates = await db
+    .select({
+      id: schema.verifications.id,
+      taskId: schema.verifications.taskId,
+      externalTaskId: schema.verifications.externalTaskId,
+      imageHashes: schema.verifications.imageHashes,
+      createdAt: schema.verifications.createdAt,
+    })
+    .from(schema.verifications)
+    .where(and(...conditions))
+    .orderBy(desc(schema.verifications.createdAt))
+    .limit(MAX_CANDIDATES);
+
+  let best: DuplicateMatch | null = null;
+
+  for (const candidate of candidates) {
+    const candidateHashes = (candidate.imageHashes ?? []) as Array<string | null>;
+
+    for (const [imageIndex, hash] of hashes.entries()) {
+      if (!hash) continue;
+      for (const [matchedImageIndex, other] of candidateHashes.entries()) {
+        if (!other) continue;
+        const distance = hammingDistance(hash, other);
+        // Candidates run newest first, so on ties the earliest verification
+        // wins: it holds the original photo
+        if (distance <= policy.maxDistance && (!best || distance <= best.distance)) {
+          best = {
+            verificationId: candidate.id,
+            taskId: candidate.taskId ?? undefined,
+            externalTaskId: candidate.externalTaskId ?? undefined,
+            imageIndex,
+            matchedImageIndex,
+            distance,
+            verifiedAt: candidate.createdAt.toISOString(),
+            action: policy.action,
+          };
+        }
+      }
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,280 @@
+// ============================================
+// Vision Fallback Chain & Circuit Breaker
+// ============================================
+// A verification tries the config's provider/model first, then each
+// step of the tenant's chain (tenants.config.visionFallback), e.g.
+//   openai/gpt-4o-mini → gemini/gemini-2.0-flash → manual review
+// Every call is recorded as a VisionAttempt on the verification.
+//
+// Circuit breaker (per provider, shared by all tenants through KV):
+//   failureThreshold failures within windowSeconds open the circuit;
+//   while open (cooldownSeconds) the provider is skipped. The first
+//   call after the cooldown is a probe: one more failure reopens it.
+
+import { kv } from '@vercel/kv';
+import { getTenantConfig } from './tenants';
+import type { PriceBook } from './pricing';
+import {
+  analyzeImage,
+  estimateCostUsd,
+  resolveVisionModel,
+  type ImageInput,
+  type TokenUsage,
+  type VisionAnalysisWithUsage,
+} from './vision';
+import {
+  VisionFallbackSchema,
+  type AIProvider,
+  type PhotoVerificationConfig,
+  type VisionAttempt,
+  type VisionFallbackConfig,
+} from '@/lib/types';
+
+export interface VisionTarget {
+  provider: AIProvider;
+  model: string;
+}
+
+// --- Tenant policy (tenants.config.visionFallback) ---
+export async function getFallbackPolicy(tenantId: string): Promise<VisionFallbackConfig> {
+  const config = await getTenantConfig(tenantId);
+  return VisionFallbackSchema.parse(config.visionFallback ?? {});
+}
+
+// --- Breaker state store ---
+
+export interface BreakerStore {
+  get(key: string): Promise<number | null>;
+  incr(key: string, ttlSeconds: number): Promise<number>; // TTL set on the first increment
+  set(key: string, value: number, ttlSeconds: number): Promise<void>;
+  del(key: string): Promise<void>;
+}
+
+// Vercel KV: every serverless instance sees the same circuits
+export const kvBreakerStore: BreakerStore = {
+  get: (key) => kv.get<number>(key),
+  async incr(key, ttlSeconds) {
+    const count = await kv.incr(key);
+    if (count === 1) await kv.expire(key, ttlSeconds);
+    return count;
+  },
+  async set(key, value, ttlSeconds) {
+    await kv.set(key, value, { ex: ttlSeconds });
+  },
+  async del(key) {
+    await kv.del(key);
+  },
+};
+
+// In-process store (tests, local development without KV)
+export function createMemoryBreakerStore(now: () => number = Date.now): BreakerStore {
+  const entries = new Map<string, { value: number; expiresAt: number }>();
+  const live = (key: string) => {
+    const entry = entries.get(key);
+    if (entry && entry.expiresAt <= now()) entries.delete(key);
+    return entries.get(key);
+  };
+
+  return {
+    async get(key) {
+      return live(key)?.value ?? null;
+    },
+    async incr(key, ttlSeconds) {
+      const entry = live(key) ?? { value: 0, expiresAt: now() + ttlSeconds * 1000 };
+      entry.value++;
+      entries.set(key, entry);
+      return entry.value;
+    },
+    async set(key, value, ttlSeconds) {
+      entries.set(key, { value, expiresAt: now() + ttlSeconds * 1000 });
+    },
+    async del(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+// --- Circuit breaker ---
+
+export interface CircuitBreaker {
+  isOpen(provider: AIProvider): Promise<boolean>;
+  recordSuccess(provider: AIProvider): Promise<void>;
+  recordFailure(provider: AIProvider): Promise<boolean>; // true when this failure opened the circuit
+}
+
+export function createCircuitBreaker(
+  policy: Pick<VisionFallbackConfig, 'failureThreshold' | 'windowSeconds' | 'cooldownSeconds'>,
+  store: BreakerStore = kvBreakerStore,
+): CircuitBreaker {
+  const failuresKey = (provider: AIProvider) => `cb:${provider}:failures`;
+  const openKey = (provider: AIProvider) => `cb:${provider}:open`;
+
+  // If the store is down, the breaker stays closed (fail open, like rate limiting)
+  const safely = async <T>(fn: () => Promise<T>, fallback: T): Promise<T> => {
+    try {
+      return await fn();
+    } catch (error) {
+      console.error('[circuit-breaker] Store unavailable:', error);
+      return fallback;
+    }
+  };
+
+  return {
+    isOpen: (provider) => safely(async () => (await store.get(openKey(provider))) !== null, false),
+
+    recordSuccess: (provider) => safely(() => store.del(failuresKey(provider)), undefined),
+
+    recordFailure: (provider) => safely(async () => {
+      const failures = await store.incr(failuresKey(provider), policy.windowSeconds);
+      if (failures < policy.failureThreshold) return false;
+      await store.set(openKey(provider), Date.now(), policy.cooldownSeconds);
+      return true;
+    }, false),
+  };
+}
+
+// --- Chain: the config's own target first, then the tenant's steps ---
+export function buildFallbackChain(
+  config: PhotoVerificationConfig,
+  policy: Pick<VisionFallbackConfig, 'chain'>,
+): VisionTarget[] {
+  const targets = [resolveVisionModel(config), ...policy.chain.map((step) => resolveVisionModel(step))];
+  return targets.filter(
+    (target, i) => targets.findIndex((t) => t.provider === target.provider && t.model === target.model) === i
+  );
+}
+
+// --- Run the chain ---
+
+export interface FallbackOutcome {
+  analysisWithUsage: VisionAnalysisWithUsage | null;
+  target: VisionTarget; // The one that answered (the first of the chain if none did)
+  attempts: VisionAttempt[];
+  tokenUsage: TokenUsage; // Across all attempts, malformed answers included
+  estimatedCostUsd: number;
+  lastError: Error | null;
+}
+
+export interface FallbackDependencies {
+  breaker: CircuitBreaker;
+  pricing?: PriceBook; // Prices in effect for the verification; default list prices otherwise
+  analyze?: (images: ImageInput[], config: PhotoVerificationConfig, target: VisionTarget) => Promise<VisionAnalysisWithUsage>;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const TIMEOUT = Symbol('timeout');
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T | typeof TIMEOUT> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<typeof TIMEOUT>((resolve) => {
+    timer = setTimeout(() => resolve(TIMEOUT), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Providers attach { rawResponse, tokenUsage } as the cause of a malformed answer
+function describeFailure(error: unknown): { error: Error; rawResponse?: string; tokenUsage?: TokenUsage } {
+  const err = error instanceof Error ? error : new Error(String(error));
+  const cause = err.cause as { rawResponse?: string; tokenUsage?: TokenUsage } | undefined;
+  return { error: err, rawResponse: cause?.rawResponse, tokenUsage: cause?.tokenUsage };
+}
+
+// Each step gets 1 + config.maxRetries attempts with exponential backoff.
+// A timeout, or a failure that opens the circuit, moves straight on to
+// the next step: retrying a hanging provider only burns the time budget.
+export async function analyzeWithFallback(
+  images: ImageInput[],
+  config: PhotoVerificationConfig,
+  policy: VisionFallbackConfig,
+  deps: FallbackDependencies,
+): Promise<FallbackOutcome> {
+  const analyze = deps.analyze ?? analyzeImage;
+  const sleep = deps.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+  const maxRetries = config.maxRetries ?? 2;
+
+  const chain = buildFallbackChain(config, policy);
+  const attempts: VisionAttempt[] = [];
+  const tokenUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  let estimatedCostUsd = 0;
+  let lastError: Error | null = null;
+
+  const bill = (target: VisionTarget, usage: TokenUsage) => {
+    tokenUsage.inputTokens += usage.inputTokens;
+    tokenUsage.outputTokens += usage.outputTokens;
+    estimatedCostUsd += estimateCostUsd(target.model, usage, deps.pricing?.(target.model));
+  };
+
+  for (const target of chain) {
+    if (await deps.breaker.isOpen(target.provider)) {
+      attempts.push({ ...target, outcome: 'skipped', durationMs: 0, startedAt: new Date().toISOString() });
+      continue;
+    }
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      if (attempt > 0) await sleep(1000 * Math.pow(2, attempt - 1));
+
+      const startedAt = new Date();
+      let moveOn = false;
+
+      try {
+        const result = await withTimeout(analyze(images, config, target), policy.attemptTimeoutMs);
+        const durationMs = Date.now() - startedAt.getTime();
+
+        if (result === TIMEOUT) {
+          lastError = new Error(`${target.provider}/${target.model} timed out after ${policy.attemptTimeoutMs} ms`);
+          attempts.push({ ...target, outcome: 'error', error: lastError.message, durationMs, startedAt: startedAt.toISOString() });
+          await deps.breaker.recordFailure(target.provider);
+          break;
+        }
+
+        bill(target, result.tokenUsage);
+        attempts.push({
+          ...target,
+          outcome: 'success',
+          rawResponse: JSON.stringify(result.analysis),
+          inputTokens: result.tokenUsage.inputTokens,
+          outputTokens: result.tokenUsage.outputTokens,
+          durationMs,
+          startedAt: startedAt.toISOString(),
+        });
+        await deps.breaker.recordSuccess(target.provider);
+
+        return {
+          analysisWithUsage: result,
+          target,
+          attempts,
+          tokenUsage,
+          estimatedCostUsd: Math.round(estimatedCostUsd * 1_000_000) / 1_000_000,
+          lastError,
+        };
+      } catch (error) {
+        const failure = describeFailure(error);
+        lastError = failure.error;
+        if (failure.tokenUsage) bill(target, failure.tokenUsage);
+
+        attempts.push({
+          ...target,
+          outcome: 'error',
+          error: failure.error.message,
+          rawResponse: failure.rawResponse,
+          inputTokens: failure.tokenUsage?.inputTokens,
+          outputTokens: failure.tokenUsage?.outputTokens,
+          durationMs: Date.now() - startedAt.getTime(),
+          startedAt: startedAt.toISOString(),
+        });
+        moveOn = await deps.breaker.recordFailure(target.provider);
+      }
+
+      if (moveOn) break;
+    }
+  }
+
+  return {
+    analysisWithUsage: null,
+    target: chain[0],
+    attempts,
+    tokenUsage,
+    estimatedCostUsd: Math.round(estimatedCostUsd * 1_000_000) / 1_000_000,
+    lastError,
+  };
+}
@@ -0,0 +1,121 @@
+// ============================================
+// Evidence Integrity - Capture Time & Location
+// ============================================
+// The PWA reads EXIF (capture time, GPS) and the device position
+// when the rep picks a photo, and sends it as `evidence` per image.
+// Here we check those claims against the tenant's limits:
+//   - photo age: capture time vs. the device clock at submission
+//   - distance:  EXIF / device position vs. the point of sale
+// Metadata is client-supplied, so a clean report is supporting
+// evidence, not proof; a failing one is a strong signal.
+
+import { getTenantConfig } from './tenants';
+import type { ImageInput } from './vision';
+import {
+  EvidenceIntegritySchema,
+  type EvidenceIntegrityConfig,
+  type GeoPoint,
+  type IntegrityReport,
+} from '@/lib/types';
+
+const EARTH_RADIUS_M = 6_371_000;
+
+// --- Great-circle distance in meters ---
+export function haversineMeters(a: GeoPoint, b: GeoPoint): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(h));
+}
+
+// --- Tenant policy (tenants.config.evidenceIntegrity) ---
+export async function getIntegrityPolicy(tenantId: string): Promise<EvidenceIntegrityConfig> {
+  const config = await getTenantConfig(tenantId);
+  return EvidenceIntegritySchema.parse(config.evidenceIntegrity ?? {});
+}
+
+// --- Check every image's evidence against the policy ---
+// Returns null when the policy is disabled or there is nothing to report.
+export function checkEvidenceIntegrity(
+  images: ImageInput[],
+  customerLocation: GeoPoint | undefined,
+  policy: EvidenceIntegrityConfig,
+  receivedAt: Date = new Date(),
+): IntegrityReport | null {
+  if (!policy.enabled) return null;
+
+  const report: IntegrityReport = { action: policy.action, images: [], issues: [] };
+
+  images.forEach((image, imageIndex) => {
+    const evidence = image.evidence ?? {};
+    const entry: IntegrityReport['images'][number] = { imageIndex };
+    report.images.push(entry);
+
+    // Capture time: measured on the device clock when we have it, so a
+    // phone with the wrong time does not make every photo "old"
+    if (evidence.capturedAt) {
+      const capturedAt = new Date(evidence.capturedAt);
+      const reference = evidence.deviceTime ? new Date(evidence.deviceTime) : receivedAt;
+      const ageMinutes = (reference.getTime() - capturedAt.getTime()) / 60_000;
+
+      entry.capturedAt = capturedAt.toISOString();
+      entry.capturedAtSource = evidence.capturedAtSource;
+      entry.photoAgeMinutes = Math.round(ageMinutes * 10) / 10;
+
+      if (ageMinutes < -policy.maxClockSkewMinutes) {
+        report.issues.push({
+          imageIndex,
+          code: 'future_timestamp',
+          message: `Capture time ${entry.capturedAt} is ${Math.round(-ageMinutes)} min in the future`,
+        });
+      } else if (policy.maxPhotoAgeMinutes !== undefined && ageMinutes > policy.maxPhotoAgeMinutes) {
+        report.issues.push({
+          imageIndex,
+          code: 'too_old',
+          message: `Photo was taken ${Math.round(ageMinutes)} min before submission (max ${policy.maxPhotoAgeMinutes})`,
+        });
+      }
+    } else if (policy.requireMetadata && policy.maxPhotoAgeMinutes !== undefined) {
+      report.issues.push({ imageIndex, code: 'missing_timestamp', message: 'Photo has no capture time' });
+    }
+
+    // Location: the furthest of the EXIF and device positions counts,
+    // less the device's reported accuracy
+    const positions = [
+      evidence.exifLocation && { source: 'exif' as const, point: evidence.exifLocation, accuracyM: 0 },
+      evidence.deviceLocation && {
+        source: 'device' as const,
+        point: evidence.deviceLocation,
+        accuracyM: evidence.deviceLocation.accuracyM ?? 0,
+      },
+    ].filter((p): p is NonNullable<typeof p> => Boolean(p));
+
+    if (customerLocation && positions.length > 0) {
+      const furthest = positions
+        .map((p) => ({
+          source: p.source,
+          meters: Math.max(0, haversineMeters(p.point, customerLocation) - p.accuracyM),
+        }))
+        .reduce((a, b) => (b.meters > a.meters ? b : a));
+
+      entry.distanceMeters = Math.round(furthest.meters);
+      entry.locationSource = furthest.source;
+
+      if (policy.maxDistanceMeters !== undefined && furthest.meters > policy.maxDistanceMeters) {
+        report.issues.push({
+          imageIndex,
+          code: 'too_far',
+          message: `Photo was taken ${entry.distanceMeters} m from the point of sale (max ${policy.maxDistanceMeters})`,
+        });
+      }
+    } else if (customerLocation && policy.requireMetadata && policy.maxDistanceMeters !== undefined) {
+      report.issues.push({ imageIndex, code: 'missing_location', message: 'Photo has no GPS position' });
+    }
+  });
+
+  const hasData = report.issues.length > 0
+    || report.images.some((i) => i.capturedAt !== undefined || i.distanceMeters !== undefined);
+  return hasData ? report : null;
+}
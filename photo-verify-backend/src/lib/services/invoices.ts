@@ -0,0 +1,366 @@
+// ============================================
+// Invoices
+// ============================================
+// An invoice freezes one tenant's closed billing month (UTC): one line
+// per model used, priced as the estimated provider cost plus the
+// tenant's markup (tenants.config.invoicing). Invoices and their lines
+// are written together (one batch = one transaction) and never updated;
+// generating the same month again returns the stored invoice, so later
+// changes to costs or markups do not alter what was issued.
+//
+// Issued from POST /api/invoices, for every tenant by the monthly cron
+// (/api/cron/invoices), and for past months by `npm run invoices:backfill`.
+// Exports: CSV and printable HTML (the browser saves it as PDF).
+
+import { and, asc, desc, eq, sql } from 'drizzle-orm';
+import { getDb, schema } from '@/lib/db';
+import { INVOICE_MONTH_PATTERN, InvoicingSchema, type InvoicingConfig, type TenantConfig } from '@/lib/types';
+
+const GENERATE_BUDGET_MS = 50_000; // Below the cron route's maxDuration
+
+export interface InvoicePeriod {
+  month: string; // YYYY-MM
+  start: Date;
+  end: Date; // Exclusive
+}
+
+export interface ModelUsage {
+  modelUsed: string;
+  verifications: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export type InvoiceLineDraft = Omit<schema.InvoiceLine, 'id' | 'invoiceId' | 'tenantId'>;
+
+export interface InvoiceWithLines extends schema.Invoice {
+  lines: schema.InvoiceLine[];
+}
+
+// ============================================
+// Pricing
+// ============================================
+
+export function parseInvoiceMonth(month: string): InvoicePeriod {
+  if (!INVOICE_MONTH_PATTERN.test(month)) throw new Error(`Invalid invoice month: ${month}`);
+  const [year, m] = month.split('-').map(Number);
+  return { month, start: new Date(Date.UTC(year, m - 1, 1)), end: new Date(Date.UTC(year, m, 1)) };
+}
+
+// --- The month before `now` (the last closed one) ---
+export function previousMonth(now: Date = new Date()): string {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1)).toISOString().slice(0, 7);
+}
+
+export function markupFor(modelUsed: string, policy: InvoicingConfig): number {
+  const modelId = modelUsed.slice(modelUsed.indexOf('/') + 1);
+  return policy.markupByModel[modelUsed] ?? policy.markupByModel[modelId] ?? policy.markupPercent;
+}
+
+export function toCents(usd: number): number {
+  return Math.round(usd * 100);
+}
+
+// --- One line per model, most expensive first ---
+export function priceLines(usage: ModelUsage[], policy: InvoicingConfig): InvoiceLineDraft[] {
+  return [...usage]
+    .sort((a, b) => b.costUsd - a.costUsd || a.modelUsed.localeCompare(b.modelUsed))
+    .map((u, i) => {
+      const markupPercent = markupFor(u.modelUsed, policy);
+      return {
+        position: i + 1,
+        modelUsed: u.modelUsed,
+        description: `Photo verifications - ${u.modelUsed}`,
+        verifications: u.verifications,
+        inputTokens: u.inputTokens,
+        outputTokens: u.outputTokens,
+        costUsd: Math.round(u.costUsd * 1_000_000) / 1_000_000,
+        markupPercent,
+        amountCents: toCents(u.costUsd * (1 + markupPercent / 100)),
+      };
+    });
+}
+
+// ============================================
+// Generation
+// ============================================
+
+// --- AI verifications of the period by model (reviewer decisions are not billed) ---
+async function getModelUsage(tenantId: string, period: InvoicePeriod): Promise<ModelUsage[]> {
+  const db = getDb();
+  const result = await db.execute(sql`
+    SELECT
+      model_used,
+      COUNT(*)::int AS verifications,
+      COALESCE(SUM(input_tokens), 0)::int AS input_tokens,
+      COALESCE(SUM(output_tokens), 0)::int AS output_tokens,
+      COALESCE(SUM(estimated_cost_usd), 0)::float8 AS cost_usd
+    FROM verifications
+    WHERE tenant_id = ${tenantId}
+      AND model_used <> 'manual'
+      AND created_at >= ${period.start.toISOString()}::timestamptz
+      AND created_at < ${period.end.toISOString()}::timestamptz
+    GROUP BY model_used
+  `);
+
+  return (result.rows as Array<Record<string, unknown>>).map((row) => ({
+    modelUsed: String(row.model_used),
+    verifications: Number(row.verifications),
+    inputTokens: Number(row.input_tokens),
+    outputTokens: Number(row.output_tokens),
+    costUsd: Number(row.cost_usd),
+  }));
+}
+
+async function findInvoiceForPeriod(tenantId: string, periodStart: Date): Promise<InvoiceWithLines | null> {
+  const db = getDb();
+  const [invoice] = await db
+    .select()
+    .from(schema.invoices)
+    .where(and(eq(schema.invoices.tenantId, tenantId), eq(schema.invoices.periodStart, periodStart)))
+    .limit(1);
+  return invoice ? withLines(invoice) : null;
+}
+
+async function withLines(invoice: schema.Invoice): Promise<InvoiceWithLines> {
+  const db = getDb();
+  const lines = await db
+    .select()
+    .from(schema.invoiceLines)
+    .where(eq(schema.invoiceLines.invoiceId, invoice.id))
+    .orderBy(asc(schema.invoiceLines.position));
+  return { ...invoice, lines };
+}
+
+export interface GenerateInvoiceOptions {
+  issuedBy?: string;
+  skipEmpty?: boolean; // Bulk runs: no invoice for a month without verifications
+  now?: Date;
+}
+
+// --- Issue a tenant's invoice for a closed month ---
+// Returns the existing invoice if there is one (created: false), or null
+// when skipEmpty is set and nothing was used.
+export async function generateInvoice(
+  tenantId: string,
+  month: string,
+  options: GenerateInvoiceOptions = {},
+): Promise<{ invoice: InvoiceWithLines; created: boolean } | null> {
+  const period = parseInvoiceMonth(month);
+  if (period.end.getTime() > (options.now ?? new Date()).getTime()) {
+    throw new Error(`Billing period ${month} is not closed yet`);
+  }
+
+  const existing = await findInvoiceForPeriod(tenantId, period.start);
+  if (existing) return { invoice: existing, created: false };
+
+  const db = getDb();
+  const [tenant] = await db
+    .select({ name: schema.tenants.name, slug: schema.tenants.slug, config: schema.tenants.config })
+    .from(schema.tenants)
+    .where(eq(schema.tenants.id, tenantId))
+    .limit(1);
+  if (!tenant) throw new Error(`Tenant not found: ${tenantId}`);
+
+  const usage = await getModelUsage(tenantId, period);
+  if (usage.length === 0 && options.skipEmpty) return null;
+
+  const policy = InvoicingSchema.parse((tenant.config as Partial<TenantConfig>).invoicing ?? {});
+  const drafts = priceLines(usage, policy);
+  const invoiceId = crypto.randomUUID();
+
+  const invoiceInsert = db.insert(schema.invoices).values({
+    id: invoiceId,
+    tenantId,
+    number: `INV-${month.replace('-', '')}-${tenant.slug}`,
+    tenantName: tenant.name,
+    periodStart: period.start,
+    periodEnd: period.end,
+    verifications: drafts.reduce((n, line) => n + line.verifications, 0),
+    costUsd: Math.round(drafts.reduce((n, line) => n + line.costUsd, 0) * 1_000_000) / 1_000_000,
+    totalCents: drafts.reduce((n, line) => n + line.amountCents, 0),
+    markupRules: policy,
+    issuedBy: options.issuedBy ?? null,
+  });
+  const auditInsert = db.insert(schema.auditLog).values({
+    tenantId,
+    action: 'invoice_issued',
+    entityType: 'invoice',
+    entityId: invoiceId,
+    userId: options.issuedBy ?? null,
+    details: { month, lines: drafts.length, totalCents: drafts.reduce((n, line) => n + line.amountCents, 0) },
+  });
+
+  try {
+    if (drafts.length > 0) {
+      const linesInsert = db.insert(schema.invoiceLines).values(
+        drafts.map((line) => ({ ...line, invoiceId, tenantId }))
+      );
+      await db.batch([invoiceInsert, linesInsert, auditInsert]);
+    } else {
+      await db.batch([invoiceInsert, auditInsert]);
+    }
+  } catch (error) {
+    // Another run issued it first (unique tenant + period)
+    const raced = await findInvoiceForPeriod(tenantId, period.start);
+    if (raced) return { invoice: raced, created: false };
+    throw error;
+  }
+
+  const invoice = await findInvoiceForPeriod(tenantId, period.start);
+  return { invoice: invoice!, created: true };
+}
+
+// --- Every active tenant's invoice for a month (cron, backfill) ---
+export async function generateMonthlyInvoices(
+  month: string,
+  options: { budgetMs?: number; tenantIds?: string[] } = {},
+): Promise<{ month: string; created: number; existing: number; skipped: number; remaining: number }> {
+  const db = getDb();
+  const startedAt = Date.now();
+  const budgetMs = options.budgetMs ?? GENERATE_BUDGET_MS;
+
+  const tenants = await db
+    .select({ id: schema.tenants.id })
+    .from(schema.tenants)
+    .where(eq(schema.tenants.isActive, true))
+    .orderBy(asc(schema.tenants.createdAt));
+  const due = options.tenantIds ? tenants.filter((t) => options.tenantIds!.includes(t.id)) : tenants;
+
+  const counts = { month, created: 0, existing: 0, skipped: 0, remaining: 0 };
+  for (const [i, tenant] of due.entries()) {
+    if (Date.now() - startedAt > budgetMs) {
+      counts.remaining = due.length - i;
+      break;
+    }
+    const outcome = await generateInvoice(tenant.id, month, { skipEmpty: true, issuedBy: 'system' });
+    if (!outcome) counts.skipped++;
+    else if (outcome.created) counts.created++;
+    else counts.existing++;
+  }
+  return counts;
+}
+
+// ============================================
+// Reading
+// ============================================
+
+export async function listInvoices(tenantId: string): Promise<schema.Invoice[]> {
+  const db = getDb();
+  return db
+    .select()
+    .from(schema.invoices)
+    .where(eq(schema.invoices.tenantId, tenantId))
+    .orderBy(desc(schema.invoices.periodStart));
+}
+
+// --- One invoice; tenantId null = any tenant (admin) ---
+export async function getInvoice(tenantId: string | null, invoiceId: string): Promise<InvoiceWithLines | null> {
+  const db = getDb();
+  const [invoice] = await db
+    .select()
+    .from(schema.invoices)
+    .where(tenantId
+      ? and(eq(schema.invoices.id, invoiceId), eq(schema.invoices.tenantId, tenantId))
+      : eq(schema.invoices.id, invoiceId))
+    .limit(1);
+  return invoice ? withLines(invoice) : null;
+}
+
+// ============================================
+// Export
+// ============================================
+
+function formatCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function invoiceToCsv(invoice: InvoiceWithLines): string {
+  const rows: Array<Array<string | number>> = [
+    ['invoice', 'tenant', 'period_start', 'period_end', 'line', 'model', 'description', 'verifications',
+      'input_tokens', 'output_tokens', 'cost_usd', 'markup_percent', `amount_${invoice.currency.toLowerCase()}`],
+    ...invoice.lines.map((line) => [
+      invoice.number,
+      invoice.tenantName,
+      invoice.periodStart.toISOString().slice(0, 10),
+      invoice.periodEnd.toISOString().slice(0, 10),
+      line.position,
+      line.modelUsed,
+      line.description,
+      line.verifications,
+      line.inputTokens,
+      line.outputTokens,
+      line.costUsd.toFixed(6),
+      line.markupPercent,
+      formatCents(line.amountCents),
+    ]),
+    [invoice.number, invoice.tenantName, '', '', '', '', 'Total', invoice.verifications, '', '',
+      invoice.costUsd.toFixed(6), '', formatCents(invoice.totalCents)],
+  ];
+  return rows.map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+function escapeHtml(value: string | number): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function invoiceToHtml(invoice: InvoiceWithLines): string {
+  const period = `${invoice.periodStart.toISOString().slice(0, 10)} – ${
+    new Date(invoice.periodEnd.getTime() - 1).toISOString().slice(0, 10)}`;
+  const rows = invoice.lines.map((line) => `
+        <tr>
+          <td>${escapeHtml(line.description)}</td>
+          <td class="num">${line.verifications}</td>
+          <td class="num">${line.inputTokens + line.outputTokens}</td>
+          <td class="num">${line.markupPercent}%</td>
+          <td class="num">${formatCents(line.amountCents)}</td>
+        </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(invoice.number)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; color: #1e293b; margin: 40px; }
+    h1 { font-size: 20px; margin: 0 0 4px; }
+    .meta { color: #64748b; font-size: 13px; margin-bottom: 24px; }
+    table { width: 100%; border-collapse: collapse; font-size: 13px; }
+    th, td { padding: 8px; border-bottom: 1px solid #e2e8f0; text-align: left; }
+    .num { text-align: right; font-variant-numeric: tabular-nums; }
+    tfoot td { font-weight: bold; border-bottom: none; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <h1>Invoice ${escapeHtml(invoice.number)}</h1>
+  <div class="meta">
+    ${escapeHtml(invoice.tenantName)}<br>
+    Period: ${period} (UTC)<br>
+    Issued: ${invoice.issuedAt.toISOString().slice(0, 10)}
+  </div>
+  <table>
+    <thead>
+      <tr><th>Description</th><th class="num">Verifications</th><th class="num">Tokens</th><th class="num">Markup</th><th class="num">Amount (${escapeHtml(invoice.currency)})</th></tr>
+    </thead>
+    <tbody>${rows || `
+        <tr><td colspan="5">No verifications in this period</td></tr>`}
+    </tbody>
+    <tfoot>
+      <tr><td>Total</td><td class="num">${invoice.verifications}</td><td></td><td></td><td class="num">${formatCents(invoice.totalCents)}</td></tr>
+    </tfoot>
+  </table>
+</body>
+</html>
+`;
+}
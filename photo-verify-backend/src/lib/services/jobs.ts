@@ -0,0 +1,326 @@
+// ============================================
+// Async Verification Jobs
+// ============================================
+// POST /api/verify with { async: true } stores the (already uploaded)
+// request as a verification_jobs row and answers 202 with its id.
+// Clients poll GET /api/verify/:jobId or follow its SSE stream.
+//
+// Workers (VERIFY_JOB_DRIVER):
+//   inline   - the request that queued the job runs it after the
+//              response is sent (default)
+//   postgres - jobs wait in the table for the cron worker
+// The cron worker runs in both modes, so a job whose instance died
+// mid-run (lease expired) is picked up again, up to MAX_ATTEMPTS.
+
+import { after } from 'next/server';
+import { eq, and, or, lt, asc, sql } from 'drizzle-orm';
+import { getDb, schema } from '@/lib/db';
+import { ownRowsOf } from '@/lib/auth/permissions';
+import { uploadBase64Image } from './storage';
+import { checkStorageQuota, recordStorageUsage } from './retention';
+import { resolveTemplate } from './templates';
+import { verifyPhoto, verifyPhotoExternal, type VerificationContext } from './verification';
+import type { ImageInput } from './vision';
+import type {
+  AuthContext,
+  GeoPoint,
+  PhotoVerificationConfig,
+  VerificationImage,
+  VerificationResult,
+  VerificationStage,
+  VerifyRequest,
+} from '@/lib/types';
+
+const MAX_ATTEMPTS = 3;
+const LEASE_SECONDS = 90; // Longer than the verify function's maxDuration
+const WORKER_BUDGET_MS = 45_000; // Leave the cron run time to finish its last job
+
+// --- A verify request, ready to run ---
+export interface VerifyJobPayload {
+  taskId?: string;
+  externalTaskId?: string;
+  images: ImageInput[];
+  config?: PhotoVerificationConfig;
+  context: { customerId?: string; customerLocation?: GeoPoint };
+}
+
+export type VerifyResponse = VerificationResult & {
+  mode: 'internal' | 'external';
+  taskReference: string;
+};
+
+export interface VerificationJobView {
+  jobId: string;
+  status: schema.VerificationJob['status'];
+  stage: string;
+  taskId: string | null;
+  externalTaskId: string | null;
+  attempts: number;
+  verificationId: string | null;
+  result: VerifyResponse | null;
+  error: string | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  completedAt: Date | null;
+}
+
+// --- Resolve the template and upload base64 images (sync and async alike) ---
+export async function prepareVerifyRequest(
+  auth: AuthContext,
+  request: VerifyRequest,
+  referenceId: string,
+): Promise<VerifyJobPayload> {
+  const {
+    taskId, externalTaskId, imageUrl, imageBase64, images, customerId, customerLocation, evidence, template,
+  } = request;
+
+  // A template reference resolves to a pinned config (recorded in configUsed)
+  const config = template ? (await resolveTemplate(auth, template)).config : request.config;
+
+  // Normalize to an ordered image set; upload base64 images to storage first
+  const requested: VerificationImage[] = images ?? [{ url: imageUrl, base64: imageBase64, evidence }];
+
+  const finalImages: ImageInput[] = await Promise.all(
+    requested.map(async ({ url, base64, label, evidence }): Promise<ImageInput> => {
+      if (!base64) return { url, label, evidence };
+      try {
+        await checkStorageQuota(auth.tenantId, Math.floor(base64.length * 0.75));
+        const uploaded = await uploadBase64Image(auth.tenantId, referenceId, base64);
+        await recordStorageUsage(auth.tenantId, uploaded.size);
+        return { url: uploaded.ref, label, evidence };
+      } catch {
+        // If the upload fails (or the storage quota blocks it), use base64
+        // directly: the photo is verified but not kept
+        return { base64, label, evidence };
+      }
+    })
+  );
+
+  return { taskId, externalTaskId, images: finalImages, config, context: { customerId, customerLocation } };
+}
+
+// --- Run verification based on mode ---
+export async function executeVerifyRequest(
+  auth: AuthContext,
+  payload: VerifyJobPayload,
+  options: Pick<VerificationContext, 'onProgress' | 'budget'> = {},
+): Promise<VerifyResponse> {
+  const { taskId, externalTaskId, images, config, context } = payload;
+  const { onProgress, budget } = options;
+
+  if (taskId) {
+    // --- INTERNAL MODE: task lives in our DB ---
+    const result = await verifyPhoto(taskId, images, auth, config, {
+      customerLocation: context.customerLocation,
+      onProgress,
+      budget,
+    });
+    return { ...result, mode: 'internal', taskReference: taskId };
+  }
+
+  if (externalTaskId && config) {
+    // --- EXTERNAL/HYBRID MODE: task lives in Retool/external API ---
+    const result = await verifyPhotoExternal(externalTaskId, images, config, auth, { ...context, onProgress, budget });
+    return { ...result, mode: 'external', taskReference: externalTaskId };
+  }
+
+  throw new Error('Either taskId or (externalTaskId + config) must be provided');
+}
+
+// --- Queue ---
+
+function usesInlineWorker(): boolean {
+  return (process.env.VERIFY_JOB_DRIVER ?? 'inline') !== 'postgres';
+}
+
+export async function createVerifyJob(auth: AuthContext, payload: VerifyJobPayload): Promise<VerificationJobView> {
+  const db = getDb();
+  const [job] = await db.insert(schema.verificationJobs).values({
+    tenantId: auth.tenantId,
+    taskId: payload.taskId ?? null,
+    externalTaskId: payload.externalTaskId ?? null,
+    payload,
+    auth: { tenantSlug: auth.tenantSlug, userId: auth.userId, role: auth.role },
+  }).returning();
+
+  if (usesInlineWorker()) {
+    // Run once the 202 is on its way; the cron worker retries it if this instance dies
+    after(async () => {
+      await processVerifyJob(job.id);
+    });
+  }
+
+  return toJobView(job);
+}
+
+// A rep only finds the jobs it queued
+export async function getVerifyJob(auth: AuthContext, jobId: string): Promise<VerificationJobView | null> {
+  const db = getDb();
+  const j = schema.verificationJobs;
+  const owner = ownRowsOf(auth);
+  const [job] = await db
+    .select()
+    .from(j)
+    .where(and(
+      eq(j.id, jobId),
+      eq(j.tenantId, auth.tenantId),
+      owner !== null ? sql`${j.auth}->>'userId' = ${owner}` : undefined
+    ))
+    .limit(1);
+
+  return job ? toJobView(job) : null;
+}
+
+export function toJobView(job: schema.VerificationJob): VerificationJobView {
+  return {
+    jobId: job.id,
+    status: job.status,
+    stage: job.stage,
+    taskId: job.taskId,
+    externalTaskId: job.externalTaskId,
+    attempts: job.attempts,
+    verificationId: job.verificationId,
+    result: (job.result as VerifyResponse | null) ?? null,
+    error: job.error,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+  };
+}
+
+// --- Worker ---
+
+// Queued, or running on an instance whose lease ran out
+const claimable = (now: Date) => or(
+  eq(schema.verificationJobs.status, 'queued'),
+  and(eq(schema.verificationJobs.status, 'running'), lt(schema.verificationJobs.lockedUntil, now)),
+);
+
+// Claims the job (one worker wins), runs it and records the outcome.
+// Returns null if another worker holds it or it is already finished.
+export async function processVerifyJob(jobId: string): Promise<schema.VerificationJob | null> {
+  const db = getDb();
+  const now = new Date();
+
+  const [job] = await db
+    .update(schema.verificationJobs)
+    .set({
+      status: 'running',
+      stage: 'starting',
+      attempts: sql`${schema.verificationJobs.attempts} + 1`,
+      lockedUntil: new Date(now.getTime() + LEASE_SECONDS * 1000),
+      startedAt: sql`coalesce(${schema.verificationJobs.startedAt}, now())`,
+      updatedAt: now,
+    })
+    .where(
+      and(
+        eq(schema.verificationJobs.id, jobId),
+        lt(schema.verificationJobs.attempts, MAX_ATTEMPTS),
+        claimable(now)
+      )
+    )
+    .returning();
+
+  if (!job) return null;
+
+  const stored = job.auth as Omit<AuthContext, 'tenantId'>;
+  const auth: AuthContext = { ...stored, tenantId: job.tenantId };
+
+  const onProgress = async (stage: VerificationStage) => {
+    await db
+      .update(schema.verificationJobs)
+      .set({ stage, updatedAt: new Date() })
+      .where(and(eq(schema.verificationJobs.id, job.id), eq(schema.verificationJobs.status, 'running')));
+  };
+
+  try {
+    const result = await executeVerifyRequest(auth, job.payload as VerifyJobPayload, { onProgress });
+
+    const [done] = await db
+      .update(schema.verificationJobs)
+      .set({
+        status: 'succeeded',
+        stage: 'done',
+        result,
+        verificationId: result.verificationId ?? null,
+        payload: null,
+        lockedUntil: null,
+        completedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.verificationJobs.id, job.id))
+      .returning();
+    return done;
+  } catch (error) {
+    // Not retried: the vision chain already retried, and a rerun could store the verification twice
+    console.error(`[jobs] Verification job ${job.id} failed:`, error);
+
+    const [failed] = await db
+      .update(schema.verificationJobs)
+      .set({
+        status: 'failed',
+        stage: 'done',
+        error: error instanceof Error ? error.message : 'Verification failed',
+        payload: null,
+        lockedUntil: null,
+        completedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.verificationJobs.id, job.id))
+      .returning();
+    return failed;
+  }
+}
+
+// --- Cron: run what is waiting, give up on jobs that keep dying ---
+export async function processQueuedJobs(limit: number = 10): Promise<{
+  processed: number;
+  succeeded: number;
+  failed: number;
+  abandoned: number;
+}> {
+  const db = getDb();
+  const startedAt = Date.now();
+  const now = new Date();
+
+  const abandoned = await db
+    .update(schema.verificationJobs)
+    .set({
+      status: 'failed',
+      stage: 'done',
+      error: `Worker did not finish after ${MAX_ATTEMPTS} attempts`,
+      payload: null,
+      lockedUntil: null,
+      completedAt: now,
+      updatedAt: now,
+    })
+    .where(
+      and(
+        eq(schema.verificationJobs.status, 'running'),
+        lt(schema.verificationJobs.lockedUntil, now),
+        sql`${schema.verificationJobs.attempts} >= ${MAX_ATTEMPTS}`
+      )
+    )
+    .returning({ id: schema.verificationJobs.id });
+
+  const due = await db
+    .select({ id: schema.verificationJobs.id })
+    .from(schema.verificationJobs)
+    .where(claimable(now))
+    .orderBy(asc(schema.verificationJobs.createdAt))
+    .limit(limit);
+
+  const counts = { processed: 0, succeeded: 0, failed: 0, abandoned: abandoned.length };
+
+  for (const { id } of due) {
+    if (Date.now() - startedAt > WORKER_BUDGET_MS) break;
+
+    const job = await processVerifyJob(id);
+    if (!job) continue;
+    counts.processed++;
+    if (job.status === 'succeeded') counts.succeeded++;
+    else counts.failed++;
+  }
+
+  return counts;
+}
@@ -0,0 +1,169 @@
+// ============================================
+// Model Prices
+// ============================================
+// model_prices holds effective-dated prices per model: list prices
+// (tenant_id null) and negotiated overrides for one tenant. A
+// verification is costed with the prices in effect when it started:
+//   tenant override → list price → DEFAULT_MODEL_PRICING (vision.ts)
+// The cost is stored on the verification, so a new price never changes
+// what earlier verifications (and their invoices) cost.
+//
+// Ranges of the same model + tenant never overlap. Adding an open-ended
+// price closes the one currently open at its effectiveFrom; prices not
+// yet in effect can be deleted, reopening the range they closed.
+
+import { and, asc, eq, gt, isNull, lte, or, sql } from 'drizzle-orm';
+import { getDb, schema } from '@/lib/db';
+import { DEFAULT_MODEL_PRICING, type ModelPricing } from './vision';
+import type { AuthContext, CreateModelPriceInput } from '@/lib/types';
+
+export type PriceBook = (model: string) => ModelPricing | undefined;
+
+type PriceRange = Pick<schema.ModelPrice, 'id' | 'effectiveFrom' | 'effectiveTo'>;
+
+// --- The price of a model at a time: tenant override first, then list price ---
+export function selectPrice(
+  rows: Array<Pick<schema.ModelPrice, 'model' | 'tenantId' | 'inputPer1M' | 'outputPer1M' | 'effectiveFrom' | 'effectiveTo'>>,
+  model: string,
+  tenantId: string,
+  at: Date,
+): ModelPricing | undefined {
+  const effective = rows.filter((row) =>
+    row.model === model
+    && row.effectiveFrom.getTime() <= at.getTime()
+    && (!row.effectiveTo || row.effectiveTo.getTime() > at.getTime())
+  );
+  const row = effective.find((r) => r.tenantId === tenantId) ?? effective.find((r) => r.tenantId === null);
+  return row ? { inputPer1M: row.inputPer1M, outputPer1M: row.outputPer1M } : DEFAULT_MODEL_PRICING[model];
+}
+
+// --- Every price in effect for a tenant at a time (one query per verification) ---
+export async function loadPriceBook(tenantId: string, at: Date = new Date()): Promise<PriceBook> {
+  const db = getDb();
+  const p = schema.modelPrices;
+  const rows = await db
+    .select()
+    .from(p)
+    .where(and(
+      or(eq(p.tenantId, tenantId), isNull(p.tenantId)),
+      lte(p.effectiveFrom, at),
+      or(isNull(p.effectiveTo), gt(p.effectiveTo, at))
+    ));
+
+  return (model) => selectPrice(rows, model, tenantId, at);
+}
+
+// --- Which existing range (if any) a new price closes; throws on overlap ---
+export function planPriceInsert(existing: PriceRange[], from: Date, to: Date | null): PriceRange | null {
+  const end = to?.getTime() ?? Infinity;
+  const overlapping = existing.filter((row) =>
+    row.effectiveFrom.getTime() < end && (row.effectiveTo?.getTime() ?? Infinity) > from.getTime()
+  );
+  if (overlapping.length === 0) return null;
+
+  const [open] = overlapping;
+  if (overlapping.length === 1 && to === null && open.effectiveTo === null && open.effectiveFrom < from) {
+    return open;
+  }
+  throw new Error(
+    `Price overlaps ${open.id} (${open.effectiveFrom.toISOString()} to ${open.effectiveTo?.toISOString() ?? 'open'})`
+  );
+}
+
+// ============================================
+// Admin
+// ============================================
+
+function sameScope(model: string, tenantId: string | null) {
+  const p = schema.modelPrices;
+  return and(eq(p.model, model), tenantId ? eq(p.tenantId, tenantId) : isNull(p.tenantId));
+}
+
+export async function listModelPrices(filters: { model?: string; tenantId?: string; at?: Date } = {}): Promise<schema.ModelPrice[]> {
+  const db = getDb();
+  const p = schema.modelPrices;
+  const conditions = [
+    filters.model ? eq(p.model, filters.model) : undefined,
+    filters.tenantId ? eq(p.tenantId, filters.tenantId) : undefined,
+    filters.at ? lte(p.effectiveFrom, filters.at) : undefined,
+    filters.at ? or(isNull(p.effectiveTo), gt(p.effectiveTo, filters.at)) : undefined,
+  ].filter(Boolean);
+
+  return db
+    .select()
+    .from(p)
+    .where(conditions.length ? and(...conditions) : undefined)
+    .orderBy(asc(p.model), sql`${p.tenantId} nulls first`, asc(p.effectiveFrom));
+}
+
+export async function createModelPrice(auth: AuthContext, input: CreateModelPriceInput): Promise<schema.ModelPrice> {
+  const db = getDb();
+  const p = schema.modelPrices;
+  const tenantId = input.tenantId ?? null;
+  const from = input.effectiveFrom ? new Date(input.effectiveFrom) : new Date();
+  const to = input.effectiveTo ? new Date(input.effectiveTo) : null;
+
+  const existing = await db.select().from(p).where(sameScope(input.model, tenantId));
+  const closes = planPriceInsert(existing, from, to);
+
+  const id = crypto.randomUUID();
+  const insert = db.insert(p).values({
+    id,
+    model: input.model,
+    tenantId,
+    inputPer1M: input.inputPer1M,
+    outputPer1M: input.outputPer1M,
+    effectiveFrom: from,
+    effectiveTo: to,
+    notes: input.notes ?? null,
+    createdBy: auth.userId ?? null,
+  });
+  const audit = db.insert(schema.auditLog).values({
+    tenantId: tenantId ?? auth.tenantId,
+    action: 'model_price_created',
+    entityType: 'model_price',
+    entityId: id,
+    userId: auth.userId,
+    details: { model: input.model, tenantId, inputPer1M: input.inputPer1M, outputPer1M: input.outputPer1M, closed: closes?.id },
+  });
+
+  if (closes) {
+    await db.batch([db.update(p).set({ effectiveTo: from }).where(eq(p.id, closes.id)), insert, audit]);
+  } else {
+    await db.batch([insert, audit]);
+  }
+
+  const [created] = await db.select().from(p).where(eq(p.id, id)).limit(1);
+  return created;
+}
+
+// --- Delete a price not yet in effect (false if not found) ---
+export async function deleteModelPrice(auth: AuthContext, id: string): Promise<boolean> {
+  const db = getDb();
+  const p = schema.modelPrices;
+  const [price] = await db.select().from(p).where(eq(p.id, id)).limit(1);
+  if (!price) return false;
+
+  if (price.effectiveFrom.getTime() <= Date.now()) {
+    throw new Error(`Price ${id} is already in effect; add a new price to replace it`);
+  }
+
+  const audit = db.insert(schema.auditLog).values({
+    tenantId: price.tenantId ?? auth.tenantId,
+    action: 'model_price_deleted',
+    entityType: 'model_price',
+    entityId: id,
+    userId: auth.userId,
+    details: { model: price.model, tenantId: price.tenantId, effectiveFrom: price.effectiveFrom.toISOString() },
+  });
+
+  // The range it closed, if any, runs on to where this one ended
+  await db.batch([
+    db.update(p)
+      .set({ effectiveTo: price.effectiveTo })
+      .where(and(sameScope(price.model, price.tenantId), eq(p.effectiveTo, price.effectiveFrom))),
+    db.delete(p).where(eq(p.id, id)),
+    audit,
+  ]);
+  return true;
+}
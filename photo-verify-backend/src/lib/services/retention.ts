@@ -0,0 +1,309 @@
+// ============================================
+// Image Retention & Storage Quota
+// ============================================
+// Retention (tenants.config.imageRetention): photos of passed
+// verifications are kept passedDays, failed ones failedDays. The daily
+// purge (/api/cron/purge-images) deletes them from storage, clears
+// imageUrl / imageUrls, stamps imagesPurgedAt and audits each
+// verification. The verdict, scores and hashes are kept.
+//
+// A reviewer's decision copies the photos of the verification under
+// review, so rows sharing a photo are purged together once the longest
+// of their limits has passed. Photos under a pending review stay.
+//
+// Quota (config.storageLimitMb): tenants.storage_used_bytes counts the
+// stored uploads. Over the limit an upload is warned about or, with
+// storageLimitAction 'block', refused.
+
+import { and, eq, inArray, isNotNull, isNull, lt, or, sql } from 'drizzle-orm';
+import { getDb, schema } from '@/lib/db';
+import { cursorValue, keysetAfter, keysetOrder, type CursorPosition, type Keyset } from '@/lib/db/pagination';
+import { deleteImage } from './storage';
+import { ImageRetentionSchema, type ImageRetentionConfig, type TenantConfig } from '@/lib/types';
+
+const DAY_MS = 24 * 3600 * 1000;
+const BYTES_PER_MB = 1024 * 1024;
+const DEFAULT_STORAGE_LIMIT_MB = 100;
+const PURGE_BATCH_SIZE = 100;
+const PURGE_BUDGET_MS = 50_000; // Below the cron route's maxDuration
+
+// Oldest first; ties on created_at are split by id so no row is skipped
+const PURGE_KEYSET: Keyset = {
+  sort: { name: 'createdAt', column: schema.verifications.createdAt, type: 'timestamptz' },
+  order: 'asc',
+  id: schema.verifications.id,
+};
+
+// ============================================
+// Storage quota
+// ============================================
+
+export interface StorageQuota {
+  usedBytes: number;
+  limitBytes: number;
+  action: TenantConfig['storageLimitAction'];
+}
+
+export async function getStorageQuota(tenantId: string): Promise<StorageQuota> {
+  const db = getDb();
+  const [tenant] = await db
+    .select({ config: schema.tenants.config, storageUsedBytes: schema.tenants.storageUsedBytes })
+    .from(schema.tenants)
+    .where(eq(schema.tenants.id, tenantId))
+    .limit(1);
+
+  const config = (tenant?.config ?? {}) as Partial<TenantConfig>;
+  return {
+    usedBytes: tenant?.storageUsedBytes ?? 0,
+    limitBytes: (config.storageLimitMb ?? DEFAULT_STORAGE_LIMIT_MB) * BYTES_PER_MB,
+    action: config.storageLimitAction ?? 'warn',
+  };
+}
+
+// --- Check an upload against the quota ---
+// Throws when the tenant blocks uploads over the limit, otherwise
+// returns a warning for the response (null while under the limit).
+export async function checkStorageQuota(tenantId: string, incomingBytes: number): Promise<string | null> {
+  const quota = await getStorageQuota(tenantId);
+  if (quota.usedBytes + incomingBytes <= quota.limitBytes) return null;
+
+  const usedMb = (quota.usedBytes / BYTES_PER_MB).toFixed(1);
+  const limitMb = (quota.limitBytes / BYTES_PER_MB).toFixed(0);
+  const message = `Storage quota exceeded: ${usedMb} MB of ${limitMb} MB used`;
+  if (quota.action === 'block') throw new Error(message);
+  return message;
+}
+
+export async function recordStorageUsage(tenantId: string, deltaBytes: number): Promise<void> {
+  if (!deltaBytes) return;
+  const db = getDb();
+  await db.update(schema.tenants)
+    .set({ storageUsedBytes: sql`greatest(0, ${schema.tenants.storageUsedBytes} + ${deltaBytes})` })
+    .where(eq(schema.tenants.id, tenantId));
+}
+
+// ============================================
+// Purge
+// ============================================
+
+export interface PurgeCandidate {
+  id: string;
+  imageUrl: string | null;
+  imageUrls: unknown;
+  passed: boolean;
+  createdAt: Date;
+}
+
+export interface PurgeCounts {
+  verifications: number;
+  images: number;
+  bytesFreed: number;
+}
+
+export function retentionDays(row: Pick<PurgeCandidate, 'passed'>, policy: ImageRetentionConfig): number {
+  return row.passed ? policy.passedDays : policy.failedDays;
+}
+
+// --- Rows sharing any photo form a group; a group is due once all of its rows are ---
+export function planPurge(
+  rows: PurgeCandidate[],
+  policy: ImageRetentionConfig,
+  now: Date,
+  underReview: Set<string> = new Set(),
+): PurgeCandidate[][] {
+  const groupOf = new Map<string, PurgeCandidate[]>(); // Photo -> the group holding it
+  for (const row of rows) {
+    const urls = imagesOf([row]);
+    if (urls.length === 0) continue;
+    const joined = new Set(urls.flatMap((url) => groupOf.get(url) ?? []));
+    const group = [...joined, row];
+    for (const url of imagesOf(group)) groupOf.set(url, group);
+  }
+
+  return [...new Set(groupOf.values())].filter((group) =>
+    group.every((row) =>
+      !underReview.has(row.id)
+      && row.createdAt.getTime() + retentionDays(row, policy) * DAY_MS <= now.getTime()
+    )
+  );
+}
+
+// --- Every stored photo of a group (first image + image set, deduplicated) ---
+export function imagesOf(group: PurgeCandidate[]): string[] {
+  const urls = new Set<string>();
+  for (const row of group) {
+    if (row.imageUrl) urls.add(row.imageUrl);
+    if (Array.isArray(row.imageUrls)) {
+      for (const image of row.imageUrls as Array<{ url?: string }>) {
+        if (image.url) urls.add(image.url);
+      }
+    }
+  }
+  return [...urls];
+}
+
+// --- Delete one group's photos, then clear and audit its rows ---
+// A failed delete leaves the rows as they are: the next run retries them.
+async function purgeGroup(
+  tenantId: string,
+  group: PurgeCandidate[],
+  policy: ImageRetentionConfig,
+  now: Date,
+): Promise<PurgeCounts | null> {
+  const db = getDb();
+  const images = imagesOf(group);
+  let bytesFreed = 0;
+
+  try {
+    for (const url of images) bytesFreed += await deleteImage(url);
+  } catch (error) {
+    console.warn(`[retention] Could not delete photos of verification ${group[0].id}:`, error);
+    await recordStorageUsage(tenantId, -bytesFreed);
+    return null;
+  }
+
+  const ids = group.map((row) => row.id);
+  const purged = await db.update(schema.verifications)
+    .set({ imageUrl: null, imageUrls: [], imagesPurgedAt: now })
+    .where(and(inArray(schema.verifications.id, ids), isNull(schema.verifications.imagesPurgedAt)))
+    .returning({ id: schema.verifications.id });
+
+  await recordStorageUsage(tenantId, -bytesFreed);
+
+  if (purged.length > 0) {
+    const purgedIds = new Set(purged.map((row) => row.id));
+    await db.insert(schema.auditLog).values(
+      group
+        .filter((row) => purgedIds.has(row.id))
+        .map((row) => ({
+          tenantId,
+          action: 'images_purged',
+          entityType: 'verification',
+          entityId: row.id,
+          userId: null,
+          details: {
+            imageCount: images.length,
+            passed: row.passed,
+            retentionDays: retentionDays(row, policy),
+            verifiedAt: row.createdAt.toISOString(),
+          },
+        }))
+    );
+  }
+
+  return { verifications: purged.length, images: images.length, bytesFreed };
+}
+
+// --- Purge one tenant's expired photos, oldest first, until the deadline ---
+export async function purgeTenantImages(
+  tenantId: string,
+  policy: ImageRetentionConfig,
+  deadline: number = Date.now() + PURGE_BUDGET_MS,
+  now: Date = new Date(),
+): Promise<PurgeCounts> {
+  const db = getDb();
+  const v = schema.verifications;
+  const counts: PurgeCounts = { verifications: 0, images: 0, bytesFreed: 0 };
+  if (!policy.enabled) return counts;
+
+  const passedCutoff = new Date(now.getTime() - policy.passedDays * DAY_MS);
+  const failedCutoff = new Date(now.getTime() - policy.failedDays * DAY_MS);
+  let cursor: CursorPosition | null = null;
+
+  while (Date.now() < deadline) {
+    // 1. Next batch of rows past the limit for their outcome
+    const due: Array<PurgeCandidate & { cursorValue: string | null }> = await db
+      .select({
+        id: v.id,
+        imageUrl: v.imageUrl,
+        imageUrls: v.imageUrls,
+        passed: v.passed,
+        createdAt: v.createdAt,
+        cursorValue: cursorValue(PURGE_KEYSET),
+      })
+      .from(v)
+      .where(
+        and(
+          eq(v.tenantId, tenantId),
+          or(isNotNull(v.imageUrl), sql`${v.imageUrls} <> '[]'::jsonb`),
+          or(
+            and(eq(v.passed, true), lt(v.createdAt, passedCutoff)),
+            and(eq(v.passed, false), lt(v.createdAt, failedCutoff))
+          ),
+          cursor ? keysetAfter(PURGE_KEYSET, cursor) : undefined
+        )
+      )
+      .orderBy(...keysetOrder(PURGE_KEYSET))
+      .limit(PURGE_BATCH_SIZE);
+
+    if (due.length === 0) break;
+    const last = due[due.length - 1];
+    cursor = { value: last.cursorValue, id: last.id };
+
+    // 2. Every row sharing one of those photos, and the ones still under review
+    const urls = imagesOf(due);
+    const rows = await db
+      .select({ id: v.id, imageUrl: v.imageUrl, imageUrls: v.imageUrls, passed: v.passed, createdAt: v.createdAt })
+      .from(v)
+      .where(
+        and(
+          eq(v.tenantId, tenantId),
+          or(
+            inArray(v.imageUrl, urls),
+            sql`exists (select 1 from jsonb_array_elements(${v.imageUrls}) as image where image->>'url' in ${urls})`
+          )
+        )
+      );
+
+    const pending = await db
+      .select({ verificationId: schema.reviewQueue.verificationId })
+      .from(schema.reviewQueue)
+      .where(
+        and(
+          eq(schema.reviewQueue.tenantId, tenantId),
+          eq(schema.reviewQueue.status, 'pending'),
+          inArray(schema.reviewQueue.verificationId, rows.map((row) => row.id))
+        )
+      );
+
+    // 3. Purge the groups that are due
+    for (const group of planPurge(rows, policy, now, new Set(pending.map((p) => p.verificationId)))) {
+      if (Date.now() >= deadline) break;
+      const purged = await purgeGroup(tenantId, group, policy, now);
+      if (!purged) continue;
+      counts.verifications += purged.verifications;
+      counts.images += purged.images;
+      counts.bytesFreed += purged.bytesFreed;
+    }
+  }
+
+  return counts;
+}
+
+// --- Cron entry point: every active tenant with retention enabled ---
+export async function purgeExpiredImages(
+  budgetMs: number = PURGE_BUDGET_MS,
+): Promise<PurgeCounts & { tenants: number }> {
+  const db = getDb();
+  const deadline = Date.now() + budgetMs;
+  const totals = { tenants: 0, verifications: 0, images: 0, bytesFreed: 0 };
+
+  const tenants = await db
+    .select({ id: schema.tenants.id, config: schema.tenants.config })
+    .from(schema.tenants)
+    .where(eq(schema.tenants.isActive, true));
+
+  for (const tenant of tenants) {
+    if (Date.now() >= deadline) break;
+    const policy = ImageRetentionSchema.parse((tenant.config as Partial<TenantConfig>).imageRetention ?? {});
+    if (!policy.enabled) continue;
+
+    const counts = await purgeTenantImages(tenant.id, policy, deadline);
+    totals.tenants++;
+    totals.verifications += counts.verifications;
+    totals.images += counts.images;
+    totals.bytesFreed += counts.bytesFreed;
+  }
+
+  return totals;
+}
@@ -0,0 +1,412 @@
+// ============================================
+// Manual Review Queue
+// ============================================
+// Verifications that end in manual review (low confidence,
+// failed criteria with fallbackToManual, provider errors) are
+// queued here. A reviewer claims an item with a time-boxed
+// lease, then approves or rejects it. The decision is stored
+// as a new verification row with mode 'manual'.
+
+import { eq, and, or, isNull, isNotNull, lt, gte, desc, type SQL } from 'drizzle-orm';
+import { getDb, schema } from '@/lib/db';
+import { ownRowsOf } from '@/lib/auth/permissions';
+import { recordAudit } from './audit';
+import { emitWebhookEvent } from './webhooks';
+import { scoreCriteria } from './scoring';
+import type {
+  AuthContext,
+  CriterionResult,
+  CriterionOverride,
+  PhotoVerificationConfig,
+  ReviewDecisionInput,
+  ReviewReason,
+  ReviewStatus,
+  VerificationCriterion,
+  VerificationResult,
+} from '@/lib/types';
+
+// --- Why a verification needs a human ---
+export function determineReviewReason(
+  result: VerificationResult,
+  config: PhotoVerificationConfig,
+): ReviewReason {
+  if (result.duplicateOf && result.duplicateOf.action !== 'flag') return 'duplicate_photo';
+  if (result.integrity?.issues.length && result.integrity.action !== 'flag') return 'integrity_check';
+  if (result.criteriaResults.length === 0) return 'provider_error';
+  if (result.overallConfidence < config.confidenceThreshold) return 'low_confidence';
+  // Every required criterion held, so the tenant's pass score is what failed
+  const requiredPassed = config.criteria
+    .filter((c) => c.required)
+    .every((c) => result.criteriaResults.find((r) => r.criterionId === c.id)?.passed);
+  if (requiredPassed && result.score !== undefined) return 'low_score';
+  return 'criteria_failed';
+}
+
+// --- Add a verification to the queue ---
+export async function enqueueReview(item: {
+  tenantId: string;
+  verificationId: string;
+  taskId?: string;
+  externalTaskId?: string;
+  reason: ReviewReason;
+}): Promise<schema.ReviewQueueItem> {
+  const db = getDb();
+  const [queued] = await db.insert(schema.reviewQueue).values(item).returning();
+  return queued;
+}
+
+// --- List queue items for a tenant ---
+export interface ReviewListFilters {
+  status?: ReviewStatus;
+  reason?: ReviewReason;
+  taskId?: string;
+  externalTaskId?: string;
+  claim?: 'mine' | 'unclaimed' | 'claimed';
+  limit: number;
+  offset: number;
+}
+
+export async function listReviews(auth: AuthContext, filters: ReviewListFilters) {
+  const db = getDb();
+  const now = new Date();
+  const q = schema.reviewQueue;
+
+  const conditions: SQL[] = [eq(q.tenantId, auth.tenantId)];
+  if (filters.status) conditions.push(eq(q.status, filters.status));
+  if (filters.reason) conditions.push(eq(q.reason, filters.reason));
+  if (filters.taskId) conditions.push(eq(q.taskId, filters.taskId));
+  if (filters.externalTaskId) conditions.push(eq(q.externalTaskId, filters.externalTaskId));
+  const owner = ownRowsOf(auth); // A rep sees only reviews of its own verifications
+  if (owner !== null) conditions.push(eq(schema.verifications.submittedBy, owner));
+
+  const leaseFree = or(isNull(q.claimedBy), lt(q.claimExpiresAt, now))!;
+  if (filters.claim === 'unclaimed') conditions.push(leaseFree);
+  if (filters.claim === 'claimed') conditions.push(isNotNull(q.claimedBy), gte(q.claimExpiresAt, now));
+  if (filters.claim === 'mine' && auth.userId) conditions.push(eq(q.claimedBy, auth.userId));
+
+  return db
+    .select({
+      id: q.id,
+      status: q.status,
+      reason: q.reason,
+      taskId: q.taskId,
+      externalTaskId: q.externalTaskId,
+      verificationId: q.verificationId,
+      claimedBy: q.claimedBy,
+      claimExpiresAt: q.claimExpiresAt,
+      resolvedBy: q.resolvedBy,
+      resolvedAt: q.resolvedAt,
+      createdAt: q.createdAt,
+      verification: {
+        passed: schema.verifications.passed,
+        overallConfidence: schema.verifications.overallConfidence,
+        score: schema.verifications.score,
+        criteriaResults: schema.verifications.criteriaResults,
+        imageUrl: schema.verifications.imageUrl,
+        imageUrls: schema.verifications.imageUrls,
+        modelUsed: schema.verifications.modelUsed,
+      },
+    })
+    .from(q)
+    .innerJoin(schema.verifications, eq(q.verificationId, schema.verifications.id))
+    .where(and(...conditions))
+    .orderBy(desc(q.createdAt))
+    .limit(filters.limit)
+    .offset(filters.offset);
+}
+
+// --- Get one queue item with the verification under review ---
+export async function getReview(auth: AuthContext, id: string) {
+  const db = getDb();
+  const owner = ownRowsOf(auth);
+
+  const [row] = await db
+    .select({ item: schema.reviewQueue, verification: schema.verifications })
+    .from(schema.reviewQueue)
+    .innerJoin(schema.verifications, eq(schema.reviewQueue.verificationId, schema.verifications.id))
+    .where(and(
+      eq(schema.reviewQueue.id, id),
+      eq(schema.reviewQueue.tenantId, auth.tenantId),
+      owner !== null ? eq(schema.verifications.submittedBy, owner) : undefined
+    ))
+    .limit(1);
+
+  return row ?? null;
+}
+
+// --- Is the lease on this item held by the caller? ---
+export function holdsClaim(item: schema.ReviewQueueItem, auth: AuthContext, now: Date = new Date()): boolean {
+  return !!auth.userId
+    && item.claimedBy === auth.userId
+    && !!item.claimExpiresAt
+    && item.claimExpiresAt >= now;
+}
+
+// --- The claim fields as they were, for the audit entry's before state ---
+async function claimState(auth: AuthContext, id: string): Promise<Pick<schema.ReviewQueueItem, 'claimedBy' | 'claimExpiresAt'> | null> {
+  const q = schema.reviewQueue;
+  const [row] = await getDb()
+    .select({ claimedBy: q.claimedBy, claimExpiresAt: q.claimExpiresAt })
+    .from(q)
+    .where(and(eq(q.id, id), eq(q.tenantId, auth.tenantId)))
+    .limit(1);
+  return row ?? null;
+}
+
+// --- Claim (or renew) the lease on a pending item ---
+// Single conditional UPDATE, so two reviewers can never both win.
+// Returns null when someone else holds a live lease or the item is resolved.
+export async function claimReview(
+  auth: AuthContext & { userId: string },
+  id: string,
+  leaseSeconds: number,
+): Promise<schema.ReviewQueueItem | null> {
+  const db = getDb();
+  const now = new Date();
+  const q = schema.reviewQueue;
+  const before = await claimState(auth, id);
+
+  const [claimed] = await db
+    .update(q)
+    .set({
+      claimedBy: auth.userId,
+      claimExpiresAt: new Date(now.getTime() + leaseSeconds * 1000),
+      updatedAt: now,
+    })
+    .where(
+      and(
+        eq(q.id, id),
+        eq(q.tenantId, auth.tenantId),
+        eq(q.status, 'pending'),
+        or(isNull(q.claimedBy), lt(q.claimExpiresAt, now), eq(q.claimedBy, auth.userId))
+      )
+    )
+    .returning();
+
+  if (!claimed) return null;
+
+  await recordAudit({
+    tenantId: auth.tenantId,
+    action: 'review_claimed',
+    entityType: 'review',
+    entityId: id,
+    userId: auth.userId,
+    before,
+    after: { claimedBy: claimed.claimedBy, claimExpiresAt: claimed.claimExpiresAt },
+    details: { leaseSeconds, claimExpiresAt: claimed.claimExpiresAt },
+  });
+
+  return claimed;
+}
+
+// --- Release a lease held by the caller ---
+export async function releaseReview(
+  auth: AuthContext & { userId: string },
+  id: string,
+): Promise<schema.ReviewQueueItem | null> {
+  const db = getDb();
+  const q = schema.reviewQueue;
+  const before = await claimState(auth, id);
+
+  const [released] = await db
+    .update(q)
+    .set({ claimedBy: null, claimExpiresAt: null, updatedAt: new Date() })
+    .where(
+      and(
+        eq(q.id, id),
+        eq(q.tenantId, auth.tenantId),
+        eq(q.status, 'pending'),
+        eq(q.claimedBy, auth.userId)
+      )
+    )
+    .returning();
+
+  if (!released) return null;
+
+  await recordAudit({
+    tenantId: auth.tenantId,
+    action: 'review_released',
+    entityType: 'review',
+    entityId: id,
+    userId: auth.userId,
+    before,
+    after: { claimedBy: null, claimExpiresAt: null },
+  });
+
+  return released;
+}
+
+// --- Merge reviewer overrides into the AI criteria results ---
+// Every criterion of the config gets a result; unknown override ids throw.
+export function applyOverrides(
+  original: CriterionResult[],
+  overrides: CriterionOverride[],
+  config: PhotoVerificationConfig | null,
+): CriterionResult[] {
+  const criteria: Array<Pick<VerificationCriterion, 'id' | 'label'>> = config?.criteria
+    ?? original.map((r) => ({ id: r.criterionId, label: r.label }));
+
+  const unknown = overrides.find((o) => !criteria.some((c) => c.id === o.criterionId));
+  if (unknown) {
+    throw new Error(`Unknown criterion in overrides: ${unknown.criterionId}`);
+  }
+
+  return criteria.map((criterion) => {
+    const base: CriterionResult = original.find((r) => r.criterionId === criterion.id) ?? {
+      criterionId: criterion.id,
+      label: criterion.label,
+      passed: false,
+      value: 'NOT_EVALUATED',
+      confidence: 0,
+      reasoning: 'Criterion was not evaluated by the model',
+    };
+
+    const override = overrides.find((o) => o.criterionId === criterion.id);
+    if (!override) return base;
+
+    return {
+      ...base,
+      passed: override.passed,
+      value: override.value ?? base.value,
+      confidence: 1,
+      reasoning: override.reasoning ?? 'Manual override',
+      credit: override.passed ? 1 : 0,
+    };
+  });
+}
+
+// --- Approve or reject a claimed item ---
+// Returns null if the lease was lost or the item resolved in the meantime.
+export async function resolveReview(
+  auth: AuthContext & { userId: string },
+  item: schema.ReviewQueueItem,
+  verification: schema.Verification,
+  decision: ReviewDecisionInput,
+) {
+  const db = getDb();
+  const now = new Date();
+  const q = schema.reviewQueue;
+  const passed = decision.decision === 'approve';
+
+  const config = verification.configUsed as PhotoVerificationConfig | null;
+  const criteriaResults = applyOverrides(
+    verification.criteriaResults as CriterionResult[],
+    decision.overrides,
+    config,
+  );
+  const score = scoreCriteria(
+    config?.criteria ?? criteriaResults.map((r) => ({ id: r.criterionId, weight: 1 })),
+    criteriaResults
+  );
+
+  // 1. Close the item only while our lease is still live
+  const [resolved] = await db
+    .update(q)
+    .set({
+      status: passed ? 'approved' : 'rejected',
+      resolvedBy: auth.userId,
+      resolvedAt: now,
+      notes: decision.notes,
+      updatedAt: now,
+    })
+    .where(
+      and(
+        eq(q.id, item.id),
+        eq(q.tenantId, auth.tenantId),
+        eq(q.status, 'pending'),
+        eq(q.claimedBy, auth.userId),
+        gte(q.claimExpiresAt, now)
+      )
+    )
+    .returning();
+
+  if (!resolved) return null;
+
+  // 2. Record the human verdict as a new verification
+  const [manual] = await db.insert(schema.verifications).values({
+    taskId: verification.taskId,
+    externalTaskId: verification.externalTaskId,
+    tenantId: auth.tenantId,
+    imageUrl: verification.imageUrl,
+    imageUrls: verification.imageUrls,
+    passed,
+    overallConfidence: 1,
+    score,
+    criteriaResults,
+    configUsed: verification.configUsed,
+    modelUsed: 'manual',
+    processingTimeMs: now.getTime() - item.createdAt.getTime(),
+    mode: 'manual',
+    reviewedBy: auth.userId,
+    submittedBy: verification.submittedBy, // The rep still sees the final verdict
+    customerId: verification.customerId, // Per-store reports count the final verdict
+    imageHashes: verification.imageHashes,
+  }).returning();
+
+  const [updated] = await db
+    .update(q)
+    .set({ resolutionVerificationId: manual.id })
+    .where(eq(q.id, item.id))
+    .returning();
+
+  // 3. Move the internal task out of manual_review
+  let previousTaskStatus: schema.Task['status'] | undefined;
+  const newTaskStatus = passed ? 'completed' : 'failed';
+  if (verification.taskId) {
+    const [task] = await db
+      .select({ status: schema.tasks.status })
+      .from(schema.tasks)
+      .where(and(eq(schema.tasks.id, verification.taskId), eq(schema.tasks.tenantId, auth.tenantId)))
+      .limit(1);
+    previousTaskStatus = task?.status;
+
+    await db.update(schema.tasks)
+      .set({ status: newTaskStatus, updatedAt: now })
+      .where(and(eq(schema.tasks.id, verification.taskId), eq(schema.tasks.tenantId, auth.tenantId)));
+  }
+
+  // 4. Audit log: the model's verdict against the reviewer's
+  await recordAudit({
+    tenantId: auth.tenantId,
+    action: passed ? 'review_approved' : 'review_rejected',
+    entityType: 'review',
+    entityId: item.id,
+    userId: auth.userId,
+    before: { status: item.status, passed: verification.passed, score: verification.score, taskStatus: previousTaskStatus },
+    after: { status: resolved.status, passed, score, taskStatus: verification.taskId ? newTaskStatus : undefined },
+    details: {
+      verificationId: verification.id,
+      resolutionVerificationId: manual.id,
+      taskId: verification.taskId,
+      externalTaskId: verification.externalTaskId,
+      overrides: decision.overrides,
+      notes: decision.notes,
+    },
+  });
+
+  // 5. Webhooks
+  await emitWebhookEvent(auth.tenantId, 'verification.completed', {
+    verificationId: manual.id,
+    taskId: verification.taskId ?? undefined,
+    externalTaskId: verification.externalTaskId ?? undefined,
+    mode: 'manual',
+    passed,
+    overallConfidence: 1,
+    score,
+    criteriaResults,
+    modelUsed: 'manual',
+    processedAt: now.toISOString(),
+    reviewId: item.id,
+    reviewedBy: auth.userId,
+  });
+  if (verification.taskId && previousTaskStatus && previousTaskStatus !== newTaskStatus) {
+    await emitWebhookEvent(auth.tenantId, 'task.status_changed', {
+      taskId: verification.taskId,
+      previousStatus: previousTaskStatus,
+      status: newTaskStatus,
+      verificationId: manual.id,
+    });
+  }
+
+  return { review: updated, verification: manual };
+}
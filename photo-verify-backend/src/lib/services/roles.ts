@@ -0,0 +1,168 @@
+// ============================================
+// Custom Roles
+// ============================================
+// Named permission sets per tenant, usable wherever a built-in role is:
+// the `role` claim of a JWT or the role of an API key. A role never
+// grants more than the caller holds, so roles:admin cannot escalate.
+// A role still held by API keys cannot be deleted.
+
+import { and, asc, eq, isNull, sql } from 'drizzle-orm';
+import { getDb, schema } from '@/lib/db';
+import { ROLE_PERMISSIONS, ungrantable } from '@/lib/auth/permissions';
+import { auditEntry } from './audit';
+import {
+  BUILT_IN_ROLES,
+  type AuthContext,
+  type CreateRoleInput,
+  type Permission,
+  type UpdateRoleInput,
+} from '@/lib/types';
+
+export interface RoleView {
+  id: string | null; // null for built-in roles
+  name: string;
+  description: string | null;
+  permissions: Permission[];
+  builtIn: boolean;
+}
+
+function toView(row: schema.TenantRole): RoleView {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    permissions: row.permissions as Permission[],
+    builtIn: false,
+  };
+}
+
+function assertGrantable(auth: AuthContext, permissions: Permission[]): void {
+  const missing = ungrantable(auth, permissions);
+  if (missing.length > 0) throw new Error(`Cannot grant permissions you do not hold: ${missing.join(', ')}`);
+}
+
+// --- Built-in roles first, then the tenant's own ---
+export async function listRoles(tenantId: string): Promise<RoleView[]> {
+  const db = getDb();
+  const rows = await db
+    .select()
+    .from(schema.tenantRoles)
+    .where(eq(schema.tenantRoles.tenantId, tenantId))
+    .orderBy(asc(schema.tenantRoles.name));
+
+  const builtIn = BUILT_IN_ROLES.map((name) => ({
+    id: null,
+    name,
+    description: null,
+    permissions: [...ROLE_PERMISSIONS[name]],
+    builtIn: true,
+  }));
+  return [...builtIn, ...rows.map(toView)];
+}
+
+export async function createRole(auth: AuthContext, tenantId: string, input: CreateRoleInput): Promise<RoleView> {
+  assertGrantable(auth, input.permissions);
+
+  const db = getDb();
+  const [existing] = await db
+    .select({ id: schema.tenantRoles.id })
+    .from(schema.tenantRoles)
+    .where(and(eq(schema.tenantRoles.tenantId, tenantId), eq(schema.tenantRoles.name, input.name)))
+    .limit(1);
+  if (existing) throw new Error(`Role ${input.name} already exists`);
+
+  const id = crypto.randomUUID();
+  await db.batch([
+    db.insert(schema.tenantRoles).values({
+      id,
+      tenantId,
+      name: input.name,
+      description: input.description ?? null,
+      permissions: input.permissions,
+      createdBy: auth.userId ?? null,
+    }),
+    db.insert(schema.auditLog).values(auditEntry({
+      tenantId,
+      action: 'role_created',
+      entityType: 'role',
+      entityId: id,
+      userId: auth.userId,
+      after: { name: input.name, description: input.description ?? null, permissions: input.permissions },
+    })),
+  ]);
+
+  const [row] = await db.select().from(schema.tenantRoles).where(eq(schema.tenantRoles.id, id)).limit(1);
+  return toView(row);
+}
+
+// --- Update (null if not found); takes effect on the next request of every holder ---
+export async function updateRole(
+  auth: AuthContext,
+  tenantId: string,
+  id: string,
+  input: UpdateRoleInput,
+): Promise<RoleView | null> {
+  if (input.permissions) assertGrantable(auth, input.permissions);
+
+  const db = getDb();
+  const where = and(eq(schema.tenantRoles.id, id), eq(schema.tenantRoles.tenantId, tenantId));
+  const [existing] = await db.select().from(schema.tenantRoles).where(where).limit(1);
+  if (!existing) return null;
+
+  await db.batch([
+    db.update(schema.tenantRoles)
+      .set({
+        ...(input.description !== undefined ? { description: input.description } : {}),
+        ...(input.permissions ? { permissions: input.permissions } : {}),
+        updatedAt: new Date(),
+      })
+      .where(where),
+    db.insert(schema.auditLog).values(auditEntry({
+      tenantId,
+      action: 'role_updated',
+      entityType: 'role',
+      entityId: id,
+      userId: auth.userId,
+      before: { description: existing.description, permissions: existing.permissions },
+      after: {
+        description: input.description !== undefined ? input.description : existing.description,
+        permissions: input.permissions ?? existing.permissions,
+      },
+      details: { name: existing.name },
+    })),
+  ]);
+
+  const [row] = await db.select().from(schema.tenantRoles).where(where).limit(1);
+  return toView(row);
+}
+
+// --- Delete (false if not found); refused while API keys hold the role ---
+export async function deleteRole(auth: AuthContext, tenantId: string, id: string): Promise<boolean> {
+  const db = getDb();
+  const where = and(eq(schema.tenantRoles.id, id), eq(schema.tenantRoles.tenantId, tenantId));
+  const [existing] = await db.select().from(schema.tenantRoles).where(where).limit(1);
+  if (!existing) return false;
+
+  const [{ count }] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(schema.apiKeys)
+    .where(and(
+      eq(schema.apiKeys.tenantId, tenantId),
+      eq(schema.apiKeys.role, existing.name),
+      isNull(schema.apiKeys.revokedAt)
+    ));
+  if (count > 0) throw new Error(`Role ${existing.name} is held by ${count} API key(s); revoke them first`);
+
+  await db.batch([
+    db.delete(schema.tenantRoles).where(where),
+    db.insert(schema.auditLog).values(auditEntry({
+      tenantId,
+      action: 'role_deleted',
+      entityType: 'role',
+      entityId: id,
+      userId: auth.userId,
+      before: { name: existing.name, description: existing.description, permissions: existing.permissions },
+    })),
+  ]);
+  return true;
+}
@@ -0,0 +1,56 @@
+// ============================================
+// Execution Score - Weighted, with Partial Credit
+// ============================================
+// Turns per-criterion verdicts into a 0-100 score that commercial
+// teams can track over time, and applies the tenant's pass threshold
+// (tenants.config.scoring) on top of the required-criteria rule.
+
+import { getTenantConfig } from './tenants';
+import {
+  ScoringPolicySchema,
+  type CriterionResult,
+  type ScoringPolicy,
+  type VerificationCriterion,
+} from '@/lib/types';
+
+// --- Tenant policy (tenants.config.scoring) ---
+export async function getScoringPolicy(tenantId: string): Promise<ScoringPolicy> {
+  const config = await getTenantConfig(tenantId);
+  return ScoringPolicySchema.parse(config.scoring ?? {});
+}
+
+// --- Credit earned by one criterion (0-1) ---
+// Only optional criteria get partial credit; a required one is all or nothing.
+export function criterionCredit(
+  criterion: Pick<VerificationCriterion, 'required'>,
+  passed: boolean,
+  progress: number | undefined,
+): number {
+  if (passed) return 1;
+  if (criterion.required || progress === undefined) return 0;
+  return Math.round(Math.min(1, Math.max(0, progress)) * 100) / 100;
+}
+
+// --- Weighted score, 0-100 with one decimal ---
+// Results without a credit (e.g. stored before scoring existed) count as passed / failed.
+export function scoreCriteria(
+  criteria: Array<Pick<VerificationCriterion, 'id' | 'weight'>>,
+  results: CriterionResult[],
+): number {
+  let earned = 0;
+  let total = 0;
+
+  for (const criterion of criteria) {
+    const weight = criterion.weight ?? 1;
+    const result = results.find((r) => r.criterionId === criterion.id);
+    total += weight;
+    earned += weight * (result ? result.credit ?? (result.passed ? 1 : 0) : 0);
+  }
+
+  return total > 0 ? Math.round((earned / total) * 1000) / 10 : 0;
+}
+
+// --- Whether a score clears the tenant's threshold ---
+export function meetsPassScore(score: number, policy: ScoringPolicy): boolean {
+  return policy.passScore === undefined || score >= policy.passScore;
+}
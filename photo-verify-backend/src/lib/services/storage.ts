@@ -1,37 +1,520 @@
 // ============================================
-// Storage Service - Vercel Blob
+// Storage Service - Pluggable Drivers
 // ============================================
+// Photos are private. The database keeps a storage reference
+// ("storage:<tenantId>/<taskId>/<file>"), never a public URL, and API
+// responses carry signed URLs that expire (STORAGE_URL_TTL_SECONDS).
+//
+// Drivers (STORAGE_DRIVER):
+//   vercel-blob - Vercel Blob (default). The SDK only creates public
+//                 blobs, so objects get a random suffix and are served
+//                 through /api/storage; the blob URL is never handed out
+//   local       - files under STORAGE_LOCAL_DIR (dev and tests), served
+//                 through /api/storage
+//   s3          - any S3-compatible store (AWS, MinIO, R2...), with
+//                 presigned GET URLs (SigV4)
 
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { mkdir, readFile, readdir, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
 import { put, del, list } from '@vercel/blob';
+import type { ImageInput } from './vision';
 
 const MAX_IMAGE_SIZE = (parseInt(process.env.MAX_IMAGE_SIZE_MB || '10', 10)) * 1024 * 1024;
+const DEFAULT_URL_TTL_SECONDS = 900;
+const MAX_URL_TTL_SECONDS = 7 * 24 * 3600; // SigV4 presigned URLs cannot live longer
+
+export const STORAGE_REF_PREFIX = 'storage:';
+
+// --- Driver interface ---
+
+export interface StoredObject {
+  body: Buffer;
+  contentType: string;
+}
+
+export interface StoredObjectInfo {
+  key: string;
+  size: number;
+  uploadedAt: Date;
+}
+
+export interface StorageDriver {
+  name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<string>; // Returns the final key
+  get(key: string): Promise<StoredObject | null>;
+  head(key: string): Promise<StoredObjectInfo | null>;
+  delete(key: string): Promise<void>;
+  list(prefix: string, limit: number): Promise<StoredObjectInfo[]>;
+  signedUrl(key: string, expiresInSeconds: number): Promise<string>;
+}
+
+export interface UploadedImage {
+  ref: string;       // Store this (and pass it to /api/verify)
+  url: string;       // Signed URL, valid until expiresAt
+  expiresAt: Date;
+  size: number;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  heic: 'image/heic',
+};
+
+function contentTypeFor(key: string): string {
+  return CONTENT_TYPES[key.split('.').pop()?.toLowerCase() ?? ''] ?? 'application/octet-stream';
+}
+
+// --- Storage references ---
+
+export function isStorageRef(url: string | null | undefined): url is string {
+  return !!url && url.startsWith(STORAGE_REF_PREFIX);
+}
+
+export function toStorageRef(key: string): string {
+  return `${STORAGE_REF_PREFIX}${key}`;
+}
+
+export function storageKeyOf(ref: string): string {
+  return ref.slice(STORAGE_REF_PREFIX.length);
+}
+
+// --- Key segments ---
+// Keys are built from IDs callers send (tenant, task), so every segment
+// is held to a plain name: no empty, "." or ".." parts, no separators
+const KEY_SEGMENT_PATTERN = /^[A-Za-z0-9_-][A-Za-z0-9_.-]{0,127}$/;
+
+export function isSafeKeySegment(segment: string): boolean {
+  return KEY_SEGMENT_PATTERN.test(segment);
+}
+
+export function isSafeStorageKey(key: string): boolean {
+  return key.split('/').every(isSafeKeySegment);
+}
+
+// Is the key a well-formed path under the tenant's prefix?
+function isTenantKey(tenantId: string, key: string): boolean {
+  return isSafeStorageKey(key) && key.startsWith(`${tenantId}/`);
+}
+
+// --- Signed URLs served by /api/storage (vercel-blob and local) ---
+
+function signingSecret(): string {
+  const secret = process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET;
+  if (!secret) throw new Error('STORAGE_SIGNING_SECRET environment variable is not set');
+  return secret;
+}
+
+function publicBaseUrl(): string {
+  if (process.env.STORAGE_PUBLIC_URL) return process.env.STORAGE_PUBLIC_URL.replace(/\/$/, '');
+  if (process.env.VERCEL_URL) return `https://${process.env.VERCEL_URL}`;
+  return 'http://localhost:3000';
+}
+
+function proxySignature(key: string, expires: number): string {
+  return createHmac('sha256', signingSecret()).update(`${key}\n${expires}`).digest('base64url');
+}
+
+export function createProxyUrl(key: string, expiresInSeconds: number, now: Date = new Date()): string {
+  const expires = Math.floor(now.getTime() / 1000) + expiresInSeconds;
+  const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+  return `${publicBaseUrl()}/api/storage/${encodedKey}?expires=${expires}&signature=${proxySignature(key, expires)}`;
+}
+
+export function verifyProxySignature(
+  key: string,
+  expires: string | null,
+  signature: string | null,
+  now: Date = new Date(),
+): boolean {
+  const expiresAt = Number(expires);
+  if (!signature || !Number.isInteger(expiresAt) || expiresAt * 1000 < now.getTime()) return false;
+  const expected = Buffer.from(proxySignature(key, expiresAt));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+// --- Vercel Blob driver ---
+
+// Blob calls take URLs; find the blob by its pathname
+async function findBlob(key: string) {
+  const result = await list({ prefix: key, limit: 1 });
+  return result.blobs.find((blob) => blob.pathname === key) ?? null;
+}
+
+export const vercelBlobDriver: StorageDriver = {
+  name: 'vercel-blob',
+
+  async put(key, body, contentType) {
+    const blob = await put(key, body, { access: 'public', addRandomSuffix: true, contentType });
+    return blob.pathname;
+  },
+
+  async get(key) {
+    const blob = await findBlob(key);
+    if (!blob) return null;
+    const response = await fetch(blob.url);
+    if (!response.ok) throw new Error(`Failed to read ${key}: HTTP ${response.status}`);
+    return {
+      body: Buffer.from(await response.arrayBuffer()),
+      contentType: response.headers.get('content-type') || contentTypeFor(key),
+    };
+  },
+
+  async head(key) {
+    const blob = await findBlob(key);
+    return blob ? { key, size: blob.size, uploadedAt: blob.uploadedAt } : null;
+  },
+
+  async delete(key) {
+    const blob = await findBlob(key);
+    if (blob) await del(blob.url);
+  },
+
+  async list(prefix, limit) {
+    const result = await list({ prefix, limit });
+    return result.blobs.map((blob) => ({ key: blob.pathname, size: blob.size, uploadedAt: blob.uploadedAt }));
+  },
+
+  async signedUrl(key, expiresInSeconds) {
+    return createProxyUrl(key, expiresInSeconds);
+  },
+};
+
+// --- Local filesystem driver (dev and tests) ---
+
+export function createLocalDriver(root: string): StorageDriver {
+  const base = path.resolve(root);
+
+  // Keys are tenant paths; never let one escape the root
+  const resolveKey = (key: string): string => {
+    const file = path.resolve(base, key);
+    if (!isSafeStorageKey(key) || !file.startsWith(base + path.sep)) throw new Error(`Invalid storage key: ${key}`);
+    return file;
+  };
+
+  return {
+    name: 'local',
+
+    async put(key, body) {
+      const file = resolveKey(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, body);
+      return key;
+    },
+
+    async get(key) {
+      try {
+        return { body: await readFile(resolveKey(key)), contentType: contentTypeFor(key) };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async head(key) {
+      try {
+        const info = await stat(resolveKey(key));
+        return { key, size: info.size, uploadedAt: info.mtime };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await rm(resolveKey(key), { force: true });
+    },
+
+    async list(prefix, limit) {
+      const dir = prefix.endsWith('/') ? resolveKey(prefix.slice(0, -1)) : path.dirname(resolveKey(prefix));
+      let entries: string[];
+      try {
+        entries = await readdir(dir, { recursive: true });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+      }
+
+      const keys = entries
+        .map((entry) => path.relative(base, path.join(dir, entry)).split(path.sep).join('/'))
+        .filter((key) => key.startsWith(prefix))
+        .sort();
+
+      const objects: StoredObjectInfo[] = [];
+      for (const key of keys) {
+        const info = await stat(resolveKey(key));
+        if (info.isFile()) objects.push({ key, size: info.size, uploadedAt: info.mtime });
+        if (objects.length >= limit) break;
+      }
+      return objects;
+    },
+
+    async signedUrl(key, expiresInSeconds) {
+      return createProxyUrl(key, expiresInSeconds);
+    },
+  };
+}
+
+// --- S3-compatible driver (AWS Signature Version 4, no SDK) ---
+
+export interface S3DriverConfig {
+  endpoint: string;         // e.g. https://s3.us-east-1.amazonaws.com or http://localhost:9000
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean;  // MinIO and most stand-ins need /bucket/key
+}
+
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+function amzTimestamp(now: Date): { amzDate: string; date: string } {
+  const amzDate = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  return { amzDate, date: amzDate.slice(0, 8) };
+}
+
+function s3Url(config: S3DriverConfig, key?: string): URL {
+  const endpoint = new URL(config.endpoint);
+  const objectPath = key === undefined ? '' : `/${key.split('/').map(encodeRfc3986).join('/')}`;
+  if (config.forcePathStyle) {
+    return new URL(`${endpoint.protocol}//${endpoint.host}/${config.bucket}${objectPath}`);
+  }
+  return new URL(`${endpoint.protocol}//${config.bucket}.${endpoint.host}${objectPath || '/'}`);
+}
+
+function canonicalQuery(params: Record<string, string>): string {
+  return Object.keys(params)
+    .sort()
+    .map((name) => `${encodeRfc3986(name)}=${encodeRfc3986(params[name])}`)
+    .join('&');
+}
+
+function signV4(
+  config: S3DriverConfig,
+  now: Date,
+  canonicalRequest: string,
+): { signature: string; scope: string; amzDate: string } {
+  const { amzDate, date } = amzTimestamp(now);
+  const scope = `${date}/${config.region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, date), config.region), 's3'), 'aws4_request');
+  return { signature: createHmac('sha256', signingKey).update(stringToSign).digest('hex'), scope, amzDate };
+}
+
+// Query-string signed GET (shareable, expires)
+export function presignS3Url(config: S3DriverConfig, key: string, expiresInSeconds: number, now: Date = new Date()): string {
+  const url = s3Url(config, key);
+  const { amzDate, date } = amzTimestamp(now);
+  const params: Record<string, string> = {
+    'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+    'X-Amz-Credential': `${config.accessKeyId}/${date}/${config.region}/s3/aws4_request`,
+    'X-Amz-Date': amzDate,
+    'X-Amz-Expires': String(expiresInSeconds),
+    'X-Amz-SignedHeaders': 'host',
+  };
+  const query = canonicalQuery(params);
+  const canonicalRequest = ['GET', url.pathname, query, `host:${url.host}`, '', 'host', UNSIGNED_PAYLOAD].join('\n');
+  const { signature } = signV4(config, now, canonicalRequest);
+  return `${url.origin}${url.pathname}?${query}&X-Amz-Signature=${signature}`;
+}
+
+// Header signed request (driver operations)
+async function s3Request(
+  config: S3DriverConfig,
+  method: 'GET' | 'HEAD' | 'PUT' | 'DELETE',
+  url: URL,
+  query: Record<string, string> = {},
+  body?: Buffer,
+  contentType?: string,
+): Promise<Response> {
+  const payloadHash = sha256Hex(body ?? '');
+  const queryString = canonicalQuery(query);
+  const now = new Date();
+  const { amzDate } = amzTimestamp(now);
+  const signedHeaders = 'host;x-amz-content-sha256;x-amz-date';
+  const canonicalRequest = [
+    method, url.pathname, queryString,
+    `host:${url.host}`, `x-amz-content-sha256:${payloadHash}`, `x-amz-date:${amzDate}`, '',
+    signedHeaders, payloadHash,
+  ].join('\n');
+  const { signature, scope } = signV4(config, now, canonicalRequest);
+
+  return fetch(`${url.origin}${url.pathname}${queryString ? `?${queryString}` : ''}`, {
+    method,
+    headers: {
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      ...(contentType ? { 'content-type': contentType } : {}),
+    },
+    body: body ? new Uint8Array(body) : undefined,
+  });
+}
+
+function xmlValues(xml: string, tag: string): string[] {
+  return [...xml.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'g'))].map((m) => m[1]);
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+export function createS3Driver(config: S3DriverConfig): StorageDriver {
+  return {
+    name: 's3',
+
+    async put(key, body, contentType) {
+      const response = await s3Request(config, 'PUT', s3Url(config, key), {}, body, contentType);
+      if (!response.ok) throw new Error(`S3 upload failed: HTTP ${response.status}`);
+      return key;
+    },
+
+    async get(key) {
+      const response = await s3Request(config, 'GET', s3Url(config, key));
+      if (response.status === 404) return null;
+      if (!response.ok) throw new Error(`S3 read failed: HTTP ${response.status}`);
+      return {
+        body: Buffer.from(await response.arrayBuffer()),
+        contentType: response.headers.get('content-type') || contentTypeFor(key),
+      };
+    },
+
+    async head(key) {
+      const response = await s3Request(config, 'HEAD', s3Url(config, key));
+      if (response.status === 404) return null;
+      if (!response.ok) throw new Error(`S3 head failed: HTTP ${response.status}`);
+      return {
+        key,
+        size: parseInt(response.headers.get('content-length') ?? '0', 10),
+        uploadedAt: new Date(response.headers.get('last-modified') ?? 0),
+      };
+    },
+
+    async delete(key) {
+      const response = await s3Request(config, 'DELETE', s3Url(config, key));
+      if (!response.ok && response.status !== 404) throw new Error(`S3 delete failed: HTTP ${response.status}`);
+    },
+
+    async list(prefix, limit) {
+      const response = await s3Request(config, 'GET', s3Url(config), {
+        'list-type': '2',
+        prefix,
+        'max-keys': String(limit),
+      });
+      if (!response.ok) throw new Error(`S3 list failed: HTTP ${response.status}`);
+      return xmlValues(await response.text(), 'Contents').map((entry) => ({
+        key: decodeXml(xmlValues(entry, 'Key')[0] ?? ''),
+        size: parseInt(xmlValues(entry, 'Size')[0] ?? '0', 10),
+        uploadedAt: new Date(xmlValues(entry, 'LastModified')[0] ?? 0),
+      }));
+    },
+
+    async signedUrl(key, expiresInSeconds) {
+      return presignS3Url(config, key, expiresInSeconds);
+    },
+  };
+}
+
+// --- Driver selection (STORAGE_DRIVER) ---
+
+let _driver: StorageDriver | null = null;
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) throw new Error(`${name} environment variable is not set`);
+  return value;
+}
+
+export function getStorageDriver(): StorageDriver {
+  if (!_driver) {
+    const name = process.env.STORAGE_DRIVER || 'vercel-blob';
+    switch (name) {
+      case 'vercel-blob':
+        _driver = vercelBlobDriver;
+        break;
+      case 'local':
+        _driver = createLocalDriver(process.env.STORAGE_LOCAL_DIR || '.storage');
+        break;
+      case 's3':
+        _driver = createS3Driver({
+          endpoint: process.env.S3_ENDPOINT || `https://s3.${process.env.S3_REGION || 'us-east-1'}.amazonaws.com`,
+          region: process.env.S3_REGION || 'us-east-1',
+          bucket: requireEnv('S3_BUCKET'),
+          accessKeyId: requireEnv('S3_ACCESS_KEY_ID'),
+          secretAccessKey: requireEnv('S3_SECRET_ACCESS_KEY'),
+          forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== 'false',
+        });
+        break;
+      default:
+        throw new Error(`Unknown storage driver: ${name}. Use one of: vercel-blob, local, s3`);
+    }
+  }
+  return _driver;
+}
+
+function urlTtlSeconds(): number {
+  const ttl = parseInt(process.env.STORAGE_URL_TTL_SECONDS || String(DEFAULT_URL_TTL_SECONDS), 10);
+  return Math.min(Math.max(ttl || DEFAULT_URL_TTL_SECONDS, 1), MAX_URL_TTL_SECONDS);
+}
+
+// --- Upload an image ---
+async function storeImage(tenantId: string, taskId: string, body: Buffer, ext: string, contentType: string): Promise<UploadedImage> {
+  if (body.length > MAX_IMAGE_SIZE) {
+    throw new Error(`Image exceeds maximum size of ${process.env.MAX_IMAGE_SIZE_MB || 10}MB`);
+  }
+
+  // Build path with tenant isolation
+  if (!isSafeKeySegment(tenantId) || !isSafeKeySegment(taskId)) {
+    throw new Error(`Invalid storage path segment: ${tenantId}/${taskId}`);
+  }
+  const driver = getStorageDriver();
+  const key = await driver.put(
+    `${tenantId}/${taskId}/${Date.now()}-${randomBytes(6).toString('hex')}.${ext}`,
+    body,
+    contentType
+  );
+
+  const ttl = urlTtlSeconds();
+  return {
+    ref: toStorageRef(key),
+    url: await driver.signedUrl(key, ttl),
+    expiresAt: new Date(Date.now() + ttl * 1000),
+    size: body.length,
+  };
+}
 
-// --- Upload an image to Vercel Blob ---
 export async function uploadImage(
   tenantId: string,
   taskId: string,
   file: File | Blob,
   filename?: string
-): Promise<{ url: string; size: number }> {
-  // Validate file size
+): Promise<UploadedImage> {
+  // Validate file size before reading it
   if (file.size > MAX_IMAGE_SIZE) {
     throw new Error(`Image exceeds maximum size of ${process.env.MAX_IMAGE_SIZE_MB || 10}MB`);
   }
 
-  // Build path with tenant isolation
-  const timestamp = Date.now();
-  const ext = filename?.split('.').pop() || 'jpg';
-  const path = `${tenantId}/${taskId}/${timestamp}.${ext}`;
-
-  const blob = await put(path, file, {
-    access: 'public',
-    addRandomSuffix: true,
-  });
-
-  return {
-    url: blob.url,
-    size: file.size,
-  };
+  const ext = filename?.split('.').pop()?.toLowerCase() || 'jpg';
+  const body = Buffer.from(await file.arrayBuffer());
+  return storeImage(tenantId, taskId, body, ext, file.type || contentTypeFor(`x.${ext}`));
 }
 
 // --- Upload base64 image ---
@@ -39,48 +522,81 @@ export async function uploadBase64Image(
   tenantId: string,
   taskId: string,
   base64Data: string
-): Promise<{ url: string; size: number }> {
+): Promise<UploadedImage> {
   // Remove data URL prefix if present
   const cleanBase64 = base64Data.replace(/^data:image\/\w+;base64,/, '');
-  const buffer = Buffer.from(cleanBase64, 'base64');
+  return storeImage(tenantId, taskId, Buffer.from(cleanBase64, 'base64'), 'jpg', 'image/jpeg');
+}
 
-  if (buffer.length > MAX_IMAGE_SIZE) {
-    throw new Error(`Image exceeds maximum size of ${process.env.MAX_IMAGE_SIZE_MB || 10}MB`);
-  }
+// --- Read a stored image (refs outside the tenant do not exist for it) ---
+export async function readImage(tenantId: string, ref: string): Promise<StoredObject> {
+  const key = storageKeyOf(ref);
+  const object = isTenantKey(tenantId, key) ? await getStorageDriver().get(key) : null;
+  if (!object) throw new Error(`Image not found: ${ref}`);
+  return object;
+}
 
-  const timestamp = Date.now();
-  const path = `${tenantId}/${taskId}/${timestamp}.jpg`;
+// --- Inline stored images for analysis ---
+// Private objects (and local files) are unreachable for the vision
+// providers, so refs are read here and sent as base64. External URLs
+// pass through untouched.
+export async function loadStoredImages(tenantId: string, images: ImageInput[]): Promise<ImageInput[]> {
+  return Promise.all(
+    images.map(async (image) => {
+      if (!isStorageRef(image.url)) return image;
+      const { body } = await readImage(tenantId, image.url);
+      return { ...image, url: undefined, base64: body.toString('base64') };
+    })
+  );
+}
 
-  const blob = await put(path, buffer, {
-    access: 'public',
-    addRandomSuffix: true,
-    contentType: 'image/jpeg',
-  });
+// --- Signed URL for a stored image (other URLs are returned as they are) ---
+export async function signImageUrl<T extends string | null>(url: T): Promise<T | string> {
+  if (!isStorageRef(url)) return url;
+  return getStorageDriver().signedUrl(storageKeyOf(url), urlTtlSeconds());
+}
 
-  return {
-    url: blob.url,
-    size: buffer.length,
-  };
+// --- Sign the image fields of a verification row for an API response ---
+export async function withSignedImages<T extends { imageUrl: string | null; imageUrls: unknown }>(row: T): Promise<T> {
+  const imageUrls = Array.isArray(row.imageUrls)
+    ? await Promise.all(
+        (row.imageUrls as Array<{ url: string; label?: string }>).map(async (image) => ({
+          ...image,
+          url: await signImageUrl(image.url),
+        }))
+      )
+    : row.imageUrls;
+  return { ...row, imageUrl: await signImageUrl(row.imageUrl), imageUrls };
 }
 
-// --- Delete an image ---
-export async function deleteImage(url: string): Promise<void> {
-  await del(url);
+// --- Delete an image, returning the bytes freed ---
+// Also takes the public Blob URLs stored before storage refs existed;
+// any other URL is not ours to delete.
+export async function deleteImage(url: string): Promise<number> {
+  if (isStorageRef(url)) {
+    const driver = getStorageDriver();
+    const key = storageKeyOf(url);
+    const info = await driver.head(key);
+    await driver.delete(key);
+    return info?.size ?? 0;
+  }
+  if (isLegacyBlobUrl(url)) await del(url);
+  return 0;
+}
+
+function isLegacyBlobUrl(url: string): boolean {
+  try {
+    return new URL(url).hostname.endsWith('.public.blob.vercel-storage.com');
+  } catch {
+    return false;
+  }
 }
 
 // --- List images for a tenant ---
 export async function listTenantImages(
   tenantId: string,
   limit: number = 100
-): Promise<Array<{ url: string; size: number; uploadedAt: Date }>> {
-  const result = await list({
-    prefix: `${tenantId}/`,
-    limit,
-  });
-
-  return result.blobs.map((blob) => ({
-    url: blob.url,
-    size: blob.size,
-    uploadedAt: blob.uploadedAt,
-  }));
+): Promise<Array<{ ref: string; size: number; uploadedAt: Date }>> {
+  const objects = await getStorageDriver().list(`${tenantId}/`, limit);
+  return objects.map((object) => ({ ref: toStorageRef(object.key), size: object.size, uploadedAt: object.uploadedAt }));
 }
@@ -0,0 +1,370 @@
+// ============================================
+// Bulk Task Import
+// ============================================
+// Campaign launches create thousands of tasks at once, from a CSV file
+// or a JSON array. Rows are validated one by one (ImportTaskRowSchema),
+// so a bad row is reported instead of failing the import. Valid rows
+// are inserted BATCH_SIZE at a time, each batch's tasks and audit
+// entries in one transaction: a batch is created whole or not at all.
+//
+// Every row has an idempotency key: its own idempotencyKey, else a hash
+// of the task it describes (rowImportKey), prefixed with the request's
+// Idempotency-Key when one was sent. tasks has a unique (tenant_id,
+// idempotency_key) index, so sending a file again, even edited or
+// reordered, reports the tasks it already created and creates only the
+// rows that are new or changed. Identical rows in one file share a key:
+// give them their own idempotencyKey to create both.
+
+import { createHash } from 'crypto';
+import { and, eq, inArray } from 'drizzle-orm';
+import type { ZodError } from 'zod';
+import { getDb, schema } from '@/lib/db';
+import { auditEntry, recordAudit } from './audit';
+import { resolveTemplate } from './templates';
+import {
+  ImportTaskRowSchema,
+  MAX_IMPORT_ROWS,
+  type AuthContext,
+  type ImportTaskRow,
+  type PhotoVerificationConfig,
+  type TemplateReference,
+} from '@/lib/types';
+
+const BATCH_SIZE = 100;
+
+// Spreadsheet headers, compared without case, spaces, "_" or "-"
+const CSV_COLUMNS: Record<string, keyof ImportTaskRow> = {
+  title: 'title',
+  description: 'description',
+  assignedto: 'assignedTo',
+  customerid: 'customerId',
+  duedate: 'dueDate',
+  template: 'template',
+  idempotencykey: 'idempotencyKey',
+};
+const METADATA_PREFIX = 'metadata.';
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// --- One row to import: its position in the source, and its raw content ---
+export interface ImportRow {
+  row: number; // CSV: the line the record starts on (header = 1); JSON: 1-based index
+  data: unknown;
+  error?: string; // Unreadable before validation (e.g. extra CSV fields)
+}
+
+export type ImportRowStatus = 'created' | 'existing' | 'failed';
+
+export interface ImportRowResult {
+  row: number;
+  status: ImportRowStatus;
+  taskId?: string;
+  idempotencyKey?: string;
+  errors?: string[];
+}
+
+export interface ImportReport {
+  importKey: string;
+  total: number;
+  created: number;
+  existing: number;
+  failed: number;
+  rows: ImportRowResult[];
+}
+
+interface PreparedRow {
+  row: number;
+  key: string;
+  values: Omit<schema.Task, 'id' | 'createdAt' | 'updatedAt'>;
+}
+
+// --- Import key when none was sent: names the upload in the report and audit log ---
+export function contentImportKey(content: string): string {
+  return `sha256:${createHash('sha256').update(content).digest('hex').slice(0, 32)}`;
+}
+
+// --- Default row key: the same task always gets the same key, wherever its row is ---
+export function rowImportKey(task: ImportTaskRow, namespace?: string): string {
+  const { idempotencyKey: _key, ...fields } = task;
+  const hash = createHash('sha256').update(stableJson(fields)).digest('hex').slice(0, 32);
+  return `${namespace ?? 'row'}:${hash}`;
+}
+
+// JSON with sorted keys, so field order in the source does not matter
+function stableJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined).sort(([a], [b]) => (a < b ? -1 : 1));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// ============================================
+// Sources
+// ============================================
+
+// --- RFC 4180: quoted fields, "" escapes, CRLF or LF; blank lines skipped ---
+export function parseCsv(text: string): Array<{ line: number; fields: string[] }> {
+  const records: Array<{ line: number; fields: string[] }> = [];
+  const input = text.replace(/^\uFEFF/, ''); // Excel's byte order mark
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.some((f) => f !== '')) records.push({ line: recordLine, fields });
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (char === '\n') line++;
+
+    if (quoted) {
+      if (char !== '"') field += char;
+      else if (input[i + 1] === '"') { field += '"'; i++; }
+      else quoted = false;
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') { i++; line++; }
+      else if (char === '\r') line++;
+      endRecord();
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) throw new Error(`Invalid CSV: unterminated quoted field from line ${recordLine}`);
+  endRecord();
+  return records;
+}
+
+// --- CSV file → rows: a header row, then one task per line ---
+// Columns: title (required), description, assignedTo, customerId, dueDate,
+// template (templateId[@version]), idempotencyKey, metadata.<key>.
+export function csvToRows(text: string): ImportRow[] {
+  const [header, ...records] = parseCsv(text);
+  if (!header) throw new Error('Invalid CSV: the file is empty');
+
+  const columns = header.fields.map((name) => {
+    const trimmed = name.trim();
+    if (trimmed.toLowerCase().startsWith(METADATA_PREFIX)) return { metadata: trimmed.slice(METADATA_PREFIX.length) };
+    const field = CSV_COLUMNS[trimmed.toLowerCase().replace(/[\s_-]/g, '')];
+    if (!field) throw new Error(`Invalid CSV: unknown column "${trimmed}"`);
+    return { field };
+  });
+  if (!columns.some((c) => c.field === 'title')) throw new Error('Invalid CSV: a "title" column is required');
+  if (records.length > MAX_IMPORT_ROWS) throw new Error(`Import is limited to ${MAX_IMPORT_ROWS} rows`);
+
+  return records.map(({ line, fields }) => {
+    if (fields.length > columns.length) {
+      return { row: line, data: null, error: `${fields.length} fields for ${columns.length} columns` };
+    }
+
+    const data: Record<string, unknown> = {};
+    const metadata: Record<string, string> = {};
+    columns.forEach((column, i) => {
+      const value = fields[i]?.trim();
+      if (!value) return;
+      if (column.metadata !== undefined) metadata[column.metadata] = value;
+      else if (column.field === 'template') data.template = { ref: value };
+      else if (column.field === 'dueDate' && DATE_ONLY_PATTERN.test(value)) data.dueDate = `${value}T23:59:59Z`; // Due by the end of that day (UTC)
+      else data[column.field] = value;
+    });
+    if (Object.keys(metadata).length > 0) data.metadata = metadata;
+
+    return { row: line, data };
+  });
+}
+
+export function jsonToRows(tasks: unknown[]): ImportRow[] {
+  return tasks.map((data, i) => ({ row: i + 1, data }));
+}
+
+// ============================================
+// Import
+// ============================================
+
+function issues(error: ZodError): string[] {
+  return error.issues.map((issue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+}
+
+function withDefaultTemplate(data: unknown, template: TemplateReference | undefined): unknown {
+  if (!template || !data || typeof data !== 'object' || Array.isArray(data)) return data;
+  const row = data as Record<string, unknown>;
+  return row.template || row.photoVerificationConfig ? row : { ...row, template };
+}
+
+// --- Validate, resolve templates, then insert batch by batch ---
+// importKey names the import; namespace (an Idempotency-Key sent by the
+// caller) prefixes the default row keys
+export async function importTasks(
+  auth: AuthContext,
+  rows: ImportRow[],
+  options: { importKey: string; namespace?: string; template?: TemplateReference },
+): Promise<ImportReport> {
+  if (rows.length > MAX_IMPORT_ROWS) throw new Error(`Import is limited to ${MAX_IMPORT_ROWS} rows`);
+
+  const results: ImportRowResult[] = [];
+  const prepared: PreparedRow[] = [];
+  const seen = new Map<string, number>();
+  // Rows sharing a plain reference resolve it once
+  const templates = new Map<string, ReturnType<typeof resolveTemplate>>();
+
+  for (const { row, data, error } of rows) {
+    if (error) {
+      results.push({ row, status: 'failed', errors: [error] });
+      continue;
+    }
+
+    // 1. Validate
+    const parsed = ImportTaskRowSchema.safeParse(withDefaultTemplate(data, options.template));
+    if (!parsed.success) {
+      results.push({ row, status: 'failed', errors: issues(parsed.error) });
+      continue;
+    }
+    const task = parsed.data;
+
+    const key = task.idempotencyKey ?? rowImportKey(task, options.namespace);
+    const first = seen.get(key);
+    if (first !== undefined) {
+      results.push({ row, status: 'failed', idempotencyKey: key, errors: [`Same idempotencyKey as row ${first}`] });
+      continue;
+    }
+    seen.set(key, row);
+
+    // 2. Resolve (and pin) the template version
+    let template: { templateId: string; version: number; config: PhotoVerificationConfig } | null = null;
+    if (task.template) {
+      const cacheKey = task.template.overrides ? null : task.template.ref;
+      const pending = (cacheKey && templates.get(cacheKey)) || resolveTemplate(auth, task.template);
+      if (cacheKey) templates.set(cacheKey, pending);
+      try {
+        template = await pending;
+      } catch (err) {
+        results.push({ row, status: 'failed', idempotencyKey: key, errors: [err instanceof Error ? err.message : 'Template could not be resolved'] });
+        continue;
+      }
+    }
+
+    prepared.push({
+      row,
+      key,
+      // Every column, so the audit entry shows the task exactly as written
+      values: {
+        tenantId: auth.tenantId,
+        title: task.title,
+        description: task.description ?? null,
+        type: 'photo_verify',
+        status: 'pending',
+        photoVerificationConfig: template?.config ?? task.photoVerificationConfig!,
+        templateId: template?.templateId ?? null,
+        templateVersion: template?.version ?? null,
+        configOverrides: task.template?.overrides ?? null,
+        assignedTo: task.assignedTo ?? null,
+        customerId: task.customerId ?? null,
+        dueDate: task.dueDate ? new Date(task.dueDate) : null,
+        metadata: task.metadata || {},
+        idempotencyKey: key,
+      },
+    });
+  }
+
+  // 3. Insert
+  for (let i = 0; i < prepared.length; i += BATCH_SIZE) {
+    results.push(...await insertBatch(auth, options.importKey, prepared.slice(i, i + BATCH_SIZE)));
+  }
+
+  results.sort((a, b) => a.row - b.row);
+  const report: ImportReport = {
+    importKey: options.importKey,
+    total: rows.length,
+    created: results.filter((r) => r.status === 'created').length,
+    existing: results.filter((r) => r.status === 'existing').length,
+    failed: results.filter((r) => r.status === 'failed').length,
+    rows: results,
+  };
+
+  if (report.created > 0) {
+    await recordAudit({
+      tenantId: auth.tenantId,
+      action: 'tasks_imported',
+      entityType: 'task_import',
+      entityId: options.importKey,
+      userId: auth.userId,
+      details: { total: report.total, created: report.created, existing: report.existing, failed: report.failed },
+    });
+  }
+
+  return report;
+}
+
+// --- One batch: skip keys already imported, insert the rest with their audit entries ---
+// Ids are chosen here so both inserts run in one transaction. A key
+// imported meanwhile by a concurrent request fails the whole batch; the
+// retry then finds it and reports it as existing. A batch that still
+// fails is reported row by row, and importing again retries it.
+async function insertBatch(
+  auth: AuthContext,
+  importKey: string,
+  batch: PreparedRow[],
+  retried = false,
+): Promise<ImportRowResult[]> {
+  const t = schema.tasks;
+
+  try {
+    const db = getDb();
+    const existing = new Map((await db
+      .select({ id: t.id, key: t.idempotencyKey })
+      .from(t)
+      .where(and(eq(t.tenantId, auth.tenantId), inArray(t.idempotencyKey, batch.map((r) => r.key))))
+    ).map((r) => [r.key!, r.id]));
+
+    const now = new Date();
+    const fresh = batch
+      .filter((r) => !existing.has(r.key))
+      .map((r) => ({ ...r, task: { ...r.values, id: crypto.randomUUID(), createdAt: now, updatedAt: now } satisfies schema.Task }));
+
+    if (fresh.length > 0) {
+      await db.batch([
+        db.insert(t).values(fresh.map((r) => r.task)),
+        db.insert(schema.auditLog).values(fresh.map((r) => auditEntry({
+          tenantId: auth.tenantId,
+          action: 'task_created',
+          entityType: 'task',
+          entityId: r.task.id,
+          userId: auth.userId,
+          after: r.task,
+          details: { title: r.task.title, importKey, row: r.row },
+        }))),
+      ]);
+    }
+
+    const created = new Map(fresh.map((r) => [r.key, r.task.id]));
+    return batch.map((r) => {
+      const taskId = created.get(r.key);
+      return taskId
+        ? { row: r.row, status: 'created' as const, taskId, idempotencyKey: r.key }
+        : { row: r.row, status: 'existing' as const, taskId: existing.get(r.key), idempotencyKey: r.key };
+    });
+  } catch (error) {
+    if (!retried) return insertBatch(auth, importKey, batch, true);
+
+    console.error(`[tasks:import] Batch of ${batch.length} rows failed for tenant ${auth.tenantId}:`, error);
+    return batch.map((r) => ({
+      row: r.row,
+      status: 'failed' as const,
+      idempotencyKey: r.key,
+      errors: ['Batch could not be created; importing again retries it'],
+    }));
+  }
+}
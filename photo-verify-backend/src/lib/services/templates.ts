@@ -0,0 +1,297 @@
+// ============================================
+// Verification Template Library
+// ============================================
+// Tenant-scoped, reusable PhotoVerificationConfigs. Every edit of
+// the config creates a new immutable version; tasks and external
+// requests reference `templateId@version` and may override fields.
+// The resolved config carries `template: { id, version }`, so the
+// configUsed stored on each verification stays reproducible.
+
+import { eq, and, desc, isNull, sql } from 'drizzle-orm';
+import { getDb, schema } from '@/lib/db';
+import { recordAudit } from './audit';
+import {
+  PhotoVerificationConfigSchema,
+  TEMPLATE_REF_PATTERN,
+  type AuthContext,
+  type ConfigOverrides,
+  type CreateTemplateInput,
+  type CreateTemplateVersionInput,
+  type PhotoVerificationConfig,
+  type TemplateReference,
+  type UpdateTemplateInput,
+  type VerificationCriterion,
+} from '@/lib/types';
+
+// --- Parse `templateId` / `templateId@version` ---
+export function parseTemplateRef(ref: string): { templateId: string; version?: number } {
+  const match = TEMPLATE_REF_PATTERN.exec(ref);
+  if (!match) throw new Error(`Invalid template reference: ${ref}`);
+  return { templateId: match[1].toLowerCase(), version: match[2] ? parseInt(match[2], 10) : undefined };
+}
+
+// --- Merge overrides into a template config ---
+// Top-level fields replace; criteria merge by id, unknown ids are appended.
+export function applyConfigOverrides(
+  config: PhotoVerificationConfig,
+  overrides: ConfigOverrides | undefined,
+): PhotoVerificationConfig {
+  if (!overrides) return config;
+
+  const { criteria: criteriaPatches, ...fields } = overrides;
+  const criteria: Array<Partial<VerificationCriterion>> = config.criteria.map((c) => ({ ...c }));
+
+  for (const patch of criteriaPatches ?? []) {
+    const existing = criteria.find((c) => c.id === patch.id);
+    if (existing) Object.assign(existing, patch);
+    else criteria.push(patch);
+  }
+
+  const defined = Object.fromEntries(Object.entries(fields).filter(([, v]) => v !== undefined));
+  // Re-validate: appended criteria must be complete
+  const merged = PhotoVerificationConfigSchema.safeParse({ ...config, ...defined, criteria });
+  if (!merged.success) {
+    const issue = merged.error.issues[0];
+    throw new Error(`Invalid template overrides: ${issue.path.join('.')} ${issue.message}`);
+  }
+  return merged.data;
+}
+
+// --- Listing / lookup ---
+
+export async function listTemplates(auth: AuthContext, includeArchived: boolean = false) {
+  const db = getDb();
+  const conditions = [eq(schema.verificationTemplates.tenantId, auth.tenantId)];
+  if (!includeArchived) conditions.push(isNull(schema.verificationTemplates.archivedAt));
+
+  return db
+    .select()
+    .from(schema.verificationTemplates)
+    .where(and(...conditions))
+    .orderBy(schema.verificationTemplates.name);
+}
+
+export async function getTemplate(auth: AuthContext, templateId: string) {
+  const db = getDb();
+  const [template] = await db
+    .select()
+    .from(schema.verificationTemplates)
+    .where(and(eq(schema.verificationTemplates.id, templateId), eq(schema.verificationTemplates.tenantId, auth.tenantId)))
+    .limit(1);
+
+  return template ?? null;
+}
+
+export async function listTemplateVersions(auth: AuthContext, templateId: string) {
+  const db = getDb();
+  return db
+    .select()
+    .from(schema.verificationTemplateVersions)
+    .where(
+      and(
+        eq(schema.verificationTemplateVersions.templateId, templateId),
+        eq(schema.verificationTemplateVersions.tenantId, auth.tenantId)
+      )
+    )
+    .orderBy(desc(schema.verificationTemplateVersions.version));
+}
+
+// No version = latest
+export async function getTemplateVersion(auth: AuthContext, templateId: string, version?: number) {
+  const db = getDb();
+  const conditions = [
+    eq(schema.verificationTemplateVersions.templateId, templateId),
+    eq(schema.verificationTemplateVersions.tenantId, auth.tenantId),
+  ];
+  if (version !== undefined) conditions.push(eq(schema.verificationTemplateVersions.version, version));
+
+  const [row] = await db
+    .select()
+    .from(schema.verificationTemplateVersions)
+    .where(and(...conditions))
+    .orderBy(desc(schema.verificationTemplateVersions.version))
+    .limit(1);
+
+  return row ?? null;
+}
+
+// --- Create a template with its first version ---
+export async function createTemplate(auth: AuthContext, input: CreateTemplateInput) {
+  const db = getDb();
+
+  const [template] = await db.insert(schema.verificationTemplates).values({
+    tenantId: auth.tenantId,
+    name: input.name,
+    description: input.description,
+    latestVersion: 1,
+    createdBy: auth.userId,
+  }).returning();
+
+  const [version] = await db.insert(schema.verificationTemplateVersions).values({
+    templateId: template.id,
+    tenantId: auth.tenantId,
+    version: 1,
+    config: input.config,
+    notes: input.notes,
+    createdBy: auth.userId,
+  }).returning();
+
+  await db.insert(schema.auditLog).values({
+    tenantId: auth.tenantId,
+    action: 'template_created',
+    entityType: 'verification_template',
+    entityId: template.id,
+    userId: auth.userId,
+    details: { name: input.name, version: 1 },
+  });
+
+  return { ...template, currentVersion: version };
+}
+
+// --- Publish a new immutable version ---
+// The version number is claimed with an atomic increment, so two
+// concurrent edits get distinct versions instead of colliding.
+export async function createTemplateVersion(
+  auth: AuthContext,
+  templateId: string,
+  input: CreateTemplateVersionInput,
+) {
+  const db = getDb();
+
+  const [bumped] = await db.update(schema.verificationTemplates)
+    .set({ latestVersion: sql`${schema.verificationTemplates.latestVersion} + 1`, updatedAt: new Date() })
+    .where(
+      and(
+        eq(schema.verificationTemplates.id, templateId),
+        eq(schema.verificationTemplates.tenantId, auth.tenantId),
+        isNull(schema.verificationTemplates.archivedAt)
+      )
+    )
+    .returning({ latestVersion: schema.verificationTemplates.latestVersion });
+
+  if (!bumped) return null;
+
+  const [version] = await db.insert(schema.verificationTemplateVersions).values({
+    templateId,
+    tenantId: auth.tenantId,
+    version: bumped.latestVersion,
+    config: input.config,
+    notes: input.notes,
+    createdBy: auth.userId,
+  }).returning();
+
+  // The diff is against the version it supersedes
+  const previous = await getTemplateVersion(auth, templateId, version.version - 1);
+  await recordAudit({
+    tenantId: auth.tenantId,
+    action: 'template_version_created',
+    entityType: 'verification_template',
+    entityId: templateId,
+    userId: auth.userId,
+    before: previous ? { version: previous.version, config: previous.config } : null,
+    after: { version: version.version, config: version.config },
+    details: { version: version.version, notes: input.notes },
+  });
+
+  return version;
+}
+
+// --- Rename / describe (the config itself only changes via new versions) ---
+export async function updateTemplate(auth: AuthContext, templateId: string, input: UpdateTemplateInput) {
+  const db = getDb();
+  const updateData: Record<string, unknown> = { updatedAt: new Date() };
+  if (input.name) updateData.name = input.name;
+  if (input.description !== undefined) updateData.description = input.description;
+
+  const where = and(eq(schema.verificationTemplates.id, templateId), eq(schema.verificationTemplates.tenantId, auth.tenantId));
+  const [previous] = await db.select().from(schema.verificationTemplates).where(where).limit(1);
+  if (!previous) return null;
+
+  const [updated] = await db.update(schema.verificationTemplates)
+    .set(updateData)
+    .where(where)
+    .returning();
+
+  if (updated) {
+    await recordAudit({
+      tenantId: auth.tenantId,
+      action: 'template_updated',
+      entityType: 'verification_template',
+      entityId: templateId,
+      userId: auth.userId,
+      before: previous,
+      after: updated,
+    });
+  }
+
+  return updated ?? null;
+}
+
+// --- Archive: hidden from listings and closed to new references ---
+// Tasks already pinned to one of its versions keep verifying.
+export async function archiveTemplate(auth: AuthContext, templateId: string) {
+  const db = getDb();
+  const now = new Date();
+
+  const [archived] = await db.update(schema.verificationTemplates)
+    .set({ archivedAt: now, updatedAt: now })
+    .where(
+      and(
+        eq(schema.verificationTemplates.id, templateId),
+        eq(schema.verificationTemplates.tenantId, auth.tenantId),
+        isNull(schema.verificationTemplates.archivedAt)
+      )
+    )
+    .returning();
+
+  if (archived) {
+    await recordAudit({
+      tenantId: auth.tenantId,
+      action: 'template_archived',
+      entityType: 'verification_template',
+      entityId: templateId,
+      userId: auth.userId,
+      before: { archivedAt: null },
+      after: { archivedAt: now },
+    });
+  }
+
+  return archived ?? null;
+}
+
+// --- Resolve a reference to a concrete, pinned config ---
+// Throws "Template not found" / "Template ... is archived" for the routes to map.
+export async function resolveTemplate(
+  auth: AuthContext,
+  reference: TemplateReference,
+): Promise<{ templateId: string; version: number; config: PhotoVerificationConfig }> {
+  const { templateId, version } = parseTemplateRef(reference.ref);
+
+  const template = await getTemplate(auth, templateId);
+  if (!template) {
+    throw new Error(`Template not found: ${templateId}`);
+  }
+  // Pinned references outlive archiving; new "latest" references do not
+  if (template.archivedAt && version === undefined) {
+    throw new Error(`Template ${templateId} is archived; reference a specific version`);
+  }
+
+  const row = await getTemplateVersion(auth, templateId, version);
+  if (!row) {
+    throw new Error(`Template version not found: ${templateId}@${version}`);
+  }
+
+  const config = applyConfigOverrides(
+    PhotoVerificationConfigSchema.parse(row.config),
+    reference.overrides
+  );
+
+  return {
+    templateId,
+    version: row.version,
+    config: {
+      ...config,
+      template: { id: templateId, version: row.version, name: template.name, overridden: Boolean(reference.overrides) },
+    },
+  };
+}
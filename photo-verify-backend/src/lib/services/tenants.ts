@@ -0,0 +1,30 @@
+// ============================================
+// Tenant Config Access
+// ============================================
+// tenants.config is free-form jsonb validated on create
+// (CreateTenantSchema); readers get it as Partial<TenantConfig>
+// and apply their own defaults.
+
+import { eq, sql } from 'drizzle-orm';
+import { getDb, schema } from '@/lib/db';
+import type { TenantConfig } from '@/lib/types';
+
+export async function getTenantConfig(tenantId: string): Promise<Partial<TenantConfig>> {
+  const db = getDb();
+  const [tenant] = await db
+    .select({ config: schema.tenants.config })
+    .from(schema.tenants)
+    .where(eq(schema.tenants.id, tenantId))
+    .limit(1);
+
+  return (tenant?.config ?? {}) as Partial<TenantConfig>;
+}
+
+// --- Merge a partial update into the stored config (top-level keys, in one statement) ---
+export async function updateTenantConfig(tenantId: string, patch: Partial<TenantConfig>): Promise<void> {
+  const db = getDb();
+  const t = schema.tenants;
+  await db.update(t)
+    .set({ config: sql`${t.config} || ${JSON.stringify(patch)}::jsonb`, updatedAt: new Date() })
+    .where(eq(t.id, tenantId));
+}
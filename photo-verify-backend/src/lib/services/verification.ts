@@ -3,35 +3,85 @@
 // ============================================
 // Coordinates the full verification flow:
 // 1. Validate input
-// 2. Call Vision API
+// 2. Check the monthly budget, call Vision API (provider fallback chain + circuit breaker)
 // 3. Evaluate criteria
-// 4. Store results + token usage + cost
-// 5. Update task status
+// 4. Check for recycled photos (perceptual hash) and capture time / location
+// 5. Store results + token usage + cost
+// 6. Update task status / queue for manual review
 
 import { eq, and } from 'drizzle-orm';
 import { getDb, schema } from '@/lib/db';
-import { analyzeImage, estimateCostUsd, type VisionAnalysisResult, type VisionAnalysisWithUsage, type TokenUsage } from './vision';
-import type {
-  AuthContext,
-  PhotoVerificationConfig,
-  CriterionResult,
-  VerificationResult,
-  VerificationCriterion,
-  AIProvider,
+import { evaluateCriterion } from './criteria';
+import { criterionCredit, getScoringPolicy, meetsPassScore, scoreCriteria } from './scoring';
+import { findDuplicate, getDuplicatePolicy, hashImages } from './duplicates';
+import { checkEvidenceIntegrity, getIntegrityPolicy } from './integrity';
+import { determineReviewReason, enqueueReview } from './reviews';
+import { emitWebhookEvent } from './webhooks';
+import { analyzeWithFallback, createCircuitBreaker, getFallbackPolicy } from './fallback';
+import { loadStoredImages } from './storage';
+import { enforceBudget, recordBudgetSpend } from './budget';
+import { loadPriceBook } from './pricing';
+import type { ImageInput, VisionAnalysisResult } from './vision';
+import {
+  MAX_IMAGES_PER_VERIFICATION,
+  GeoPointSchema,
+  type AuthContext,
+  type BudgetStatus,
+  type PhotoVerificationConfig,
+  type CriterionResult,
+  type VerificationResult,
+  type VerificationCriterion,
+  type DuplicateMatch,
+  type GeoPoint,
+  type IntegrityReport,
+  type PolicyAction,
+  type VerificationStage,
+  type VisionAttempt,
 } from '@/lib/types';
 
+// --- Where the photos were supposed to be taken ---
+export interface VerificationContext {
+  customerId?: string;        // Point of sale (internal mode uses the task's)
+  customerLocation?: GeoPoint; // Internal mode falls back to task metadata.customerLocation
+  onProgress?: (stage: VerificationStage) => Promise<void>; // Async jobs record it for polling / SSE
+  budget?: BudgetStatus;       // Already enforced by the caller; checked here otherwise
+}
+
 // --- Extended result with billing data ---
 interface VerificationResultInternal extends VerificationResult {
   retryCount?: number;
+  attempts?: VisionAttempt[];
   inputTokens?: number;
   outputTokens?: number;
   estimatedCostUsd?: number;
 }
 
+// --- Stored reference for an image (base64 is truncated, never persisted whole) ---
+function describeImage(image: ImageInput): { url: string; label?: string } {
+  const url = image.url || `base64:${(image.base64 || '').slice(0, 50)}...`;
+  return image.label ? { url, label: image.label } : { url };
+}
+
+// --- Which image supported a verdict ---
+// A criterion scoped to one image always points at it; otherwise trust the
+// model's attribution when it is in range. A single image is always image 0.
+function resolveImageIndex(
+  criterion: VerificationCriterion,
+  reported: number | null | undefined,
+  imageCount: number,
+): number | undefined {
+  if (criterion.imageIndex !== undefined) return criterion.imageIndex;
+  if (typeof reported === 'number' && Number.isInteger(reported) && reported >= 0 && reported < imageCount) {
+    return reported;
+  }
+  return imageCount === 1 ? 0 : undefined;
+}
+
 // --- Evaluate criteria results against config ---
 function evaluateCriteria(
   analysisResults: VisionAnalysisResult,
-  config: PhotoVerificationConfig
+  config: PhotoVerificationConfig,
+  imageCount: number,
 ): CriterionResult[] {
   return config.criteria.map((criterion: VerificationCriterion) => {
     const result = analysisResults.criteria_results.find(
@@ -46,24 +96,18 @@ function evaluateCriteria(
         value: 'NOT_EVALUATED',
         confidence: 0,
         reasoning: 'Criterion was not evaluated by the model',
+        imageIndex: criterion.imageIndex,
+        credit: 0,
       };
     }
 
     // Determine if criterion passes based on type
-    let passed = result.passed;
+    const verdict = evaluateCriterion(criterion, result);
+    let passed = verdict.passed;
 
-    if (criterion.type === 'count' && (criterion.min !== undefined || criterion.max !== undefined)) {
-      const count = typeof result.value === 'number' ? result.value : parseInt(String(result.value), 10);
-      if (criterion.min !== undefined && count < criterion.min) passed = false;
-      if (criterion.max !== undefined && count > criterion.max) passed = false;
-    }
-
-    if (criterion.type === 'boolean' && criterion.expectedValue !== undefined) {
-      passed = result.value === criterion.expectedValue;
-    }
-
-    // Apply confidence threshold
-    if (result.confidence < config.confidenceThreshold) {
+    // Apply confidence threshold (an unsure answer earns no partial credit either)
+    const confident = result.confidence >= config.confidenceThreshold;
+    if (!confident) {
       passed = false;
     }
 
@@ -71,19 +115,125 @@ function evaluateCriteria(
       criterionId: criterion.id,
       label: criterion.label,
       passed,
-      value: result.value,
+      value: verdict.value,
       confidence: result.confidence,
       reasoning: result.reasoning,
+      imageIndex: resolveImageIndex(criterion, result.image_index, imageCount),
+      ...(verdict.detections?.length ? { detections: verdict.detections } : {}),
+      credit: criterionCredit(criterion, passed, confident ? verdict.progress : undefined),
     };
   });
 }
 
+// --- Hash the images and look for an earlier verification that used them ---
+async function detectDuplicate(
+  images: ImageInput[],
+  auth: AuthContext,
+  context: { taskId?: string; externalTaskId?: string; customerId?: string | null },
+): Promise<{ hashes: Array<string | null>; duplicate: DuplicateMatch | null }> {
+  const policy = await getDuplicatePolicy(auth.tenantId);
+  if (!policy.enabled) return { hashes: [], duplicate: null };
+
+  const hashes = await hashImages(images);
+  const duplicate = await findDuplicate(auth.tenantId, hashes, policy, context);
+  return { hashes, duplicate };
+}
+
+// --- Check capture time / location against the tenant's limits ---
+async function checkIntegrity(
+  images: ImageInput[],
+  auth: AuthContext,
+  customerLocation: GeoPoint | undefined,
+): Promise<IntegrityReport | null> {
+  const policy = await getIntegrityPolicy(auth.tenantId);
+  return checkEvidenceIntegrity(images, customerLocation, policy);
+}
+
+// --- Actions of the tenant policies that tripped on this verification ---
+function trippedPolicyActions(result: VerificationResult): PolicyAction[] {
+  const actions: PolicyAction[] = [];
+  if (result.duplicateOf) actions.push(result.duplicateOf.action);
+  if (result.integrity?.issues.length) actions.push(result.integrity.action);
+  return actions;
+}
+
+// --- Apply duplicate / integrity policies to the model's verdict ---
+function applyEvidencePolicies(
+  result: VerificationResultInternal,
+  duplicate: DuplicateMatch | null,
+  integrity: IntegrityReport | null,
+): void {
+  if (duplicate) result.duplicateOf = duplicate;
+  if (integrity) result.integrity = integrity;
+  if (trippedPolicyActions(result).some((action) => action !== 'flag')) result.passed = false;
+}
+
+// --- Whether a failed verification goes to the manual review queue ---
+// A tripped policy with action 'fail' never does, one with 'manual_review' always does.
+function shouldQueueForReview(result: VerificationResult, config: PhotoVerificationConfig): boolean {
+  if (result.passed) return false;
+  const actions = trippedPolicyActions(result);
+  if (actions.includes('fail')) return false;
+  if (actions.includes('manual_review')) return true;
+  return config.fallbackToManual;
+}
+
+// --- Notify webhooks of a verification outcome ---
+// No verdict at all (every model attempt failed) is reported as verification.failed
+async function notifyVerification(
+  auth: AuthContext,
+  verificationId: string,
+  result: VerificationResult,
+  ref: { taskId?: string; externalTaskId?: string },
+): Promise<void> {
+  await emitWebhookEvent(
+    auth.tenantId,
+    result.criteriaResults.length === 0 ? 'verification.failed' : 'verification.completed',
+    {
+      verificationId,
+      ...ref,
+      mode: 'ai',
+      passed: result.passed,
+      overallConfidence: result.overallConfidence,
+      score: result.score,
+      criteriaResults: result.criteriaResults,
+      modelUsed: result.modelUsed,
+      processedAt: result.processedAt,
+      reviewId: result.reviewId,
+      duplicateOf: result.duplicateOf,
+      integrity: result.integrity,
+      ...(result.criteriaResults.length === 0 ? { error: result.rawModelResponse } : {}),
+    }
+  );
+}
+
+// --- Run the verification, reporting hard failures to webhooks ---
+async function runVerificationNotifying(
+  images: ImageInput[],
+  config: PhotoVerificationConfig,
+  auth: AuthContext,
+  startTime: number,
+  ref: { taskId?: string; externalTaskId?: string },
+  budget?: BudgetStatus,
+): Promise<VerificationResultInternal> {
+  try {
+    return await runVerification(images, config, auth, startTime, budget);
+  } catch (error) {
+    await emitWebhookEvent(auth.tenantId, 'verification.failed', {
+      ...ref,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
 // --- Main verification function (Internal mode: task in our DB) ---
 export async function verifyPhoto(
   taskId: string,
-  imageInput: { url?: string; base64?: string },
+  images: ImageInput[],
   auth: AuthContext,
-  configOverride?: PhotoVerificationConfig
+  configOverride?: PhotoVerificationConfig,
+  context: VerificationContext = {},
 ): Promise<VerificationResult> {
   const db = getDb();
   const startTime = Date.now();
@@ -111,18 +261,37 @@ export async function verifyPhoto(
   // 2. Get verification config (override or from task)
   const config = configOverride || (task.photoVerificationConfig as PhotoVerificationConfig);
 
-  // 3. Run core verification logic
-  const result = await runVerification(imageInput, config, auth, startTime);
+  const taskLocation = GeoPointSchema.safeParse((task.metadata as Record<string, unknown> | null)?.customerLocation);
+  const customerLocation = context.customerLocation ?? (taskLocation.success ? taskLocation.data : undefined);
+
+  // 3. Run core verification logic, checking the evidence meanwhile
+  await context.onProgress?.('analyzing');
+  const readable = await loadStoredImages(auth.tenantId, images);
+  const [result, { hashes, duplicate }, integrity] = await Promise.all([
+    runVerificationNotifying(readable, config, auth, startTime, { taskId }, context.budget),
+    detectDuplicate(readable, auth, { taskId, customerId: task.customerId }),
+    checkIntegrity(readable, auth, customerLocation),
+  ]);
+  applyEvidencePolicies(result, duplicate, integrity);
 
   // 4. Store result linked to internal task
-  const imageUrl = imageInput.url || `base64:${(imageInput.base64 || '').slice(0, 50)}...`;
+  await context.onProgress?.('saving');
+  const imageRefs = images.map(describeImage);
 
-  await db.insert(schema.verifications).values({
+  const [stored] = await db.insert(schema.verifications).values({
     taskId,
     tenantId: auth.tenantId,
-    imageUrl,
+    customerId: task.customerId,
+    submittedBy: auth.userId ?? null,
+    imageUrl: imageRefs[0].url,
+    imageUrls: imageRefs,
+    imageHashes: hashes,
+    duplicateOf: duplicate?.verificationId ?? null,
+    evidence: images.map((image) => image.evidence ?? null),
+    integrity,
     passed: result.passed,
     overallConfidence: result.overallConfidence,
+    score: result.score ?? null,
     criteriaResults: result.criteriaResults,
     configUsed: config,
     modelUsed: result.modelUsed,
@@ -132,14 +301,26 @@ export async function verifyPhoto(
     estimatedCostUsd: result.estimatedCostUsd ?? null,
     rawModelResponse: result.rawModelResponse,
     retryCount: result.retryCount || 0,
-  });
+    attempts: result.attempts ?? [],
+  }).returning({ id: schema.verifications.id });
+  result.verificationId = stored.id;
 
   // 5. Update internal task status
-  const newStatus = result.passed ? 'completed' : (config.fallbackToManual ? 'manual_review' : 'failed');
+  const newStatus = result.passed ? 'completed' : (shouldQueueForReview(result, config) ? 'manual_review' : 'failed');
   await db.update(schema.tasks)
     .set({ status: newStatus, updatedAt: new Date() })
     .where(eq(schema.tasks.id, taskId));
 
+  if (newStatus === 'manual_review') {
+    const review = await enqueueReview({
+      tenantId: auth.tenantId,
+      verificationId: stored.id,
+      taskId,
+      reason: determineReviewReason(result, config),
+    });
+    result.reviewId = review.id;
+  }
+
   // 6. Audit log
   await db.insert(schema.auditLog).values({
     tenantId: auth.tenantId,
@@ -149,42 +330,76 @@ export async function verifyPhoto(
     userId: auth.userId,
     details: {
       mode: 'internal',
+      imageCount: images.length,
       passed: result.passed,
       confidence: result.overallConfidence,
+      score: result.score,
       modelUsed: result.modelUsed,
       processingTimeMs: result.processingTimeMs,
       inputTokens: result.inputTokens,
       outputTokens: result.outputTokens,
       estimatedCostUsd: result.estimatedCostUsd,
       retryCount: result.retryCount,
+      reviewId: result.reviewId,
+      duplicateOf: result.duplicateOf?.verificationId,
+      integrityIssues: result.integrity?.issues.map((issue) => issue.code),
     },
   });
 
+  // 7. Webhooks
+  await notifyVerification(auth, stored.id, result, { taskId });
+  if (newStatus !== task.status) {
+    await emitWebhookEvent(auth.tenantId, 'task.status_changed', {
+      taskId,
+      previousStatus: task.status,
+      status: newStatus,
+      verificationId: stored.id,
+    });
+  }
+
   return result;
 }
 
 // --- External/Hybrid verification (task lives in Retool/external API) ---
 export async function verifyPhotoExternal(
   externalTaskId: string,
-  imageInput: { url?: string; base64?: string },
+  images: ImageInput[],
   config: PhotoVerificationConfig,
   auth: AuthContext,
+  context: VerificationContext = {},
 ): Promise<VerificationResult> {
   const db = getDb();
   const startTime = Date.now();
-
-  // 1. Run core verification logic
-  const result = await runVerification(imageInput, config, auth, startTime);
+  const { customerId, customerLocation } = context;
+
+  // 1. Run core verification logic, checking the evidence meanwhile
+  await context.onProgress?.('analyzing');
+  const readable = await loadStoredImages(auth.tenantId, images);
+  const [result, { hashes, duplicate }, integrity] = await Promise.all([
+    runVerificationNotifying(readable, config, auth, startTime, { externalTaskId }, context.budget),
+    detectDuplicate(readable, auth, { externalTaskId, customerId }),
+    checkIntegrity(readable, auth, customerLocation),
+  ]);
+  applyEvidencePolicies(result, duplicate, integrity);
 
   // 2. Store result linked to external task ID
-  const imageUrl = imageInput.url || `base64:${(imageInput.base64 || '').slice(0, 50)}...`;
+  await context.onProgress?.('saving');
+  const imageRefs = images.map(describeImage);
 
-  await db.insert(schema.verifications).values({
+  const [stored] = await db.insert(schema.verifications).values({
     externalTaskId,
     tenantId: auth.tenantId,
-    imageUrl,
+    customerId: customerId ?? null,
+    submittedBy: auth.userId ?? null,
+    imageUrl: imageRefs[0].url,
+    imageUrls: imageRefs,
+    imageHashes: hashes,
+    duplicateOf: duplicate?.verificationId ?? null,
+    evidence: images.map((image) => image.evidence ?? null),
+    integrity,
     passed: result.passed,
     overallConfidence: result.overallConfidence,
+    score: result.score ?? null,
     criteriaResults: result.criteriaResults,
     configUsed: config,
     modelUsed: result.modelUsed,
@@ -194,9 +409,22 @@ export async function verifyPhotoExternal(
     estimatedCostUsd: result.estimatedCostUsd ?? null,
     rawModelResponse: result.rawModelResponse,
     retryCount: result.retryCount || 0,
-  });
+    attempts: result.attempts ?? [],
+  }).returning({ id: schema.verifications.id });
+  result.verificationId = stored.id;
+
+  // 3. Queue for manual review (the external system decides what to do meanwhile)
+  if (shouldQueueForReview(result, config)) {
+    const review = await enqueueReview({
+      tenantId: auth.tenantId,
+      verificationId: stored.id,
+      externalTaskId,
+      reason: determineReviewReason(result, config),
+    });
+    result.reviewId = review.id;
+  }
 
-  // 3. Audit log
+  // 4. Audit log
   await db.insert(schema.auditLog).values({
     tenantId: auth.tenantId,
     action: 'photo_verified',
@@ -206,61 +434,70 @@ export async function verifyPhotoExternal(
     details: {
       mode: 'external',
       externalTaskId,
+      imageCount: images.length,
       passed: result.passed,
       confidence: result.overallConfidence,
+      score: result.score,
       modelUsed: result.modelUsed,
       processingTimeMs: result.processingTimeMs,
       inputTokens: result.inputTokens,
       outputTokens: result.outputTokens,
       estimatedCostUsd: result.estimatedCostUsd,
       retryCount: result.retryCount,
+      reviewId: result.reviewId,
+      duplicateOf: result.duplicateOf?.verificationId,
+      integrityIssues: result.integrity?.issues.map((issue) => issue.code),
     },
   });
 
+  // 5. Webhooks (lets Retool learn the result without the PWA relaying it)
+  await notifyVerification(auth, stored.id, result, { externalTaskId });
+
   return result;
 }
 
 // --- Core verification logic (shared by both modes) ---
 async function runVerification(
-  imageInput: { url?: string; base64?: string },
+  images: ImageInput[],
   config: PhotoVerificationConfig,
   auth: AuthContext,
   startTime: number,
+  enforced?: BudgetStatus,
 ): Promise<VerificationResultInternal> {
   if (!config || !config.criteria || config.criteria.length === 0) {
     throw new Error('Verification configuration has no criteria');
   }
 
-  // Resolve provider and model
-  const provider: AIProvider = config.provider || 'openai';
-  const defaultModels: Record<AIProvider, string> = { openai: 'gpt-4o-mini', gemini: 'gemini-2.0-flash' };
-  const model = config.model || defaultModels[provider];
-  const modelUsedLabel = `${provider}/${model}`;
-
-  // 1. Call Vision API with retry logic
-  let analysisWithUsage: VisionAnalysisWithUsage | null = null;
-  let retryCount = 0;
-  let lastError: Error | null = null;
-  let totalTokenUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
-
-  const maxRetries = config.maxRetries || 2;
-
-  while (retryCount <= maxRetries && !analysisWithUsage) {
-    try {
-      analysisWithUsage = await analyzeImage(imageInput, config);
-      // Accumulate tokens from successful attempt
-      totalTokenUsage.inputTokens += analysisWithUsage.tokenUsage.inputTokens;
-      totalTokenUsage.outputTokens += analysisWithUsage.tokenUsage.outputTokens;
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-      retryCount++;
-      if (retryCount <= maxRetries) {
-        await new Promise((resolve) => setTimeout(resolve, 1000 * Math.pow(2, retryCount - 1)));
-      }
-    }
+  if (images.length === 0 || images.length > MAX_IMAGES_PER_VERIFICATION) {
+    throw new Error(`Verification requires between 1 and ${MAX_IMAGES_PER_VERIFICATION} images, got ${images.length}`);
   }
 
-  // 2. If all retries failed
+  const outOfRange = config.criteria.find(
+    (c: VerificationCriterion) => c.imageIndex !== undefined && c.imageIndex >= images.length
+  );
+  if (outOfRange) {
+    throw new Error(`Criterion ${outOfRange.id} targets image ${outOfRange.imageIndex} but only ${images.length} image(s) were provided`);
+  }
+
+  // 1. Call the vision chain: config provider/model, then the tenant's fallbacks.
+  //    Over budget, only the tenant's cheaper model runs (or nothing, past the hard limit).
+  //    The synchronous route has already enforced it; queued jobs are checked here.
+  const budget = enforced ?? await enforceBudget(auth.tenantId);
+  const fallback = await getFallbackPolicy(auth.tenantId);
+  const visionConfig = budget.downgradeTo ? { ...config, ...budget.downgradeTo } : config;
+  const outcome = await analyzeWithFallback(images, visionConfig, budget.downgradeTo ? { ...fallback, chain: [] } : fallback, {
+    breaker: createCircuitBreaker(fallback),
+    pricing: await loadPriceBook(auth.tenantId, new Date(startTime)), // Prices in effect when it started
+  });
+
+  const budgetAfter = await recordBudgetSpend(auth.tenantId, budget, outcome.estimatedCostUsd);
+  const budgetNotice = budgetAfter.state === 'ok' ? {} : { budget: budgetAfter };
+
+  const { analysisWithUsage, attempts, lastError } = outcome;
+  const modelUsedLabel = `${outcome.target.provider}/${outcome.target.model}`;
+  const retryCount = attempts.filter((a) => a.outcome === 'error').length;
+
+  // 2. If every step of the chain failed
   if (!analysisWithUsage) {
     const processingTimeMs = Date.now() - startTime;
 
@@ -272,19 +509,21 @@ async function runVerification(
         modelUsed: modelUsedLabel,
         processingTimeMs,
         processedAt: new Date().toISOString(),
-        rawModelResponse: lastError?.message || 'All retries failed',
+        rawModelResponse: lastError?.message || 'All providers failed or were skipped',
         retryCount,
-        inputTokens: totalTokenUsage.inputTokens,
-        outputTokens: totalTokenUsage.outputTokens,
-        estimatedCostUsd: estimateCostUsd(model, totalTokenUsage),
+        attempts,
+        inputTokens: outcome.tokenUsage.inputTokens,
+        outputTokens: outcome.tokenUsage.outputTokens,
+        estimatedCostUsd: outcome.estimatedCostUsd,
+        ...budgetNotice,
       };
     }
 
-    throw new Error(`Verification failed after ${maxRetries} retries: ${lastError?.message}`);
+    throw new Error(`Verification failed after ${attempts.length} attempt(s): ${lastError?.message ?? 'all providers skipped (circuit open)'}`);
   }
 
-  // 3. Evaluate criteria
-  const criteriaResults = evaluateCriteria(analysisWithUsage.analysis, config);
+  // 3. Evaluate criteria and score them
+  const criteriaResults = evaluateCriteria(analysisWithUsage.analysis, config, images.length);
   const allRequiredPassed = config.criteria
     .filter((c: VerificationCriterion) => c.required)
     .every((c: VerificationCriterion) => {
@@ -292,23 +531,30 @@ async function runVerification(
       return result?.passed === true;
     });
 
+  const scoring = await getScoringPolicy(auth.tenantId);
+  const score = scoreCriteria(config.criteria, criteriaResults);
+
   const overallConfidence = analysisWithUsage.analysis.overall_confidence;
-  const passed = allRequiredPassed && overallConfidence >= config.confidenceThreshold;
+  const passed = (allRequiredPassed || !scoring.requiredMustPass)
+    && meetsPassScore(score, scoring)
+    && overallConfidence >= config.confidenceThreshold;
 
   const processingTimeMs = Date.now() - startTime;
-  const costUsd = estimateCostUsd(model, totalTokenUsage);
 
   return {
     passed,
     overallConfidence,
+    score,
     criteriaResults,
     modelUsed: modelUsedLabel,
     processingTimeMs,
     processedAt: new Date().toISOString(),
     rawModelResponse: JSON.stringify(analysisWithUsage.analysis),
     retryCount,
-    inputTokens: totalTokenUsage.inputTokens,
-    outputTokens: totalTokenUsage.outputTokens,
-    estimatedCostUsd: costUsd,
+    attempts,
+    inputTokens: outcome.tokenUsage.inputTokens,
+    outputTokens: outcome.tokenUsage.outputTokens,
+    estimatedCostUsd: outcome.estimatedCostUsd,
+    ...budgetNotice,
   };
 }
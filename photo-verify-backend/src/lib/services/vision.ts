@@ -1,18 +1,28 @@
 // ============================================
 // Multi-Provider Vision Service
 // ============================================
-// Abstraction layer over OpenAI Vision & Google Gemini
-// Automatically routes to the correct provider based on config
+// Abstraction layer over pluggable vision providers
+// (OpenAI, Google Gemini, OpenAI-compatible local servers, local rules)
+// Routes to the registered provider named in the config
 // Tracks token usage for billing per tenant
 
 import OpenAI from 'openai';
 import { GoogleGenerativeAI, type GenerativeModel } from '@google/generative-ai';
-import type { PhotoVerificationConfig, VerificationCriterion, AIProvider } from '@/lib/types';
+import { criterionTypeInstructions, describeCriterion, type ModelCriterionResult } from './criteria';
+import {
+  addVisionProviderId,
+  type PhotoVerificationConfig,
+  type VerificationCriterion,
+  type AIProvider,
+  type PhotoEvidence,
+  type CriterionValue,
+} from '@/lib/types';
 
 // ── Singleton clients ──
 
 let _openaiClient: OpenAI | null = null;
 let _geminiClient: GoogleGenerativeAI | null = null;
+let _compatibleClient: OpenAI | null = null;
 
 function getOpenAIClient(): OpenAI {
   if (!_openaiClient) {
@@ -34,6 +44,20 @@ function getGeminiClient(): GoogleGenerativeAI {
   return _geminiClient;
 }
 
+// Self-hosted servers (vLLM, Ollama, LocalAI...) usually ignore the API key
+function getCompatibleClient(): OpenAI {
+  if (!_compatibleClient) {
+    if (!process.env.LOCAL_VISION_BASE_URL) {
+      throw new Error('LOCAL_VISION_BASE_URL environment variable is not set');
+    }
+    _compatibleClient = new OpenAI({
+      apiKey: process.env.LOCAL_VISION_API_KEY || 'not-needed',
+      baseURL: process.env.LOCAL_VISION_BASE_URL,
+    });
+  }
+  return _compatibleClient;
+}
+
 // ── Token usage tracking ──
 
 export interface TokenUsage {
@@ -44,13 +68,7 @@ export interface TokenUsage {
 // ── Response structure we expect from any model ──
 
 export interface VisionAnalysisResult {
-  criteria_results: Array<{
-    criterion_id: string;
-    passed: boolean;
-    value: string | number | boolean;
-    confidence: number;
-    reasoning: string;
-  }>;
+  criteria_results: ModelCriterionResult[];
   overall_assessment: string;
   overall_confidence: number;
 }
@@ -62,14 +80,35 @@ export interface VisionAnalysisWithUsage {
   tokenUsage: TokenUsage;
 }
 
-// ── Pricing table (USD per 1M tokens) ──
+export interface ImageInput {
+  url?: string;
+  base64?: string;
+  label?: string;
+  evidence?: PhotoEvidence; // Capture metadata; not sent to the model
+}
+
+// ── Provider contract ──
+
+export interface VisionProvider {
+  id: string; // Accepted as a config `provider` once registered
+  defaultModel: string;
+  models: Array<{ id: string; name: string }>;
+  analyze(
+    images: ImageInput[],
+    config: PhotoVerificationConfig,
+    model: string,
+  ): Promise<VisionAnalysisWithUsage>;
+}
+
+// ── Default pricing (USD per 1M tokens) ──
+// List prices for models without a row in model_prices (see pricing.ts)
 
-interface ModelPricing {
+export interface ModelPricing {
   inputPer1M: number;
   outputPer1M: number;
 }
 
-const MODEL_PRICING: Record<string, ModelPricing> = {
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
   // OpenAI
   'gpt-4o-mini':        { inputPer1M: 0.15,  outputPer1M: 0.60 },
   'gpt-4o':             { inputPer1M: 2.50,  outputPer1M: 10.00 },
@@ -79,8 +118,14 @@ const MODEL_PRICING: Record<string, ModelPricing> = {
   'gemini-1.5-pro':        { inputPer1M: 1.25,  outputPer1M: 5.00 },
 };
 
-export function estimateCostUsd(model: string, usage: TokenUsage): number {
-  const pricing = MODEL_PRICING[model];
+const FREE_PRICING: ModelPricing = { inputPer1M: 0, outputPer1M: 0 };
+
+// `pricing` is the price in effect when the verification ran (price book)
+export function estimateCostUsd(
+  model: string,
+  usage: TokenUsage,
+  pricing: ModelPricing | undefined = DEFAULT_MODEL_PRICING[model],
+): number {
   if (!pricing) return 0;
   const inputCost = (usage.inputTokens / 1_000_000) * pricing.inputPer1M;
   const outputCost = (usage.outputTokens / 1_000_000) * pricing.outputPer1M;
@@ -89,7 +134,14 @@ export function estimateCostUsd(model: string, usage: TokenUsage): number {
 
 // ── Shared prompt builders ──
 
+// The original three types are always explained; richer ones only when used
+const BASE_CRITERION_TYPES = ['boolean', 'count', 'text'] as const;
+
 function buildSystemPrompt(config: PhotoVerificationConfig): string {
+  const typeRules = criterionTypeInstructions([...BASE_CRITERION_TYPES, ...config.criteria.map((c) => c.type)])
+    .map((line) => `- ${line}`)
+    .join('\n');
+
   return `You are an expert image verification system for retail/field operations.
 Your job is to analyze photos and verify specific criteria.
 
@@ -97,9 +149,10 @@ IMPORTANT RULES:
 - Be precise and objective in your analysis
 - If you cannot determine something with confidence, say so
 - Return your confidence as a decimal between 0.0 and 1.0
-- For "boolean" criteria: determine if the condition is true or false
-- For "count" criteria: count the specific items asked about
-- For "text" criteria: extract or identify the requested text/information
+${typeRules}
+- When several images are provided, they are numbered from 0 in the order given.
+  A criterion scoped to one image must be judged on that image only; otherwise use
+  the whole set. Report in "image_index" the image that best supports your verdict.
 
 You MUST respond with valid JSON only. No markdown, no code blocks, just raw JSON.
 
@@ -111,7 +164,9 @@ Response format:
       "passed": <true/false>,
       "value": <observed value>,
       "confidence": <0.0-1.0>,
-      "reasoning": "<brief explanation>"
+      "reasoning": "<brief explanation>",
+      "image_index": <index of the supporting image, or null>,
+      "detections": <presence_of_brand only: array of sightings, otherwise omit>
     }
   ],
   "overall_assessment": "<brief summary>",
@@ -119,46 +174,59 @@ Response format:
 }`;
 }
 
-function buildUserPrompt(config: PhotoVerificationConfig): string {
+function buildUserPrompt(config: PhotoVerificationConfig, images: ImageInput[]): string {
+  const isSet = images.length > 1;
+
   const criteriaList = config.criteria
     .map((c: VerificationCriterion, i: number) => {
       let details = `${i + 1}. [${c.id}] "${c.label}" (type: ${c.type})`;
-      if (c.expectedValue !== undefined) details += ` | expected: ${c.expectedValue}`;
-      if (c.min !== undefined) details += ` | min: ${c.min}`;
-      if (c.max !== undefined) details += ` | max: ${c.max}`;
+      details += describeCriterion(c);
+      if (isSet) details += c.imageIndex !== undefined ? ` | scope: image ${c.imageIndex}` : ' | scope: whole set';
       if (c.required) details += ' | REQUIRED';
       return details;
     })
     .join('\n');
 
-  return `${config.prompt}
+  if (!isSet) {
+    return `${config.prompt}
 
 Verify the following criteria in this image:
 
 ${criteriaList}
 
 Analyze the image carefully and respond with JSON containing results for each criterion.`;
-}
+  }
 
-// ── Default models per provider ──
+  const imageList = images
+    .map((img, i) => `- image ${i}${img.label ? `: ${img.label}` : ''}`)
+    .join('\n');
 
-const DEFAULT_MODELS: Record<AIProvider, string> = {
-  openai: 'gpt-4o-mini',
-  gemini: 'gemini-2.0-flash',
-};
+  return `${config.prompt}
+
+You are given ${images.length} images of the same location, in this order:
+
+${imageList}
+
+Verify the following criteria across these images:
+
+${criteriaList}
+
+Analyze the images carefully and respond with JSON containing results for each criterion.`;
+}
 
 // ── OpenAI Vision Provider ──
 
 async function analyzeWithOpenAI(
-  imageInput: { url?: string; base64?: string },
+  images: ImageInput[],
   config: PhotoVerificationConfig,
   model: string,
+  client: OpenAI = getOpenAIClient(),
 ): Promise<VisionAnalysisWithUsage> {
-  const client = getOpenAIClient();
-
-  const imageContent: OpenAI.Chat.Completions.ChatCompletionContentPart = imageInput.url
-    ? { type: 'image_url', image_url: { url: imageInput.url, detail: 'high' } }
-    : { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${imageInput.base64}`, detail: 'high' } };
+  const imageContent: OpenAI.Chat.Completions.ChatCompletionContentPart[] = images.map((img) => (
+    img.url
+      ? { type: 'image_url', image_url: { url: img.url, detail: 'high' } }
+      : { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${img.base64}`, detail: 'high' } }
+  ));
 
   const response = await client.chat.completions.create({
     model,
@@ -170,8 +238,8 @@ async function analyzeWithOpenAI(
       {
         role: 'user',
         content: [
-          { type: 'text', text: buildUserPrompt(config) },
-          imageContent,
+          { type: 'text', text: buildUserPrompt(config, images) },
+          ...imageContent,
         ],
       },
     ],
@@ -182,7 +250,7 @@ async function analyzeWithOpenAI(
 
   const content = response.choices[0]?.message?.content;
   if (!content) {
-    throw new Error('Empty response from OpenAI vision model');
+    throw new Error(`Empty response from ${model} vision model`);
   }
 
   const tokenUsage: TokenUsage = {
@@ -190,16 +258,40 @@ async function analyzeWithOpenAI(
     outputTokens: response.usage?.completion_tokens ?? 0,
   };
 
-  return {
-    analysis: parseVisionResponse(content),
-    tokenUsage,
-  };
+  return withUsage(content, tokenUsage);
 }
 
 // ── Gemini Vision Provider ──
 
+async function toGeminiImagePart(image: ImageInput): Promise<{ inlineData: { mimeType: string; data: string } }> {
+  if (image.base64) {
+    return {
+      inlineData: {
+        mimeType: 'image/jpeg',
+        data: image.base64,
+      },
+    };
+  }
+
+  if (image.url) {
+    // For URL images, fetch the image and convert to base64
+    const imageResponse = await fetch(image.url);
+    const arrayBuffer = await imageResponse.arrayBuffer();
+    const base64 = Buffer.from(arrayBuffer).toString('base64');
+    const contentType = imageResponse.headers.get('content-type') || 'image/jpeg';
+    return {
+      inlineData: {
+        mimeType: contentType,
+        data: base64,
+      },
+    };
+  }
+
+  throw new Error('No image provided');
+}
+
 async function analyzeWithGemini(
-  imageInput: { url?: string; base64?: string },
+  images: ImageInput[],
   config: PhotoVerificationConfig,
   model: string,
 ): Promise<VisionAnalysisWithUsage> {
@@ -214,35 +306,12 @@ async function analyzeWithGemini(
   });
 
   // Build the full prompt (Gemini combines system + user into one)
-  const fullPrompt = `${buildSystemPrompt(config)}\n\n${buildUserPrompt(config)}`;
+  const fullPrompt = `${buildSystemPrompt(config)}\n\n${buildUserPrompt(config, images)}`;
 
-  // Prepare image part
-  let imagePart: { inlineData: { mimeType: string; data: string } };
+  // Prepare image parts (kept in the order given)
+  const imageParts = await Promise.all(images.map(toGeminiImagePart));
 
-  if (imageInput.base64) {
-    imagePart = {
-      inlineData: {
-        mimeType: 'image/jpeg',
-        data: imageInput.base64,
-      },
-    };
-  } else if (imageInput.url) {
-    // For URL images, fetch the image and convert to base64
-    const imageResponse = await fetch(imageInput.url);
-    const arrayBuffer = await imageResponse.arrayBuffer();
-    const base64 = Buffer.from(arrayBuffer).toString('base64');
-    const contentType = imageResponse.headers.get('content-type') || 'image/jpeg';
-    imagePart = {
-      inlineData: {
-        mimeType: contentType,
-        data: base64,
-      },
-    };
-  } else {
-    throw new Error('No image provided');
-  }
-
-  const result = await genModel.generateContent([fullPrompt, imagePart]);
+  const result = await genModel.generateContent([fullPrompt, ...imageParts]);
   const response = result.response;
   const content = response.text();
 
@@ -257,14 +326,108 @@ async function analyzeWithGemini(
     outputTokens: usageMetadata?.candidatesTokenCount ?? 0,
   };
 
+  return withUsage(content, tokenUsage);
+}
+
+// ── Local Rules Provider ──
+// Deterministic, offline stand-in for a vision model. It never looks at the
+// pixels: every criterion is answered from its own config so staging, CI and
+// air-gapped deployments can run the full verification pipeline.
+//   rules-pass → every criterion satisfies its expectedValue / min / max /
+//                options / brands / sequence
+//   rules-fail → every criterion violates it
+
+const LOCAL_RULES_MODELS = ['rules-pass', 'rules-fail'];
+
+function satisfyingValue(criterion: VerificationCriterion): CriterionValue {
+  switch (criterion.type) {
+    case 'enum':
+      return criterion.acceptedValues?.[0]
+        ?? (criterion.expectedValue !== undefined ? String(criterion.expectedValue) : criterion.options?.[0] ?? '');
+    case 'percentage':
+      return criterion.min ?? criterion.max ?? 100;
+    case 'presence_of_brand':
+      return Array.from({ length: criterion.min ?? 1 }, () => criterion.brands ?? []).flat();
+    case 'ordered_sequence':
+      return criterion.sequence ?? [];
+  }
+  if (criterion.expectedValue !== undefined) return criterion.expectedValue;
+  switch (criterion.type) {
+    case 'count':
+      return criterion.min ?? criterion.max ?? 1;
+    case 'boolean':
+      return true;
+    default:
+      return `rules:${criterion.id}`;
+  }
+}
+
+function violatingValue(criterion: VerificationCriterion): CriterionValue {
+  switch (criterion.type) {
+    case 'count':
+      if (criterion.min !== undefined) return criterion.min - 1;
+      if (criterion.max !== undefined) return criterion.max + 1;
+      return 0;
+    case 'boolean':
+      return criterion.expectedValue === undefined ? false : !criterion.expectedValue;
+    case 'enum':
+      return ''; // Not one of the options
+    case 'percentage':
+      return -1; // Out of range
+    case 'presence_of_brand':
+    case 'ordered_sequence':
+      return [];
+    default:
+      return '';
+  }
+}
+
+async function analyzeWithLocalRules(
+  images: ImageInput[],
+  config: PhotoVerificationConfig,
+  model: string,
+): Promise<VisionAnalysisWithUsage> {
+  if (images.length === 0 || images.some((img) => !img.url && !img.base64)) {
+    throw new Error('No image provided');
+  }
+  if (!LOCAL_RULES_MODELS.includes(model)) {
+    throw new Error(`Unknown local rules model: ${model}. Use one of: ${LOCAL_RULES_MODELS.join(', ')}`);
+  }
+
+  const pass = model === 'rules-pass';
+
+  const analysis: VisionAnalysisResult = {
+    criteria_results: config.criteria.map((c: VerificationCriterion) => ({
+      criterion_id: c.id,
+      passed: pass,
+      value: pass ? satisfyingValue(c) : violatingValue(c),
+      confidence: 1,
+      reasoning: `Local rules provider (${model})`,
+      image_index: c.imageIndex ?? null,
+    })),
+    overall_assessment: pass ? 'All criteria satisfied by local rules' : 'All criteria rejected by local rules',
+    overall_confidence: 1,
+  };
+
   return {
-    analysis: parseVisionResponse(content),
-    tokenUsage,
+    analysis,
+    tokenUsage: { inputTokens: 0, outputTokens: 0 },
   };
 }
 
 // ── Shared response parser ──
 
+// A malformed answer still cost tokens: keep them and the raw text on the
+// error (as its cause) so the attempt can be recorded and billed
+function withUsage(content: string, tokenUsage: TokenUsage): VisionAnalysisWithUsage {
+  try {
+    return { analysis: parseVisionResponse(content), tokenUsage };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(message, { cause: { rawResponse: content, tokenUsage } });
+  }
+}
+
 function parseVisionResponse(content: string): VisionAnalysisResult {
   try {
     // Clean potential markdown code fences
@@ -294,22 +457,80 @@ function parseVisionResponse(content: string): VisionAnalysisResult {
   }
 }
 
+// ── Provider registry ──
+
+const providers = new Map<string, VisionProvider>();
+
+export function registerVisionProvider(provider: VisionProvider): void {
+  providers.set(provider.id, provider);
+  addVisionProviderId(provider.id);
+}
+
+export function getVisionProvider(id: AIProvider): VisionProvider {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Vision provider not registered: ${id}`);
+  }
+  return provider;
+}
+
+registerVisionProvider({
+  id: 'openai',
+  defaultModel: 'gpt-4o-mini',
+  models: [
+    { id: 'gpt-4o-mini', name: 'GPT-4o Mini' },
+    { id: 'gpt-4o', name: 'GPT-4o' },
+  ],
+  analyze: (images, config, model) => analyzeWithOpenAI(images, config, model),
+});
+
+registerVisionProvider({
+  id: 'gemini',
+  defaultModel: 'gemini-2.0-flash',
+  models: [
+    { id: 'gemini-2.0-flash', name: 'Gemini 2.0 Flash' },
+    { id: 'gemini-2.0-flash-lite', name: 'Gemini 2.0 Flash Lite' },
+    { id: 'gemini-1.5-pro', name: 'Gemini 1.5 Pro' },
+  ],
+  analyze: analyzeWithGemini,
+});
+
+registerVisionProvider({
+  id: 'openai_compatible',
+  defaultModel: process.env.LOCAL_VISION_MODEL || 'llava',
+  models: [
+    { id: process.env.LOCAL_VISION_MODEL || 'llava', name: 'Self-hosted (OpenAI-compatible)' },
+  ],
+  analyze: (images, config, model) => analyzeWithOpenAI(images, config, model, getCompatibleClient()),
+});
+
+registerVisionProvider({
+  id: 'local',
+  defaultModel: 'rules-pass',
+  models: [
+    { id: 'rules-pass', name: 'Local Rules (always pass)' },
+    { id: 'rules-fail', name: 'Local Rules (always fail)' },
+  ],
+  analyze: analyzeWithLocalRules,
+});
+
+// ── Resolve provider + model for a config ──
+
+export function resolveVisionModel(config: Pick<PhotoVerificationConfig, 'provider' | 'model'>): { provider: AIProvider; model: string } {
+  const provider: AIProvider = config.provider || 'openai';
+  const model = config.model || getVisionProvider(provider).defaultModel;
+  return { provider, model };
+}
+
 // ── Main analysis function (routes to correct provider) ──
+// `target` picks another provider/model than the config's (fallback chain)
 
 export async function analyzeImage(
-  imageInput: { url?: string; base64?: string },
-  config: PhotoVerificationConfig
+  images: ImageInput[],
+  config: PhotoVerificationConfig,
+  target: { provider: AIProvider; model: string } = resolveVisionModel(config),
 ): Promise<VisionAnalysisWithUsage> {
-  const provider: AIProvider = config.provider || 'openai';
-  const model = config.model || DEFAULT_MODELS[provider];
-
-  switch (provider) {
-    case 'gemini':
-      return analyzeWithGemini(imageInput, config, model);
-    case 'openai':
-    default:
-      return analyzeWithOpenAI(imageInput, config, model);
-  }
+  return getVisionProvider(target.provider).analyze(images, config, target.model);
 }
 
 // ── Get available models (for API docs / UI) ──
@@ -320,11 +541,12 @@ export function getAvailableModels(): Array<{
   provider: AIProvider;
   pricing: ModelPricing;
 }> {
-  return [
-    { id: 'gpt-4o-mini', name: 'GPT-4o Mini', provider: 'openai', pricing: MODEL_PRICING['gpt-4o-mini'] },
-    { id: 'gpt-4o', name: 'GPT-4o', provider: 'openai', pricing: MODEL_PRICING['gpt-4o'] },
-    { id: 'gemini-2.0-flash', name: 'Gemini 2.0 Flash', provider: 'gemini', pricing: MODEL_PRICING['gemini-2.0-flash'] },
-    { id: 'gemini-2.0-flash-lite', name: 'Gemini 2.0 Flash Lite', provider: 'gemini', pricing: MODEL_PRICING['gemini-2.0-flash-lite'] },
-    { id: 'gemini-1.5-pro', name: 'Gemini 1.5 Pro', provider: 'gemini', pricing: MODEL_PRICING['gemini-1.5-pro'] },
-  ];
+  return Array.from(providers.values()).flatMap((provider) =>
+    provider.models.map((m) => ({
+      id: m.id,
+      name: m.name,
+      provider: provider.id,
+      pricing: DEFAULT_MODEL_PRICING[m.id] ?? FREE_PRICING,
+    }))
+  );
 }
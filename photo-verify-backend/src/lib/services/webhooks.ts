@@ -0,0 +1,433 @@
+// ============================================
+// Webhook Delivery Service
+// ============================================
+// Tenants register endpoints in tenants.config.webhooks.
+// Events are stored as one delivery per subscribed endpoint,
+// POSTed after the response is sent, and retried with
+// exponential backoff by the cron worker. Deliveries that
+// exhaust their attempts land in webhook_dead_letters and
+// can be redelivered manually.
+//
+// An attempt first claims its delivery: one conditional UPDATE pushes
+// nextAttemptAt past CLAIM_LEASE_MS, so overlapping cron runs and the
+// first attempt after the response never send the same event twice.
+//
+// Endpoints must be https and public (WebhookUrlSchema). Before each
+// attempt the host is resolved again, and redirects are not followed, so
+// a name that later points inside the network is refused, not POSTed to.
+//
+// Every request is signed:
+//   X-Webhook-Timestamp: <unix seconds>
+//   X-Webhook-Signature: sha256=<hex HMAC-SHA256(secret, `${timestamp}.${body}`)>
+
+import { createHmac, randomBytes } from 'crypto';
+import { lookup } from 'dns/promises';
+import { after } from 'next/server';
+import { eq, and, lte, asc, desc, inArray, sql } from 'drizzle-orm';
+import { getDb, schema } from '@/lib/db';
+import { recordAudit } from './audit';
+import { getTenantConfig } from './tenants';
+import {
+  isPrivateHost,
+  webhookUrlAllowed,
+  type AuthContext,
+  type CreateWebhookInput,
+  type WebhookEndpoint,
+  type WebhookEvent,
+} from '@/lib/types';
+
+const MAX_ATTEMPTS = 6;
+const BASE_BACKOFF_SECONDS = 30;
+const MAX_BACKOFF_SECONDS = 60 * 60;
+const DELIVERY_TIMEOUT_MS = 10_000;
+// Fresh deliveries are attempted right after the response; keep them out of
+// the cron worker's hands until that first attempt had time to finish.
+const FIRST_ATTEMPT_GRACE_MS = 60_000;
+// A claimed delivery is due again after this if its worker died mid-attempt
+const CLAIM_LEASE_MS = 60_000; // Longer than DELIVERY_TIMEOUT_MS + recording the outcome
+
+// --- Signing ---
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// --- Backoff: 30s, 1m, 2m, 4m, 8m ... capped at 1h ---
+export function backoffSeconds(attempts: number): number {
+  return Math.min(BASE_BACKOFF_SECONDS * 2 ** (attempts - 1), MAX_BACKOFF_SECONDS);
+}
+
+// --- Endpoint registry (tenants.config.webhooks) ---
+
+export async function getTenantWebhooks(tenantId: string): Promise<WebhookEndpoint[]> {
+  return (await getTenantConfig(tenantId)).webhooks ?? [];
+}
+
+export function maskWebhook(endpoint: WebhookEndpoint): Omit<WebhookEndpoint, 'secret'> & { secret: string } {
+  return { ...endpoint, secret: `${endpoint.secret.slice(0, 10)}…` };
+}
+
+// Both edits are one UPDATE on tenants.config->'webhooks', so concurrent
+// edits (to webhooks or any other config key) are never lost
+export async function addWebhook(auth: AuthContext, input: CreateWebhookInput): Promise<WebhookEndpoint> {
+  const endpoint: WebhookEndpoint = {
+    id: crypto.randomUUID(),
+    url: input.url,
+    secret: input.secret ?? generateWebhookSecret(),
+    events: input.events,
+    active: input.active,
+    description: input.description,
+  };
+
+  const db = getDb();
+  const t = schema.tenants;
+  await db.update(t)
+    .set({
+      config: sql`jsonb_set(${t.config}, '{webhooks}', coalesce(${t.config}->'webhooks', '[]'::jsonb) || ${JSON.stringify([endpoint])}::jsonb)`,
+      updatedAt: new Date(),
+    })
+    .where(eq(t.id, auth.tenantId));
+
+  await recordAudit({
+    tenantId: auth.tenantId,
+    action: 'webhook_created',
+    entityType: 'webhook',
+    entityId: endpoint.id,
+    userId: auth.userId,
+    after: endpoint,
+    details: { url: endpoint.url, events: endpoint.events },
+  });
+
+  return endpoint;
+}
+
+export async function removeWebhook(auth: AuthContext, endpointId: string): Promise<boolean> {
+  const removed = (await getTenantWebhooks(auth.tenantId)).find((w) => w.id === endpointId);
+  if (!removed) return false;
+
+  // Only the endpoint's own element is dropped; a concurrent removal leaves nothing to match
+  const db = getDb();
+  const t = schema.tenants;
+  const remaining = sql`(
+    select coalesce(jsonb_agg(w.value order by w.position), '[]'::jsonb)
+    from jsonb_array_elements(${t.config}->'webhooks') with ordinality as w(value, position)
+    where w.value->>'id' <> ${endpointId}
+  )`;
+  const [row] = await db.update(t)
+    .set({ config: sql`jsonb_set(${t.config}, '{webhooks}', ${remaining})`, updatedAt: new Date() })
+    .where(and(eq(t.id, auth.tenantId), sql`${t.config}->'webhooks' @> ${JSON.stringify([{ id: endpointId }])}::jsonb`))
+    .returning({ id: t.id });
+  if (!row) return false;
+
+  await recordAudit({
+    tenantId: auth.tenantId,
+    action: 'webhook_deleted',
+    entityType: 'webhook',
+    entityId: endpointId,
+    userId: auth.userId,
+    before: removed,
+  });
+
+  return true;
+}
+
+// --- Emit an event to every subscribed endpoint ---
+// Never throws: a broken webhook must not fail the verification that triggered it.
+export async function emitWebhookEvent(
+  tenantId: string,
+  event: WebhookEvent,
+  data: Record<string, unknown>,
+): Promise<void> {
+  try {
+    const endpoints = (await getTenantWebhooks(tenantId))
+      .filter((e) => e.active && e.events.includes(event));
+    if (endpoints.length === 0) return;
+
+    const db = getDb();
+    const eventId = crypto.randomUUID();
+    const payload = { id: eventId, type: event, createdAt: new Date().toISOString(), tenantId, data };
+
+    const deliveries = await db.insert(schema.webhookDeliveries).values(
+      endpoints.map((e) => ({
+        tenantId,
+        endpointId: e.id,
+        url: e.url,
+        event,
+        eventId,
+        payload,
+        nextAttemptAt: new Date(Date.now() + FIRST_ATTEMPT_GRACE_MS),
+      }))
+    ).returning();
+
+    // Deliver once the response is on its way; failures are retried by the cron worker
+    after(async () => {
+      await Promise.all(deliveries.map(async (d) => {
+        const claimed = await claimDelivery(d);
+        if (claimed) await attemptDelivery(claimed, endpoints.find((e) => e.id === d.endpointId));
+      }));
+    });
+  } catch (error) {
+    console.error(`[webhooks] Failed to emit ${event} for tenant ${tenantId}:`, error);
+  }
+}
+
+// --- Claiming ---
+
+const leaseEnd = () => new Date(Date.now() + CLAIM_LEASE_MS);
+
+// --- Claim one delivery still as it was read (null if another worker took it) ---
+async function claimDelivery(delivery: schema.WebhookDelivery): Promise<schema.WebhookDelivery | null> {
+  const d = schema.webhookDeliveries;
+  const [claimed] = await getDb()
+    .update(d)
+    .set({ nextAttemptAt: leaseEnd(), updatedAt: new Date() })
+    .where(and(eq(d.id, delivery.id), eq(d.status, 'pending'), eq(d.nextAttemptAt, delivery.nextAttemptAt)))
+    .returning();
+  return claimed ?? null;
+}
+
+// --- Claim up to limit due deliveries, oldest first ---
+// The due condition is checked again on each row as it is updated, so
+// when two runs race for a row the second finds it leased and skips it.
+async function claimDueDeliveries(limit: number): Promise<schema.WebhookDelivery[]> {
+  const db = getDb();
+  const d = schema.webhookDeliveries;
+  const now = new Date();
+  const due = and(eq(d.status, 'pending'), lte(d.nextAttemptAt, now));
+
+  const claimed = await db
+    .update(d)
+    .set({ nextAttemptAt: leaseEnd(), updatedAt: now })
+    .where(and(
+      inArray(d.id, db.select({ id: d.id }).from(d).where(due).orderBy(asc(d.nextAttemptAt)).limit(limit)),
+      due,
+    ))
+    .returning();
+  return claimed.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+// --- POST one claimed delivery and record the outcome ---
+export async function attemptDelivery(
+  delivery: schema.WebhookDelivery,
+  endpoint: WebhookEndpoint | undefined,
+): Promise<schema.WebhookDelivery> {
+  if (!endpoint || !endpoint.active) {
+    return recordFailure(delivery, 'Endpoint removed or disabled', null, true);
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  try {
+    if (!(await resolvesPublic(endpoint.url))) {
+      return recordFailure(delivery, 'Endpoint resolves to a loopback, link-local or private address', null, true);
+    }
+
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'photo-verify-webhooks/1.0',
+        'X-Webhook-Id': delivery.id,
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': `sha256=${signWebhookPayload(endpoint.secret, timestamp, body)}`,
+      },
+      body,
+      redirect: 'manual', // A 3xx is a failed attempt, not a hop to wherever it points
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      return recordFailure(delivery, `HTTP ${response.status}`, response.status);
+    }
+
+    const db = getDb();
+    const now = new Date();
+    const [delivered] = await db.update(schema.webhookDeliveries)
+      .set({
+        status: 'delivered',
+        attempts: delivery.attempts + 1,
+        lastStatusCode: response.status,
+        lastError: null,
+        deliveredAt: now,
+        updatedAt: now,
+      })
+      .where(eq(schema.webhookDeliveries.id, delivery.id))
+      .returning();
+    return delivered;
+  } catch (error) {
+    return recordFailure(delivery, error instanceof Error ? error.message : String(error), null);
+  }
+}
+
+// --- Is every address the endpoint's host resolves to public? ---
+export async function resolvesPublic(url: string): Promise<boolean> {
+  if (process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true') return true;
+  if (!webhookUrlAllowed(url)) return false;
+  const { hostname } = new URL(url);
+  const addresses = await lookup(hostname.replace(/^\[|\]$/g, ''), { all: true });
+  return addresses.length > 0 && addresses.every(({ address }) => !isPrivateHost(address));
+}
+
+async function recordFailure(
+  delivery: schema.WebhookDelivery,
+  message: string,
+  statusCode: number | null,
+  permanent = false,
+): Promise<schema.WebhookDelivery> {
+  const db = getDb();
+  const now = new Date();
+  const attempts = delivery.attempts + 1;
+
+  if (!permanent && attempts < MAX_ATTEMPTS) {
+    const [retrying] = await db.update(schema.webhookDeliveries)
+      .set({
+        attempts,
+        lastStatusCode: statusCode,
+        lastError: message,
+        nextAttemptAt: new Date(now.getTime() + backoffSeconds(attempts) * 1000),
+        updatedAt: now,
+      })
+      .where(eq(schema.webhookDeliveries.id, delivery.id))
+      .returning();
+    return retrying;
+  }
+
+  const [dead] = await db.update(schema.webhookDeliveries)
+    .set({ status: 'dead', attempts, lastStatusCode: statusCode, lastError: message, updatedAt: now })
+    .where(eq(schema.webhookDeliveries.id, delivery.id))
+    .returning();
+
+  await db.insert(schema.webhookDeadLetters).values({
+    tenantId: delivery.tenantId,
+    deliveryId: delivery.id,
+    endpointId: delivery.endpointId,
+    url: delivery.url,
+    event: delivery.event,
+    payload: delivery.payload,
+    attempts,
+    lastStatusCode: statusCode,
+    lastError: message,
+  });
+
+  return dead;
+}
+
+// --- Retry worker: claim and attempt due deliveries (called by cron) ---
+export async function processDueDeliveries(limit: number = 50): Promise<{
+  processed: number;
+  delivered: number;
+  retrying: number;
+  dead: number;
+}> {
+  const due = await claimDueDeliveries(limit);
+
+  const endpointsByTenant = new Map<string, WebhookEndpoint[]>();
+  const counts = { processed: 0, delivered: 0, retrying: 0, dead: 0 };
+
+  for (const delivery of due) {
+    if (!endpointsByTenant.has(delivery.tenantId)) {
+      endpointsByTenant.set(delivery.tenantId, await getTenantWebhooks(delivery.tenantId));
+    }
+    const endpoint = endpointsByTenant.get(delivery.tenantId)!.find((e) => e.id === delivery.endpointId);
+
+    const outcome = await attemptDelivery(delivery, endpoint);
+    counts.processed++;
+    if (outcome.status === 'delivered') counts.delivered++;
+    else if (outcome.status === 'dead') counts.dead++;
+    else counts.retrying++;
+  }
+
+  return counts;
+}
+
+// --- Listing ---
+
+export async function listDeliveries(
+  auth: AuthContext,
+  filters: { status?: schema.WebhookDelivery['status']; limit: number; offset: number },
+) {
+  const db = getDb();
+  const conditions = [eq(schema.webhookDeliveries.tenantId, auth.tenantId)];
+  if (filters.status) conditions.push(eq(schema.webhookDeliveries.status, filters.status));
+
+  return db
+    .select()
+    .from(schema.webhookDeliveries)
+    .where(and(...conditions))
+    .orderBy(desc(schema.webhookDeliveries.createdAt))
+    .limit(filters.limit)
+    .offset(filters.offset);
+}
+
+export async function listDeadLetters(auth: AuthContext, limit: number, offset: number) {
+  const db = getDb();
+  return db
+    .select()
+    .from(schema.webhookDeadLetters)
+    .where(eq(schema.webhookDeadLetters.tenantId, auth.tenantId))
+    .orderBy(desc(schema.webhookDeadLetters.createdAt))
+    .limit(limit)
+    .offset(offset);
+}
+
+// --- Redeliver a dead letter as a fresh delivery (attempted immediately) ---
+export async function redeliverDeadLetter(
+  auth: AuthContext,
+  deadLetterId: string,
+): Promise<schema.WebhookDelivery | null> {
+  const db = getDb();
+
+  const [deadLetter] = await db
+    .select()
+    .from(schema.webhookDeadLetters)
+    .where(
+      and(
+        eq(schema.webhookDeadLetters.id, deadLetterId),
+        eq(schema.webhookDeadLetters.tenantId, auth.tenantId)
+      )
+    )
+    .limit(1);
+
+  if (!deadLetter) return null;
+
+  const [original] = await db
+    .select({ eventId: schema.webhookDeliveries.eventId })
+    .from(schema.webhookDeliveries)
+    .where(eq(schema.webhookDeliveries.id, deadLetter.deliveryId))
+    .limit(1);
+
+  const endpoint = (await getTenantWebhooks(auth.tenantId)).find((e) => e.id === deadLetter.endpointId);
+
+  const [delivery] = await db.insert(schema.webhookDeliveries).values({
+    tenantId: auth.tenantId,
+    endpointId: deadLetter.endpointId,
+    url: endpoint?.url ?? deadLetter.url,
+    event: deadLetter.event,
+    eventId: original?.eventId ?? crypto.randomUUID(),
+    payload: deadLetter.payload,
+    nextAttemptAt: new Date(Date.now() + FIRST_ATTEMPT_GRACE_MS),
+  }).returning();
+
+  await db.update(schema.webhookDeadLetters)
+    .set({ redeliveredAt: new Date(), redeliveryId: delivery.id })
+    .where(eq(schema.webhookDeadLetters.id, deadLetter.id));
+
+  await recordAudit({
+    tenantId: auth.tenantId,
+    action: 'webhook_redelivered',
+    entityType: 'webhook_delivery',
+    entityId: delivery.id,
+    userId: auth.userId,
+    after: delivery,
+    details: { deadLetterId: deadLetter.id, event: deadLetter.event },
+  });
+
+  const claimed = await claimDelivery(delivery);
+  return claimed ? attemptDelivery(claimed, endpoint) : delivery;
+}
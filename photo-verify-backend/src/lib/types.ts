@@ -5,35 +5,211 @@
 import { z } from 'zod';
 
 // --- Verification Criterion ---
+// boolean / count / text: the original types
+// enum:              one of `options`; passes when it is in `acceptedValues` (or equals expectedValue)
+// percentage:        0-100 (e.g. share of shelf), checked against min / max
+// presence_of_brand: every brand in `brands` detected at least `min` (default 1) times, with bounding boxes
+// ordered_sequence:  `sequence` appears left to right (other products may sit in between)
+export const CriterionTypeSchema = z.enum([
+  'boolean',
+  'count',
+  'text',
+  'enum',
+  'percentage',
+  'presence_of_brand',
+  'ordered_sequence',
+]);
+export type CriterionType = z.infer<typeof CriterionTypeSchema>;
+
 export const VerificationCriterionSchema = z.object({
   id: z.string(),
   label: z.string(),
-  type: z.enum(['boolean', 'count', 'text']),
+  type: CriterionTypeSchema,
   required: z.boolean().default(true),
   expectedValue: z.union([z.string(), z.number(), z.boolean()]).optional(),
   min: z.number().optional(),
   max: z.number().optional(),
+  options: z.array(z.string().min(1)).min(2).optional(),        // enum: allowed answers
+  acceptedValues: z.array(z.string().min(1)).min(1).optional(), // enum: answers that pass (default: any option)
+  brands: z.array(z.string().min(1)).min(1).optional(),         // presence_of_brand
+  sequence: z.array(z.string().min(1)).min(2).optional(),       // ordered_sequence, left to right
+  weight: z.number().min(0).default(1),                         // Share of the execution score
+  imageIndex: z.number().int().min(0).optional(), // Target one image of the set (0-based); omit for the whole set
 });
 
 export type VerificationCriterion = z.infer<typeof VerificationCriterionSchema>;
 
+// --- Per-type requirements (checked on the whole config so overrides can be partial) ---
+function checkCriterionFields(criterion: VerificationCriterion): string | null {
+  switch (criterion.type) {
+    case 'enum': {
+      if (!criterion.options) return 'enum criteria need options';
+      const accepted = criterion.acceptedValues
+        ?? (criterion.expectedValue !== undefined ? [String(criterion.expectedValue)] : []);
+      const unknown = accepted.find((v) => !criterion.options!.includes(v));
+      return unknown ? `"${unknown}" is not one of the options` : null;
+    }
+    case 'percentage': {
+      const outOfRange = [criterion.min, criterion.max].some((v) => v !== undefined && (v < 0 || v > 100));
+      return outOfRange ? 'percentage min / max must be between 0 and 100' : null;
+    }
+    case 'presence_of_brand':
+      return criterion.brands ? null : 'presence_of_brand criteria need brands';
+    case 'ordered_sequence':
+      return criterion.sequence ? null : 'ordered_sequence criteria need a sequence';
+    default:
+      return null;
+  }
+}
+
+const CriteriaListSchema = z.array(VerificationCriterionSchema).min(1).superRefine((criteria, ctx) => {
+  criteria.forEach((criterion, i) => {
+    const problem = checkCriterionFields(criterion);
+    if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, path: [i], message: `${criterion.id}: ${problem}` });
+  });
+  if (criteria.every((criterion) => criterion.weight === 0)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'At least one criterion needs a weight above 0' });
+  }
+});
+
+// --- Bounding box (normalized 0-1, origin top-left) ---
+export interface BrandDetection {
+  brand: string;
+  box: [number, number, number, number]; // x, y, width, height
+  confidence?: number;
+  imageIndex?: number;
+}
+
 // --- AI Provider ---
-export const AIProviderSchema = z.enum(['openai', 'gemini']).default('openai');
+// Any id passed to registerVisionProvider (services/vision.ts). The built-in
+// ids are known here so configs parse before vision.ts is loaded.
+// openai_compatible: self-hosted model server (LOCAL_VISION_BASE_URL)
+// local: deterministic rules, no model call (staging / CI / air-gapped)
+export const BUILTIN_VISION_PROVIDERS = ['openai', 'gemini', 'openai_compatible', 'local'] as const;
+
+const visionProviderIds = new Set<string>(BUILTIN_VISION_PROVIDERS);
+
+export function addVisionProviderId(id: string): void {
+  visionProviderIds.add(id);
+}
+
+export function isVisionProviderId(id: string): boolean {
+  return visionProviderIds.has(id);
+}
+
+export const AIProviderSchema = z
+  .string()
+  .refine(isVisionProviderId, (id) => ({ message: `Unknown vision provider: ${id}` }))
+  .default('openai');
 export type AIProvider = z.infer<typeof AIProviderSchema>;
 
 // --- Photo Verification Config (embedded in task) ---
+// --- Client photo pipeline: applied by the PWA before upload, stored here so templates can set it ---
+export const ImageCompressionSchema = z.object({
+  maxDimension: z.number().int().min(320).max(8000).optional(), // Longest side in px
+  quality: z.number().min(0.4).max(1).optional(),
+  format: z.enum(['jpeg', 'webp']).optional(),
+  maxBytes: z.number().int().positive().optional(),
+  exif: z.enum(['strip', 'keep']).optional(),
+  grayscaleCriteria: z.array(CriterionTypeSchema).optional(), // Grayscale when every criterion is one of these
+});
+
 export const PhotoVerificationConfigSchema = z.object({
   prompt: z.string().describe('Instructions for the vision model'),
-  criteria: z.array(VerificationCriterionSchema).min(1),
+  criteria: CriteriaListSchema,
   provider: AIProviderSchema,
-  model: z.string().default('gpt-4o-mini'), // Model within the provider (e.g., 'gpt-4o-mini', 'gemini-2.0-flash')
+  model: z.string().optional(), // Model within the provider (e.g., 'gpt-4o-mini', 'gemini-2.0-flash'); defaults per provider
   maxRetries: z.number().default(2),
   fallbackToManual: z.boolean().default(true),
   confidenceThreshold: z.number().min(0).max(1).default(0.8),
+  imageCompression: ImageCompressionSchema.optional(),
+  template: z.object({               // Set on configs resolved from a template (provenance, not input)
+    id: z.string().uuid(),
+    version: z.number().int().positive(),
+    name: z.string(),
+    overridden: z.boolean(),         // Task / request overrides were applied on top
+  }).optional(),
 });
 
 export type PhotoVerificationConfig = z.infer<typeof PhotoVerificationConfigSchema>;
 
+// --- Verification Templates ---
+// Versions are immutable; tasks pin one with `templateId@version`.
+export const TEMPLATE_REF_PATTERN = /^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})(?:@(\d+))?$/i;
+
+export const TemplateConfigSchema = PhotoVerificationConfigSchema.omit({ template: true });
+
+// Overrides merge into the template: top-level fields replace, criteria merge by id
+// (new ids are appended)
+export const ConfigOverridesSchema = TemplateConfigSchema.omit({ criteria: true }).partial().extend({
+  criteria: z.array(VerificationCriterionSchema.partial().required({ id: true })).optional(),
+});
+
+export type ConfigOverrides = z.infer<typeof ConfigOverridesSchema>;
+
+export const TemplateReferenceSchema = z.object({
+  ref: z.string().regex(TEMPLATE_REF_PATTERN, 'Use templateId or templateId@version'), // No version = latest, pinned on save
+  overrides: ConfigOverridesSchema.optional(),
+});
+
+export type TemplateReference = z.infer<typeof TemplateReferenceSchema>;
+
+export const CreateTemplateSchema = z.object({
+  name: z.string().min(1).max(200),
+  description: z.string().max(2000).optional(),
+  config: TemplateConfigSchema,
+  notes: z.string().max(2000).optional(), // Changelog for version 1
+});
+
+export const CreateTemplateVersionSchema = z.object({
+  config: TemplateConfigSchema,
+  notes: z.string().max(2000).optional(),
+});
+
+export const UpdateTemplateSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  description: z.string().max(2000).nullable().optional(),
+});
+
+export type CreateTemplateInput = z.infer<typeof CreateTemplateSchema>;
+export type CreateTemplateVersionInput = z.infer<typeof CreateTemplateVersionSchema>;
+export type UpdateTemplateInput = z.infer<typeof UpdateTemplateSchema>;
+
+// --- Photo Evidence (capture metadata collected by the PWA) ---
+export const GeoPointSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+});
+
+export type GeoPoint = z.infer<typeof GeoPointSchema>;
+
+export const PhotoEvidenceSchema = z.object({
+  capturedAt: z.string().datetime({ offset: true }).optional(), // EXIF DateTimeOriginal, else the file's lastModified
+  capturedAtSource: z.enum(['exif', 'file']).optional(),
+  exifLocation: GeoPointSchema.optional(),                        // GPS tags embedded in the photo
+  deviceLocation: GeoPointSchema.extend({                         // navigator.geolocation when the photo was picked
+    accuracyM: z.number().min(0).optional(),
+  }).optional(),
+  deviceTime: z.string().datetime({ offset: true }).optional(),  // Device clock at that moment (ages are measured on it)
+});
+
+export type PhotoEvidence = z.infer<typeof PhotoEvidenceSchema>;
+
+// --- Verification Image (one shot of an ordered evidence set) ---
+export const MAX_IMAGES_PER_VERIFICATION = 6;
+
+export const VerificationImageSchema = z.object({
+  url: z.string().url().optional(),
+  base64: z.string().optional(),
+  label: z.string().optional(), // e.g. 'wide', 'close-up', 'before', 'after'
+  evidence: PhotoEvidenceSchema.optional(),
+}).refine(
+  (data) => data.url || data.base64,
+  { message: 'Each image needs either url or base64' }
+);
+
+export type VerificationImage = z.infer<typeof VerificationImageSchema>;
+
 // --- Verification Request ---
 // Supports two modes:
 // 1. Internal: taskId (references our DB) - config comes from task
@@ -43,61 +219,473 @@ export const VerifyRequestSchema = z.object({
   externalTaskId: z.string().optional(),    // External task ID (from Retool, etc.)
   imageUrl: z.string().url().optional(),
   imageBase64: z.string().optional(),
-  config: PhotoVerificationConfigSchema.optional(), // Required for external mode, optional override for internal
+  images: z.array(VerificationImageSchema).min(1).max(MAX_IMAGES_PER_VERIFICATION).optional(), // Ordered image set
+  customerId: z.string().optional(),        // Point of sale, for duplicate detection in external mode (internal uses the task's)
+  customerLocation: GeoPointSchema.optional(), // Point of sale position for the distance check (internal falls back to task metadata.customerLocation)
+  evidence: PhotoEvidenceSchema.optional(),    // Capture metadata for imageUrl/imageBase64 (images[] carry their own)
+  config: PhotoVerificationConfigSchema.optional(), // Required for external mode (or template), optional override for internal
+  template: TemplateReferenceSchema.optional(),     // Alternative to config: resolve a template version (+ overrides)
+  async: z.boolean().default(false),                // Return a job id at once (202) instead of waiting for the result
 }).refine(
-  (data) => data.imageUrl || data.imageBase64,
-  { message: 'Either imageUrl or imageBase64 must be provided' }
+  (data) => data.imageUrl || data.imageBase64 || data.images,
+  { message: 'Either images, imageUrl or imageBase64 must be provided' }
+).refine(
+  (data) => !(data.images && (data.imageUrl || data.imageBase64)),
+  { message: 'Use either images or imageUrl/imageBase64, not both' }
+).refine(
+  (data) => !(data.images && data.evidence),
+  { message: 'With images, send evidence on each image instead' }
 ).refine(
   (data) => data.taskId || data.externalTaskId,
   { message: 'Either taskId (internal) or externalTaskId (external) must be provided' }
 ).refine(
-  (data) => !(data.externalTaskId && !data.config),
-  { message: 'config is required when using externalTaskId (external mode)' }
+  (data) => !(data.config && data.template),
+  { message: 'Use either config or template, not both' }
+).refine(
+  (data) => !(data.externalTaskId && !data.config && !data.template),
+  { message: 'config or template is required when using externalTaskId (external mode)' }
 );
 
 export type VerifyRequest = z.infer<typeof VerifyRequestSchema>;
 
 // --- Criterion Result ---
+// Lists (detected brands, observed left-to-right order) come from the richer criterion types
+export type CriterionValue = string | number | boolean | string[];
+
 export interface CriterionResult {
   criterionId: string;
   label: string;
   passed: boolean;
-  value: string | number | boolean;
+  value: CriterionValue;
   confidence: number;
   reasoning: string;
+  imageIndex?: number; // Image of the set that supported the verdict
+  detections?: BrandDetection[]; // presence_of_brand: where each brand was seen
+  credit?: number;               // 0-1 share of the criterion's weight earned towards the score
 }
 
 // --- Verification Result ---
 export interface VerificationResult {
+  verificationId?: string; // Stored verification row
   passed: boolean;
   overallConfidence: number;
+  score?: number; // 0-100 weighted execution score; absent when the model gave no verdict
   criteriaResults: CriterionResult[];
   modelUsed: string;
   processingTimeMs: number;
   processedAt: string;
   rawModelResponse?: string;
+  reviewId?: string; // Set when the verification was queued for manual review
+  duplicateOf?: DuplicateMatch; // Set when an image matches one from an earlier verification
+  integrity?: IntegrityReport;  // Capture time / location checks on the evidence metadata
+  budget?: BudgetStatus;        // Set once the tenant's monthly spend passes its warning threshold
+}
+
+// --- Vision Fallback Chain ---
+// After the config's own provider/model, each step is tried in order; when
+// every step fails the verification falls back to manual review
+// (fallbackToManual). A step whose circuit is open is skipped.
+export const FallbackStepSchema = z.object({
+  provider: AIProviderSchema.removeDefault(),
+  model: z.string().optional(), // Provider default when omitted
+});
+
+export type FallbackStep = z.infer<typeof FallbackStepSchema>;
+
+export const VisionFallbackSchema = z.object({
+  chain: z.array(FallbackStepSchema).max(4).default([]),
+  attemptTimeoutMs: z.number().int().min(1000).max(120_000).default(30_000),
+  failureThreshold: z.number().int().min(1).default(5),   // Failures within windowSeconds that open the circuit
+  windowSeconds: z.number().int().min(10).default(60),
+  cooldownSeconds: z.number().int().min(10).default(120), // How long an open circuit skips the provider
+});
+
+export type VisionFallbackConfig = z.infer<typeof VisionFallbackSchema>;
+
+// --- One call to a vision model, as recorded on the verification ---
+export interface VisionAttempt {
+  provider: AIProvider;
+  model: string;
+  outcome: 'success' | 'error' | 'skipped'; // skipped = circuit open
+  error?: string;
+  rawResponse?: string; // Model output, also when it could not be parsed
+  inputTokens?: number;
+  outputTokens?: number;
+  durationMs: number;
+  startedAt: string;
+}
+
+// --- Execution Score ---
+// score = 100 × Σ(weight × credit) / Σ(weight). A passed criterion earns full
+// credit; a failed optional one earns partial credit for how close it came
+// (e.g. 2 of 3 facings); a failed required one earns none.
+export const ScoringPolicySchema = z.object({
+  passScore: z.number().min(0).max(100).optional(), // Minimum score to pass; none = the score is informational
+  requiredMustPass: z.boolean().default(true),      // false: only the score decides (needs passScore)
+}).refine(
+  (data) => data.requiredMustPass || data.passScore !== undefined,
+  { message: 'passScore is required when requiredMustPass is false' }
+);
+
+export type ScoringPolicy = z.infer<typeof ScoringPolicySchema>;
+
+// --- Async Verification Jobs ---
+export type VerificationJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+// Progress reported while a verification runs (job stage / SSE "progress" events)
+export type VerificationStage = 'queued' | 'starting' | 'analyzing' | 'saving' | 'done';
+
+// --- What a tenant policy does when its check trips ---
+// flag = report only; fail = the verification fails; manual_review = it goes to the review queue
+export const PolicyActionSchema = z.enum(['flag', 'fail', 'manual_review']);
+export type PolicyAction = z.infer<typeof PolicyActionSchema>;
+
+// --- Duplicate Detection ---
+// Each image gets a 64-bit perceptual hash (dHash); two images whose hashes
+// differ in at most maxDistance bits are treated as the same photo.
+export const DuplicateDetectionSchema = z.object({
+  enabled: z.boolean().default(true),
+  action: PolicyActionSchema.default('flag'),
+  scope: z.enum(['tenant', 'customer']).default('tenant'), // customer: only compare photos of the same point of sale
+  windowDays: z.number().int().min(1).max(365).default(90),
+  maxDistance: z.number().int().min(0).max(32).default(8),
+});
+
+export type DuplicateDetectionConfig = z.infer<typeof DuplicateDetectionSchema>;
+
+export interface DuplicateMatch {
+  verificationId: string;
+  taskId?: string;
+  externalTaskId?: string;
+  imageIndex: number;        // Image of this verification that matched
+  matchedImageIndex: number; // Image of the earlier verification
+  distance: number;          // Hamming distance between the hashes (0 = identical)
+  verifiedAt: string;
+  action: PolicyAction;
 }
 
+// --- Evidence Integrity ---
+// Limits are optional: a check only runs when its limit is configured.
+export const EvidenceIntegritySchema = z.object({
+  enabled: z.boolean().default(true),
+  action: PolicyActionSchema.default('flag'),
+  maxDistanceMeters: z.number().positive().optional(),   // From the point of sale, minus the GPS accuracy
+  maxPhotoAgeMinutes: z.number().positive().optional(),  // Between capture and submission
+  requireMetadata: z.boolean().default(false),            // Missing timestamp / location is an issue too
+  maxClockSkewMinutes: z.number().min(0).default(5),      // Tolerance for capture times in the future
+});
+
+export type EvidenceIntegrityConfig = z.infer<typeof EvidenceIntegritySchema>;
+
+export type IntegrityIssueCode =
+  | 'too_far'
+  | 'too_old'
+  | 'future_timestamp'
+  | 'missing_timestamp'
+  | 'missing_location';
+
+export interface IntegrityReport {
+  action: PolicyAction;
+  images: Array<{
+    imageIndex: number;
+    capturedAt?: string;
+    capturedAtSource?: 'exif' | 'file';
+    photoAgeMinutes?: number;
+    distanceMeters?: number;       // Furthest of the EXIF and device positions
+    locationSource?: 'exif' | 'device';
+  }>;
+  issues: Array<{ imageIndex: number; code: IntegrityIssueCode; message: string }>;
+}
+
+// --- Image Retention ---
+// Photos of verifications older than their outcome's limit are deleted by
+// the purge job (/api/cron/purge-images); the verification itself stays.
+export const ImageRetentionSchema = z.object({
+  enabled: z.boolean().default(false),
+  passedDays: z.number().int().min(1).max(3650).default(30),
+  failedDays: z.number().int().min(1).max(3650).default(180),
+});
+
+export type ImageRetentionConfig = z.infer<typeof ImageRetentionSchema>;
+
+// --- Monthly Budget ---
+// Spend is the month's (UTC) estimated vision cost. Past warnAtPercent
+// verification results carry a warning; at 100% 'block' refuses new
+// verifications, 'downgrade' runs them on downgradeTo (no fallback chain)
+// until hardLimitPercent, then refuses them too.
+export const BudgetSchema = z.object({
+  monthlyUsd: z.number().positive().optional(), // None = no budget
+  warnAtPercent: z.number().min(1).max(100).default(80),
+  action: z.enum(['block', 'downgrade']).default('block'),
+  downgradeTo: FallbackStepSchema.optional(),
+  hardLimitPercent: z.number().min(100).max(1000).default(120),
+}).refine(
+  (data) => data.action !== 'downgrade' || data.downgradeTo !== undefined,
+  { message: 'downgradeTo is required when action is downgrade' }
+);
+
+export type BudgetConfig = z.infer<typeof BudgetSchema>;
+
+export type BudgetState = 'ok' | 'warning' | 'downgraded' | 'exceeded';
+
+export interface BudgetStatus {
+  state: BudgetState;
+  month: string;              // YYYY-MM (UTC)
+  spentUsd: number;
+  monthlyUsd: number | null;  // null = no budget
+  percentUsed: number | null;
+  action: BudgetConfig['action'];
+  downgradeTo?: { provider: AIProvider; model: string }; // While downgraded
+  resetsAt: string;
+}
+
+// --- Model Prices ---
+// USD per 1M tokens from effectiveFrom until effectiveTo (exclusive, open
+// when omitted). tenantId makes it a negotiated price for that tenant.
+export const CreateModelPriceSchema = z.object({
+  model: z.string().min(1),
+  tenantId: z.string().uuid().optional(),
+  inputPer1M: z.number().min(0),
+  outputPer1M: z.number().min(0),
+  effectiveFrom: z.string().datetime().optional(), // Default: now
+  effectiveTo: z.string().datetime().optional(),
+  notes: z.string().max(500).optional(),
+}).refine(
+  (data) => !data.effectiveTo || new Date(data.effectiveTo) > new Date(data.effectiveFrom ?? Date.now()),
+  { message: 'effectiveTo must be after effectiveFrom' }
+);
+
+export type CreateModelPriceInput = z.infer<typeof CreateModelPriceSchema>;
+
+// --- Invoicing ---
+// An invoice line prices one model's estimated cost with its markup:
+// markupByModel (keyed "provider/model" or model id), else markupPercent.
+export const InvoicingSchema = z.object({
+  markupPercent: z.number().min(0).max(1000).default(0),
+  markupByModel: z.record(z.string(), z.number().min(0).max(1000)).default({}),
+});
+
+export type InvoicingConfig = z.infer<typeof InvoicingSchema>;
+
+export const INVOICE_MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/; // YYYY-MM
+
+export const CreateInvoiceSchema = z.object({
+  month: z.string().regex(INVOICE_MONTH_PATTERN, 'month must be YYYY-MM'),
+  tenantId: z.string().uuid().optional(), // Admin: another tenant
+});
+
+export type CreateInvoiceInput = z.infer<typeof CreateInvoiceSchema>;
+
 // --- Task Types ---
-export const CreateTaskSchema = z.object({
+export const TASK_STATUSES = ['pending', 'in_progress', 'completed', 'failed', 'manual_review'] as const;
+
+// A task carries its config inline (photoVerificationConfig) or references a template
+const TaskFieldsSchema = z.object({
   title: z.string().min(1),
   description: z.string().optional(),
   type: z.literal('photo_verify'),
-  photoVerificationConfig: PhotoVerificationConfigSchema,
+  photoVerificationConfig: PhotoVerificationConfigSchema.optional(),
+  template: TemplateReferenceSchema.optional(),
   assignedTo: z.string().optional(),
   customerId: z.string().optional(),
   dueDate: z.string().datetime().optional(),
   metadata: z.record(z.unknown()).optional(),
 });
 
+export const CreateTaskSchema = TaskFieldsSchema.refine(
+  (data) => Boolean(data.photoVerificationConfig) !== Boolean(data.template),
+  { message: 'Provide either photoVerificationConfig or template' }
+);
+
 export type CreateTaskInput = z.infer<typeof CreateTaskSchema>;
 
-export const UpdateTaskSchema = CreateTaskSchema.partial().extend({
-  status: z.enum(['pending', 'in_progress', 'completed', 'failed', 'manual_review']).optional(),
-});
+export const UpdateTaskSchema = TaskFieldsSchema.partial().extend({
+  status: z.enum(TASK_STATUSES).optional(),
+}).refine(
+  (data) => !(data.photoVerificationConfig && data.template),
+  { message: 'Use either photoVerificationConfig or template, not both' }
+);
 
 export type UpdateTaskInput = z.infer<typeof UpdateTaskSchema>;
 
+// --- Bulk import (POST /api/tasks/bulk, see services/task-import.ts) ---
+export const MAX_IMPORT_ROWS = 5000;
+
+export const ImportTaskRowSchema = TaskFieldsSchema.extend({
+  type: z.literal('photo_verify').default('photo_verify'),
+  idempotencyKey: z.string().min(1).max(200).optional(), // Default: hash of the row (rowImportKey)
+}).refine(
+  (data) => Boolean(data.photoVerificationConfig) !== Boolean(data.template),
+  { message: 'Provide either photoVerificationConfig or template' }
+);
+
+export type ImportTaskRow = z.infer<typeof ImportTaskRowSchema>;
+
+export const BulkCreateTasksSchema = z.object({
+  tasks: z.array(z.unknown()).min(1).max(MAX_IMPORT_ROWS), // Each row checked on its own (ImportTaskRowSchema)
+  template: TemplateReferenceSchema.optional(),            // For rows with neither a template nor a config
+  idempotencyKey: z.string().min(1).max(100).optional(),   // Or the Idempotency-Key header
+});
+
+export type BulkCreateTasksInput = z.infer<typeof BulkCreateTasksSchema>;
+
+// --- List queries (keyset cursors, see db/pagination.ts) ---
+const SortOrderSchema = z.enum(['asc', 'desc']).default('desc');
+const BooleanParamSchema = z.enum(['true', 'false']).transform((value) => value === 'true');
+const DateTimeParamSchema = z.string().datetime({ offset: true });
+
+export const ListTasksQuerySchema = z.object({
+  status: z.string()                                  // One status or several, comma-separated
+    .transform((value) => value.split(',').map((s) => s.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(TASK_STATUSES)).min(1))
+    .optional(),
+  assignedTo: z.string().min(1).optional(),
+  customerId: z.string().min(1).optional(),
+  templateId: z.string().uuid().optional(),
+  dueFrom: DateTimeParamSchema.optional(),
+  dueTo: DateTimeParamSchema.optional(),             // Exclusive
+  sort: z.enum(['createdAt', 'updatedAt', 'dueDate', 'title']).default('createdAt'),
+  order: SortOrderSchema,
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  cursor: z.string().min(1).optional(),
+});
+
+export type ListTasksQuery = z.infer<typeof ListTasksQuerySchema>;
+
+export const ListVerificationsQuerySchema = z.object({
+  taskId: z.string().uuid().optional(),
+  externalTaskId: z.string().min(1).optional(),
+  customerId: z.string().min(1).optional(),
+  passed: BooleanParamSchema.optional(),
+  minConfidence: z.coerce.number().min(0).max(1).optional(),  // Confidence band, inclusive
+  maxConfidence: z.coerce.number().min(0).max(1).optional(),
+  model: z.string().min(1).optional(),               // modelUsed ("manual" for reviewer decisions)
+  mode: z.enum(['ai', 'manual']).optional(),
+  from: DateTimeParamSchema.optional(),
+  to: DateTimeParamSchema.optional(),                // Exclusive
+  sort: z.enum(['createdAt', 'score', 'overallConfidence']).default('createdAt'),
+  order: SortOrderSchema,
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().min(1).optional(),
+}).refine(
+  (query) => query.minConfidence === undefined || query.maxConfidence === undefined || query.minConfidence <= query.maxConfidence,
+  { message: 'minConfidence must not exceed maxConfidence', path: ['minConfidence'] }
+);
+
+export type ListVerificationsQuery = z.infer<typeof ListVerificationsQuerySchema>;
+
+// --- Manual Review Types ---
+export const REVIEW_STATUSES = ['pending', 'approved', 'rejected'] as const;
+export type ReviewStatus = typeof REVIEW_STATUSES[number];
+export type ReviewReason =
+  | 'low_confidence'
+  | 'criteria_failed'
+  | 'low_score'
+  | 'provider_error'
+  | 'duplicate_photo'
+  | 'integrity_check';
+
+export const ClaimReviewSchema = z.object({
+  leaseSeconds: z.number().int().min(60).max(3600).default(900), // 15 min default
+});
+
+export const CriterionOverrideSchema = z.object({
+  criterionId: z.string(),
+  passed: z.boolean(),
+  value: z.union([z.string(), z.number(), z.boolean(), z.array(z.string())]).optional(),
+  reasoning: z.string().optional(),
+});
+
+export type CriterionOverride = z.infer<typeof CriterionOverrideSchema>;
+
+export const ReviewDecisionSchema = z.object({
+  decision: z.enum(['approve', 'reject']),
+  overrides: z.array(CriterionOverrideSchema).default([]),
+  notes: z.string().max(2000).optional(),
+});
+
+export type ReviewDecisionInput = z.infer<typeof ReviewDecisionSchema>;
+
+// --- Webhook Types ---
+export const WEBHOOK_EVENTS = [
+  'verification.completed',
+  'verification.failed',
+  'task.status_changed',
+  'budget.warning',
+  'budget.exceeded',
+] as const;
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+// --- Webhook targets: https only, never loopback, link-local or private networks ---
+// Hostnames are checked as written here; the delivery worker checks the
+// addresses they resolve to as well
+
+function ipv4Octets(host: string): number[] | null {
+  const parts = host.split('.');
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part))) return null;
+  const octets = parts.map(Number);
+  return octets.every((octet) => octet <= 255) ? octets : null;
+}
+
+function isPrivateIpv4([a, b]: number[]): boolean {
+  return a === 0 || a === 10 || a === 127 || a >= 224     // this network, private, loopback, multicast/reserved
+    || (a === 100 && b >= 64 && b <= 127)                  // carrier-grade NAT
+    || (a === 169 && b === 254)                            // link-local (cloud metadata)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168);
+}
+
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal')) return true;
+
+  const v4 = ipv4Octets(host);
+  if (v4) return isPrivateIpv4(v4);
+  if (!host.includes(':')) return false;
+
+  // IPv6: unspecified, loopback, unique local (fc00::/7), link-local (fe80::/10), IPv4-mapped
+  if (host === '::' || host === '::1') return true;
+  if (/^f[cd][0-9a-f]{0,2}:/.test(host) || /^fe[89ab][0-9a-f]?:/.test(host)) return true;
+  const mapped = host.match(/^::ffff:(?:([\d.]+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/);
+  if (mapped) {
+    if (mapped[1]) {
+      const octets = ipv4Octets(mapped[1]);
+      return !octets || isPrivateIpv4(octets);
+    }
+    const high = parseInt(mapped[2], 16);
+    return isPrivateIpv4([high >> 8, high & 0xff]);
+  }
+  return false;
+}
+
+// WEBHOOK_ALLOW_PRIVATE_URLS=true lifts both rules, for the local receiver only
+export function webhookUrlAllowed(value: string): boolean {
+  if (process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true') return true;
+  const url = new URL(value);
+  return url.protocol === 'https:' && !isPrivateHost(url.hostname);
+}
+
+export const WebhookUrlSchema = z.string().url().refine(webhookUrlAllowed, {
+  message: 'Webhook URL must use https and not point at a loopback, link-local or private address',
+});
+
+export const WebhookEndpointSchema = z.object({
+  id: z.string().default(() => crypto.randomUUID()),
+  url: WebhookUrlSchema,
+  secret: z.string().min(16), // HMAC-SHA256 signing key
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1),
+  active: z.boolean().default(true),
+  description: z.string().optional(),
+});
+
+export type WebhookEndpoint = z.infer<typeof WebhookEndpointSchema>;
+
+export const CreateWebhookSchema = WebhookEndpointSchema.omit({ id: true, secret: true }).extend({
+  secret: z.string().min(16).optional(), // Generated when omitted
+});
+
+export type CreateWebhookInput = z.infer<typeof CreateWebhookSchema>;
+
 // --- Tenant Types ---
 export const CreateTenantSchema = z.object({
   name: z.string().min(1),
@@ -108,11 +696,37 @@ export const CreateTenantSchema = z.object({
     defaultProvider: AIProviderSchema,
     defaultModel: z.string().default('gpt-4o-mini'),
     storageLimitMb: z.number().default(100),
+    storageLimitAction: z.enum(['warn', 'block']).default('warn'), // What an upload over the limit gets
     allowedOrigins: z.array(z.string()).default([]),
+    webhooks: z.array(WebhookEndpointSchema).default([]),
+    duplicateDetection: DuplicateDetectionSchema.default({}),
+    evidenceIntegrity: EvidenceIntegritySchema.default({}),
+    scoring: ScoringPolicySchema.default({}),
+    visionFallback: VisionFallbackSchema.default({}),
+    imageRetention: ImageRetentionSchema.default({}),
+    budget: BudgetSchema.default({}),
+    invoicing: InvoicingSchema.default({}),
   }).default({}),
 });
 
 export type CreateTenantInput = z.infer<typeof CreateTenantSchema>;
+export type TenantConfig = CreateTenantInput['config'];
+
+// --- Audit Log ---
+export const AuditQuerySchema = z.object({
+  entityType: z.string().min(1).optional(),
+  entityId: z.string().min(1).optional(),
+  actor: z.string().min(1).optional(),               // userId: a user, api-key:<id>, or an emp_code
+  action: z.string().min(1).optional(),              // One action or several, comma-separated
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),  // Exclusive
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  format: z.enum(['json', 'ndjson']).default('json'),
+  tenantId: z.string().uuid().optional(),            // tenants:admin only
+});
+
+export type AuditQuery = z.infer<typeof AuditQuerySchema>;
 
 // --- API Response ---
 export interface ApiResponse<T = unknown> {
@@ -130,10 +744,118 @@ export interface ApiResponse<T = unknown> {
   };
 }
 
+// --- Permissions (see auth/permissions.ts for what each role holds) ---
+export const PERMISSIONS = [
+  'tasks:read', 'tasks:write', 'tasks:delete',
+  'templates:read', 'templates:write', 'templates:delete',
+  'verifications:read', 'verifications:create', 'verifications:review',
+  'billing:read', 'invoices:read', 'invoices:issue',
+  'webhooks:admin', 'api-keys:admin', 'sessions:create', 'sessions:admin', 'roles:admin',
+  'model-prices:admin', 'tenants:admin', 'audit:read',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+// Platform-wide: only the built-in admin role holds these. tenants:admin
+// also lets a request act on another tenant (?tenantId / body tenantId).
+export const PLATFORM_PERMISSIONS: readonly Permission[] = ['tenants:admin', 'model-prices:admin', 'invoices:issue'];
+
+export const BUILT_IN_ROLES = ['admin', 'operator', 'viewer', 'rep'] as const;
+
+export type BuiltInRole = typeof BUILT_IN_ROLES[number];
+
+// --- Custom Roles (per tenant) ---
+const RoleNameSchema = z.string().min(1).max(50).regex(/^[a-z0-9][a-z0-9_-]*$/, 'Lowercase letters, digits, - and _')
+  .refine((name) => !(BUILT_IN_ROLES as readonly string[]).includes(name), 'Built-in role names are reserved');
+
+const RolePermissionsSchema = z.array(z.enum(PERMISSIONS)).min(1)
+  .refine((permissions) => !permissions.some((p) => PLATFORM_PERMISSIONS.includes(p)), 'Platform permissions cannot be granted to custom roles');
+
+export const CreateRoleSchema = z.object({
+  name: RoleNameSchema,
+  description: z.string().max(500).optional(),
+  permissions: RolePermissionsSchema,
+  tenantId: z.string().uuid().optional(), // tenants:admin: a role for another tenant
+});
+
+export type CreateRoleInput = z.infer<typeof CreateRoleSchema>;
+
+export const UpdateRoleSchema = z.object({
+  description: z.string().max(500).nullable().optional(),
+  permissions: RolePermissionsSchema.optional(),
+});
+
+export type UpdateRoleInput = z.infer<typeof UpdateRoleSchema>;
+
 // --- Auth Context ---
 export interface AuthContext {
   tenantId: string;
   tenantSlug: string;
   userId?: string;
-  role: 'admin' | 'operator' | 'viewer';
+  role: string; // A built-in role or one of the tenant's custom roles
+  permissions?: Permission[]; // Resolved by authenticate; built-in roles otherwise
+  apiKeyId?: string; // Set when the request used an API key instead of a JWT
+  sessionId?: string; // Set for a rep's short-lived access token (see auth/sessions.ts)
+  deviceId?: string;  // The device that session is bound to
+}
+
+// --- API Keys ---
+// A scope grants one API resource (the path segment after /api/), for
+// reads only ("tasks:read") or everything ("tasks"). No scopes = all.
+export const API_KEY_RESOURCES = [
+  'verify', 'upload', 'tasks', 'templates', 'reviews', 'verifications',
+  'billing', 'invoices', 'webhooks', 'model-prices', 'tenants', 'auth', 'roles', 'audit',
+] as const;
+
+export const API_KEY_SCOPE_PATTERN = new RegExp(`^(${API_KEY_RESOURCES.join('|')})(:(read|write))?$`);
+
+export const CreateApiKeySchema = z.object({
+  name: z.string().min(1).max(100),
+  role: z.string().min(1).max(50).default('operator'), // Built-in or custom role
+  scopes: z.array(z.string().regex(API_KEY_SCOPE_PATTERN, 'Unknown scope')).max(50).default([]),
+  expiresAt: z.string().datetime().optional(), // Default: never
+  tenantId: z.string().uuid().optional(),       // Admin: a key for another tenant
+});
+
+export type CreateApiKeyInput = z.infer<typeof CreateApiKeySchema>;
+
+export const RotateApiKeySchema = z.object({
+  graceSeconds: z.number().int().min(0).max(7 * 24 * 3600).default(24 * 3600), // Old key keeps working meanwhile
+});
+
+// --- Rep Sessions (token exchange) ---
+// emp_code: a trusted caller (operator/admin) opens a session for a rep
+// on a device, with the PIN the rep logged in with. refresh_token: the
+// device renews it alone.
+const DeviceIdSchema = z.string().min(8).max(128);
+const PinSchema = z.string().regex(/^\d{4,12}$/, 'PIN must be 4 to 12 digits');
+
+export const TokenExchangeSchema = z.discriminatedUnion('grantType', [
+  z.object({
+    grantType: z.literal('emp_code'),
+    empCode: z.string().min(1).max(64),
+    pin: PinSchema,
+    deviceId: DeviceIdSchema,
+    deviceName: z.string().max(200).optional(),
+  }),
+  z.object({
+    grantType: z.literal('refresh_token'),
+    refreshToken: z.string().min(1),
+    deviceId: DeviceIdSchema,
+  }),
+]);
+
+export type TokenExchangeInput = z.infer<typeof TokenExchangeSchema>;
+
+// --- Admin: set a rep's PIN ---
+export const RepPinSchema = z.object({
+  pin: PinSchema,
+});
+
+export interface SessionTokens {
+  sessionId: string;
+  accessToken: string;
+  accessTokenExpiresAt: string;
+  refreshToken: string;          // Single use: every refresh returns a new one
+  refreshTokenExpiresAt: string;
 }
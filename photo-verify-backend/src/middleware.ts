@@ -23,7 +23,7 @@ export function middleware(request: NextRequest) {
       headers: {
         'Access-Control-Allow-Origin': isAllowed ? origin : '',
         'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key, X-Device-Id',
         'Access-Control-Max-Age': '86400',
       },
     });
@@ -34,7 +34,7 @@ export function middleware(request: NextRequest) {
   if (isAllowed) {
     response.headers.set('Access-Control-Allow-Origin', origin);
     response.headers.set('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-    response.headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    response.headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-API-Key, X-Device-Id');
   }
 
   return response;
@@ -0,0 +1,69 @@
+/**
+ * Unit tests for auth/api-keys.ts (long-lived tenant credentials)
+ *
+ * Covers:
+ * - Key format, prefix parsing and hashing
+ * - Scopes: resource vs resource:read, methods, empty = everything
+ * - Scope validation in CreateApiKeySchema
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generateApiKey, hashApiKey, isApiKey, parseApiKey, scopeAllows } from '@/lib/auth/api-keys';
+import { CreateApiKeySchema } from '@/lib/types';
+
+// --- Key material ---
+
+describe('generateApiKey', () => {
+  it('issues keys whose prefix can be parsed back', () => {
+    const { key, prefix } = generateApiKey();
+    expect(isApiKey(key)).toBe(true);
+    expect(parseApiKey(key)).toEqual({ prefix });
+  });
+
+  it('never repeats a key', () => {
+    expect(generateApiKey().key).not.toBe(generateApiKey().key);
+  });
+
+  it('hashes the whole key', () => {
+    const { key } = generateApiKey();
+    expect(hashApiKey(key)).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashApiKey(key)).not.toBe(hashApiKey(`${key}x`));
+  });
+
+  it('rejects malformed keys', () => {
+    expect(parseApiKey('pvk_abc_def')).toBeNull();
+    expect(parseApiKey('eyJhbGciOiJIUzI1NiJ9.e30.sig')).toBeNull();
+  });
+});
+
+// --- scopeAllows ---
+
+describe('scopeAllows', () => {
+  it('allows everything without scopes', () => {
+    expect(scopeAllows([], 'DELETE', '/api/tasks/1')).toBe(true);
+  });
+
+  it('limits read scopes to GET and HEAD', () => {
+    expect(scopeAllows(['tasks:read'], 'GET', '/api/tasks/1')).toBe(true);
+    expect(scopeAllows(['tasks:read'], 'HEAD', '/api/tasks')).toBe(true);
+    expect(scopeAllows(['tasks:read'], 'POST', '/api/tasks')).toBe(false);
+  });
+
+  it('allows every method with a bare resource', () => {
+    expect(scopeAllows(['verify'], 'POST', '/api/verify')).toBe(true);
+    expect(scopeAllows(['verify'], 'GET', '/api/verify/job-1/events')).toBe(true);
+  });
+
+  it('refuses other resources', () => {
+    expect(scopeAllows(['tasks'], 'GET', '/api/billing')).toBe(false);
+    expect(scopeAllows(['verifications:write'], 'GET', '/api/verifications')).toBe(false);
+  });
+});
+
+describe('CreateApiKeySchema', () => {
+  it('accepts known scopes only', () => {
+    expect(CreateApiKeySchema.safeParse({ name: 'ETL', scopes: ['model-prices:read', 'verify'] }).success).toBe(true);
+    expect(CreateApiKeySchema.safeParse({ name: 'ETL', scopes: ['storage'] }).success).toBe(false);
+    expect(CreateApiKeySchema.safeParse({ name: 'ETL', scopes: ['tasks:delete'] }).success).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Unit tests for services/audit.ts and GET /api/audit
+ *
+ * Covers:
+ * - Diffs keep changed fields only, ignore timestamps and key order
+ * - Secrets are redacted, but a changed secret is still recorded as changed
+ * - Creates and deletes diff against nothing
+ * - Tampered cursors are refused
+ * - Query validation answers 400 before touching the database
+ */
+
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { signToken } from '@/lib/auth/jwt';
+import { auditEntry, diffChanges } from '@/lib/services/audit';
+import { GET } from '@/app/api/audit/route';
+
+// --- diffChanges ---
+
+describe('diffChanges', () => {
+  it('keeps only the fields that changed', () => {
+    const before = { title: 'Shelf A', status: 'pending', assignedTo: 'rep-1', updatedAt: new Date('2026-01-01') };
+    const after = { title: 'Shelf A', status: 'completed', assignedTo: null, updatedAt: new Date('2026-02-01') };
+
+    expect(diffChanges(before, after)).toEqual({
+      status: { before: 'pending', after: 'completed' },
+      assignedTo: { before: 'rep-1', after: null },
+    });
+  });
+
+  it('compares nested values regardless of key order', () => {
+    const before = { config: { minConfidence: 0.7, criteria: [{ id: 'a', weight: 1 }] } };
+    const after = { config: { criteria: [{ weight: 1, id: 'a' }], minConfidence: 0.7 } };
+    expect(diffChanges(before, after)).toBeNull();
+
+    const changed = diffChanges(before, { config: { ...before.config, minConfidence: 0.8 } });
+    expect(changed?.config.after).toEqual({ criteria: [{ id: 'a', weight: 1 }], minConfidence: 0.8 });
+  });
+
+  it('redacts secrets but still records that they changed', () => {
+    const before = { url: 'https://a.example', secret: 'whsec_old' };
+    const after = { url: 'https://a.example', secret: 'whsec_new' };
+    expect(diffChanges(before, after)).toEqual({ secret: { before: '[redacted]', after: '[redacted]' } });
+
+    const tenant = { config: { webhooks: [{ id: 'w1', secret: 'whsec_1' }] } };
+    expect(JSON.stringify(diffChanges(null, tenant))).not.toContain('whsec_1');
+  });
+
+  it('diffs creates and deletes against nothing', () => {
+    expect(diffChanges(null, { title: 'New' })).toEqual({ title: { before: null, after: 'New' } });
+    expect(diffChanges({ title: 'Gone' }, null)).toEqual({ title: { before: 'Gone', after: null } });
+  });
+});
+
+describe('auditEntry', () => {
+  it('records changes only when a state is given', () => {
+    const base = { tenantId: 't1', action: 'task_deleted', entityType: 'task', entityId: 'x', userId: 'u1' };
+    expect(auditEntry(base).changes).toBeNull();
+    expect(auditEntry({ ...base, before: { title: 'A' } }).changes).toEqual({ title: { before: 'A', after: null } });
+  });
+});
+
+// --- GET /api/audit ---
+
+describe('GET /api/audit', () => {
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'audit-test-secret-0123456789abcdef';
+    delete process.env.POSTGRES_URL;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  async function get(query: string): Promise<Response> {
+    const token = await signToken({ tenantId: '00000000-0000-0000-0000-000000000001', tenantSlug: 'demo', role: 'admin' });
+    return GET(new NextRequest(`http://localhost/api/audit${query}`, { headers: { authorization: `Bearer ${token}` } }));
+  }
+
+  it('rejects invalid filters', async () => {
+    expect((await get('?from=yesterday')).status).toBe(400);
+    expect((await get('?limit=1000')).status).toBe(400);
+    expect((await get('?format=csv')).status).toBe(400);
+  });
+
+  it('rejects a tampered cursor', async () => {
+    const response = await get('?cursor=bogus');
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.message).toBe('Invalid cursor');
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Unit tests for services/budget.ts (budget evaluation)
+ *
+ * Covers:
+ * - No budget: spend is reported, never limited
+ * - Soft limit at warnAtPercent
+ * - 'block' at 100%; 'downgrade' runs on the cheaper model until hardLimitPercent
+ * - Month and reset date in UTC
+ */
+
+import { describe, it, expect } from 'vitest';
+import { evaluateBudget } from '@/lib/services/budget';
+import { BudgetSchema } from '@/lib/types';
+
+// --- Helpers ---
+
+const now = new Date('2026-03-15T12:00:00Z');
+
+const block = BudgetSchema.parse({ monthlyUsd: 10 });
+const downgrade = BudgetSchema.parse({
+  monthlyUsd: 10,
+  action: 'downgrade',
+  downgradeTo: { provider: 'gemini', model: 'gemini-2.0-flash-lite' },
+});
+
+// --- evaluateBudget ---
+
+describe('evaluateBudget', () => {
+  it('only reports spend without a budget', () => {
+    const status = evaluateBudget(1234.5, BudgetSchema.parse({}), now);
+    expect(status).toMatchObject({ state: 'ok', spentUsd: 1234.5, monthlyUsd: null, percentUsed: null });
+  });
+
+  it('warns from warnAtPercent', () => {
+    expect(evaluateBudget(7.99, block, now).state).toBe('ok');
+    expect(evaluateBudget(8, block, now)).toMatchObject({ state: 'warning', percentUsed: 80 });
+  });
+
+  it('blocks at 100% by default', () => {
+    expect(evaluateBudget(10, block, now)).toMatchObject({ state: 'exceeded', action: 'block' });
+  });
+
+  it('downgrades at 100% until the hard limit', () => {
+    expect(evaluateBudget(10.5, downgrade, now)).toMatchObject({
+      state: 'downgraded',
+      downgradeTo: { provider: 'gemini', model: 'gemini-2.0-flash-lite' },
+    });
+    expect(evaluateBudget(12, downgrade, now).state).toBe('exceeded');
+  });
+
+  it('reports the UTC month and when it resets', () => {
+    const status = evaluateBudget(0, block, new Date('2026-12-31T23:30:00Z'));
+    expect(status.month).toBe('2026-12');
+    expect(status.resetsAt).toBe('2027-01-01T00:00:00.000Z');
+  });
+
+  it('requires downgradeTo for downgrade', () => {
+    expect(BudgetSchema.safeParse({ monthlyUsd: 10, action: 'downgrade' }).success).toBe(false);
+  });
+});
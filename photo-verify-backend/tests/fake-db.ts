@@ -0,0 +1,419 @@
+/**
+ * In-memory stand-in for the Drizzle database (behavior tests)
+ *
+ * Rows live in one array per table. WHERE clauses, SET expressions,
+ * ORDER BY and selected fields are evaluated from the Drizzle SQL the
+ * services build, for the subset they use: comparisons, and / or,
+ * is [not] null, in (lists and subqueries), +, coalesce, now(), case
+ * and ->> on jsonb. Anything else throws, so a test never passes on a
+ * clause it silently ignored.
+ *
+ * Each statement applies in one synchronous step once awaited, like a
+ * row-locked UPDATE: racing calls interleave between statements, never
+ * inside one. "now()" is Date.now(), so vi.setSystemTime moves it.
+ */
+
+import { randomUUID } from 'crypto';
+import { Column, Param, SQL, StringChunk, Table, getTableColumns, is } from 'drizzle-orm';
+
+type Row = Record<string, unknown>;
+type Token = { text: string } | { value: unknown } | { column: Column } | { query: FakeSelect };
+
+// --- Column → property key ---
+
+const columnKeys = new WeakMap<Column, string>();
+
+function register(table: Table): Record<string, Column> {
+  const columns = getTableColumns(table);
+  for (const [key, column] of Object.entries(columns)) columnKeys.set(column, key);
+  return columns;
+}
+
+function keyOf(column: Column): string {
+  const key = columnKeys.get(column);
+  if (!key) throw new Error(`fake-db: column ${column.name} of an unregistered table`);
+  return key;
+}
+
+// --- SQL → tokens ---
+
+const TOKEN_PATTERN = /->>|->|<>|<=|>=|::[a-z]+|'[^']*'|[(),=<>+-]|[A-Za-z_][A-Za-z0-9_]*|\d+(?:\.\d+)?|\S/g;
+
+function tokenize(chunk: unknown, out: Token[] = []): Token[] {
+  if (is(chunk, SQL)) {
+    for (const part of chunk.queryChunks) tokenize(part, out);
+  } else if (is(chunk, StringChunk)) {
+    for (const text of chunk.value.join('').match(TOKEN_PATTERN) ?? []) {
+      if (text.startsWith('::')) continue; // Casts change nothing here
+      if (text.startsWith("'")) out.push({ value: text.slice(1, -1) });
+      else if (/^\d/.test(text)) out.push({ value: Number(text) });
+      else out.push({ text: text.toLowerCase() });
+    }
+  } else if (is(chunk, Param)) {
+    // inArray() binds a subquery that is not Drizzle's own as a parameter
+    out.push(chunk.value instanceof FakeSelect ? { query: chunk.value } : { value: chunk.value });
+  } else if (is(chunk, Column)) {
+    out.push({ column: chunk });
+  } else if (chunk instanceof FakeSelect) {
+    out.push({ query: chunk });
+  } else if (Array.isArray(chunk)) {
+    out.push({ text: '(' });
+    chunk.forEach((item, index) => {
+      if (index > 0) out.push({ text: ',' });
+      tokenize(item, out);
+    });
+    out.push({ text: ')' });
+  } else {
+    out.push({ value: chunk });
+  }
+  return out;
+}
+
+// --- Tokens → value, for one row ---
+
+const comparable = (value: unknown) => (value instanceof Date ? value.getTime() : value);
+
+function compare(op: string, a: unknown, b: unknown): boolean {
+  if (a === null || a === undefined || b === null || b === undefined) return false;
+  const [x, y] = [comparable(a), comparable(b)] as [number, number];
+  switch (op) {
+    case '=': return x === y;
+    case '<>': return x !== y;
+    case '<': return x < y;
+    case '<=': return x <= y;
+    case '>': return x > y;
+    case '>=': return x >= y;
+    default: throw new Error(`fake-db: operator ${op}`);
+  }
+}
+
+class Evaluator {
+  private pos = 0;
+  constructor(private readonly tokens: Token[], private readonly row: Row) {}
+
+  static run(expression: unknown, row: Row): unknown {
+    const evaluator = new Evaluator(tokenize(expression), row);
+    const value = evaluator.expression();
+    if (evaluator.pos < evaluator.tokens.length) evaluator.fail();
+    return value;
+  }
+
+  private peek(): string | undefined {
+    const token = this.tokens[this.pos];
+    return token && 'text' in token ? token.text : undefined;
+  }
+
+  private accept(text: string): boolean {
+    if (this.peek() !== text) return false;
+    this.pos++;
+    return true;
+  }
+
+  private expect(text: string): void {
+    if (!this.accept(text)) this.fail();
+  }
+
+  private fail(): never {
+    const near = this.tokens.slice(this.pos, this.pos + 4).map((t) => ('text' in t ? t.text : '?')).join(' ');
+    throw new Error(`fake-db: cannot evaluate near "${near}"`);
+  }
+
+  expression(): unknown {
+    let value = this.conjunction();
+    while (this.accept('or')) {
+      const right = this.conjunction();
+      value = Boolean(value) || Boolean(right);
+    }
+    return value;
+  }
+
+  private conjunction(): unknown {
+    let value = this.comparison();
+    while (this.accept('and')) {
+      const right = this.comparison();
+      value = Boolean(value) && Boolean(right);
+    }
+    return value;
+  }
+
+  private comparison(): unknown {
+    const left = this.sum();
+    const op = this.peek();
+    if (op && ['=', '<>', '<', '<=', '>', '>='].includes(op)) {
+      this.pos++;
+      return compare(op, left, this.sum());
+    }
+    if (this.accept('is')) {
+      const negated = this.accept('not');
+      this.expect('null');
+      return negated ? left !== null && left !== undefined : left === null || left === undefined;
+    }
+    if (this.accept('in')) {
+      const right = this.sum();
+      const list = Array.isArray(right) ? right : [right];
+      return list.some((item) => compare('=', left, item));
+    }
+    return left;
+  }
+
+  private sum(): unknown {
+    let value = this.postfix();
+    for (;;) {
+      if (this.accept('+')) value = (value as number) + (this.postfix() as number);
+      else if (this.accept('-')) value = (value as number) - (this.postfix() as number);
+      else return value;
+    }
+  }
+
+  private postfix(): unknown {
+    let value = this.primary();
+    for (;;) {
+      if (this.accept('->>')) {
+        const field = (value as Row | null)?.[this.literal()];
+        value = field === undefined || field === null ? null : String(field);
+      } else if (this.accept('->')) {
+        value = (value as Row | null)?.[this.literal()] ?? null;
+      } else {
+        return value;
+      }
+    }
+  }
+
+  private literal(): string {
+    const token = this.tokens[this.pos++];
+    if (!token || !('value' in token)) this.fail();
+    return String(token.value);
+  }
+
+  private list(): unknown[] {
+    const items = [this.expression()];
+    while (this.accept(',')) items.push(this.expression());
+    this.expect(')');
+    return items;
+  }
+
+  private primary(): unknown {
+    const token = this.tokens[this.pos];
+    if (!token) this.fail();
+    if ('value' in token) { this.pos++; return token.value; }
+    if ('column' in token) { this.pos++; return this.row[keyOf(token.column)] ?? null; }
+    if ('query' in token) { this.pos++; return token.query.run().map((row) => Object.values(row)[0]); }
+
+    this.pos++;
+    switch (token.text) {
+      case '(': {
+        const items = this.list();
+        return items.length === 1 ? items[0] : items;
+      }
+      case 'null': return null;
+      case 'true': return true;
+      case 'false': return false;
+      case 'now':
+        this.expect('(');
+        this.expect(')');
+        return new Date();
+      case 'coalesce':
+        this.expect('(');
+        return this.list().find((item) => item !== null && item !== undefined) ?? null;
+      case 'case': {
+        let result: unknown = null;
+        let matched = false;
+        while (this.accept('when')) {
+          const condition = this.expression();
+          this.expect('then');
+          const value = this.expression();
+          if (!matched && condition) { matched = true; result = value; }
+        }
+        if (this.accept('else')) {
+          const value = this.expression();
+          if (!matched) result = value;
+        }
+        this.expect('end');
+        return result;
+      }
+      default:
+        this.pos--;
+        return this.fail();
+    }
+  }
+}
+
+// Order-by terms: asc(column) / desc(column) or a bare column
+function sortKey(term: unknown): { value: (row: Row) => unknown; descending: boolean } {
+  const tokens = tokenize(term);
+  const last = tokens.at(-1);
+  const direction = last && 'text' in last && (last.text === 'asc' || last.text === 'desc') ? last.text : null;
+  const expression = direction ? tokens.slice(0, -1) : tokens;
+  return {
+    value: (row) => {
+      const evaluator = new Evaluator(expression, row);
+      return evaluator.expression();
+    },
+    descending: direction === 'desc',
+  };
+}
+
+function project(row: Row, fields: Record<string, unknown> | undefined): Row {
+  if (!fields) return { ...row };
+  return Object.fromEntries(Object.entries(fields).map(([alias, field]) => [alias, Evaluator.run(field, row)]));
+}
+
+// --- Statements ---
+
+abstract class Statement<T> implements PromiseLike<T> {
+  abstract run(): T;
+
+  then<A = T, B = never>(
+    onFulfilled?: ((value: T) => A | PromiseLike<A>) | null,
+    onRejected?: ((reason: unknown) => B | PromiseLike<B>) | null,
+  ): Promise<A | B> {
+    return Promise.resolve().then(() => this.run()).then(onFulfilled, onRejected);
+  }
+}
+
+export class FakeSelect extends Statement<Row[]> {
+  private table?: Table;
+  private condition?: SQL;
+  private order: unknown[] = [];
+  private max = Infinity;
+  private skip = 0;
+
+  constructor(private readonly db: FakeDb, private readonly fields?: Record<string, unknown>) {
+    super();
+  }
+
+  from(table: Table) { this.table = table; return this; }
+  where(condition: SQL | undefined) { this.condition = condition; return this; }
+  orderBy(...terms: unknown[]) { this.order = terms; return this; }
+  limit(max: number) { this.max = max; return this; }
+  offset(skip: number) { this.skip = skip; return this; }
+
+  run(): Row[] {
+    const rows = this.db.rows(this.table!).filter((row) => !this.condition || Evaluator.run(this.condition, row));
+    const keys = this.order.map(sortKey);
+    rows.sort((a, b) => {
+      for (const { value, descending } of keys) {
+        const [x, y] = [comparable(value(a)), comparable(value(b))] as [number, number];
+        if (x < y) return descending ? 1 : -1;
+        if (x > y) return descending ? -1 : 1;
+      }
+      return 0;
+    });
+    return rows.slice(this.skip, this.skip + this.max).map((row) => project(row, this.fields));
+  }
+}
+
+class FakeUpdate extends Statement<Row[]> {
+  private values: Row = {};
+  private condition?: SQL;
+  private fields?: Record<string, unknown>;
+
+  constructor(private readonly db: FakeDb, private readonly table: Table) {
+    super();
+  }
+
+  set(values: Row) { this.values = values; return this; }
+  where(condition: SQL | undefined) { this.condition = condition; return this; }
+  returning(fields?: Record<string, unknown>) { this.fields = fields; return this; }
+
+  run(): Row[] {
+    const changed: Row[] = [];
+    for (const row of this.db.rows(this.table, false)) {
+      if (this.condition && !Evaluator.run(this.condition, row)) continue;
+      const next = Object.fromEntries(
+        Object.entries(this.values)
+          .filter(([, value]) => value !== undefined)
+          .map(([key, value]) => [key, is(value, SQL) || is(value, Column) ? Evaluator.run(value, row) : value])
+      );
+      Object.assign(row, next);
+      changed.push(project(row, this.fields));
+    }
+    return changed;
+  }
+}
+
+class FakeInsert extends Statement<Row[]> {
+  private rows: Row[] = [];
+  private fields?: Record<string, unknown>;
+
+  constructor(private readonly db: FakeDb, private readonly table: Table) {
+    super();
+  }
+
+  values(values: Row | Row[]) { this.rows = Array.isArray(values) ? values : [values]; return this; }
+  returning(fields?: Record<string, unknown>) { this.fields = fields; return this; }
+
+  run(): Row[] {
+    return this.rows.map((values) => project(this.db.add(this.table, values), this.fields));
+  }
+}
+
+class FakeDelete extends Statement<Row[]> {
+  private condition?: SQL;
+  private fields?: Record<string, unknown>;
+
+  constructor(private readonly db: FakeDb, private readonly table: Table) {
+    super();
+  }
+
+  where(condition: SQL | undefined) { this.condition = condition; return this; }
+  returning(fields?: Record<string, unknown>) { this.fields = fields; return this; }
+
+  run(): Row[] {
+    const rows = this.db.rows(this.table, false);
+    const removed = rows.filter((row) => !this.condition || Evaluator.run(this.condition, row));
+    this.db.replace(this.table, rows.filter((row) => !removed.includes(row)));
+    return removed.map((row) => project(row, this.fields));
+  }
+}
+
+// --- Database ---
+
+export class FakeDb {
+  private readonly tables = new Map<Table, Row[]>();
+
+  // Copies by default, so callers never hold a live row
+  rows(table: Table, copy = true): Row[] {
+    register(table);
+    const rows = this.tables.get(table) ?? [];
+    this.tables.set(table, rows);
+    return copy ? rows.map((row) => ({ ...row })) : rows;
+  }
+
+  replace(table: Table, rows: Row[]): void {
+    this.tables.set(table, rows);
+  }
+
+  // Insert with the column defaults Postgres would fill in
+  add(table: Table, values: Row): Row {
+    const row: Row = {};
+    for (const [key, column] of Object.entries(register(table))) {
+      if (values[key] !== undefined) row[key] = values[key];
+      else if (column.defaultFn) row[key] = column.defaultFn();
+      else if (is(column.default, SQL)) row[key] = defaultOf(column.default);
+      else row[key] = column.default !== undefined ? structuredClone(column.default) : null;
+    }
+    this.rows(table, false).push(row);
+    return { ...row };
+  }
+
+  seed<T extends Row>(table: Table, values: Partial<T>): T {
+    return this.add(table, values) as T;
+  }
+
+  select(fields?: Record<string, unknown>) { return new FakeSelect(this, fields); }
+  update(table: Table) { return new FakeUpdate(this, table); }
+  insert(table: Table) { return new FakeInsert(this, table); }
+  delete(table: Table) { return new FakeDelete(this, table); }
+
+  async batch(statements: Statement<unknown>[]) {
+    return statements.map((statement) => statement.run());
+  }
+}
+
+function defaultOf(expression: SQL): unknown {
+  const text = tokenize(expression).map((t) => ('text' in t ? t.text : '')).join('');
+  if (text.includes('gen_random_uuid')) return randomUUID();
+  if (text.includes('now')) return new Date();
+  return Evaluator.run(expression, {});
+}
@@ -0,0 +1,254 @@
+/**
+ * Unit tests for services/fallback.ts
+ *
+ * Covers:
+ * - Chain order: config provider/model first, then the tenant's steps (deduplicated)
+ * - Fallback on errors, malformed JSON and timeouts, with per-attempt records
+ * - Circuit breaker: opening after repeated failures, skipping, probing after the cooldown
+ * - Provider ids: any registered provider is accepted in configs and chains, others are refused
+ *
+ * Vision providers are replaced with stubs through the provider registry.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  analyzeWithFallback,
+  buildFallbackChain,
+  createCircuitBreaker,
+  createMemoryBreakerStore,
+  type CircuitBreaker,
+} from '@/lib/services/fallback';
+import { registerVisionProvider, type VisionAnalysisWithUsage } from '@/lib/services/vision';
+import {
+  FallbackStepSchema,
+  PhotoVerificationConfigSchema,
+  type AIProvider,
+  type PhotoVerificationConfig,
+  type VisionFallbackConfig,
+} from '@/lib/types';
+
+// --- Helpers ---
+
+const images = [{ url: 'https://example.com/photo.jpg' }];
+
+const config: PhotoVerificationConfig = {
+  prompt: 'Check the fridge',
+  criteria: [{ id: 'has_products', label: 'Products visible', type: 'boolean', required: true, weight: 1 }],
+  provider: 'openai',
+  model: 'gpt-4o-mini',
+  maxRetries: 1,
+  fallbackToManual: true,
+  confidenceThreshold: 0.8,
+};
+
+function policy(overrides: Partial<VisionFallbackConfig> = {}): VisionFallbackConfig {
+  return {
+    chain: [{ provider: 'gemini', model: 'gemini-2.0-flash' }],
+    attemptTimeoutMs: 1000,
+    failureThreshold: 5,
+    windowSeconds: 60,
+    cooldownSeconds: 120,
+    ...overrides,
+  };
+}
+
+function answer(inputTokens: number = 100): VisionAnalysisWithUsage {
+  return {
+    analysis: {
+      criteria_results: [{ criterion_id: 'has_products', passed: true, value: true, confidence: 0.95, reasoning: 'ok' }],
+      overall_assessment: 'ok',
+      overall_confidence: 0.95,
+    },
+    tokenUsage: { inputTokens, outputTokens: 20 },
+  };
+}
+
+function malformed(): Error {
+  return new Error('Failed to parse model response as JSON: Sure! Here', {
+    cause: { rawResponse: 'Sure! Here is the JSON you asked for', tokenUsage: { inputTokens: 80, outputTokens: 10 } },
+  });
+}
+
+// Replace a registered provider with a stub
+function stubProvider(id: AIProvider, analyze: () => Promise<VisionAnalysisWithUsage>) {
+  const fn = vi.fn(analyze);
+  registerVisionProvider({ id, defaultModel: `${id}-default`, models: [], analyze: fn });
+  return fn;
+}
+
+const noSleep = async () => {};
+
+describe('fallback', () => {
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    breaker = createCircuitBreaker(policy(), createMemoryBreakerStore());
+  });
+
+  // --- buildFallbackChain ---
+
+  describe('buildFallbackChain', () => {
+    it('puts the config target first and drops repeated steps', () => {
+      const chain = buildFallbackChain(config, {
+        chain: [
+          { provider: 'openai', model: 'gpt-4o-mini' },
+          { provider: 'gemini', model: 'gemini-2.0-flash' },
+          { provider: 'gemini', model: 'gemini-2.0-flash' },
+        ],
+      });
+
+      expect(chain).toEqual([
+        { provider: 'openai', model: 'gpt-4o-mini' },
+        { provider: 'gemini', model: 'gemini-2.0-flash' },
+      ]);
+    });
+  });
+
+  // --- analyzeWithFallback ---
+
+  describe('analyzeWithFallback', () => {
+    it('returns the primary answer without touching the fallbacks', async () => {
+      stubProvider('openai', async () => answer());
+      const gemini = stubProvider('gemini', async () => answer());
+
+      const outcome = await analyzeWithFallback(images, config, policy(), { breaker, sleep: noSleep });
+
+      expect(outcome.analysisWithUsage).not.toBeNull();
+      expect(outcome.target).toEqual({ provider: 'openai', model: 'gpt-4o-mini' });
+      expect(outcome.attempts.map((a) => a.outcome)).toEqual(['success']);
+      expect(outcome.attempts[0].rawResponse).toContain('has_products');
+      expect(gemini).not.toHaveBeenCalled();
+    });
+
+    it('retries malformed JSON, then falls back and records every attempt', async () => {
+      const openai = stubProvider('openai', async () => { throw malformed(); });
+      stubProvider('gemini', async () => answer(100));
+      const sleep = vi.fn(noSleep);
+
+      const outcome = await analyzeWithFallback(images, config, policy(), { breaker, sleep });
+
+      expect(openai).toHaveBeenCalledTimes(2); // 1 + maxRetries
+      expect(sleep).toHaveBeenCalledWith(1000);
+      expect(outcome.target).toEqual({ provider: 'gemini', model: 'gemini-2.0-flash' });
+      expect(outcome.attempts.map((a) => `${a.provider}:${a.outcome}`)).toEqual([
+        'openai:error',
+        'openai:error',
+        'gemini:success',
+      ]);
+      expect(outcome.attempts[0].rawResponse).toBe('Sure! Here is the JSON you asked for');
+      // Malformed answers are billed too
+      expect(outcome.tokenUsage).toEqual({ inputTokens: 260, outputTokens: 40 });
+    });
+
+    it('moves on after a timeout without retrying the hanging provider', async () => {
+      vi.useFakeTimers();
+      try {
+        const openai = stubProvider('openai', () => new Promise(() => {}));
+        stubProvider('gemini', async () => answer());
+
+        const pending = analyzeWithFallback(images, config, policy({ attemptTimeoutMs: 5000 }), { breaker, sleep: noSleep });
+        await vi.advanceTimersByTimeAsync(5000);
+        const outcome = await pending;
+
+        expect(openai).toHaveBeenCalledTimes(1);
+        expect(outcome.attempts[0].error).toBe('openai/gpt-4o-mini timed out after 5000 ms');
+        expect(outcome.target.provider).toBe('gemini');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('returns no analysis when every step fails', async () => {
+      stubProvider('openai', async () => { throw new Error('503 Service Unavailable'); });
+      stubProvider('gemini', async () => { throw new Error('429 Resource exhausted'); });
+
+      const outcome = await analyzeWithFallback(images, config, policy(), { breaker, sleep: noSleep });
+
+      expect(outcome.analysisWithUsage).toBeNull();
+      expect(outcome.target).toEqual({ provider: 'openai', model: 'gpt-4o-mini' });
+      expect(outcome.attempts).toHaveLength(4);
+      expect(outcome.lastError?.message).toBe('429 Resource exhausted');
+    });
+  });
+
+  // --- Circuit breaker ---
+
+  describe('circuit breaker', () => {
+    it('opens after repeated failures and skips the provider', async () => {
+      breaker = createCircuitBreaker(policy({ failureThreshold: 2 }), createMemoryBreakerStore());
+      const openai = stubProvider('openai', async () => { throw new Error('timeout'); });
+      stubProvider('gemini', async () => answer());
+
+      const first = await analyzeWithFallback(images, config, policy(), { breaker, sleep: noSleep });
+      expect(first.attempts.map((a) => `${a.provider}:${a.outcome}`)).toEqual([
+        'openai:error',
+        'openai:error',
+        'gemini:success',
+      ]);
+
+      const second = await analyzeWithFallback(images, config, policy(), { breaker, sleep: noSleep });
+      expect(second.attempts.map((a) => `${a.provider}:${a.outcome}`)).toEqual(['openai:skipped', 'gemini:success']);
+      expect(openai).toHaveBeenCalledTimes(2);
+    });
+
+    it('stops retrying a provider as soon as its circuit opens', async () => {
+      breaker = createCircuitBreaker(policy({ failureThreshold: 1 }), createMemoryBreakerStore());
+      const openai = stubProvider('openai', async () => { throw new Error('500'); });
+      stubProvider('gemini', async () => answer());
+
+      await analyzeWithFallback(images, { ...config, maxRetries: 3 }, policy(), { breaker, sleep: noSleep });
+
+      expect(openai).toHaveBeenCalledTimes(1);
+    });
+
+    it('lets a probe through after the cooldown and closes on success', async () => {
+      let now = 0;
+      const store = createMemoryBreakerStore(() => now);
+      breaker = createCircuitBreaker(policy({ failureThreshold: 1, cooldownSeconds: 30 }), store);
+
+      await breaker.recordFailure('openai');
+      expect(await breaker.isOpen('openai')).toBe(true);
+
+      now = 31_000;
+      expect(await breaker.isOpen('openai')).toBe(false);
+
+      await breaker.recordSuccess('openai');
+      expect(await store.get('cb:openai:failures')).toBeNull();
+    });
+
+    it('stays closed when its store is unavailable', async () => {
+      const broken = createMemoryBreakerStore();
+      broken.get = async () => { throw new Error('KV down'); };
+      breaker = createCircuitBreaker(policy(), broken);
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(await breaker.isOpen('openai')).toBe(false);
+    });
+  });
+
+  // --- Provider ids ---
+
+  describe('provider ids', () => {
+    const parse = (provider: string) =>
+      PhotoVerificationConfigSchema.safeParse({ prompt: 'Check', criteria: config.criteria, provider });
+
+    it('accepts the built-in providers and refuses unknown ones', () => {
+      expect(parse('local').success).toBe(true);
+      expect(parse('anthropic').success).toBe(false);
+      expect(FallbackStepSchema.safeParse({ provider: 'anthropic' }).success).toBe(false);
+    });
+
+    it('accepts a provider once it is registered, and routes to it', async () => {
+      expect(parse('acme_vision').success).toBe(false);
+      const analyze = stubProvider('acme_vision', async () => answer());
+
+      expect(parse('acme_vision').success).toBe(true);
+      const chain = policy({ chain: [FallbackStepSchema.parse({ provider: 'acme_vision', model: 'v1' })] });
+      stubProvider('openai', async () => { throw new Error('HTTP 503'); });
+
+      const outcome = await analyzeWithFallback(images, config, chain, { breaker, sleep: noSleep });
+      expect(outcome.target).toEqual({ provider: 'acme_vision', model: 'v1' });
+      expect(analyze).toHaveBeenCalledTimes(1);
+    });
+  });
+});
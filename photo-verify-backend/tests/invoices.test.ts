@@ -0,0 +1,121 @@
+/**
+ * Unit tests for services/invoices.ts (pricing and export)
+ *
+ * Covers:
+ * - Billing months: UTC boundaries, the last closed month
+ * - Markup rules: by provider/model, by model id, default
+ * - Lines: most expensive first, amounts in cents
+ * - CSV quoting and the total row; HTML escaping
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  invoiceToCsv,
+  invoiceToHtml,
+  markupFor,
+  parseInvoiceMonth,
+  previousMonth,
+  priceLines,
+  type InvoiceWithLines,
+} from '@/lib/services/invoices';
+import { InvoicingSchema } from '@/lib/types';
+
+// --- Helpers ---
+
+const policy = InvoicingSchema.parse({
+  markupPercent: 10,
+  markupByModel: { 'gpt-4o': 50, 'gemini/gemini-2.0-flash': 20 },
+});
+
+function invoice(overrides: Partial<InvoiceWithLines> = {}): InvoiceWithLines {
+  return {
+    id: 'inv-1',
+    tenantId: 't1',
+    number: 'INV-202602-demo',
+    tenantName: 'Bottler "Demo", MX',
+    periodStart: new Date('2026-02-01T00:00:00Z'),
+    periodEnd: new Date('2026-03-01T00:00:00Z'),
+    currency: 'USD',
+    verifications: 3,
+    costUsd: 1.5,
+    totalCents: 225,
+    markupRules: policy,
+    issuedBy: 'system',
+    issuedAt: new Date('2026-03-01T04:00:00Z'),
+    lines: [{
+      id: 'line-1',
+      invoiceId: 'inv-1',
+      tenantId: 't1',
+      position: 1,
+      modelUsed: 'openai/gpt-4o',
+      description: 'Photo verifications - openai/gpt-4o',
+      verifications: 3,
+      inputTokens: 1000,
+      outputTokens: 200,
+      costUsd: 1.5,
+      markupPercent: 50,
+      amountCents: 225,
+    }],
+    ...overrides,
+  };
+}
+
+// --- Billing months ---
+
+describe('billing months', () => {
+  it('spans the UTC month, end exclusive', () => {
+    const period = parseInvoiceMonth('2026-12');
+    expect(period.start.toISOString()).toBe('2026-12-01T00:00:00.000Z');
+    expect(period.end.toISOString()).toBe('2027-01-01T00:00:00.000Z');
+  });
+
+  it('rejects anything but YYYY-MM', () => {
+    expect(() => parseInvoiceMonth('2026-13')).toThrow('Invalid invoice month');
+  });
+
+  it('knows the last closed month', () => {
+    expect(previousMonth(new Date('2026-01-01T04:00:00Z'))).toBe('2025-12');
+  });
+});
+
+// --- Pricing ---
+
+describe('priceLines', () => {
+  it('matches markups by provider/model, then model id, then the default', () => {
+    expect(markupFor('gemini/gemini-2.0-flash', policy)).toBe(20);
+    expect(markupFor('openai/gpt-4o', policy)).toBe(50);
+    expect(markupFor('openai/gpt-4o-mini', policy)).toBe(10);
+  });
+
+  it('lists the most expensive model first, priced in cents', () => {
+    const lines = priceLines([
+      { modelUsed: 'openai/gpt-4o-mini', verifications: 100, inputTokens: 1, outputTokens: 1, costUsd: 0.123456 },
+      { modelUsed: 'openai/gpt-4o', verifications: 10, inputTokens: 1, outputTokens: 1, costUsd: 2.005 },
+    ], policy);
+
+    expect(lines.map((l) => [l.position, l.modelUsed, l.markupPercent, l.amountCents])).toEqual([
+      [1, 'openai/gpt-4o', 50, 301],
+      [2, 'openai/gpt-4o-mini', 10, 14],
+    ]);
+  });
+});
+
+// --- Export ---
+
+describe('export', () => {
+  it('quotes CSV fields and ends with a total row', () => {
+    const rows = invoiceToCsv(invoice()).trim().split('\r\n');
+    expect(rows).toHaveLength(3);
+    expect(rows[1]).toBe(
+      'INV-202602-demo,"Bottler ""Demo"", MX",2026-02-01,2026-03-01,1,openai/gpt-4o,Photo verifications - openai/gpt-4o,3,1000,200,1.500000,50,2.25'
+    );
+    expect(rows[2]).toContain('Total,3,,,1.500000,,2.25');
+  });
+
+  it('escapes the printable page', () => {
+    const html = invoiceToHtml(invoice({ tenantName: '<script>x</script>' }));
+    expect(html).toContain('&lt;script&gt;x&lt;/script&gt;');
+    expect(html).toContain('2026-02-01 – 2026-02-28');
+    expect(html).not.toContain('<script>');
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Behavior tests for services/jobs.ts (the async verification worker)
+ *
+ * Covers:
+ * - Two workers picking up one job: it runs once
+ * - A running job is left alone while its lease is live and picked up
+ *   again once it expires
+ * - Jobs whose lease expired MAX_ATTEMPTS times are abandoned, not rerun
+ * - A verification that throws fails the job without a retry
+ *
+ * Runs against the in-memory fake database (tests/fake-db.ts); the
+ * verification itself is mocked.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { schema } from '@/lib/db';
+import { verifyPhotoExternal } from '@/lib/services/verification';
+import { FakeDb } from './fake-db';
+
+const fakeDb = vi.hoisted(() => ({ current: null as unknown }));
+vi.mock('@/lib/db', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/db')>();
+  return { ...actual, getDb: () => fakeDb.current ?? actual.getDb() };
+});
+vi.mock('@/lib/services/verification', () => ({ verifyPhotoExternal: vi.fn(), verifyPhoto: vi.fn() }));
+
+const { processQueuedJobs, processVerifyJob } = await import('@/lib/services/jobs');
+
+const TENANT = '00000000-0000-0000-0000-000000000001';
+const T0 = new Date('2026-03-02T10:00:00Z');
+const verify = vi.mocked(verifyPhotoExternal);
+
+let db: FakeDb;
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: T0, toFake: ['Date'] });
+  db = new FakeDb();
+  fakeDb.current = db;
+  verify.mockReset();
+  verify.mockImplementation(async () => {
+    await new Promise((resolve) => setImmediate(resolve)); // Let a racing worker run meanwhile
+    return { verificationId: 'verification-1', passed: true } as Awaited<ReturnType<typeof verifyPhotoExternal>>;
+  });
+});
+
+afterEach(() => {
+  fakeDb.current = null;
+  vi.useRealTimers();
+});
+
+function seedJob(values: Partial<schema.VerificationJob> = {}): string {
+  return db.seed<schema.VerificationJob>(schema.verificationJobs, {
+    tenantId: TENANT,
+    externalTaskId: 'ext-1',
+    payload: { externalTaskId: 'ext-1', images: [{ url: 'https://example.com/a.jpg' }], config: { criteria: [] }, context: {} },
+    auth: { tenantSlug: 'acme', userId: 'rep-1', role: 'rep' },
+    ...values,
+  }).id;
+}
+
+const job = (id: string) => db.rows(schema.verificationJobs).find((row) => row.id === id) as schema.VerificationJob;
+const at = (seconds: number) => vi.setSystemTime(new Date(T0.getTime() + seconds * 1000));
+
+// --- Claiming ---
+
+describe('processVerifyJob', () => {
+  it('runs a job once when two workers pick it up together', async () => {
+    const id = seedJob();
+    const [a, b] = await Promise.all([processVerifyJob(id), processVerifyJob(id)]);
+
+    expect([a, b].filter(Boolean)).toHaveLength(1);
+    expect(verify).toHaveBeenCalledTimes(1);
+    expect(job(id)).toMatchObject({ status: 'succeeded', attempts: 1, verificationId: 'verification-1', payload: null });
+  });
+
+  it('leaves a running job alone until its lease expires', async () => {
+    const id = seedJob({ status: 'running', attempts: 1, lockedUntil: new Date(T0.getTime() + 90_000) });
+
+    at(89);
+    expect(await processVerifyJob(id)).toBeNull();
+    expect(verify).not.toHaveBeenCalled();
+
+    at(91);
+    expect((await processVerifyJob(id))?.status).toBe('succeeded');
+    expect(job(id).attempts).toBe(2);
+  });
+
+  it('fails the job without a retry when the verification throws', async () => {
+    verify.mockRejectedValueOnce(new Error('All providers failed'));
+    const id = seedJob();
+
+    expect(await processVerifyJob(id)).toMatchObject({ status: 'failed', error: 'All providers failed', lockedUntil: null });
+    expect(await processVerifyJob(id)).toBeNull();
+    expect(verify).toHaveBeenCalledTimes(1);
+  });
+});
+
+// --- Cron worker ---
+
+describe('processQueuedJobs', () => {
+  it('abandons jobs whose lease ran out on the last attempt and reruns the others', async () => {
+    const expired = new Date(T0.getTime() - 1000);
+    const exhausted = seedJob({ status: 'running', attempts: 3, lockedUntil: expired });
+    const retried = seedJob({ status: 'running', attempts: 2, lockedUntil: expired });
+    const live = seedJob({ status: 'running', attempts: 1, lockedUntil: new Date(T0.getTime() + 60_000) });
+
+    expect(await processQueuedJobs()).toEqual({ processed: 1, succeeded: 1, failed: 0, abandoned: 1 });
+    expect(job(exhausted)).toMatchObject({ status: 'failed', error: 'Worker did not finish after 3 attempts', payload: null });
+    expect(job(retried)).toMatchObject({ status: 'succeeded', attempts: 3 });
+    expect(job(live)).toMatchObject({ status: 'running', attempts: 1 });
+    expect(verify).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after MAX_ATTEMPTS workers die mid-run', async () => {
+    const id = seedJob();
+    // Each run claims the job and "dies": the lease is left to expire
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      verify.mockImplementationOnce(() => new Promise(() => {}));
+      void processVerifyJob(id);
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(job(id)).toMatchObject({ status: 'running', attempts: attempt });
+      at(attempt * 91);
+    }
+
+    // The lease ran out again, but there is no fourth attempt
+    expect(await processVerifyJob(id)).toBeNull();
+    expect((await processQueuedJobs()).abandoned).toBe(1);
+    expect(job(id).status).toBe('failed');
+    expect(await processVerifyJob(id)).toBeNull();
+  });
+});
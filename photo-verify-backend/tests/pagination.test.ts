@@ -0,0 +1,154 @@
+/**
+ * Unit tests for db/pagination.ts (keyset cursors)
+ *
+ * Covers:
+ * - Cursors round-trip the database text of the sort value untouched
+ * - A cursor only works with the sort and order it was issued under
+ * - Malformed values are refused before reaching SQL
+ * - The next page starts after the cursor; NULLs come last ascending, first descending
+ * - The extra row fetched becomes the next cursor
+ * - GET /api/tasks and /api/verifications validate filters and cursors (400)
+ */
+
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { schema } from '@/lib/db';
+import { signToken } from '@/lib/auth/jwt';
+import { decodeCursor, encodeCursor, keysetAfter, keysetOrder, toPage, type Keyset } from '@/lib/db/pagination';
+import { ListTasksQuerySchema, ListVerificationsQuerySchema } from '@/lib/types';
+import { GET as listTasks } from '@/app/api/tasks/route';
+import { GET as listVerifications } from '@/app/api/verifications/route';
+
+// --- Helpers ---
+
+const ID = '00000000-0000-0000-0000-0000000000aa';
+const dialect = new PgDialect();
+
+function keyset(order: 'asc' | 'desc', sort: 'createdAt' | 'dueDate' | 'score' = 'createdAt'): Keyset {
+  const column = sort === 'score' ? schema.verifications.score : schema.tasks[sort];
+  return { sort: { name: sort, column, type: sort === 'score' ? 'real' : 'timestamptz' }, order, id: schema.tasks.id };
+}
+
+function render(keys: Keyset, value: string | null): { sql: string; params: unknown[] } {
+  return dialect.sqlToQuery(keysetAfter(keys, { value, id: ID }));
+}
+
+// --- Cursors ---
+
+describe('cursors', () => {
+  it('round-trip the sort value at full precision', () => {
+    const position = { value: '2026-03-01 10:15:30.123456+00', id: ID };
+    expect(decodeCursor(keyset('desc'), encodeCursor(keyset('desc'), position))).toEqual(position);
+
+    const nullPosition = { value: null, id: ID };
+    expect(decodeCursor(keyset('asc', 'dueDate'), encodeCursor(keyset('asc', 'dueDate'), nullPosition))).toEqual(nullPosition);
+  });
+
+  it('only work with the sort they were issued under', () => {
+    const cursor = encodeCursor(keyset('desc'), { value: '2026-03-01 10:15:30+00', id: ID });
+    expect(() => decodeCursor(keyset('asc'), cursor)).toThrow('Invalid cursor');
+    expect(() => decodeCursor(keyset('desc', 'dueDate'), cursor)).toThrow('Invalid cursor');
+  });
+
+  it('refuse malformed values and ids', () => {
+    const forge = (value: unknown, id: unknown) => Buffer.from(JSON.stringify(['score', 'desc', value, id])).toString('base64url');
+    expect(decodeCursor(keyset('desc', 'score'), forge('87.5', ID))).toEqual({ value: '87.5', id: ID });
+    expect(() => decodeCursor(keyset('desc', 'score'), forge("1' or 1=1", ID))).toThrow('Invalid cursor');
+    expect(() => decodeCursor(keyset('desc', 'score'), forge('87.5', 'x'))).toThrow('Invalid cursor');
+    expect(() => decodeCursor(keyset('desc'), 'not-a-cursor')).toThrow('Invalid cursor');
+  });
+});
+
+// --- SQL ---
+
+describe('keysetAfter', () => {
+  it('ascending: continues past the cursor, then into the NULLs', () => {
+    const asc = render(keyset('asc', 'dueDate'), '2026-03-01 00:00:00+00');
+    expect(asc.sql).toBe(
+      '("tasks"."due_date" > $1::timestamptz or ("tasks"."due_date" = $2::timestamptz and "tasks"."id" > $3) or "tasks"."due_date" is null)'
+    );
+    expect(asc.params).toEqual(['2026-03-01 00:00:00+00', '2026-03-01 00:00:00+00', ID]);
+
+    expect(render(keyset('asc', 'dueDate'), null).sql).toBe('("tasks"."due_date" is null and "tasks"."id" > $1)');
+  });
+
+  it('descending: NULLs first, then the values', () => {
+    expect(render(keyset('desc', 'dueDate'), null).sql).toBe(
+      '(("tasks"."due_date" is null and "tasks"."id" < $1) or "tasks"."due_date" is not null)'
+    );
+    expect(render(keyset('desc', 'dueDate'), '2026-03-01 00:00:00+00').sql).toBe(
+      '("tasks"."due_date" < $1::timestamptz or ("tasks"."due_date" = $2::timestamptz and "tasks"."id" < $3))'
+    );
+  });
+});
+
+describe('keysetOrder', () => {
+  it('orders by the sort column, then id', () => {
+    const [first, second] = keysetOrder(keyset('asc', 'dueDate')).map((part) => dialect.sqlToQuery(part).sql);
+    expect(first).toBe('"tasks"."due_date" asc');
+    expect(second).toBe('"tasks"."id" asc');
+  });
+});
+
+describe('toPage', () => {
+  it('turns the extra row into the next cursor', () => {
+    const rows = ['a', 'b', 'c'].map((n, i) => ({ id: `${ID.slice(0, -1)}${i}`, name: n, cursorValue: `2026-03-0${3 - i} 00:00:00+00` }));
+
+    const page = toPage(keyset('desc'), rows, 2);
+    expect(page.rows).toEqual([{ id: rows[0].id, name: 'a' }, { id: rows[1].id, name: 'b' }]);
+    expect(decodeCursor(keyset('desc'), page.nextCursor!)).toEqual({ value: rows[1].cursorValue, id: rows[1].id });
+
+    expect(toPage(keyset('desc'), rows, 3).nextCursor).toBeNull();
+  });
+});
+
+// --- List queries ---
+
+describe('list queries', () => {
+  it('parse task filters', () => {
+    const query = ListTasksQuerySchema.parse({ status: 'pending, manual_review', dueFrom: '2026-03-01T00:00:00Z', sort: 'dueDate', order: 'asc' });
+    expect(query).toMatchObject({ status: ['pending', 'manual_review'], sort: 'dueDate', order: 'asc', limit: 50 });
+    expect(ListTasksQuerySchema.safeParse({ status: 'pending,archived' }).success).toBe(false);
+    expect(ListTasksQuerySchema.safeParse({ sort: 'metadata' }).success).toBe(false);
+  });
+
+  it('parse verification filters', () => {
+    const query = ListVerificationsQuerySchema.parse({ passed: 'false', minConfidence: '0.5', maxConfidence: '0.8', model: 'gpt-4o' });
+    expect(query).toMatchObject({ passed: false, minConfidence: 0.5, maxConfidence: 0.8, sort: 'createdAt', order: 'desc', limit: 20 });
+    expect(ListVerificationsQuerySchema.safeParse({ minConfidence: '0.9', maxConfidence: '0.5' }).success).toBe(false);
+    expect(ListVerificationsQuerySchema.safeParse({ passed: 'yes' }).success).toBe(false);
+    expect(ListVerificationsQuerySchema.safeParse({ limit: '500' }).success).toBe(false);
+  });
+});
+
+describe('list routes', () => {
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'pagination-test-secret-0123456789';
+    delete process.env.POSTGRES_URL;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  async function get(handler: (request: NextRequest) => Promise<Response>, path: string) {
+    const token = await signToken({ tenantId: '00000000-0000-0000-0000-000000000001', tenantSlug: 'demo', role: 'viewer' });
+    const response = await handler(new NextRequest(`http://localhost${path}`, { headers: { authorization: `Bearer ${token}` } }));
+    return { status: response.status, body: await response.json() };
+  }
+
+  it('refuse invalid filters', async () => {
+    expect((await get(listTasks, '/api/tasks?dueFrom=tomorrow')).status).toBe(400);
+    expect((await get(listVerifications, '/api/verifications?passed=maybe')).status).toBe(400);
+  });
+
+  it('refuse a cursor from another sort', async () => {
+    const cursor = encodeCursor(keyset('desc'), { value: '2026-03-01 00:00:00+00', id: ID });
+
+    const tasks = await get(listTasks, `/api/tasks?sort=title&cursor=${cursor}`);
+    expect(tasks.status).toBe(400);
+    expect(tasks.body.error.message).toBe('Invalid cursor');
+
+    const verifications = await get(listVerifications, `/api/verifications?order=asc&cursor=${cursor}`);
+    expect(verifications.status).toBe(400);
+  });
+});
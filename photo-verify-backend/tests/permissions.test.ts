@@ -0,0 +1,297 @@
+/**
+ * Permission matrix for every authenticated route
+ *
+ * Covers:
+ * - Each handler requires exactly its permission: a role without
+ *   permissions is refused with that permission named, a custom role
+ *   holding only that permission gets past the check
+ * - Built-in roles: admin, operator, viewer and rep reach what ROLE_PERMISSIONS grants
+ * - Custom roles cannot hold platform permissions or reuse built-in names
+ * - Cross-tenant requests need tenants:admin
+ * - Rotating an API key needs every permission its role grants
+ * - The rep role reads only its own tasks, verifications, jobs and reviews
+ *
+ * Requests past the check fail later without a database; only the
+ * permission answer (403 + message) is asserted.
+ */
+
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import { NextRequest } from 'next/server';
+import type { SQL } from 'drizzle-orm';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { signToken } from '@/lib/auth/jwt';
+import { ROLE_PERMISSIONS, targetTenant, ungrantable } from '@/lib/auth/permissions';
+import { BUILT_IN_ROLES, CreateRoleSchema, PERMISSIONS, type Permission } from '@/lib/types';
+
+// Custom roles resolve without a database: "none" holds nothing, "only:<permission>" one permission
+vi.mock('@/lib/auth/permissions', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/auth/permissions')>();
+  return {
+    ...actual,
+    resolveRolePermissions: async (tenantId: string, role: string) => {
+      if (role === 'none') return [];
+      if (role.startsWith('only:')) return [role.slice(5)];
+      return actual.resolveRolePermissions(tenantId, role);
+    },
+  };
+});
+
+// A database for the tests that need rows; the matrix runs without one
+const fakeDb = vi.hoisted(() => ({ current: null as unknown }));
+vi.mock('@/lib/db', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/db')>();
+  return { ...actual, getDb: () => fakeDb.current ?? actual.getDb() };
+});
+
+// --- Helpers ---
+
+const TENANT = '00000000-0000-0000-0000-000000000001';
+const ID = '00000000-0000-0000-0000-0000000000aa';
+
+type Handler = (request: NextRequest, context: { params: Promise<Record<string, string>> }) => Promise<Response>;
+
+interface RouteCase {
+  method: string;
+  path: string;
+  permission: Permission;
+  load: () => Promise<Record<string, unknown>>;
+  params?: Record<string, string>;
+  body?: unknown;
+}
+
+const ROUTES: RouteCase[] = [
+  { method: 'POST', path: '/api/verify', permission: 'verifications:create', load: () => import('@/app/api/verify/route') },
+  { method: 'GET', path: `/api/verify/${ID}`, permission: 'verifications:read', load: () => import('@/app/api/verify/[jobId]/route'), params: { jobId: ID } },
+  { method: 'GET', path: `/api/verify/${ID}/events`, permission: 'verifications:read', load: () => import('@/app/api/verify/[jobId]/events/route'), params: { jobId: ID } },
+  { method: 'POST', path: '/api/upload', permission: 'verifications:create', load: () => import('@/app/api/upload/route') },
+  { method: 'GET', path: '/api/verifications', permission: 'verifications:read', load: () => import('@/app/api/verifications/route') },
+  { method: 'GET', path: '/api/tasks', permission: 'tasks:read', load: () => import('@/app/api/tasks/route') },
+  { method: 'POST', path: '/api/tasks', permission: 'tasks:write', load: () => import('@/app/api/tasks/route') },
+  { method: 'POST', path: '/api/tasks/bulk', permission: 'tasks:write', load: () => import('@/app/api/tasks/bulk/route') },
+  { method: 'GET', path: `/api/tasks/${ID}`, permission: 'tasks:read', load: () => import('@/app/api/tasks/[id]/route'), params: { id: ID } },
+  { method: 'PUT', path: `/api/tasks/${ID}`, permission: 'tasks:write', load: () => import('@/app/api/tasks/[id]/route'), params: { id: ID } },
+  { method: 'DELETE', path: `/api/tasks/${ID}`, permission: 'tasks:delete', load: () => import('@/app/api/tasks/[id]/route'), params: { id: ID } },
+  { method: 'GET', path: '/api/templates', permission: 'templates:read', load: () => import('@/app/api/templates/route') },
+  { method: 'POST', path: '/api/templates', permission: 'templates:write', load: () => import('@/app/api/templates/route') },
+  { method: 'GET', path: `/api/templates/${ID}`, permission: 'templates:read', load: () => import('@/app/api/templates/[id]/route'), params: { id: ID } },
+  { method: 'PUT', path: `/api/templates/${ID}`, permission: 'templates:write', load: () => import('@/app/api/templates/[id]/route'), params: { id: ID } },
+  { method: 'DELETE', path: `/api/templates/${ID}`, permission: 'templates:delete', load: () => import('@/app/api/templates/[id]/route'), params: { id: ID } },
+  { method: 'GET', path: `/api/templates/${ID}/versions`, permission: 'templates:read', load: () => import('@/app/api/templates/[id]/versions/route'), params: { id: ID } },
+  { method: 'POST', path: `/api/templates/${ID}/versions`, permission: 'templates:write', load: () => import('@/app/api/templates/[id]/versions/route'), params: { id: ID } },
+  { method: 'GET', path: `/api/templates/${ID}/versions/1`, permission: 'templates:read', load: () => import('@/app/api/templates/[id]/versions/[version]/route'), params: { id: ID, version: '1' } },
+  { method: 'GET', path: '/api/reviews', permission: 'verifications:read', load: () => import('@/app/api/reviews/route') },
+  { method: 'GET', path: `/api/reviews/${ID}`, permission: 'verifications:read', load: () => import('@/app/api/reviews/[id]/route'), params: { id: ID } },
+  { method: 'POST', path: `/api/reviews/${ID}/claim`, permission: 'verifications:review', load: () => import('@/app/api/reviews/[id]/claim/route'), params: { id: ID } },
+  { method: 'DELETE', path: `/api/reviews/${ID}/claim`, permission: 'verifications:review', load: () => import('@/app/api/reviews/[id]/claim/route'), params: { id: ID } },
+  { method: 'POST', path: `/api/reviews/${ID}/decision`, permission: 'verifications:review', load: () => import('@/app/api/reviews/[id]/decision/route'), params: { id: ID } },
+  { method: 'GET', path: '/api/billing', permission: 'billing:read', load: () => import('@/app/api/billing/route') },
+  { method: 'GET', path: '/api/invoices', permission: 'invoices:read', load: () => import('@/app/api/invoices/route') },
+  { method: 'POST', path: '/api/invoices', permission: 'invoices:issue', load: () => import('@/app/api/invoices/route') },
+  { method: 'GET', path: `/api/invoices/${ID}`, permission: 'invoices:read', load: () => import('@/app/api/invoices/[id]/route'), params: { id: ID } },
+  { method: 'GET', path: '/api/webhooks', permission: 'webhooks:admin', load: () => import('@/app/api/webhooks/route') },
+  { method: 'POST', path: '/api/webhooks', permission: 'webhooks:admin', load: () => import('@/app/api/webhooks/route') },
+  { method: 'DELETE', path: `/api/webhooks/${ID}`, permission: 'webhooks:admin', load: () => import('@/app/api/webhooks/[id]/route'), params: { id: ID } },
+  { method: 'GET', path: '/api/webhooks/deliveries', permission: 'webhooks:admin', load: () => import('@/app/api/webhooks/deliveries/route') },
+  { method: 'GET', path: '/api/webhooks/dead-letters', permission: 'webhooks:admin', load: () => import('@/app/api/webhooks/dead-letters/route') },
+  { method: 'POST', path: `/api/webhooks/dead-letters/${ID}/redeliver`, permission: 'webhooks:admin', load: () => import('@/app/api/webhooks/dead-letters/[id]/redeliver/route'), params: { id: ID } },
+  { method: 'GET', path: '/api/model-prices', permission: 'model-prices:admin', load: () => import('@/app/api/model-prices/route') },
+  { method: 'POST', path: '/api/model-prices', permission: 'model-prices:admin', load: () => import('@/app/api/model-prices/route') },
+  { method: 'DELETE', path: `/api/model-prices/${ID}`, permission: 'model-prices:admin', load: () => import('@/app/api/model-prices/[id]/route'), params: { id: ID } },
+  { method: 'GET', path: '/api/api-keys', permission: 'api-keys:admin', load: () => import('@/app/api/api-keys/route') },
+  { method: 'POST', path: '/api/api-keys', permission: 'api-keys:admin', load: () => import('@/app/api/api-keys/route') },
+  { method: 'DELETE', path: `/api/api-keys/${ID}`, permission: 'api-keys:admin', load: () => import('@/app/api/api-keys/[id]/route'), params: { id: ID } },
+  { method: 'POST', path: `/api/api-keys/${ID}/rotate`, permission: 'api-keys:admin', load: () => import('@/app/api/api-keys/[id]/rotate/route'), params: { id: ID } },
+  { method: 'POST', path: '/api/auth/token', permission: 'sessions:create', load: () => import('@/app/api/auth/token/route'), body: { grantType: 'emp_code', empCode: '1234567', pin: '2468', deviceId: 'device-0001' } },
+  { method: 'GET', path: '/api/auth/sessions', permission: 'sessions:admin', load: () => import('@/app/api/auth/sessions/route') },
+  { method: 'DELETE', path: '/api/auth/sessions?empCode=1234567', permission: 'sessions:admin', load: () => import('@/app/api/auth/sessions/route') },
+  { method: 'DELETE', path: `/api/auth/sessions/${ID}`, permission: 'sessions:admin', load: () => import('@/app/api/auth/sessions/[id]/route'), params: { id: ID } },
+  { method: 'GET', path: '/api/roles', permission: 'roles:admin', load: () => import('@/app/api/roles/route') },
+  { method: 'POST', path: '/api/roles', permission: 'roles:admin', load: () => import('@/app/api/roles/route') },
+  { method: 'PUT', path: `/api/roles/${ID}`, permission: 'roles:admin', load: () => import('@/app/api/roles/[id]/route'), params: { id: ID } },
+  { method: 'DELETE', path: `/api/roles/${ID}`, permission: 'roles:admin', load: () => import('@/app/api/roles/[id]/route'), params: { id: ID } },
+  { method: 'GET', path: '/api/audit', permission: 'audit:read', load: () => import('@/app/api/audit/route') },
+  { method: 'GET', path: '/api/tenants', permission: 'tenants:admin', load: () => import('@/app/api/tenants/route') },
+  { method: 'POST', path: '/api/tenants', permission: 'tenants:admin', load: () => import('@/app/api/tenants/route') },
+];
+
+async function call(route: RouteCase, role: string, userId = 'user-1'): Promise<{ status: number; message?: string }> {
+  const token = await signToken({ tenantId: TENANT, tenantSlug: 'demo', role, userId });
+  const hasBody = route.method === 'POST' || route.method === 'PUT';
+  const request = new NextRequest(`http://localhost${route.path}`, {
+    method: route.method,
+    headers: { authorization: `Bearer ${token}`, 'content-type': 'application/json' },
+    body: hasBody ? JSON.stringify(route.body ?? {}) : undefined,
+  });
+
+  const handler = (await route.load())[route.method] as Handler;
+  try {
+    const response = await handler(request, { params: Promise.resolve(route.params ?? {}) });
+    const payload = response.headers.get('content-type')?.includes('json') ? await response.json() : null;
+    return { status: response.status, message: payload?.error?.message };
+  } catch {
+    return { status: 500 }; // Past the check, failed on the missing database
+  }
+}
+
+beforeAll(() => {
+  process.env.JWT_SECRET = 'permission-matrix-secret-0123456789';
+  delete process.env.POSTGRES_URL;
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+// --- Route matrix ---
+
+describe.each(ROUTES)('$method $path', (route) => {
+  it(`requires ${route.permission}`, async () => {
+    const refused = await call(route, 'none');
+    expect(refused.status).toBe(403);
+    expect(refused.message).toBe(`This action requires the ${route.permission} permission`);
+
+    const allowed = await call(route, `only:${route.permission}`);
+    expect(allowed.status).not.toBe(403);
+  });
+
+  it.each(BUILT_IN_ROLES)('matches the %s role', async (role) => {
+    const { status } = await call(route, role);
+    expect(status === 403).toBe(!ROLE_PERMISSIONS[role].includes(route.permission));
+  });
+});
+
+// --- Roles ---
+
+describe('built-in roles', () => {
+  it('admin holds every permission, viewer only reads', () => {
+    expect([...ROLE_PERMISSIONS.admin].sort()).toEqual([...PERMISSIONS].sort());
+    expect(ROLE_PERMISSIONS.viewer.every((p) => p.endsWith(':read'))).toBe(true);
+    expect(ROLE_PERMISSIONS.operator).toContain('verifications:create');
+    expect(ROLE_PERMISSIONS.operator).not.toContain('tenants:admin');
+  });
+
+  it('rep sessions can verify photos but not review, write tasks or read billing', () => {
+    expect([...ROLE_PERMISSIONS.rep].sort()).toEqual(['tasks:read', 'verifications:create', 'verifications:read']);
+  });
+});
+
+describe('custom roles', () => {
+  it('cannot hold platform permissions or reuse built-in names', () => {
+    expect(CreateRoleSchema.safeParse({ name: 'auditor', permissions: ['billing:read', 'invoices:read'] }).success).toBe(true);
+    expect(CreateRoleSchema.safeParse({ name: 'auditor', permissions: ['tenants:admin'] }).success).toBe(false);
+    expect(CreateRoleSchema.safeParse({ name: 'admin', permissions: ['tasks:read'] }).success).toBe(false);
+  });
+
+  it('never grant more than the caller holds', () => {
+    const manager = { role: 'manager', permissions: ['roles:admin', 'tasks:read'] as Permission[] };
+    expect(ungrantable(manager, ['tasks:read'])).toEqual([]);
+    expect(ungrantable(manager, ['tasks:read', 'tasks:delete'])).toEqual(['tasks:delete']);
+  });
+
+  it('only reach another tenant with tenants:admin', () => {
+    const other = '00000000-0000-0000-0000-000000000002';
+    expect(targetTenant({ tenantId: TENANT, tenantSlug: 'demo', role: 'admin' }, other)).toBe(other);
+    expect(targetTenant({ tenantId: TENANT, tenantSlug: 'demo', role: 'manager', permissions: ['roles:admin'] }, other)).toBe(TENANT);
+  });
+});
+
+describe('API key rotation', () => {
+  const adminKey = {
+    id: ID,
+    tenantId: TENANT,
+    name: 'ERP sync',
+    prefix: 'pvk_live_abcd',
+    role: 'admin',
+    scopes: [],
+    expiresAt: null,
+    revokedAt: null,
+  };
+
+  async function rotate(role: string): Promise<{ status: number; message?: string; batched: boolean }> {
+    const batch = vi.fn(async () => { throw new Error('not written in this test'); });
+    const query = { from: () => query, where: () => query, limit: async () => [adminKey] };
+    const statement = { values: () => statement, set: () => statement, where: () => statement };
+    fakeDb.current = { select: () => query, insert: () => statement, update: () => statement, batch };
+    try {
+      const route = { method: 'POST', path: `/api/api-keys/${ID}/rotate`, permission: 'api-keys:admin' as Permission, load: () => import('@/app/api/api-keys/[id]/rotate/route'), params: { id: ID } };
+      return { ...await call(route, role), batched: batch.mock.calls.length > 0 };
+    } finally {
+      fakeDb.current = null;
+    }
+  }
+
+  it('refuses to rotate a key whose role grants more than the caller holds', async () => {
+    const { status, message, batched } = await rotate('only:api-keys:admin');
+    expect(status).toBe(403);
+    expect(message).toContain('Role admin grants permissions you do not hold');
+    expect(message).toContain('tenants:admin');
+    expect(batched).toBe(false);
+  });
+
+  it('rotates it for a caller holding the whole role', async () => {
+    expect((await rotate('admin')).batched).toBe(true);
+  });
+});
+
+describe('rep reads', () => {
+  // The condition each read must add: tasks by assignee, the rest by submitter
+  const ASSIGNED = '"assigned_to" = ';
+  const SUBMITTED = '"submitted_by" = ';
+  const reads: Array<RouteCase & { owners: string[]; found?: unknown[][] }> = [
+    { method: 'GET', path: '/api/tasks', permission: 'tasks:read', load: () => import('@/app/api/tasks/route'), owners: [ASSIGNED] },
+    { method: 'GET', path: `/api/tasks/${ID}`, permission: 'tasks:read', load: () => import('@/app/api/tasks/[id]/route'), params: { id: ID }, owners: [ASSIGNED, SUBMITTED], found: [[{ id: ID }], []] },
+    { method: 'GET', path: '/api/verifications', permission: 'verifications:read', load: () => import('@/app/api/verifications/route'), owners: [SUBMITTED] },
+    { method: 'GET', path: `/api/verify/${ID}`, permission: 'verifications:read', load: () => import('@/app/api/verify/[jobId]/route'), params: { jobId: ID }, owners: [`->>'userId' = `] },
+    { method: 'GET', path: '/api/reviews', permission: 'verifications:read', load: () => import('@/app/api/reviews/route'), owners: [SUBMITTED] },
+    { method: 'GET', path: `/api/reviews/${ID}`, permission: 'verifications:read', load: () => import('@/app/api/reviews/[id]/route'), params: { id: ID }, owners: [SUBMITTED] },
+  ];
+
+  // The WHERE clause of each row query, rendered as Postgres would receive it
+  // (found: the rows each of those queries returns, in order; none by default)
+  async function filters(route: RouteCase & { found?: unknown[][] }, role: string, userId: string): Promise<Array<{ sql: string; params: unknown[] }>> {
+    const dialect = new PgDialect();
+    const found = [...(route.found ?? [])];
+    const queries: Array<{ sql: string; params: unknown[] }> = [];
+    let rows: unknown[] = [];
+    const query: Record<string, unknown> = {
+      from: () => query,
+      innerJoin: () => query,
+      where: (where: SQL) => {
+        const rendered = dialect.sqlToQuery(where);
+        const tenantLookup = rendered.sql.startsWith('"tenants".'); // Tenant settings
+        if (!tenantLookup) queries.push(rendered);
+        rows = tenantLookup ? [] : found.shift() ?? [];
+        return query;
+      },
+      orderBy: () => query,
+      limit: () => query,
+      offset: () => query,
+      then: (resolve: (rows: unknown[]) => void) => resolve(rows),
+    };
+    fakeDb.current = { select: () => query };
+    try {
+      await call(route, role, userId);
+    } finally {
+      fakeDb.current = null;
+    }
+    return queries;
+  }
+
+  function ownerParam(query: { sql: string; params: unknown[] }, owners: string[]): unknown {
+    for (const owner of owners) {
+      const at = query.sql.indexOf(owner);
+      if (at >= 0) return query.params[Number(/^\$(\d+)/.exec(query.sql.slice(at + owner.length))![1]) - 1];
+    }
+    return undefined;
+  }
+
+  it.each(reads)('$path: a rep only matches its own rows', async (route) => {
+    const queries = await filters(route, 'rep', 'rep-1');
+    expect(queries.length).toBe(route.found?.length ?? 1);
+    for (const query of queries) expect(ownerParam(query, route.owners)).toBe('rep-1');
+  });
+
+  it.each(reads)('$path: other roles are not scoped', async (route) => {
+    for (const query of await filters(route, 'operator', 'user-1')) {
+      expect(ownerParam(query, route.owners)).toBeUndefined();
+    }
+  });
+});
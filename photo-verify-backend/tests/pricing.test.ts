@@ -0,0 +1,72 @@
+/**
+ * Unit tests for services/pricing.ts (effective-dated prices)
+ *
+ * Covers:
+ * - The price in effect at a time, end exclusive
+ * - Tenant overrides before list prices, built-in defaults last
+ * - Cost estimates with a given price
+ * - Range planning: an open price closes the current one, overlaps are refused
+ */
+
+import { describe, it, expect } from 'vitest';
+import { planPriceInsert, selectPrice } from '@/lib/services/pricing';
+import { DEFAULT_MODEL_PRICING, estimateCostUsd } from '@/lib/services/vision';
+
+// --- Helpers ---
+
+const d = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+function price(model: string, tenantId: string | null, inputPer1M: number, from: string, to: string | null = null) {
+  return { model, tenantId, inputPer1M, outputPer1M: inputPer1M * 4, effectiveFrom: d(from), effectiveTo: to ? d(to) : null };
+}
+
+const rows = [
+  price('gpt-4o-mini', null, 0.15, '2026-01-01', '2026-04-01'),
+  price('gpt-4o-mini', null, 0.12, '2026-04-01'),
+  price('gpt-4o-mini', 't1', 0.10, '2026-03-01'),
+];
+
+// --- selectPrice ---
+
+describe('selectPrice', () => {
+  it('uses the list price in effect at the time', () => {
+    expect(selectPrice(rows, 'gpt-4o-mini', 't2', d('2026-03-31'))?.inputPer1M).toBe(0.15);
+    expect(selectPrice(rows, 'gpt-4o-mini', 't2', d('2026-04-01'))?.inputPer1M).toBe(0.12);
+  });
+
+  it("prefers the tenant's negotiated price once it applies", () => {
+    expect(selectPrice(rows, 'gpt-4o-mini', 't1', d('2026-02-15'))?.inputPer1M).toBe(0.15);
+    expect(selectPrice(rows, 'gpt-4o-mini', 't1', d('2026-05-01'))?.inputPer1M).toBe(0.10);
+  });
+
+  it('falls back to the built-in price', () => {
+    expect(selectPrice(rows, 'gpt-4o', 't1', d('2026-05-01'))).toEqual(DEFAULT_MODEL_PRICING['gpt-4o']);
+    expect(selectPrice(rows, 'gpt-4o-mini', 't1', d('2025-12-31'))).toEqual(DEFAULT_MODEL_PRICING['gpt-4o-mini']);
+  });
+
+  it('costs usage with the given price', () => {
+    const usage = { inputTokens: 1_000_000, outputTokens: 500_000 };
+    expect(estimateCostUsd('gpt-4o-mini', usage, { inputPer1M: 0.1, outputPer1M: 0.4 })).toBe(0.3);
+    expect(estimateCostUsd('gpt-4o-mini', usage)).toBe(0.45);
+  });
+});
+
+// --- planPriceInsert ---
+
+describe('planPriceInsert', () => {
+  const current = { id: 'current', effectiveFrom: d('2026-01-01'), effectiveTo: null };
+  const closed = { id: 'closed', effectiveFrom: d('2025-01-01'), effectiveTo: d('2026-01-01') };
+
+  it('closes the open range a new open price replaces', () => {
+    expect(planPriceInsert([closed, current], d('2026-06-01'), null)).toBe(current);
+  });
+
+  it('adds a range that touches no other', () => {
+    expect(planPriceInsert([closed], d('2026-01-01'), null)).toBeNull();
+  });
+
+  it('refuses overlaps', () => {
+    expect(() => planPriceInsert([closed, current], d('2025-06-01'), null)).toThrow('Price overlaps');
+    expect(() => planPriceInsert([current], d('2026-06-01'), d('2026-07-01'))).toThrow('Price overlaps current');
+  });
+});
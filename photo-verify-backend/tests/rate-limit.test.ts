@@ -0,0 +1,188 @@
+/**
+ * Unit tests for lib/rate-limit
+ *
+ * Covers:
+ * - Sliding window: the previous window's weight decays as the current one advances
+ * - Retry time once the limit is hit
+ * - Fixed windows (daily quota)
+ * - The memory store evicts expired windows of keys that never come back
+ * - Middleware: endpoint limit, tenant quotas from tenants.config, fail open / closed
+ * - Per-client limits for routes without a tenant
+ *
+ * Uses the in-memory store; the tenant config read is mocked.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  checkRateLimit,
+  clientIp,
+  clientRateLimit,
+  createMemoryRateLimitStore,
+  rateLimitMiddleware,
+  secondsUntilAllowed,
+  slidingWindowCount,
+} from '@/lib/rate-limit';
+import { getTenantConfig } from '@/lib/services/tenants';
+
+vi.mock('@/lib/services/tenants', () => ({ getTenantConfig: vi.fn() }));
+
+const getTenantConfigMock = vi.mocked(getTenantConfig);
+
+// --- Helpers ---
+
+const T0 = Date.UTC(2026, 0, 1, 12, 0, 0); // Start of a minute window (and of a day window + 12h)
+
+async function hit(times: number, key: string, config: Parameters<typeof checkRateLimit>[1], store: ReturnType<typeof createMemoryRateLimitStore>, at: number) {
+  let last;
+  for (let i = 0; i < times; i++) last = await checkRateLimit(key, config, store, at);
+  return last!;
+}
+
+// --- Sliding window math ---
+
+describe('sliding window', () => {
+  it('weights the previous window by its remaining overlap', () => {
+    expect(slidingWindowCount(10, 2, 15, 60)).toBe(9.5);
+    expect(slidingWindowCount(10, 2, 60, 60)).toBe(2);
+  });
+
+  it('waits until enough of the previous window has slid out', () => {
+    // 10 * (1 - e/60) + 6 <= 9  →  e >= 42
+    expect(secondsUntilAllowed(10, 6, 30, 60, 10)).toBe(12);
+  });
+
+  it('waits into the next window when the current one alone is full', () => {
+    // Next window: 10 * (1 - e/60) <= 9  →  e >= 6
+    expect(secondsUntilAllowed(0, 10, 30, 60, 10)).toBe(36);
+  });
+});
+
+// --- checkRateLimit ---
+
+describe('checkRateLimit', () => {
+  const limit = { maxRequests: 5, windowSeconds: 60 };
+
+  it('allows up to the limit, then denies', async () => {
+    const store = createMemoryRateLimitStore(() => T0);
+    const fifth = await hit(5, 'a', limit, store, T0);
+    expect(fifth).toMatchObject({ allowed: true, remaining: 0, limit: 5 });
+
+    const sixth = await checkRateLimit('a', limit, store, T0);
+    expect(sixth.allowed).toBe(false);
+  });
+
+  it('carries the previous window over instead of resetting at the boundary', async () => {
+    let now = T0;
+    const store = createMemoryRateLimitStore(() => now);
+    await hit(5, 'b', limit, store, now);
+
+    // 6 s into the next window, 90% of the previous 5 still counts
+    now = T0 + 66_000;
+    expect((await checkRateLimit('b', limit, store, now)).allowed).toBe(false);
+
+    // Halfway through, 2.5 + 1 fits
+    now = T0 + 90_000;
+    expect((await checkRateLimit('b', limit, store, now)).allowed).toBe(true);
+  });
+
+  it('resets a fixed window at its boundary', async () => {
+    let now = T0;
+    const store = createMemoryRateLimitStore(() => now);
+    const daily = { maxRequests: 3, windowSeconds: 86400, sliding: false };
+    await hit(3, 'c', daily, store, now);
+
+    const denied = await checkRateLimit('c', daily, store, now);
+    expect(denied.allowed).toBe(false);
+    expect(denied.resetAt).toBe(Date.UTC(2026, 0, 2) / 1000);
+
+    now = Date.UTC(2026, 0, 2, 0, 0, 1);
+    expect((await checkRateLimit('c', daily, store, now)).allowed).toBe(true);
+  });
+});
+
+// --- Memory store ---
+
+describe('createMemoryRateLimitStore', () => {
+  it('evicts expired windows of keys that are never read again', async () => {
+    let now = T0;
+    const store = createMemoryRateLimitStore(() => now);
+    for (let i = 0; i < 100; i++) await store.incr(`client:${i}`, 60);
+    expect(store.size()).toBe(100);
+
+    // Still within their TTL and the sweep interval: kept
+    now = T0 + 59_000;
+    await store.incr('later', 60);
+    expect(store.size()).toBe(101);
+
+    now = T0 + 61_000;
+    await store.incr('later', 60);
+    expect(store.size()).toBe(1);
+    expect(await store.get('later')).toBe(2);
+  });
+});
+
+// --- rateLimitMiddleware ---
+
+describe('rateLimitMiddleware', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    delete process.env.RATE_LIMIT_FAIL_MODE;
+  });
+
+  it('enforces the tenant daily quota across endpoints', async () => {
+    getTenantConfigMock.mockResolvedValue({ maxRequestsPerMinute: 100, maxRequestsPerDay: 2 });
+
+    expect(await rateLimitMiddleware('tenant-quota', 'tasks:list')).toBeNull();
+    expect(await rateLimitMiddleware('tenant-quota', 'upload')).toBeNull();
+
+    const response = await rateLimitMiddleware('tenant-quota', 'verify');
+    expect(response?.status).toBe(429);
+    const body = await response!.json();
+    expect(body.error.code).toBe('QUOTA_EXCEEDED');
+    expect(body.error.details.scope).toBe('tenant_day');
+  });
+
+  it('applies the endpoint limit first', async () => {
+    getTenantConfigMock.mockResolvedValue({});
+
+    expect(await rateLimitMiddleware('tenant-endpoint', 'verify', { maxRequests: 1 })).toBeNull();
+    const response = await rateLimitMiddleware('tenant-endpoint', 'verify', { maxRequests: 1 });
+    expect(response?.status).toBe(429);
+    expect(response!.headers.get('X-RateLimit-Limit')).toBe('1');
+    expect((await response!.json()).error.details.scope).toBe('endpoint');
+  });
+
+  it('fails open by default and closed when configured', async () => {
+    getTenantConfigMock.mockRejectedValue(new Error('database unavailable'));
+
+    expect(await rateLimitMiddleware('tenant-down', 'verify')).toBeNull();
+
+    process.env.RATE_LIMIT_FAIL_MODE = 'closed';
+    const response = await rateLimitMiddleware('tenant-down', 'verify');
+    expect(response?.status).toBe(503);
+    expect((await response!.json()).error.code).toBe('RATE_LIMIT_UNAVAILABLE');
+  });
+});
+
+// --- clientRateLimit ---
+
+describe('clientRateLimit', () => {
+  it('counts each client separately', async () => {
+    expect(await clientRateLimit('auth:refresh', 'device:a', { maxRequests: 1 })).toBeNull();
+    expect(await clientRateLimit('auth:refresh', 'device:b', { maxRequests: 1 })).toBeNull();
+
+    const response = await clientRateLimit('auth:refresh', 'device:a', { maxRequests: 1 });
+    expect(response?.status).toBe(429);
+    expect((await response!.json()).error.details.scope).toBe('client');
+  });
+
+  it('reads the first forwarded address', () => {
+    expect(clientIp(new Request('http://localhost', { headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1' } }))).toBe('203.0.113.7');
+    expect(clientIp(new Request('http://localhost', { headers: { 'x-real-ip': '203.0.113.8' } }))).toBe('203.0.113.8');
+    expect(clientIp(new Request('http://localhost'))).toBe('unknown');
+  });
+});
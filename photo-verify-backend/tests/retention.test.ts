@@ -0,0 +1,89 @@
+/**
+ * Unit tests for services/retention.ts (purge planning)
+ *
+ * Covers:
+ * - Per-outcome limits: passed vs failed verifications
+ * - Rows sharing any photo (reviewer decisions) are purged together, once all are due
+ * - Photos under a pending review are kept
+ * - Every image of a group is collected once
+ */
+
+import { describe, it, expect } from 'vitest';
+import { imagesOf, planPurge, type PurgeCandidate } from '@/lib/services/retention';
+import { ImageRetentionSchema } from '@/lib/types';
+
+// --- Helpers ---
+
+const policy = ImageRetentionSchema.parse({ enabled: true, passedDays: 30, failedDays: 180 });
+const now = new Date('2026-06-01T00:00:00Z');
+
+function daysAgo(days: number): Date {
+  return new Date(now.getTime() - days * 24 * 3600 * 1000);
+}
+
+function row(id: string, passed: boolean, ageDays: number, imageUrl: string | null = `storage:t1/${id}.jpg`): PurgeCandidate {
+  return {
+    id,
+    imageUrl,
+    imageUrls: imageUrl ? [{ url: imageUrl }] : [],
+    passed,
+    createdAt: daysAgo(ageDays),
+  };
+}
+
+function ids(groups: PurgeCandidate[][]): string[][] {
+  return groups.map((group) => group.map((r) => r.id));
+}
+
+// --- planPurge ---
+
+describe('planPurge', () => {
+  it('applies the limit of each outcome', () => {
+    const rows = [row('passed-old', true, 31), row('passed-new', true, 29), row('failed-mid', false, 90), row('failed-old', false, 181)];
+    expect(ids(planPurge(rows, policy, now))).toEqual([['passed-old'], ['failed-old']]);
+  });
+
+  it('waits for every row sharing the photo', () => {
+    // The AI verification failed 40 days ago; the reviewer approved it a day later
+    const shared = 'storage:t1/shared.jpg';
+    const rows = [row('ai', false, 40, shared), row('manual', true, 39, shared)];
+    expect(planPurge(rows, policy, now)).toEqual([]);
+
+    const later = new Date(now.getTime() + 141 * 24 * 3600 * 1000);
+    expect(ids(planPurge(rows, policy, later))).toEqual([['ai', 'manual']]);
+  });
+
+  it('keeps photos under a pending review', () => {
+    const rows = [row('pending', false, 200), row('done', false, 200)];
+    expect(ids(planPurge(rows, policy, now, new Set(['pending'])))).toEqual([['done']]);
+  });
+
+  it('groups rows sharing any photo of their image set', () => {
+    // Only the side photo is shared; the first images differ
+    const rows: PurgeCandidate[] = [
+      { ...row('a', true, 40, 'storage:t1/a.jpg'), imageUrls: [{ url: 'storage:t1/a.jpg' }, { url: 'storage:t1/side.jpg' }] },
+      { ...row('b', true, 20, 'storage:t1/b.jpg'), imageUrls: [{ url: 'storage:t1/b.jpg' }, { url: 'storage:t1/side.jpg' }] },
+      row('c', true, 40),
+    ];
+    expect(ids(planPurge(rows, policy, now))).toEqual([['c']]);
+
+    const later = new Date(now.getTime() + 10 * 24 * 3600 * 1000);
+    expect(ids(planPurge(rows, policy, later))).toEqual([['a', 'b'], ['c']]);
+  });
+
+  it('skips rows already purged', () => {
+    expect(planPurge([row('purged', true, 100, null)], policy, now)).toEqual([]);
+  });
+});
+
+// --- imagesOf ---
+
+describe('imagesOf', () => {
+  it('collects the first image and the image set once', () => {
+    const group: PurgeCandidate[] = [
+      { ...row('a', true, 40, 'storage:t1/front.jpg'), imageUrls: [{ url: 'storage:t1/front.jpg' }, { url: 'storage:t1/side.jpg', label: 'side' }] },
+      { ...row('b', true, 40, 'storage:t1/front.jpg'), imageUrls: [{ url: 'storage:t1/front.jpg' }, { url: 'storage:t1/side.jpg' }] },
+    ];
+    expect(imagesOf(group)).toEqual(['storage:t1/front.jpg', 'storage:t1/side.jpg']);
+  });
+});
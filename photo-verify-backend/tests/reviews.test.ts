@@ -0,0 +1,151 @@
+/**
+ * Behavior tests for services/reviews.ts (claims and decisions)
+ *
+ * Covers:
+ * - Two reviewers claiming at once: exactly one wins
+ * - A lapsed lease can be taken over; the holder can renew its own
+ * - Only the live lease holder can resolve, and only once
+ * - A resolved item cannot be claimed again
+ *
+ * Runs against the in-memory fake database (tests/fake-db.ts).
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { schema } from '@/lib/db';
+import { ReviewDecisionSchema } from '@/lib/types';
+import { FakeDb } from './fake-db';
+
+const fakeDb = vi.hoisted(() => ({ current: null as unknown }));
+vi.mock('@/lib/db', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/db')>();
+  return { ...actual, getDb: () => fakeDb.current ?? actual.getDb() };
+});
+
+const { claimReview, releaseReview, resolveReview } = await import('@/lib/services/reviews');
+
+const TENANT = '00000000-0000-0000-0000-000000000001';
+const T0 = new Date('2026-03-02T10:00:00Z');
+const reviewer = (userId: string) => ({ tenantId: TENANT, tenantSlug: 'acme', role: 'operator', userId });
+const alice = reviewer('alice');
+const bob = reviewer('bob');
+
+let db: FakeDb;
+let item: schema.ReviewQueueItem;
+let verification: schema.Verification;
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: T0, toFake: ['Date'] });
+  db = new FakeDb();
+  fakeDb.current = db;
+  db.seed(schema.tenants, { id: TENANT, name: 'Acme', slug: 'acme', config: {} });
+  verification = db.seed<schema.Verification>(schema.verifications, {
+    tenantId: TENANT,
+    externalTaskId: 'ext-1',
+    passed: false,
+    overallConfidence: 0.4,
+    criteriaResults: [{ criterionId: 'shelf', passed: false, confidence: 0.4, reasoning: 'blurry' }],
+    modelUsed: 'gpt-4o-mini',
+    processingTimeMs: 1200,
+    submittedBy: 'rep-7',
+    customerId: 'store-12',
+    imageHashes: ['ffffffffffffffff'],
+  });
+  item = db.seed<schema.ReviewQueueItem>(schema.reviewQueue, {
+    tenantId: TENANT,
+    verificationId: verification.id,
+    externalTaskId: 'ext-1',
+    reason: 'low_confidence',
+  });
+});
+
+afterEach(() => {
+  fakeDb.current = null;
+  vi.useRealTimers();
+});
+
+const current = () => db.rows(schema.reviewQueue).find((row) => row.id === item.id) as schema.ReviewQueueItem;
+const advance = (seconds: number) => vi.setSystemTime(new Date(Date.now() + seconds * 1000));
+
+// --- Claims ---
+
+describe('claimReview', () => {
+  it('lets exactly one of two simultaneous claims win', async () => {
+    const [a, b] = await Promise.all([claimReview(alice, item.id, 300), claimReview(bob, item.id, 300)]);
+
+    expect([a, b].filter(Boolean)).toHaveLength(1);
+    expect(current().claimedBy).toBe(a ? 'alice' : 'bob');
+  });
+
+  it('refuses a live lease held by someone else and renews the holder\'s own', async () => {
+    await claimReview(alice, item.id, 300);
+    advance(200);
+    expect(await claimReview(bob, item.id, 300)).toBeNull();
+
+    const renewed = await claimReview(alice, item.id, 300);
+    expect(renewed?.claimExpiresAt).toEqual(new Date(T0.getTime() + 500_000));
+  });
+
+  it('hands a lapsed lease to the next reviewer', async () => {
+    await claimReview(alice, item.id, 300);
+    advance(301);
+
+    expect((await claimReview(bob, item.id, 300))?.claimedBy).toBe('bob');
+    expect(await releaseReview(alice, item.id)).toBeNull();
+    expect(current().claimedBy).toBe('bob');
+  });
+});
+
+// --- Decisions ---
+
+describe('resolveReview', () => {
+  const approve = ReviewDecisionSchema.parse({ decision: 'approve', notes: 'Shelf is fine' });
+  const reject = ReviewDecisionSchema.parse({ decision: 'reject' });
+
+  it('only accepts the decision of the live lease holder', async () => {
+    await claimReview(alice, item.id, 300);
+    advance(301);
+    await claimReview(bob, item.id, 300);
+
+    expect(await resolveReview(alice, item, verification, approve)).toBeNull();
+    expect(current().status).toBe('pending');
+
+    const resolved = await resolveReview(bob, item, verification, approve);
+    expect(resolved?.review.status).toBe('approved');
+    expect(resolved?.review.resolvedBy).toBe('bob');
+    expect(resolved?.review.resolutionVerificationId).toBe(resolved?.verification.id);
+  });
+
+  it('carries the submission\'s rep, store and photo hashes onto the decision', async () => {
+    await claimReview(alice, item.id, 300);
+    const resolved = await resolveReview(alice, item, verification, approve);
+
+    expect(resolved?.verification).toMatchObject({
+      mode: 'manual',
+      submittedBy: 'rep-7',
+      customerId: 'store-12',
+      imageHashes: ['ffffffffffffffff'],
+    });
+  });
+
+  it('records one decision when the holder submits twice at once', async () => {
+    await claimReview(alice, item.id, 300);
+    const outcomes = await Promise.all([
+      resolveReview(alice, item, verification, approve),
+      resolveReview(alice, item, verification, reject),
+    ]);
+
+    expect(outcomes.filter(Boolean)).toHaveLength(1);
+    expect(db.rows(schema.verifications).filter((row) => row.mode === 'manual')).toHaveLength(1);
+  });
+
+  it('refuses a decision once the lease lapsed, and claims on a resolved item', async () => {
+    await claimReview(alice, item.id, 60);
+    advance(61);
+    expect(await resolveReview(alice, item, verification, approve)).toBeNull();
+
+    await claimReview(alice, item.id, 60);
+    await resolveReview(alice, item, verification, approve);
+    expect(await claimReview(bob, item.id, 300)).toBeNull();
+    expect(await claimReview(alice, item.id, 300)).toBeNull();
+  });
+});
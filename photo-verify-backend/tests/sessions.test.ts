@@ -0,0 +1,211 @@
+/**
+ * Unit tests for auth/sessions.ts (rep sessions)
+ *
+ * Covers:
+ * - Refresh token format and session id parsing
+ * - Refresh verdicts: rotate, reuse of the previous token, device binding,
+ *   revoked and expired sessions
+ * - Token exchange validation
+ * - Refreshes are rate limited per device and per IP
+ * - PINs: salted hashes; an exchange needs the rep's PIN, counts wrong ones,
+ *   honours a lockout and is rate limited per emp_code
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createHash } from 'crypto';
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/auth/token/route';
+import { signToken } from '@/lib/auth/jwt';
+import { hashPin, pinMatches } from '@/lib/auth/pins';
+import { generateRefreshToken, judgeRefresh, parseRefreshToken } from '@/lib/auth/sessions';
+import { TokenExchangeSchema } from '@/lib/types';
+
+// A database for the exchange tests; the others run without one
+const fakeDb = vi.hoisted(() => ({ current: null as unknown }));
+vi.mock('@/lib/db', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/db')>();
+  return { ...actual, getDb: () => fakeDb.current ?? actual.getDb() };
+});
+
+// --- Helpers ---
+
+const sessionId = '3f1c2a9e-8b7d-4c6e-9f0a-1b2c3d4e5f60';
+const hash = (token: string) => createHash('sha256').update(token).digest('hex');
+const now = new Date('2026-05-01T12:00:00Z');
+
+const current = generateRefreshToken(sessionId);
+const previous = generateRefreshToken(sessionId);
+
+const session = {
+  deviceId: 'device-0001',
+  refreshTokenHash: hash(current),
+  previousTokenHash: hash(previous),
+  expiresAt: new Date('2026-05-31T12:00:00Z'),
+  revokedAt: null,
+};
+
+// --- Token format ---
+
+describe('refresh tokens', () => {
+  it('carry their session id', () => {
+    expect(parseRefreshToken(current)).toEqual({ sessionId });
+    expect(current).not.toBe(previous);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseRefreshToken('pvr_not-a-session.abc')).toBeNull();
+    expect(parseRefreshToken(`pvk_${sessionId}.${current.split('.')[1]}`)).toBeNull();
+  });
+});
+
+// --- judgeRefresh ---
+
+describe('judgeRefresh', () => {
+  it('rotates the current token on its device', () => {
+    expect(judgeRefresh(session, hash(current), 'device-0001', now)).toBe('rotate');
+  });
+
+  it('refuses the current token from another device', () => {
+    expect(judgeRefresh(session, hash(current), 'device-0002', now)).toBe('wrong_device');
+  });
+
+  it('detects reuse of the previous token', () => {
+    expect(judgeRefresh(session, hash(previous), 'device-0001', now)).toBe('reuse');
+  });
+
+  it('refuses unknown tokens', () => {
+    expect(judgeRefresh(session, hash(generateRefreshToken(sessionId)), 'device-0001', now)).toBe('invalid');
+  });
+
+  it('refuses revoked and expired sessions first', () => {
+    expect(judgeRefresh({ ...session, revokedAt: now }, hash(current), 'device-0001', now)).toBe('revoked');
+    expect(judgeRefresh({ ...session, expiresAt: now }, hash(current), 'device-0001', now)).toBe('expired');
+  });
+});
+
+describe('TokenExchangeSchema', () => {
+  it('accepts both grants', () => {
+    expect(TokenExchangeSchema.safeParse({ grantType: 'emp_code', empCode: '1234567', pin: '2468', deviceId: 'device-0001' }).success).toBe(true);
+    expect(TokenExchangeSchema.safeParse({ grantType: 'refresh_token', refreshToken: current, deviceId: 'device-0001' }).success).toBe(true);
+  });
+
+  it('requires a device id', () => {
+    expect(TokenExchangeSchema.safeParse({ grantType: 'emp_code', empCode: '1234567', pin: '2468' }).success).toBe(false);
+  });
+
+  it('requires a PIN of 4 to 12 digits for the exchange', () => {
+    const exchange = { grantType: 'emp_code', empCode: '1234567', deviceId: 'device-0001' };
+    expect(TokenExchangeSchema.safeParse(exchange).success).toBe(false);
+    expect(TokenExchangeSchema.safeParse({ ...exchange, pin: '123' }).success).toBe(false);
+    expect(TokenExchangeSchema.safeParse({ ...exchange, pin: '12ab' }).success).toBe(false);
+  });
+});
+
+// --- PINs ---
+
+describe('PIN hashes', () => {
+  it('match only their PIN and are salted', async () => {
+    const stored = await hashPin('2468');
+    expect(stored).toMatch(/^scrypt\$/);
+    expect(await pinMatches(stored, '2468')).toBe(true);
+    expect(await pinMatches(stored, '2469')).toBe(false);
+    expect(await hashPin('2468')).not.toBe(stored);
+    expect(await pinMatches('sha256$abc', '2468')).toBe(false);
+  });
+});
+
+describe('POST /api/auth/token', () => {
+  function refresh(deviceId: string, ip: string): Promise<Response> {
+    return POST(new NextRequest('http://localhost/api/auth/token', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'x-forwarded-for': ip },
+      body: JSON.stringify({ grantType: 'refresh_token', refreshToken: current, deviceId }),
+    }));
+  }
+
+  it('limits refreshes per device and per IP', async () => {
+    delete process.env.POSTGRES_URL;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    // Without a database every refresh is refused, but still counted
+    for (let i = 0; i < 10; i++) expect((await refresh('device-limited', '203.0.113.1')).status).toBe(401);
+    const limited = await refresh('device-limited', '203.0.113.2');
+    expect(limited.status).toBe(429);
+    expect((await limited.json()).error.details.scope).toBe('client');
+
+    for (let i = 0; i < 60; i++) await refresh(`device-ip-${i}`, '203.0.113.9');
+    expect((await refresh('device-ip-last', '203.0.113.9')).status).toBe(429);
+    expect((await refresh('device-ip-last', '203.0.113.10')).status).toBe(401);
+  });
+});
+
+describe('POST /api/auth/token (emp_code)', () => {
+  const TENANT = '00000000-0000-0000-0000-000000000001';
+
+  async function exchange(
+    credential: Record<string, unknown> | null,
+    pin: string,
+    empCode = '1234567',
+  ): Promise<{ status: number; body: any; updates: unknown[]; batched: boolean }> {
+    process.env.JWT_SECRET = 'session-test-secret-0123456789abcdef';
+    const updates: unknown[] = [];
+    const batch = vi.fn(async () => []);
+    const query = { from: () => query, where: () => query, limit: async () => (credential ? [credential] : []) };
+    const statement = {
+      values: () => statement,
+      set: (values: unknown) => { updates.push(values); return statement; },
+      where: () => statement,
+      then: (resolve: (rows: unknown[]) => void) => resolve([]),
+    };
+    fakeDb.current = { select: () => query, insert: () => statement, update: () => statement, batch };
+
+    try {
+      const token = await signToken({ tenantId: TENANT, tenantSlug: 'acme', userId: 'pwa-proxy', role: 'operator' });
+      const response = await POST(new NextRequest('http://localhost/api/auth/token', {
+        method: 'POST',
+        headers: { authorization: `Bearer ${token}`, 'content-type': 'application/json' },
+        body: JSON.stringify({ grantType: 'emp_code', empCode, pin, deviceId: `device-${empCode}-${pin}` }),
+      }));
+      return { status: response.status, body: await response.json(), updates, batched: batch.mock.calls.length > 0 };
+    } finally {
+      fakeDb.current = null;
+    }
+  }
+
+  it('opens a session only with the rep\'s PIN', async () => {
+    const credential = { id: 'c1', pinHash: await hashPin('2468'), failedAttempts: 0, lockedUntil: null };
+
+    const refused = await exchange(credential, '1111', 'rep-a');
+    expect(refused.status).toBe(401);
+    expect(refused.body.error.message).toBe('Invalid employee code or PIN');
+    expect(refused.batched).toBe(false);
+    expect(refused.updates).toHaveLength(1); // The failure is counted
+
+    const opened = await exchange(credential, '2468', 'rep-a');
+    expect(opened.status).toBe(201);
+    expect(opened.batched).toBe(true);
+    expect(opened.body.data.accessToken).toBeTruthy();
+  });
+
+  it('refuses a rep without a PIN', async () => {
+    const { status, batched } = await exchange(null, '2468', 'rep-b');
+    expect(status).toBe(401);
+    expect(batched).toBe(false);
+  });
+
+  it('refuses even the right PIN while locked out', async () => {
+    const credential = { id: 'c1', pinHash: await hashPin('2468'), failedAttempts: 0, lockedUntil: new Date(Date.now() + 60_000) };
+    const { status, body, batched } = await exchange(credential, '2468', 'rep-c');
+    expect(status).toBe(423);
+    expect(body.error.code).toBe('LOCKED');
+    expect(batched).toBe(false);
+  });
+
+  it('limits exchanges per emp_code', async () => {
+    for (let i = 0; i < 5; i++) expect((await exchange(null, `${1000 + i}`, 'rep-d')).status).toBe(401);
+    const limited = await exchange(null, '2000', 'rep-d');
+    expect(limited.status).toBe(429);
+    expect(limited.body.error.details.scope).toBe('client');
+    expect((await exchange(null, '2000', 'rep-e')).status).toBe(401);
+  });
+});
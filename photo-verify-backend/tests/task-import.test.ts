@@ -0,0 +1,328 @@
+/**
+ * Unit tests for services/task-import.ts and POST /api/tasks/bulk
+ *
+ * Covers:
+ * - CSV parsing: quoted fields, escaped quotes, CRLF, line numbers
+ * - Header aliases, metadata.<key> columns and date-only due dates
+ * - Unknown columns and missing titles refuse the file
+ * - Invalid rows and repeated idempotency keys are reported per row
+ * - A batch's tasks and audit entries are written together; a lost race is retried
+ * - The same content always gets the same import key
+ * - Rows are keyed by their own content, so re-importing an edited or
+ *   reordered file creates only the new rows
+ * - Request validation answers 400 before touching the database
+ * - The size limit holds for the bytes read, not the declared length
+ */
+
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { signToken } from '@/lib/auth/jwt';
+import { schema } from '@/lib/db';
+import { contentImportKey, csvToRows, importTasks, jsonToRows, parseCsv, rowImportKey } from '@/lib/services/task-import';
+import { MAX_IMPORT_ROWS, type AuthContext } from '@/lib/types';
+import { POST } from '@/app/api/tasks/bulk/route';
+
+const TENANT_ID = '00000000-0000-0000-0000-000000000001';
+
+// A database for the batch tests; the others run without one
+const fakeDb = vi.hoisted(() => ({ current: null as unknown }));
+vi.mock('@/lib/db', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/db')>();
+  return { ...actual, getDb: () => fakeDb.current ?? actual.getDb() };
+});
+
+beforeAll(() => {
+  process.env.JWT_SECRET = 'import-test-secret-0123456789abcdef';
+  delete process.env.POSTGRES_URL;
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+// --- parseCsv ---
+
+describe('parseCsv', () => {
+  it('handles quoted fields, escaped quotes and embedded newlines', () => {
+    const records = parseCsv('title,description\n"Shelf, aisle 3","Check the ""promo"" tag\nand price"\nEndcap,\n');
+    expect(records).toEqual([
+      { line: 1, fields: ['title', 'description'] },
+      { line: 2, fields: ['Shelf, aisle 3', 'Check the "promo" tag\nand price'] },
+      { line: 4, fields: ['Endcap', ''] },
+    ]);
+  });
+
+  it('accepts CRLF, strips the byte order mark and skips blank lines', () => {
+    const records = parseCsv('\uFEFFtitle\r\nA\r\n\r\nB');
+    expect(records).toEqual([
+      { line: 1, fields: ['title'] },
+      { line: 2, fields: ['A'] },
+      { line: 4, fields: ['B'] },
+    ]);
+  });
+
+  it('rejects an unterminated quote', () => {
+    expect(() => parseCsv('title\n"Open')).toThrow('Invalid CSV: unterminated quoted field from line 2');
+  });
+});
+
+// --- csvToRows ---
+
+describe('csvToRows', () => {
+  it('maps headers regardless of case and separators', () => {
+    const rows = csvToRows('Title,Assigned To,customer_id,due-date,Template,metadata.region\nShelf,rep-1,C-9,2026-11-01,tpl-1@2,North\n');
+    expect(rows).toEqual([{
+      row: 2,
+      data: {
+        title: 'Shelf',
+        assignedTo: 'rep-1',
+        customerId: 'C-9',
+        dueDate: '2026-11-01T23:59:59Z',
+        template: { ref: 'tpl-1@2' },
+        metadata: { region: 'North' },
+      },
+    }]);
+  });
+
+  it('leaves empty cells out and keeps full timestamps', () => {
+    const [row] = csvToRows('title,description,dueDate\nShelf,,2026-11-01T09:00:00Z\n');
+    expect(row.data).toEqual({ title: 'Shelf', dueDate: '2026-11-01T09:00:00Z' });
+  });
+
+  it('reports rows with more fields than columns', () => {
+    const [row] = csvToRows('title\nShelf,extra\n');
+    expect(row).toEqual({ row: 2, data: null, error: '2 fields for 1 columns' });
+  });
+
+  it('refuses files it cannot map', () => {
+    expect(() => csvToRows('')).toThrow('Invalid CSV: the file is empty');
+    expect(() => csvToRows('title,colour\nA,red')).toThrow('Invalid CSV: unknown column "colour"');
+    expect(() => csvToRows('description\nA')).toThrow('Invalid CSV: a "title" column is required');
+  });
+
+  it('limits the number of rows', () => {
+    const csv = `title\n${'Shelf\n'.repeat(MAX_IMPORT_ROWS + 1)}`;
+    expect(() => csvToRows(csv)).toThrow(`Import is limited to ${MAX_IMPORT_ROWS} rows`);
+  });
+});
+
+describe('contentImportKey', () => {
+  it('gives the same content the same key', () => {
+    expect(contentImportKey('title\nA')).toBe(contentImportKey('title\nA'));
+    expect(contentImportKey('title\nA')).not.toBe(contentImportKey('title\nB'));
+    expect(contentImportKey('title\nA')).toMatch(/^sha256:[0-9a-f]{32}$/);
+  });
+});
+
+describe('rowImportKey', () => {
+  const config = { prompt: 'Check the shelf', criteria: [] };
+
+  it('keys a task by its fields, in any order', () => {
+    const key = rowImportKey({ title: 'A', type: 'photo_verify', customerId: 'C-1', photoVerificationConfig: config } as never);
+    expect(rowImportKey({ photoVerificationConfig: config, customerId: 'C-1', type: 'photo_verify', title: 'A' } as never)).toBe(key);
+    expect(rowImportKey({ title: 'A', type: 'photo_verify', customerId: 'C-2', photoVerificationConfig: config } as never)).not.toBe(key);
+    expect(key).toMatch(/^row:[0-9a-f]{32}$/);
+  });
+
+  it('is namespaced by an explicit import key', () => {
+    expect(rowImportKey({ title: 'A', type: 'photo_verify' } as never, 'campaign-7')).toMatch(/^campaign-7:[0-9a-f]{32}$/);
+  });
+});
+
+// --- importTasks (rows that never reach the database) ---
+
+describe('importTasks', () => {
+  const auth: AuthContext = { tenantId: TENANT_ID, tenantSlug: 'demo', role: 'admin', userId: 'u1' };
+
+  it('reports every invalid row with its errors', async () => {
+    const report = await importTasks(auth, [
+      ...jsonToRows([{ description: 'no title' }, { title: 'No config or template' }]),
+      { row: 3, data: null, error: '2 fields for 1 columns' },
+    ], { importKey: 'batch-1' });
+
+    expect(report).toMatchObject({ importKey: 'batch-1', total: 3, created: 0, existing: 0, failed: 3 });
+    expect(report.rows.map((r) => r.row)).toEqual([1, 2, 3]);
+    expect(report.rows[0].errors?.some((e) => e.startsWith('title:'))).toBe(true);
+    expect(report.rows[2].errors).toEqual(['2 fields for 1 columns']);
+  });
+
+  it('fails rows that repeat an idempotency key', async () => {
+    const config = {
+      prompt: 'Check the shelf',
+      criteria: [{ id: 'has_products', label: 'Products visible', type: 'boolean', required: true, weight: 1 }],
+    };
+    const report = await importTasks(auth, jsonToRows([
+      { title: 'A', idempotencyKey: 'store-1', photoVerificationConfig: config },
+      { title: 'B', idempotencyKey: 'store-1', photoVerificationConfig: config },
+    ]), { importKey: 'batch-2' });
+
+    // Row 1 reaches the database, which this test has none of
+    expect(report.rows).toEqual([
+      { row: 1, status: 'failed', idempotencyKey: 'store-1', errors: ['Batch could not be created; importing again retries it'] },
+      { row: 2, status: 'failed', idempotencyKey: 'store-1', errors: ['Same idempotencyKey as row 1'] },
+    ]);
+  });
+
+  describe('batches', () => {
+    const config = {
+      prompt: 'Check the shelf',
+      criteria: [{ id: 'has_products', label: 'Products visible', type: 'boolean', required: true, weight: 1 }],
+    };
+    const rows = jsonToRows([
+      { title: 'A', idempotencyKey: 'store-1', photoVerificationConfig: config },
+      { title: 'B', idempotencyKey: 'store-2', photoVerificationConfig: config },
+    ]);
+
+    // existing: the keys each pre-select finds; batch: what each transaction does
+    function database(existing: Array<Array<{ id: string; key: string }>>, batch: () => Promise<unknown>) {
+      const inserts: Array<{ table: unknown; values: Array<Record<string, unknown>> }> = [];
+      const selects = [...existing];
+      const query = { from: () => query, where: async () => selects.shift() ?? [] };
+      const db = {
+        select: () => query,
+        insert: (table: unknown) => ({ values: (values: Array<Record<string, unknown>>) => { inserts.push({ table, values }); return { table }; } }),
+        batch: vi.fn((_statements: unknown[]) => batch()),
+      };
+      fakeDb.current = db;
+      return { db, inserts };
+    }
+
+    afterEach(() => {
+      fakeDb.current = null;
+    });
+
+    it('writes the tasks and their audit entries in one transaction', async () => {
+      const { db, inserts } = database([[]], async () => []);
+      const report = await importTasks(auth, rows, { importKey: 'batch-3' });
+
+      expect(db.batch).toHaveBeenCalledTimes(1);
+      expect(db.batch.mock.calls[0][0]).toHaveLength(2);
+      const [tasks, audit] = inserts;
+      expect(tasks.table).toBe(schema.tasks);
+      expect(audit.table).toBe(schema.auditLog);
+      expect(audit.values.map((e) => e.entityId)).toEqual(tasks.values.map((t) => t.id));
+      expect(audit.values[0]).toMatchObject({ action: 'task_created', details: { importKey: 'batch-3', row: 1 } });
+      expect(report).toMatchObject({ created: 2, failed: 0 });
+      expect(report.rows.map((r) => r.taskId)).toEqual(tasks.values.map((t) => t.id));
+    });
+
+    it('retries a batch that lost a race and reports the other import\'s task', async () => {
+      const raced = { id: '00000000-0000-0000-0000-0000000000bb', key: 'store-2' };
+      let attempts = 0;
+      const { db } = database([[], [raced]], async () => {
+        if (attempts++ === 0) throw new Error('duplicate key value violates unique constraint');
+        return [];
+      });
+      const report = await importTasks(auth, rows, { importKey: 'batch-4' });
+
+      expect(db.batch).toHaveBeenCalledTimes(2);
+      expect(report.rows.map((r) => r.status)).toEqual(['created', 'existing']);
+      expect(report.rows[1].taskId).toBe(raced.id);
+    });
+
+    it('creates only the new rows when an edited file is imported again', async () => {
+      // A tasks table keyed by idempotency key
+      const stored = new Map<string, string>();
+      const pending: Array<Record<string, unknown>> = [];
+      const query = { from: () => query, where: async () => [...stored].map(([key, id]) => ({ id, key })) };
+      fakeDb.current = {
+        select: () => query,
+        insert: (table: unknown) => ({
+          values: (values: Array<Record<string, unknown>>) => {
+            if (table === schema.tasks) pending.push(...values);
+            return { table };
+          },
+        }),
+        batch: vi.fn(async () => {
+          for (const task of pending.splice(0)) stored.set(task.idempotencyKey as string, task.id as string);
+          return [];
+        }),
+      };
+
+      const shelf = { title: 'Shelf', customerId: 'C-1', photoVerificationConfig: config };
+      const endcap = { title: 'Endcap', customerId: 'C-2', photoVerificationConfig: config };
+      const first = await importTasks(auth, jsonToRows([shelf, { ...endcap, title: '' }]), { importKey: contentImportKey('v1') });
+      expect(first.rows.map((r) => r.status)).toEqual(['created', 'failed']);
+
+      // The bad row fixed, a row added on top: the file hash and every row position change
+      const cooler = { title: 'Cooler', customerId: 'C-3', photoVerificationConfig: config };
+      const second = await importTasks(auth, jsonToRows([cooler, endcap, shelf]), { importKey: contentImportKey('v2') });
+      expect(second.rows.map((r) => r.status)).toEqual(['created', 'created', 'existing']);
+      expect(second.rows[2].taskId).toBe(first.rows[0].taskId);
+      expect(stored.size).toBe(3);
+    });
+
+    it('reports a batch that keeps failing without creating anything', async () => {
+      const { db } = database([[], []], async () => { throw new Error('audit insert failed'); });
+      const report = await importTasks(auth, rows, { importKey: 'batch-5' });
+
+      expect(db.batch).toHaveBeenCalledTimes(2);
+      expect(report).toMatchObject({ created: 0, failed: 2 });
+    });
+  });
+
+  it('refuses more than MAX_IMPORT_ROWS rows', async () => {
+    const rows = jsonToRows(Array.from({ length: MAX_IMPORT_ROWS + 1 }, () => ({ title: 'A' })));
+    await expect(importTasks(auth, rows, { importKey: 'k' })).rejects.toThrow(`Import is limited to ${MAX_IMPORT_ROWS} rows`);
+  });
+});
+
+// --- POST /api/tasks/bulk ---
+
+describe('POST /api/tasks/bulk', () => {
+  async function post(body: string, headers: Record<string, string> = {}, query = ''): Promise<Response> {
+    const token = await signToken({ tenantId: TENANT_ID, tenantSlug: 'demo', role: 'admin' });
+    return POST(new NextRequest(`http://localhost/api/tasks/bulk${query}`, {
+      method: 'POST',
+      headers: { authorization: `Bearer ${token}`, 'content-type': 'application/json', ...headers },
+      body,
+    }));
+  }
+
+  it('rejects bodies that are not a task list', async () => {
+    expect((await post('{not json')).status).toBe(400);
+    expect((await post(JSON.stringify({ tasks: [] }))).status).toBe(400);
+    expect((await post(JSON.stringify({ title: 'A' }))).status).toBe(400);
+  });
+
+  it('rejects CSV files it cannot map', async () => {
+    const response = await post('title,colour\nA,red\n', { 'content-type': 'text/csv' });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.message).toBe('Invalid CSV: unknown column "colour"');
+  });
+
+  it('rejects bad template references and idempotency keys', async () => {
+    expect((await post('title\nA\n', { 'content-type': 'text/csv' }, '?template=%20')).status).toBe(400);
+    expect((await post('[{"title":"A"}]', { 'idempotency-key': 'k'.repeat(101) })).status).toBe(400);
+  });
+
+  it('reports invalid rows without failing the request', async () => {
+    const response = await post(JSON.stringify([{ title: 'No config or template' }]));
+    expect(response.status).toBe(200);
+    const { data } = await response.json();
+    expect(data).toMatchObject({ total: 1, created: 0, failed: 1 });
+    expect(data.importKey).toMatch(/^sha256:/);
+  });
+
+  it('refuses bodies over the size limit', async () => {
+    expect((await post('[]', { 'content-length': String(11 * 1024 * 1024) })).status).toBe(413);
+  });
+
+  it('counts the bytes it reads, whatever the declared length', async () => {
+    const megabyte = new Uint8Array(1024 * 1024).fill(0x20);
+    let sent = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (sent++ < 20) controller.enqueue(megabyte);
+        else controller.close();
+      },
+    });
+    const token = await signToken({ tenantId: TENANT_ID, tenantSlug: 'demo', role: 'admin' });
+    const response = await POST(new NextRequest('http://localhost/api/tasks/bulk', {
+      method: 'POST',
+      headers: { authorization: `Bearer ${token}`, 'content-type': 'application/json', 'content-length': '2' },
+      body,
+      duplex: 'half',
+    } as ConstructorParameters<typeof NextRequest>[1] & { duplex: 'half' }));
+
+    expect(response.status).toBe(413);
+    expect(sent).toBeLessThan(20); // Stopped reading past the limit
+  });
+});
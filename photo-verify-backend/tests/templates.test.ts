@@ -0,0 +1,107 @@
+/**
+ * Behavior tests for services/templates.ts (versioning and pinning)
+ *
+ * Covers:
+ * - Every config edit publishes a new version; older ones stay as they were
+ * - `id@version` resolves to that version, a bare `id` to the latest
+ * - Archiving closes the template to bare references, not to pinned ones
+ * - Two concurrent edits get distinct version numbers
+ * - Overrides apply on top of the pinned version and are marked as such
+ *
+ * Runs against the in-memory fake database (tests/fake-db.ts).
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { schema } from '@/lib/db';
+import { CreateTemplateSchema, CreateTemplateVersionSchema } from '@/lib/types';
+import { FakeDb } from './fake-db';
+
+const fakeDb = vi.hoisted(() => ({ current: null as unknown }));
+vi.mock('@/lib/db', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/db')>();
+  return { ...actual, getDb: () => fakeDb.current ?? actual.getDb() };
+});
+
+const {
+  archiveTemplate, createTemplate, createTemplateVersion, resolveTemplate,
+} = await import('@/lib/services/templates');
+
+const TENANT = '00000000-0000-0000-0000-000000000001';
+const auth = { tenantId: TENANT, tenantSlug: 'acme', role: 'admin', userId: 'user-1' };
+const criteria = [{ id: 'shelf', label: 'Shelf is stocked', type: 'boolean' }];
+const version = (prompt: string) => CreateTemplateVersionSchema.parse({ config: { prompt, criteria } });
+
+let db: FakeDb;
+let templateId: string;
+
+beforeEach(async () => {
+  db = new FakeDb();
+  fakeDb.current = db;
+  db.seed(schema.tenants, { id: TENANT, name: 'Acme', slug: 'acme', config: {} });
+  templateId = (await createTemplate(auth, CreateTemplateSchema.parse({
+    name: 'Shelf check',
+    config: { prompt: 'v1 prompt', criteria },
+  }))).id;
+});
+
+afterEach(() => {
+  fakeDb.current = null;
+});
+
+// --- Versions ---
+
+describe('template versions', () => {
+  it('pins a reference to its version and resolves a bare one to the latest', async () => {
+    await createTemplateVersion(auth, templateId, version('v2 prompt'));
+
+    const pinned = await resolveTemplate(auth, { ref: `${templateId}@1` });
+    expect(pinned.version).toBe(1);
+    expect(pinned.config.prompt).toBe('v1 prompt');
+    expect(pinned.config.template).toEqual({ id: templateId, version: 1, name: 'Shelf check', overridden: false });
+
+    const latest = await resolveTemplate(auth, { ref: templateId });
+    expect(latest.version).toBe(2);
+    expect(latest.config.prompt).toBe('v2 prompt');
+  });
+
+  it('gives concurrent edits distinct versions', async () => {
+    const published = await Promise.all([
+      createTemplateVersion(auth, templateId, version('edit a')),
+      createTemplateVersion(auth, templateId, version('edit b')),
+    ]);
+
+    expect(published.map((row) => row?.version).sort()).toEqual([2, 3]);
+    expect(db.rows(schema.verificationTemplates)[0]).toMatchObject({ latestVersion: 3 });
+  });
+
+  it('applies overrides on top of the pinned version', async () => {
+    await createTemplateVersion(auth, templateId, version('v2 prompt'));
+    const resolved = await resolveTemplate(auth, { ref: `${templateId}@1`, overrides: { confidenceThreshold: 0.6 } });
+
+    expect(resolved.config).toMatchObject({ prompt: 'v1 prompt', confidenceThreshold: 0.6 });
+    expect(resolved.config.template?.overridden).toBe(true);
+  });
+
+  it('reports an unknown version', async () => {
+    await expect(resolveTemplate(auth, { ref: `${templateId}@7` })).rejects.toThrow('Template version not found');
+  });
+});
+
+// --- Archiving ---
+
+describe('archiveTemplate', () => {
+  it('keeps pinned references working and refuses bare ones and new versions', async () => {
+    await createTemplateVersion(auth, templateId, version('v2 prompt'));
+    expect(await archiveTemplate(auth, templateId)).not.toBeNull();
+
+    expect((await resolveTemplate(auth, { ref: `${templateId}@2` })).config.prompt).toBe('v2 prompt');
+    await expect(resolveTemplate(auth, { ref: templateId })).rejects.toThrow('is archived');
+    expect(await createTemplateVersion(auth, templateId, version('v3 prompt'))).toBeNull();
+  });
+
+  it('is not visible to other tenants', async () => {
+    const other = { ...auth, tenantId: '00000000-0000-0000-0000-000000000002' };
+    await expect(resolveTemplate(other, { ref: `${templateId}@1` })).rejects.toThrow('Template not found');
+    expect(await archiveTemplate(other, templateId)).toBeNull();
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Behavior tests for the evidence policies in services/verification.ts
+ *
+ * Covers:
+ * - Recycled photos: a hash close to an earlier verification's is
+ *   recorded as duplicateOf; the tenant's action decides the outcome
+ *   (flag keeps the verdict, manual_review queues it, fail fails it)
+ * - Not duplicates: the same task resubmitting, photos past windowDays,
+ *   hashes further apart than maxDistance
+ * - Capture location / age checks: issues are recorded, and the
+ *   integrity action flags, queues or fails like the duplicate one
+ *
+ * Runs verifyPhotoExternal against the in-memory fake database
+ * (tests/fake-db.ts). The vision chain, budget and hashing are mocked;
+ * the model always passes the photo.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { schema } from '@/lib/db';
+import { hashImages } from '@/lib/services/duplicates';
+import { PhotoVerificationConfigSchema } from '@/lib/types';
+import { FakeDb } from './fake-db';
+
+const fakeDb = vi.hoisted(() => ({ current: null as unknown }));
+vi.mock('@/lib/db', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/db')>();
+  return { ...actual, getDb: () => fakeDb.current ?? actual.getDb() };
+});
+vi.mock('@/lib/services/duplicates', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/services/duplicates')>()),
+  hashImages: vi.fn(),
+}));
+vi.mock('@/lib/services/budget', () => ({
+  enforceBudget: async () => ({ state: 'ok' }),
+  recordBudgetSpend: async () => ({ state: 'ok' }),
+}));
+vi.mock('@/lib/services/pricing', () => ({ loadPriceBook: async () => undefined }));
+vi.mock('@/lib/services/fallback', () => ({
+  getFallbackPolicy: async () => ({ chain: [] }),
+  createCircuitBreaker: () => ({}),
+  analyzeWithFallback: async () => ({
+    analysisWithUsage: {
+      analysis: {
+        criteria_results: [{ criterion_id: 'shelf', passed: true, value: true, confidence: 0.95, reasoning: 'Shelf stocked' }],
+        overall_assessment: 'Looks right',
+        overall_confidence: 0.95,
+      },
+      tokenUsage: { inputTokens: 100, outputTokens: 20 },
+    },
+    target: { provider: 'openai', model: 'gpt-4o-mini' },
+    attempts: [],
+    tokenUsage: { inputTokens: 100, outputTokens: 20 },
+    estimatedCostUsd: 0,
+    lastError: null,
+  }),
+}));
+
+const { verifyPhotoExternal } = await import('@/lib/services/verification');
+
+const TENANT = '00000000-0000-0000-0000-000000000001';
+const T0 = new Date('2026-03-02T10:00:00Z');
+const auth = { tenantId: TENANT, tenantSlug: 'acme', role: 'rep', userId: 'rep-1' };
+const config = PhotoVerificationConfigSchema.parse({
+  prompt: 'Check the shelf',
+  provider: 'openai',
+  criteria: [{ id: 'shelf', label: 'Shelf is stocked', type: 'boolean' }],
+});
+const HASH = 'ffffffffffffffff';
+
+let db: FakeDb;
+
+function seedTenant(tenantConfig: Record<string, unknown>) {
+  db.seed(schema.tenants, { id: TENANT, name: 'Acme', slug: 'acme', config: tenantConfig });
+}
+
+function seedEarlier(values: Partial<schema.Verification> = {}): string {
+  return db.seed<schema.Verification>(schema.verifications, {
+    tenantId: TENANT,
+    externalTaskId: 'visit-1',
+    passed: true,
+    overallConfidence: 0.9,
+    modelUsed: 'openai/gpt-4o-mini',
+    processingTimeMs: 900,
+    imageHashes: [HASH],
+    createdAt: new Date(T0.getTime() - 86_400_000),
+    ...values,
+  }).id;
+}
+
+const verify = (externalTaskId: string, images = [{ url: 'https://example.com/shelf.jpg' }], context = {}) =>
+  verifyPhotoExternal(externalTaskId, images, config, auth, context);
+const stored = (id: string | undefined) => db.rows(schema.verifications).find((row) => row.id === id) as schema.Verification;
+const queued = () => db.rows(schema.reviewQueue) as schema.ReviewQueueItem[];
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: T0, toFake: ['Date'] });
+  db = new FakeDb();
+  fakeDb.current = db;
+  vi.mocked(hashImages).mockResolvedValue([HASH]);
+});
+
+afterEach(() => {
+  fakeDb.current = null;
+  vi.useRealTimers();
+});
+
+// --- Recycled photos ---
+
+describe('duplicate detection', () => {
+  it('flags a reused photo and keeps the model\'s verdict', async () => {
+    seedTenant({});
+    const earlier = seedEarlier();
+    const result = await verify('visit-2');
+
+    expect(result.passed).toBe(true);
+    expect(result.duplicateOf).toMatchObject({ verificationId: earlier, externalTaskId: 'visit-1', distance: 0, action: 'flag' });
+    expect(stored(result.verificationId)).toMatchObject({ duplicateOf: earlier, imageHashes: [HASH] });
+    expect(queued()).toEqual([]);
+  });
+
+  it('queues a reused photo for review under manual_review', async () => {
+    seedTenant({ duplicateDetection: { action: 'manual_review' } });
+    seedEarlier();
+    const result = await verify('visit-2');
+
+    expect(result.passed).toBe(false);
+    expect(queued()).toMatchObject([{ verificationId: result.verificationId, reason: 'duplicate_photo' }]);
+    expect(result.reviewId).toBe(queued()[0].id);
+  });
+
+  it('fails a reused photo outright under fail', async () => {
+    seedTenant({ duplicateDetection: { action: 'fail' } });
+    seedEarlier();
+    const result = await verify('visit-2');
+
+    expect(result.passed).toBe(false);
+    expect(stored(result.verificationId).passed).toBe(false);
+    expect(queued()).toEqual([]);
+  });
+
+  it('matches near hashes only within maxDistance', async () => {
+    seedTenant({ duplicateDetection: { maxDistance: 4 } });
+    seedEarlier({ imageHashes: ['fffffffffffffff0'] }); // 4 bits apart
+    seedEarlier({ imageHashes: ['ffffffffffffff00'] }); // 8 bits apart
+
+    const result = await verify('visit-2');
+    expect(result.duplicateOf?.distance).toBe(4);
+  });
+
+  it('ignores the same task resubmitting and photos past the window', async () => {
+    seedTenant({ duplicateDetection: { windowDays: 30, action: 'fail' } });
+    seedEarlier({ externalTaskId: 'visit-2' });
+    seedEarlier({ externalTaskId: 'visit-0', createdAt: new Date(T0.getTime() - 31 * 86_400_000) });
+
+    const result = await verify('visit-2');
+    expect(result.duplicateOf).toBeUndefined();
+    expect(result.passed).toBe(true);
+  });
+
+  it('compares only the same point of sale when scoped to the customer', async () => {
+    seedTenant({ duplicateDetection: { scope: 'customer' } });
+    seedEarlier({ customerId: 'store-9' });
+
+    expect((await verify('visit-2', undefined, { customerId: 'store-1' })).duplicateOf).toBeUndefined();
+    expect((await verify('visit-3', undefined, { customerId: 'store-9' })).duplicateOf).toBeDefined();
+  });
+});
+
+// --- Capture time and location ---
+
+describe('evidence integrity', () => {
+  const store = { lat: 19.4326, lng: -99.1332 };
+  const farAway = [{
+    url: 'https://example.com/shelf.jpg',
+    evidence: { deviceLocation: { lat: 19.5, lng: -99.2 }, capturedAt: '2026-03-02T09:55:00Z' },
+  }];
+
+  it('records issues and keeps the verdict when the action is flag', async () => {
+    seedTenant({ duplicateDetection: { enabled: false }, evidenceIntegrity: { maxDistanceMeters: 200 } });
+    const result = await verify('visit-2', farAway, { customerLocation: store });
+
+    expect(result.passed).toBe(true);
+    expect(result.integrity?.issues.map((issue) => issue.code)).toEqual(['too_far']);
+    expect(stored(result.verificationId).integrity).toMatchObject({ action: 'flag' });
+    expect(queued()).toEqual([]);
+  });
+
+  it('queues the verification under manual_review', async () => {
+    seedTenant({
+      duplicateDetection: { enabled: false },
+      evidenceIntegrity: { maxDistanceMeters: 200, maxPhotoAgeMinutes: 2, action: 'manual_review' },
+    });
+    const result = await verify('visit-2', farAway, { customerLocation: store });
+
+    expect(result.passed).toBe(false);
+    expect(result.integrity?.issues.map((issue) => issue.code).sort()).toEqual(['too_far', 'too_old']);
+    expect(queued()).toMatchObject([{ reason: 'integrity_check' }]);
+  });
+
+  it('lets clean evidence through under fail', async () => {
+    seedTenant({ duplicateDetection: { enabled: false }, evidenceIntegrity: { maxDistanceMeters: 200, action: 'fail' } });
+    const nearby = [{ url: 'https://example.com/shelf.jpg', evidence: { deviceLocation: { lat: 19.4327, lng: -99.1333 } } }];
+
+    const result = await verify('visit-2', nearby, { customerLocation: store });
+    expect(result.passed).toBe(true);
+    expect(result.integrity?.issues).toEqual([]);
+
+    const refused = await verify('visit-3', farAway, { customerLocation: store });
+    expect(refused.passed).toBe(false);
+    expect(queued()).toEqual([]);
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Unit tests for services/webhooks.ts
+ *
+ * Covers:
+ * - Endpoint URLs: https only, no loopback, link-local or private hosts
+ * - Delivery refuses a host that resolves to a private address
+ * - Adding and removing an endpoint is one jsonb UPDATE, not a rewrite
+ *   of the whole tenants.config
+ * - Delivery worker: overlapping runs send each delivery once, failures
+ *   back off (30s, 1m, 2m...) and the 6th lands in the dead letters; a
+ *   worker that died mid-attempt is retried once its claim runs out
+ *
+ * Registry edits use a fake that records statements (SQL rendered with
+ * the Postgres dialect); the worker runs against tests/fake-db.ts.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { SQL } from 'drizzle-orm';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { schema } from '@/lib/db';
+import { CreateWebhookSchema, isPrivateHost } from '@/lib/types';
+import { FakeDb } from './fake-db';
+
+const fakeDb = vi.hoisted(() => ({ current: null as unknown }));
+vi.mock('@/lib/db', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/db')>();
+  return { ...actual, getDb: () => fakeDb.current ?? actual.getDb() };
+});
+
+const {
+  addWebhook, attemptDelivery, processDueDeliveries, removeWebhook, resolvesPublic,
+} = await import('@/lib/services/webhooks');
+
+const TENANT = '00000000-0000-0000-0000-000000000001';
+const auth = { tenantId: TENANT, tenantSlug: 'acme', role: 'admin', userId: 'user-1' } as const;
+const render = (fragment: SQL) => new PgDialect().sqlToQuery(fragment);
+
+afterEach(() => {
+  fakeDb.current = null;
+  delete process.env.WEBHOOK_ALLOW_PRIVATE_URLS;
+});
+
+// --- Endpoint URLs ---
+
+describe('webhook URLs', () => {
+  const valid = (url: string) => CreateWebhookSchema.safeParse({ url, events: ['verification.completed'] }).success;
+
+  it('accepts public https endpoints', () => {
+    expect(valid('https://retool.example.com/hooks')).toBe(true);
+    expect(valid('https://93.184.216.34/hooks')).toBe(true);
+    expect(valid('https://[2606:4700::1111]/hooks')).toBe(true);
+  });
+
+  it('refuses http and internal hosts', () => {
+    expect(valid('http://retool.example.com/hooks')).toBe(false);
+    for (const host of [
+      'localhost', 'api.localhost', 'metadata.google.internal', '127.0.0.1', '0.0.0.0', '10.1.2.3',
+      '172.16.0.1', '172.31.255.255', '192.168.1.10', '169.254.169.254', '100.64.0.1',
+      '2130706433', '[::1]', '[fd00::1]', '[fe80::1]', '[::ffff:127.0.0.1]',
+    ]) {
+      expect(valid(`https://${host}/hooks`), host).toBe(false);
+    }
+  });
+
+  it('classifies literal addresses', () => {
+    expect(isPrivateHost('172.15.0.1')).toBe(false);
+    expect(isPrivateHost('172.32.0.1')).toBe(false);
+    expect(isPrivateHost('::ffff:5db8:d822')).toBe(false); // 93.184.216.34
+    expect(isPrivateHost('::ffff:a00:1')).toBe(true); // 10.0.0.1
+  });
+
+  it('lets the local receiver in only when allowed', () => {
+    expect(valid('http://localhost:4000/hooks')).toBe(false);
+    process.env.WEBHOOK_ALLOW_PRIVATE_URLS = 'true';
+    expect(valid('http://localhost:4000/hooks')).toBe(true);
+  });
+});
+
+// --- Delivery ---
+
+describe('attemptDelivery', () => {
+  it('checks the addresses a host resolves to', async () => {
+    expect(await resolvesPublic('https://127.0.0.1/hooks')).toBe(false);
+    expect(await resolvesPublic('https://93.184.216.34/hooks')).toBe(true);
+  });
+
+  it('sends nothing to a private address and dead-letters the delivery', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    const updates: Record<string, unknown>[] = [];
+    const inserts: unknown[] = [];
+    const statement = {
+      set: (values: Record<string, unknown>) => { updates.push(values); return statement; },
+      values: (values: unknown) => { inserts.push(values); return statement; },
+      where: () => statement,
+      returning: async () => [{ ...updates.at(-1) }],
+      then: (resolve: (rows: unknown[]) => void) => resolve([]),
+    };
+    fakeDb.current = { update: () => statement, insert: () => statement };
+
+    const delivery = {
+      id: 'delivery-1', tenantId: TENANT, endpointId: 'w1', url: 'https://10.0.0.5/hooks',
+      event: 'verification.completed', payload: { id: 'evt-1' }, attempts: 0,
+    };
+    const endpoint = { id: 'w1', url: 'https://10.0.0.5/hooks', secret: 'whsec_0123456789abcdef', events: ['verification.completed' as const], active: true };
+    const result = await attemptDelivery(delivery as never, endpoint);
+
+    expect(fetchSpy).not.toHaveBeenCalled();
+    expect(result.status).toBe('dead');
+    expect(inserts).toHaveLength(1);
+    fetchSpy.mockRestore();
+  });
+});
+
+// --- Registry edits ---
+
+describe('addWebhook / removeWebhook', () => {
+  function recordingDb(webhooks: unknown[]) {
+    const updates: { set: Record<string, unknown>; where: SQL }[] = [];
+    const select = vi.fn(() => query);
+    const query = { from: () => query, where: () => query, limit: async () => [{ config: { webhooks } }] };
+    let pending: { set: Record<string, unknown>; where: SQL } | null = null;
+    const statement = {
+      set: (values: Record<string, unknown>) => { pending = { set: values, where: undefined as never }; return statement; },
+      values: () => statement,
+      where: (where: SQL) => { if (pending) { pending.where = where; updates.push(pending); pending = null; } return statement; },
+      returning: async () => [{ id: TENANT }],
+      then: (resolve: (rows: unknown[]) => void) => resolve([]),
+    };
+    fakeDb.current = { select, update: () => statement, insert: () => statement };
+    return { updates, select };
+  }
+
+  it('appends the endpoint in SQL without reading the config first', async () => {
+    const { updates, select } = recordingDb([]);
+    const endpoint = await addWebhook(auth, { url: 'https://retool.example.com/hooks', events: ['verification.completed'], active: true });
+
+    expect(select).not.toHaveBeenCalled();
+    expect(updates).toHaveLength(1);
+    const { sql, params } = render(updates[0].set.config as SQL);
+    expect(sql).toContain(`jsonb_set("tenants"."config", '{webhooks}', coalesce("tenants"."config"->'webhooks', '[]'::jsonb) ||`);
+    expect(JSON.parse(params[0] as string)).toEqual([endpoint]);
+  });
+
+  it('drops only the endpoint\'s own element, and only while it is there', async () => {
+    const kept = { id: 'w1', url: 'https://a.example.com', secret: 'whsec_aaaaaaaaaaaaaaaa', events: ['verification.completed'], active: true };
+    const gone = { ...kept, id: 'w2', url: 'https://b.example.com' };
+    const { updates } = recordingDb([kept, gone]);
+
+    expect(await removeWebhook(auth, 'w2')).toBe(true);
+    expect(updates).toHaveLength(1);
+    const set = render(updates[0].set.config as SQL);
+    expect(set.sql).toContain(`where w.value->>'id' <> $1`);
+    expect(set.params).toEqual(['w2']);
+    const where = render(updates[0].where);
+    expect(where.sql).toContain(`"tenants"."config"->'webhooks' @> $2::jsonb`);
+    expect(where.params).toEqual([TENANT, JSON.stringify([{ id: 'w2' }])]);
+
+    expect(await removeWebhook(auth, 'w3')).toBe(false);
+    expect(updates).toHaveLength(1);
+  });
+});
+
+// --- Delivery worker ---
+
+describe('processDueDeliveries', () => {
+  const T0 = new Date('2026-03-02T10:00:00Z');
+  const endpoint = {
+    id: 'w1', url: 'https://93.184.216.34/hooks', secret: 'whsec_0123456789abcdef',
+    events: ['verification.completed'], active: true,
+  };
+  let db: FakeDb;
+  let deliveryId: string;
+
+  const delivery = () => db.rows(schema.webhookDeliveries)[0] as schema.WebhookDelivery;
+  const at = (seconds: number) => vi.setSystemTime(new Date(T0.getTime() + seconds * 1000));
+  const answer = (status: number) => vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response(null, { status }));
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: T0, toFake: ['Date'] });
+    db = new FakeDb();
+    fakeDb.current = db;
+    db.seed(schema.tenants, { id: TENANT, name: 'Acme', slug: 'acme', config: { webhooks: [endpoint] } });
+    deliveryId = db.seed<schema.WebhookDelivery>(schema.webhookDeliveries, {
+      tenantId: TENANT, endpointId: 'w1', url: endpoint.url, event: 'verification.completed',
+      eventId: '00000000-0000-0000-0000-0000000000e1', payload: { id: 'evt-1' }, nextAttemptAt: T0,
+    }).id;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('sends a due delivery once when two runs overlap', async () => {
+    const fetchSpy = answer(204);
+    const [a, b] = await Promise.all([processDueDeliveries(), processDueDeliveries()]);
+
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(a.delivered + b.delivered).toBe(1);
+    expect(delivery()).toMatchObject({ id: deliveryId, status: 'delivered', attempts: 1, lastStatusCode: 204 });
+  });
+
+  it('backs off after each failure and dead-letters the sixth', async () => {
+    const fetchSpy = answer(500);
+    let elapsed = 0;
+    for (const backoff of [30, 60, 120, 240, 480]) {
+      expect((await processDueDeliveries()).retrying).toBe(1);
+      expect(delivery().nextAttemptAt).toEqual(new Date(T0.getTime() + (elapsed + backoff) * 1000));
+
+      at(elapsed + backoff - 1);
+      expect((await processDueDeliveries()).processed).toBe(0); // Not due yet
+      elapsed += backoff;
+      at(elapsed);
+    }
+
+    expect((await processDueDeliveries()).dead).toBe(1);
+    expect(fetchSpy).toHaveBeenCalledTimes(6);
+    expect(delivery()).toMatchObject({ status: 'dead', attempts: 6, lastError: 'HTTP 500' });
+    expect(db.rows(schema.webhookDeadLetters)).toMatchObject([{ deliveryId, attempts: 6, lastStatusCode: 500 }]);
+
+    at(elapsed + 3600);
+    expect((await processDueDeliveries()).processed).toBe(0);
+  });
+
+  it('retries a delivery whose worker died once its claim runs out', async () => {
+    // A worker claimed it (lease of 60s) and never recorded an outcome
+    const d = schema.webhookDeliveries;
+    await db.update(d).set({ nextAttemptAt: new Date(T0.getTime() + 60_000) });
+
+    const fetchSpy = answer(204);
+    at(59);
+    expect((await processDueDeliveries()).processed).toBe(0);
+    at(60);
+    expect((await processDueDeliveries()).delivered).toBe(1);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Client-side photo pipeline for PHOTO_VERIFY.
+ * Camera photos are 4–8 MB; before upload they are downscaled to a maximum
+ * dimension, re-encoded (JPEG/WebP) at a target quality and, when the task
+ * only has color-independent criteria, converted to grayscale. That keeps
+ * them under the backend's MAX_IMAGE_SIZE and cuts bandwidth and tokens.
+ *
+ * Limits come from the brand (BrandConfig.imageCompression) and can be
+ * overridden per task / template (verificationConfig.imageCompression).
+ *
+ * Re-encoding drops EXIF. With exif: 'keep' the camera's block is copied
+ * into the JPEG; capture-time / GPS evidence is read from the original file
+ * either way (photoEvidence.ts).
+ */
+
+import type { ImageCompressionPolicy, VerificationCriterion } from '../types';
+
+export const DEFAULT_COMPRESSION_POLICY: ImageCompressionPolicy = {
+  maxDimension: 1600,
+  quality: 0.8,
+  format: 'jpeg',
+  maxBytes: 1_500_000,
+  exif: 'strip',
+  grayscaleCriteria: [],
+};
+
+const MIN_QUALITY = 0.4;
+const MIN_DIMENSION = 320;
+const MAX_ENCODE_ATTEMPTS = 6;
+
+const TAG_ORIENTATION = 0x0112;
+
+export interface CompressedPhoto {
+  blob: Blob;
+  width: number;
+  height: number;
+  originalBytes: number;
+  grayscale: boolean;
+}
+
+// ── Policy ──
+
+/** Defaults ← brand ← task config, clamped to sane ranges. */
+export function resolveCompressionPolicy(
+  ...overrides: Array<Partial<ImageCompressionPolicy> | undefined>
+): ImageCompressionPolicy {
+  const merged = Object.assign({}, DEFAULT_COMPRESSION_POLICY, ...overrides.filter(Boolean)) as ImageCompressionPolicy;
+  return {
+    ...merged,
+    maxDimension: Math.max(MIN_DIMENSION, Math.round(merged.maxDimension)),
+    quality: Math.min(1, Math.max(MIN_QUALITY, merged.quality)),
+    format: merged.format === 'webp' ? 'webp' : 'jpeg',
+  };
+}
+
+/** Grayscale only when every criterion is of a type the policy marks color-independent. */
+export function shouldGrayscale(policy: ImageCompressionPolicy, criteria: Array<Pick<VerificationCriterion, 'type'>>): boolean {
+  return criteria.length > 0
+    && policy.grayscaleCriteria.length > 0
+    && criteria.every((c) => policy.grayscaleCriteria.includes(c.type));
+}
+
+// ── Geometry & pixels ──
+
+/** Scale down to fit maxDimension on the longest side; never upscale. */
+export function fitWithin(width: number, height: number, maxDimension: number): { width: number; height: number } {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+/** In-place RGBA → gray (Rec. 601 luma); alpha untouched. */
+export function toGrayscale(data: Uint8ClampedArray): void {
+  for (let i = 0; i < data.length; i += 4) {
+    const luma = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+    data[i] = data[i + 1] = data[i + 2] = luma;
+  }
+}
+
+// ── EXIF block (JPEG APP1) ──
+
+/** The whole APP1 "Exif" segment (marker included), or null. */
+export function extractExifSegment(buffer: ArrayBuffer): Uint8Array | null {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if (marker === 0xffda) return null;
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength
+      && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+      return new Uint8Array(buffer.slice(offset, offset + 2 + length));
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+/**
+ * Copy of the segment with IFD0 Orientation set to 1: the canvas already
+ * drew the photo upright, so viewers must not rotate it again.
+ */
+export function resetOrientation(segment: Uint8Array): Uint8Array {
+  const copy = segment.slice();
+  try {
+    const view = new DataView(copy.buffer);
+    const tiff = 10; // FFE1 + length + "Exif\0\0"
+    const little = view.getUint16(tiff) === 0x4949;
+    const ifd0 = tiff + view.getUint32(tiff + 4, little);
+    const count = view.getUint16(ifd0, little);
+    for (let i = 0; i < count; i++) {
+      const entry = ifd0 + 2 + i * 12;
+      if (view.getUint16(entry, little) === TAG_ORIENTATION) view.setUint16(entry + 8, 1, little);
+    }
+  } catch (err) {
+    console.warn('[ImageCompression] Could not reset EXIF orientation:', err);
+  }
+  return copy;
+}
+
+/** Insert an APP1 segment right after SOI. */
+export function insertExifSegment(jpeg: ArrayBuffer, segment: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(jpeg);
+  const out = new Uint8Array(bytes.length + segment.length);
+  out.set(bytes.subarray(0, 2), 0);
+  out.set(segment, 2);
+  out.set(bytes.subarray(2), 2 + segment.length);
+  return out;
+}
+
+// ── Browser plumbing ──
+
+type DrawableImage = ImageBitmap | HTMLImageElement;
+
+async function decode(file: Blob): Promise<DrawableImage> {
+  if (typeof createImageBitmap === 'function') {
+    // Applies the EXIF orientation, so the pixels come out upright
+    return createImageBitmap(file, { imageOrientation: 'from-image' });
+  }
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    return img;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function draw(source: DrawableImage, width: number, height: number, grayscale: boolean): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, width, height);
+  if (grayscale) {
+    // Pixel loop rather than ctx.filter, which Safari ignores
+    const pixels = ctx.getImageData(0, 0, width, height);
+    toGrayscale(pixels.data);
+    ctx.putImageData(pixels, 0, 0);
+  }
+  return canvas;
+}
+
+function encode(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode photo'))), type, quality);
+  });
+}
+
+function readBuffer(blob: Blob): Promise<ArrayBuffer> {
+  if (typeof blob.arrayBuffer === 'function') return blob.arrayBuffer();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+// ── Public API ──
+
+/**
+ * Downscale and re-encode a camera photo. Steps quality down (to 0.4),
+ * then size, until it fits maxBytes; gives up after a few passes and
+ * returns the smallest attempt.
+ */
+export async function compressImage(
+  file: Blob,
+  policy: ImageCompressionPolicy = DEFAULT_COMPRESSION_POLICY,
+  criteria: Array<Pick<VerificationCriterion, 'type'>> = [],
+): Promise<CompressedPhoto> {
+  const source = await decode(file);
+  const grayscale = shouldGrayscale(policy, criteria);
+  let { width, height } = fitWithin(source.width, source.height, policy.maxDimension);
+  let quality = policy.quality;
+  let type = policy.format === 'webp' ? 'image/webp' : 'image/jpeg';
+  let best: { blob: Blob; width: number; height: number } | null = null;
+
+  try {
+    for (let attempt = 0; attempt < MAX_ENCODE_ATTEMPTS; attempt++) {
+      let encoded = await encode(draw(source, width, height, grayscale), type, quality);
+      // Browsers without a WebP encoder (Safari) hand back PNG: use JPEG instead
+      if (encoded.type !== type) {
+        type = 'image/jpeg';
+        encoded = await encode(draw(source, width, height, grayscale), type, quality);
+      }
+      if (!best || encoded.size < best.blob.size) best = { blob: encoded, width, height };
+      if (encoded.size <= policy.maxBytes) break;
+
+      if (quality - 0.15 >= MIN_QUALITY) {
+        quality -= 0.15;
+      } else if (Math.max(width, height) * 0.8 >= MIN_DIMENSION) {
+        ({ width, height } = fitWithin(width, height, Math.round(Math.max(width, height) * 0.8)));
+      } else {
+        break;
+      }
+    }
+  } finally {
+    if ('close' in source) source.close();
+  }
+
+  let blob = best!.blob;
+  if (policy.exif === 'keep' && blob.type === 'image/jpeg') {
+    const segment = extractExifSegment(await readBuffer(file));
+    if (segment) {
+      blob = new Blob([insertExifSegment(await readBuffer(blob), resetOrientation(segment))], { type: blob.type });
+    }
+  }
+
+  return { blob, width: best!.width, height: best!.height, originalBytes: file.size, grayscale };
+}
@@ -1,13 +1,16 @@
 /**
  * IndexedDB offline storage for Salesmate PWA.
  * Stores user data, routes, missions, and queues offline completions for sync.
+ * Photo missions with a verificationConfig are queued with their photo (as a
+ * Blob) and verified when the app is back online.
  *
  * PERF-001: Uses connection pooling — a single IDBDatabase instance is reused
  * across operations, only opening a new one if the previous was closed/errored.
  */
 
-import { UserData, RouteItem, Mission } from '../types';
+import { UserData, RouteItem, Mission, PhotoVerificationConfig } from '../types';
 import type { TaskFeedback } from './mockApi';
+import type { VerificationContext } from './photoVerifyApi';
 
 const DB_NAME = 'salesmate_offline';
 const DB_VERSION = 1;
@@ -40,16 +43,34 @@ interface CachedMissions {
   cachedAt: number;
 }
 
-export interface SyncQueueItem {
+/** A photo verification deferred until the app is back online */
+export interface QueuedPhotoVerification {
+  photo: Blob;
+  config: PhotoVerificationConfig;
+  context: VerificationContext;
+  feedback: TaskFeedback;  // Sent with the completion once the photo passes
+  missionName: string;     // For the notice if it does not
+  customerName: string;
+}
+
+// Stored form: the photo as bytes, since Safari's IndexedDB has a history of failing on Blobs
+interface StoredPhotoVerification extends Omit<QueuedPhotoVerification, 'photo'> {
+  photoBytes: ArrayBuffer;
+  photoType: string;
+}
+
+interface SyncQueueBase {
   id: string;
-  type: 'mission_complete';
   brandId: string;
   visitId: string;
   taskId: string;
-  data: TaskFeedback;
   timestamp: number;
 }
 
+export type SyncQueueItem =
+  | (SyncQueueBase & { type: 'mission_complete'; data: TaskFeedback })
+  | (SyncQueueBase & { type: 'photo_verification'; data: QueuedPhotoVerification });
+
 // ── Connection pool: reuse a single IDBDatabase instance ──
 
 let dbInstance: IDBDatabase | null = null;
@@ -137,6 +158,15 @@ async function remove(storeName: string, key: string): Promise<void> {
   });
 }
 
+function readBlob(blob: Blob): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
 // ── Public API ──
 
 export const offlineDb = {
@@ -207,9 +237,29 @@ export const offlineDb = {
     await put('syncQueue', item as unknown as Record<string, unknown>);
   },
 
+  /** Queue a photo verification (and the completion that follows it) for when back online */
+  async queuePhotoVerification(brandId: string, visitId: string, taskId: string, verification: QueuedPhotoVerification): Promise<void> {
+    const { photo, ...rest } = verification;
+    const data: StoredPhotoVerification = { ...rest, photoBytes: await readBlob(photo), photoType: photo.type };
+    await put('syncQueue', {
+      id: `${taskId}_${Date.now()}`,
+      type: 'photo_verification',
+      brandId,
+      visitId,
+      taskId,
+      data,
+      timestamp: Date.now(),
+    });
+  },
+
   /** Get all pending sync items */
   async getPendingSyncs(): Promise<SyncQueueItem[]> {
-    return getAll<SyncQueueItem>('syncQueue');
+    const items = await getAll<SyncQueueItem>('syncQueue');
+    return items.map((item) => {
+      if (item.type !== 'photo_verification') return item;
+      const { photoBytes, photoType, ...rest } = item.data as unknown as StoredPhotoVerification;
+      return { ...item, data: { ...rest, photo: new Blob([photoBytes], { type: photoType }) } };
+    });
   },
 
   /** Remove a sync item after successful sync */
@@ -219,7 +269,8 @@ export const offlineDb = {
 
   /** Process pending syncs (call when back online) */
   async processSyncQueue(syncFn: (item: SyncQueueItem) => Promise<boolean>): Promise<number> {
-    const pending = await this.getPendingSyncs();
+    // Oldest first, so a mission's items sync in the order they were queued
+    const pending = (await this.getPendingSyncs()).sort((a, b) => a.timestamp - b.timestamp);
     let synced = 0;
     for (const item of pending) {
       try {
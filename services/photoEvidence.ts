@@ -0,0 +1,216 @@
+/**
+ * Photo evidence metadata for PHOTO_VERIFY.
+ * Reads the capture time and GPS position embedded in a photo's EXIF data and
+ * the device position when the rep picks the photo, so the backend can check
+ * that the photo was taken recently and at the point of sale.
+ *
+ * Must run on the original camera file: re-encoding (canvas, compression)
+ * drops the EXIF block.
+ */
+
+import type { GeoPoint, PhotoEvidence } from '../types';
+
+export interface ExifMetadata {
+  capturedAt?: string; // ISO 8601
+  location?: GeoPoint;
+}
+
+// ── EXIF tags ──
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATETIME = 0x0132;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LAT_REF = 0x0001;
+const TAG_GPS_LAT = 0x0002;
+const TAG_GPS_LNG_REF = 0x0003;
+const TAG_GPS_LNG = 0x0004;
+
+const TYPE_ASCII = 2;
+const TYPE_RATIONAL = 5;
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  entryOffset: number; // Start of the 12-byte entry
+}
+
+// ── TIFF reader over the APP1 payload ──
+
+class TiffReader {
+  constructor(private view: DataView, private start: number, private little: boolean) {}
+
+  u16(offset: number): number { return this.view.getUint16(this.start + offset, this.little); }
+  u32(offset: number): number { return this.view.getUint32(this.start + offset, this.little); }
+
+  readIfd(offset: number): Map<number, IfdEntry> {
+    const entries = new Map<number, IfdEntry>();
+    const count = this.u16(offset);
+    for (let i = 0; i < count; i++) {
+      const entryOffset = offset + 2 + i * 12;
+      entries.set(this.u16(entryOffset), {
+        type: this.u16(entryOffset + 2),
+        count: this.u32(entryOffset + 4),
+        entryOffset,
+      });
+    }
+    return entries;
+  }
+
+  // Values over 4 bytes live at an offset; smaller ones are inline
+  private valueOffset(entry: IfdEntry, size: number): number {
+    return entry.count * size > 4 ? this.u32(entry.entryOffset + 8) : entry.entryOffset + 8;
+  }
+
+  ascii(entry?: IfdEntry): string | undefined {
+    if (!entry || entry.type !== TYPE_ASCII) return undefined;
+    const offset = this.valueOffset(entry, 1);
+    let text = '';
+    for (let i = 0; i < entry.count; i++) {
+      const code = this.view.getUint8(this.start + offset + i);
+      if (code === 0) break;
+      text += String.fromCharCode(code);
+    }
+    return text;
+  }
+
+  rationals(entry?: IfdEntry): number[] | undefined {
+    if (!entry || entry.type !== TYPE_RATIONAL) return undefined;
+    const offset = this.valueOffset(entry, 8);
+    const values: number[] = [];
+    for (let i = 0; i < entry.count; i++) {
+      const denominator = this.u32(offset + i * 8 + 4);
+      values.push(denominator === 0 ? 0 : this.u32(offset + i * 8) / denominator);
+    }
+    return values;
+  }
+
+  pointer(entry?: IfdEntry): number | undefined {
+    return entry ? this.u32(entry.entryOffset + 8) : undefined;
+  }
+}
+
+// ── Conversions ──
+
+// "2026:03:02 14:05:11" (+ optional "-05:00") → ISO 8601.
+// Without an offset the time is the camera's local time, i.e. this device's.
+function exifDateToIso(value: string, offset?: string): string | undefined {
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(value);
+  if (!match) return undefined;
+  const [, y, mo, d, h, mi, s] = match;
+
+  const date = offset && /^[+-]\d{2}:\d{2}$/.test(offset)
+    ? new Date(`${y}-${mo}-${d}T${h}:${mi}:${s}${offset}`)
+    : new Date(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s));
+
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function dmsToDegrees(dms: number[] | undefined, ref: string | undefined, negativeRef: string): number | undefined {
+  if (!dms || dms.length < 3) return undefined;
+  const degrees = dms[0] + dms[1] / 60 + dms[2] / 3600;
+  return ref === negativeRef ? -degrees : degrees;
+}
+
+// ── Public API ──
+
+/** Extract capture time and GPS from a JPEG. Returns {} when absent or unreadable. */
+export function parseExif(buffer: ArrayBuffer): ExifMetadata {
+  try {
+    const view = new DataView(buffer);
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return {};
+
+    // Walk the JPEG segments up to the image data looking for APP1 "Exif\0\0"
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      if (marker === 0xffda) return {};
+      const length = view.getUint16(offset + 2);
+
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+        const tiffStart = offset + 10;
+        const little = view.getUint16(tiffStart) === 0x4949; // "II"
+        const tiff = new TiffReader(view, tiffStart, little);
+        const ifd0 = tiff.readIfd(tiff.u32(4));
+
+        const result: ExifMetadata = {};
+
+        const exifPointer = tiff.pointer(ifd0.get(TAG_EXIF_IFD));
+        const exifIfd = exifPointer !== undefined ? tiff.readIfd(exifPointer) : new Map<number, IfdEntry>();
+        const dateTime = tiff.ascii(exifIfd.get(TAG_DATETIME_ORIGINAL)) ?? tiff.ascii(ifd0.get(TAG_DATETIME));
+        if (dateTime) {
+          result.capturedAt = exifDateToIso(dateTime, tiff.ascii(exifIfd.get(TAG_OFFSET_TIME_ORIGINAL)));
+        }
+
+        const gpsPointer = tiff.pointer(ifd0.get(TAG_GPS_IFD));
+        if (gpsPointer !== undefined) {
+          const gps = tiff.readIfd(gpsPointer);
+          const lat = dmsToDegrees(tiff.rationals(gps.get(TAG_GPS_LAT)), tiff.ascii(gps.get(TAG_GPS_LAT_REF)), 'S');
+          const lng = dmsToDegrees(tiff.rationals(gps.get(TAG_GPS_LNG)), tiff.ascii(gps.get(TAG_GPS_LNG_REF)), 'W');
+          // 0,0 is what some cameras write when they had no fix
+          if (lat !== undefined && lng !== undefined && !(lat === 0 && lng === 0)) {
+            result.location = { lat, lng };
+          }
+        }
+
+        return result;
+      }
+
+      offset += 2 + length;
+    }
+    return {};
+  } catch (err) {
+    console.warn('[PhotoEvidence] Could not read EXIF:', err);
+    return {};
+  }
+}
+
+/** Current device position, or null if unavailable, denied or too slow. */
+export function getDeviceLocation(timeoutMs: number = 8000): Promise<(GeoPoint & { accuracyM?: number }) | null> {
+  if (typeof navigator === 'undefined' || !navigator.geolocation) return Promise.resolve(null);
+
+  return new Promise((resolve) => {
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({
+        lat: position.coords.latitude,
+        lng: position.coords.longitude,
+        accuracyM: position.coords.accuracy,
+      }),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 60_000 }
+    );
+  });
+}
+
+function readFileBuffer(file: Blob): Promise<ArrayBuffer> {
+  if (typeof file.arrayBuffer === 'function') return file.arrayBuffer();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(file);
+  });
+}
+
+/** Collect everything we know about when and where a photo was taken. */
+export async function collectPhotoEvidence(file: File): Promise<PhotoEvidence> {
+  const [exif, deviceLocation] = await Promise.all([
+    readFileBuffer(file).then(parseExif).catch((): ExifMetadata => ({})),
+    getDeviceLocation(),
+  ]);
+
+  const evidence: PhotoEvidence = { deviceTime: new Date().toISOString() };
+
+  if (exif.capturedAt) {
+    evidence.capturedAt = exif.capturedAt;
+    evidence.capturedAtSource = 'exif';
+  } else if (file.lastModified) {
+    evidence.capturedAt = new Date(file.lastModified).toISOString();
+    evidence.capturedAtSource = 'file';
+  }
+  if (exif.location) evidence.exifLocation = exif.location;
+  if (deviceLocation) evidence.deviceLocation = deviceLocation;
+
+  return evidence;
+}
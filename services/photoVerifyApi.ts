@@ -3,72 +3,203 @@
 // ============================================
 // Calls the PHOTO_VERIFY backend in external/hybrid mode
 // Tasks come from Retool, verification config comes with them
+// verifyPhoto waits for the result; verifyPhotoAsync queues a job and
+// follows its progress (SSE, falling back to polling) so the app stays usable
+// Requests carry the rep's session token (see photoVerifySession.ts)
 
 import type {
   PhotoVerificationConfig,
   VerificationResult,
   CriterionResult,
+  GeoPoint,
+  PhotoEvidence,
+  VerificationJob,
+  VerificationStage,
 } from '../types';
+import { PHOTO_VERIFY_API, authorizedFetch } from './photoVerifySession';
 
-const PHOTO_VERIFY_API = import.meta.env.VITE_PHOTO_VERIFY_API_URL || 'https://salesmate-wl.vercel.app';
-const PHOTO_VERIFY_TOKEN = import.meta.env.VITE_PHOTO_VERIFY_TOKEN || '';
+const JOB_POLL_INTERVAL_MS = 2000;
+
+// An error answer from the backend; code is its error code (e.g. BUDGET_EXCEEDED)
+export class PhotoVerifyApiError extends Error {
+  constructor(message: string, readonly code: string, readonly status: number) {
+    super(message);
+    this.name = 'PhotoVerifyApiError';
+  }
+}
 
 export interface VerificationHistoryItem {
   id: string;
   externalTaskId: string | null;
-  imageUrl: string;
+  imageUrl: string | null; // Signed URL; null once the tenant's retention policy deleted the photos
+  imageUrls: Array<{ url: string; label?: string }>;
+  imagesPurgedAt: string | null;
   passed: boolean;
   overallConfidence: number;
+  score: number | null;
   criteriaResults: CriterionResult[];
   modelUsed: string;
   processingTimeMs: number;
   createdAt: string;
 }
 
+// Where and when the photo was taken, for duplicate and integrity checks
+export interface VerificationContext {
+  customerId?: string;         // Scopes duplicate-photo detection to the point of sale
+  customerLocation?: GeoPoint; // Point of sale position for the distance check
+  evidence?: PhotoEvidence;    // From collectPhotoEvidence() on the original camera file
+}
+
 // --- Verify a photo against criteria (external/hybrid mode) ---
 export async function verifyPhoto(
   externalTaskId: string,
   imageBase64: string,
   config: PhotoVerificationConfig,
+  context: VerificationContext = {},
 ): Promise<VerificationResult> {
-  const response = await fetch(`${PHOTO_VERIFY_API}/api/verify`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${PHOTO_VERIFY_TOKEN}`,
-    },
-    body: JSON.stringify({
-      externalTaskId: String(externalTaskId),
-      imageBase64: cleanBase64(imageBase64),
-      config,
-    }),
-  });
+  return postVerify(buildVerifyBody(externalTaskId, imageBase64, config, context)) as Promise<VerificationResult>;
+}
+
+// --- Queue a verification; resolves as soon as the job exists ---
+export async function startVerification(
+  externalTaskId: string,
+  imageBase64: string,
+  config: PhotoVerificationConfig,
+  context: VerificationContext = {},
+): Promise<{ jobId: string; status: VerificationJob['status'] }> {
+  const body = { ...buildVerifyBody(externalTaskId, imageBase64, config, context), async: true };
+  return postVerify(body) as Promise<{ jobId: string; status: VerificationJob['status'] }>;
+}
+
+// --- Current state of a verification job ---
+export async function getVerificationJob(jobId: string): Promise<VerificationJob> {
+  const response = await authorizedFetch(`${PHOTO_VERIFY_API}/api/verify/${encodeURIComponent(jobId)}`);
 
   if (!response.ok) {
-    const errData = await response.json().catch(() => ({ error: { message: response.statusText } }));
-    throw new Error(errData.error?.message || `Verification failed: ${response.status}`);
+    throw new Error(`Failed to fetch verification job: ${response.status}`);
   }
 
   const data = await response.json();
+  return data.data as VerificationJob;
+}
 
-  if (!data.success) {
-    throw new Error(data.error?.message || 'Verification failed');
+// --- Follow a job until it finishes ---
+// Reads the SSE stream with fetch (EventSource cannot send the token);
+// if the stream is unavailable or times out, polls the job instead.
+export async function watchVerificationJob(
+  jobId: string,
+  onProgress: (stage: VerificationStage) => void,
+  signal?: AbortSignal,
+): Promise<VerificationJob> {
+  try {
+    const finished = await streamVerificationJob(jobId, onProgress, signal);
+    if (finished) return finished;
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    console.warn('[PhotoVerify] Progress stream unavailable, polling instead', err);
+  }
+
+  for (;;) {
+    const job = await getVerificationJob(jobId);
+    onProgress(job.stage);
+    if (job.status === 'succeeded' || job.status === 'failed') return job;
+    await wait(JOB_POLL_INTERVAL_MS, signal);
   }
+}
+
+// --- Queue, follow, and resolve with the result like verifyPhoto ---
+export async function verifyPhotoAsync(
+  externalTaskId: string,
+  imageBase64: string,
+  config: PhotoVerificationConfig,
+  context: VerificationContext = {},
+  onProgress: (stage: VerificationStage) => void = () => {},
+  signal?: AbortSignal,
+): Promise<VerificationResult> {
+  const { jobId } = await startVerification(externalTaskId, imageBase64, config, context);
+  onProgress('queued');
 
-  return data.data as VerificationResult;
+  const job = await watchVerificationJob(jobId, onProgress, signal);
+  if (job.status === 'failed' || !job.result) {
+    throw new Error(job.error || 'Verification failed');
+  }
+  return job.result;
+}
+
+// ── Server-sent events ──
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+// Splits a text buffer into complete events; `rest` is the unfinished tail
+export function parseServerSentEvents(buffer: string): { events: ServerSentEvent[]; rest: string } {
+  const blocks = buffer.replace(/\r\n/g, '\n').split('\n\n');
+  const rest = blocks.pop() ?? '';
+
+  const events = blocks
+    .map((block) => {
+      let event = 'message';
+      const data: string[] = [];
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+      }
+      return { event, data: data.join('\n') };
+    })
+    .filter((e) => e.data !== '');
+
+  return { events, rest };
+}
+
+// Resolves with the finished job, or null if the stream ended first
+async function streamVerificationJob(
+  jobId: string,
+  onProgress: (stage: VerificationStage) => void,
+  signal?: AbortSignal,
+): Promise<VerificationJob | null> {
+  const response = await authorizedFetch(`${PHOTO_VERIFY_API}/api/verify/${encodeURIComponent(jobId)}/events`, {
+    headers: {
+      'Accept': 'text/event-stream',
+    },
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`Progress stream failed: ${response.status}`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return null;
+
+    const parsed = parseServerSentEvents(buffer + value);
+    buffer = parsed.rest;
+
+    for (const { event, data } of parsed.events) {
+      if (event === 'progress') {
+        onProgress((JSON.parse(data) as { stage: VerificationStage }).stage);
+      } else if (event === 'result' || event === 'failed') {
+        await reader.cancel();
+        return JSON.parse(data) as VerificationJob;
+      } else if (event === 'timeout' || event === 'error') {
+        await reader.cancel();
+        return null;
+      }
+    }
+  }
 }
 
 // --- Get verification history for an external task ---
 export async function getVerificationHistory(
   externalTaskId: string,
 ): Promise<VerificationHistoryItem[]> {
-  const response = await fetch(
+  const response = await authorizedFetch(
     `${PHOTO_VERIFY_API}/api/verifications?externalTaskId=${encodeURIComponent(String(externalTaskId))}`,
-    {
-      headers: {
-        'Authorization': `Bearer ${PHOTO_VERIFY_TOKEN}`,
-      },
-    }
   );
 
   if (!response.ok) {
@@ -79,6 +210,63 @@ export async function getVerificationHistory(
   return data.data?.verifications || [];
 }
 
+// --- Helper: request body for POST /api/verify ---
+function buildVerifyBody(
+  externalTaskId: string,
+  imageBase64: string,
+  config: PhotoVerificationConfig,
+  context: VerificationContext,
+) {
+  return {
+    externalTaskId: String(externalTaskId),
+    imageBase64: cleanBase64(imageBase64),
+    config,
+    customerId: context.customerId,
+    customerLocation: context.customerLocation,
+    evidence: context.evidence,
+  };
+}
+
+// --- Helper: POST /api/verify and unwrap data ---
+async function postVerify(body: Record<string, unknown>): Promise<unknown> {
+  const response = await authorizedFetch(`${PHOTO_VERIFY_API}/api/verify`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errData = await response.json().catch(() => ({ error: { message: response.statusText } }));
+    throw new PhotoVerifyApiError(
+      errData.error?.message || `Verification failed: ${response.status}`,
+      errData.error?.code || 'HTTP_ERROR',
+      response.status,
+    );
+  }
+
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error?.message || 'Verification failed');
+  }
+
+  return data.data;
+}
+
+// --- Helper: delay that stops when the caller aborts ---
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
 // --- Helper: strip data URL prefix from base64 ---
 function cleanBase64(base64: string): string {
   // Remove "data:image/jpeg;base64," prefix if present
@@ -0,0 +1,172 @@
+// ============================================
+// Photo Verification Session
+// ============================================
+// Each rep gets their own session with the PHOTO_VERIFY backend, bound
+// to their emp_code and this device, instead of a token in the bundle.
+// At login, startSession asks the PWA's own proxy (/api/photoVerify,
+// which holds the operator credential server-side and forwards only this
+// exchange) to open one with the rep's emp_code and PIN; after that the
+// device refreshes its 15-minute access token by itself and calls the
+// backend directly.
+// Refresh tokens are single use, so refreshes never run in parallel.
+
+export const PHOTO_VERIFY_API = import.meta.env.VITE_PHOTO_VERIFY_API_URL || 'https://salesmate-wl.vercel.app';
+const EXCHANGE_URL = import.meta.env.VITE_PHOTO_VERIFY_EXCHANGE_URL || '/api/photoVerify/auth/token';
+
+const SESSION_KEY = 'photoVerify.session';
+const DEVICE_KEY = 'photoVerify.deviceId';
+const REFRESH_MARGIN_MS = 60_000; // Refresh this long before the access token expires
+
+export interface PhotoVerifySession {
+  empCode: string;
+  accessToken: string;
+  accessTokenExpiresAt: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: string;
+}
+
+let refreshing: Promise<PhotoVerifySession | null> | null = null;
+
+// ── Storage ──
+
+// A random id generated on first launch and kept for the install
+export function getDeviceId(): string {
+  let id = localStorage.getItem(DEVICE_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(DEVICE_KEY, id);
+  }
+  return id;
+}
+
+export function getSession(): PhotoVerifySession | null {
+  const raw = localStorage.getItem(SESSION_KEY);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as PhotoVerifySession;
+  } catch {
+    return null;
+  }
+}
+
+function saveSession(session: PhotoVerifySession | null): void {
+  if (session) localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  else localStorage.removeItem(SESSION_KEY);
+}
+
+// ── Session lifecycle ──
+
+// Thrown when the backend refused the emp_code / PIN (401) or locked the rep out (423)
+export class InvalidCredentialsError extends Error {
+  constructor(readonly status: number) {
+    super(status === 423 ? 'Too many wrong PINs' : 'Invalid employee code or PIN');
+    this.name = 'InvalidCredentialsError';
+  }
+}
+
+// --- Open a session for the rep logging in ---
+export async function startSession(empCode: string, pin: string): Promise<PhotoVerifySession> {
+  const response = await fetch(EXCHANGE_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ grantType: 'emp_code', empCode, pin, deviceId: getDeviceId() }),
+  });
+
+  if (response.status === 401 || response.status === 423) {
+    throw new InvalidCredentialsError(response.status);
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to open photo verification session: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const session = { empCode, ...pickTokens(data.data) };
+  saveSession(session);
+  return session;
+}
+
+// --- Log out: revoke on the backend (best effort) and forget the tokens ---
+export async function endSession(): Promise<void> {
+  const session = getSession();
+  saveSession(null);
+  if (!session) return;
+
+  try {
+    await fetch(`${PHOTO_VERIFY_API}/api/auth/revoke`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken: session.refreshToken }),
+    });
+  } catch (err) {
+    console.warn('[PhotoVerify] Could not revoke session', err);
+  }
+}
+
+// --- Trade the refresh token for a new pair; one refresh at a time ---
+// Resolves with null when the backend refused it (the rep must log in again)
+export function refreshSession(): Promise<PhotoVerifySession | null> {
+  refreshing ??= doRefresh().finally(() => { refreshing = null; });
+  return refreshing;
+}
+
+async function doRefresh(): Promise<PhotoVerifySession | null> {
+  const session = getSession();
+  if (!session) return null;
+
+  const response = await fetch(`${PHOTO_VERIFY_API}/api/auth/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ grantType: 'refresh_token', refreshToken: session.refreshToken, deviceId: getDeviceId() }),
+  });
+
+  if (response.status === 401) {
+    saveSession(null);
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to refresh photo verification session: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const refreshed = { empCode: session.empCode, ...pickTokens(data.data) };
+  saveSession(refreshed);
+  return refreshed;
+}
+
+// ── Authorized requests ──
+
+// --- fetch with the rep's access token; refreshes it when due or refused ---
+// Without a session the request goes out unauthenticated and the backend answers 401
+export async function authorizedFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  let session = getSession();
+  if (session && Date.parse(session.accessTokenExpiresAt) - Date.now() < REFRESH_MARGIN_MS) {
+    session = await refreshSession();
+  }
+
+  const response = await fetch(url, withAuth(init, session));
+  if (response.status !== 401 || !session) return response;
+
+  const refreshed = await refreshSession();
+  return refreshed ? fetch(url, withAuth(init, refreshed)) : response;
+}
+
+function withAuth(init: RequestInit, session: PhotoVerifySession | null): RequestInit {
+  if (!session) return init;
+  return {
+    ...init,
+    headers: {
+      ...(init.headers as Record<string, string> | undefined),
+      'Authorization': `Bearer ${session.accessToken}`,
+      'X-Device-Id': getDeviceId(),
+    },
+  };
+}
+
+function pickTokens(tokens: Omit<PhotoVerifySession, 'empCode'>): Omit<PhotoVerifySession, 'empCode'> {
+  return {
+    accessToken: tokens.accessToken,
+    accessTokenExpiresAt: tokens.accessTokenExpiresAt,
+    refreshToken: tokens.refreshToken,
+    refreshTokenExpiresAt: tokens.refreshTokenExpiresAt,
+  };
+}
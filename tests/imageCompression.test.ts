@@ -0,0 +1,218 @@
+/**
+ * Unit tests for services/imageCompression.ts
+ *
+ * Covers:
+ * - Policy: defaults ← brand ← task, clamping
+ * - Grayscale only when every criterion is color-independent
+ * - fitWithin never upscales; toGrayscale luma
+ * - EXIF: extract APP1, reset orientation, insert after SOI
+ * - compressImage: downscale, quality / size step-down to maxBytes, WebP → JPEG fallback
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  DEFAULT_COMPRESSION_POLICY,
+  compressImage,
+  extractExifSegment,
+  fitWithin,
+  insertExifSegment,
+  resetOrientation,
+  resolveCompressionPolicy,
+  shouldGrayscale,
+  toGrayscale,
+} from '../services/imageCompression';
+
+// ── Helpers ──
+
+/** SOI + APP1 "Exif" (big-endian TIFF, IFD0 with Orientation = 6) + SOS. */
+function makeJpegWithExif(): ArrayBuffer {
+  const tiff = [
+    0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08, // "MM", 42, IFD0 at 8
+    0x00, 0x01,                                     // 1 entry
+    0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, 0x06, 0x00, 0x00, // Orientation SHORT 6
+    0x00, 0x00, 0x00, 0x00,                         // No next IFD
+  ];
+  const payload = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00, ...tiff];
+  const length = payload.length + 2;
+  return new Uint8Array([
+    0xff, 0xd8,
+    0xff, 0xe1, length >> 8, length & 0xff, ...payload,
+    0xff, 0xda, 0x00, 0x02,
+  ]).buffer;
+}
+
+function orientationOf(segment: Uint8Array): number {
+  // IFD0 entry value sits at: 10 (APP1 header) + 8 (TIFF header) + 2 (count) + 8
+  return new DataView(segment.buffer, segment.byteOffset).getUint16(28);
+}
+
+function readBuffer(blob: Blob): Promise<ArrayBuffer> {
+  return new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+interface FakeEncoder {
+  sizes: number[];         // Blob size per toBlob call
+  webp?: boolean;          // Whether image/webp is supported
+  calls: Array<{ width: number; height: number; type: string; quality: number }>;
+}
+
+function installCanvas(encoder: FakeEncoder) {
+  vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(function () {
+    return {
+      drawImage: () => {},
+      getImageData: () => ({ data: new Uint8ClampedArray(4) }),
+      putImageData: () => {},
+    } as unknown as CanvasRenderingContext2D;
+  } as typeof HTMLCanvasElement.prototype.getContext);
+
+  HTMLCanvasElement.prototype.toBlob = function (callback: BlobCallback, type?: string, quality?: number) {
+    const size = encoder.sizes[Math.min(encoder.calls.length, encoder.sizes.length - 1)];
+    encoder.calls.push({ width: this.width, height: this.height, type: type!, quality: quality! });
+    const actualType = type === 'image/webp' && !encoder.webp ? 'image/png' : type!;
+    const bytes = new Uint8Array(size);
+    bytes.set([0xff, 0xd8]); // SOI, so EXIF can be spliced in
+    callback(new Blob([bytes], { type: actualType }));
+  };
+}
+
+beforeEach(() => {
+  vi.stubGlobal('createImageBitmap', vi.fn(async () => ({ width: 4000, height: 3000, close: vi.fn() })));
+});
+
+const originalToBlob = HTMLCanvasElement.prototype.toBlob;
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  HTMLCanvasElement.prototype.toBlob = originalToBlob;
+});
+
+// ── Policy ──
+
+describe('resolveCompressionPolicy', () => {
+  it('layers brand and task settings over the defaults', () => {
+    const policy = resolveCompressionPolicy({ maxDimension: 1200, quality: 0.7 }, { quality: 0.6, format: 'webp' });
+    expect(policy).toEqual({ ...DEFAULT_COMPRESSION_POLICY, maxDimension: 1200, quality: 0.6, format: 'webp' });
+  });
+
+  it('clamps out-of-range values', () => {
+    const policy = resolveCompressionPolicy({ maxDimension: 10, quality: 0.05 });
+    expect(policy.maxDimension).toBe(320);
+    expect(policy.quality).toBe(0.4);
+  });
+});
+
+describe('shouldGrayscale', () => {
+  const policy = resolveCompressionPolicy({ grayscaleCriteria: ['count', 'text'] });
+
+  it('applies when every criterion is color-independent', () => {
+    expect(shouldGrayscale(policy, [{ type: 'count' }, { type: 'text' }])).toBe(true);
+  });
+
+  it('does not apply when any criterion may need color', () => {
+    expect(shouldGrayscale(policy, [{ type: 'count' }, { type: 'presence_of_brand' }])).toBe(false);
+    expect(shouldGrayscale(policy, [])).toBe(false);
+    expect(shouldGrayscale(DEFAULT_COMPRESSION_POLICY, [{ type: 'count' }])).toBe(false);
+  });
+});
+
+// ── Geometry & pixels ──
+
+describe('fitWithin', () => {
+  it('scales the longest side down to the maximum', () => {
+    expect(fitWithin(4000, 3000, 1600)).toEqual({ width: 1600, height: 1200 });
+    expect(fitWithin(3000, 4000, 1600)).toEqual({ width: 1200, height: 1600 });
+  });
+
+  it('never upscales', () => {
+    expect(fitWithin(800, 600, 1600)).toEqual({ width: 800, height: 600 });
+  });
+});
+
+describe('toGrayscale', () => {
+  it('replaces RGB with luma and keeps alpha', () => {
+    const data = new Uint8ClampedArray([255, 0, 0, 128, 0, 0, 255, 255]);
+    toGrayscale(data);
+    expect(Array.from(data)).toEqual([76, 76, 76, 128, 29, 29, 29, 255]);
+  });
+});
+
+// ── EXIF ──
+
+describe('EXIF segment', () => {
+  it('extracts APP1 and resets orientation on a copy', () => {
+    const segment = extractExifSegment(makeJpegWithExif())!;
+    expect(segment[0]).toBe(0xff);
+    expect(segment[1]).toBe(0xe1);
+    expect(orientationOf(segment)).toBe(6);
+
+    const upright = resetOrientation(segment);
+    expect(orientationOf(upright)).toBe(1);
+    expect(orientationOf(segment)).toBe(6);
+  });
+
+  it('returns null without EXIF', () => {
+    expect(extractExifSegment(new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0x00, 0x02]).buffer)).toBeNull();
+    expect(extractExifSegment(new Uint8Array([0x89, 0x50, 0x4e, 0x47]).buffer)).toBeNull();
+  });
+
+  it('inserts the segment right after SOI', () => {
+    const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xdb, 0x01]).buffer;
+    const out = insertExifSegment(jpeg, new Uint8Array([0xff, 0xe1, 0x00, 0x02]));
+    expect(Array.from(out)).toEqual([0xff, 0xd8, 0xff, 0xe1, 0x00, 0x02, 0xff, 0xdb, 0x01]);
+  });
+});
+
+// ── compressImage ──
+
+describe('compressImage', () => {
+  const photo = new Blob([new Uint8Array(6_000_000)], { type: 'image/jpeg' });
+
+  it('downscales and encodes once when the result fits', async () => {
+    const encoder: FakeEncoder = { sizes: [400_000], calls: [] };
+    installCanvas(encoder);
+
+    const result = await compressImage(photo, DEFAULT_COMPRESSION_POLICY);
+
+    expect(encoder.calls).toEqual([{ width: 1600, height: 1200, type: 'image/jpeg', quality: 0.8 }]);
+    expect(result.blob.size).toBe(400_000);
+    expect(result).toMatchObject({ width: 1600, height: 1200, originalBytes: 6_000_000, grayscale: false });
+  });
+
+  it('lowers quality, then size, until it fits maxBytes', async () => {
+    const encoder: FakeEncoder = { sizes: [3_000_000, 2_500_000, 2_000_000, 1_000_000], calls: [] };
+    installCanvas(encoder);
+
+    const result = await compressImage(photo, DEFAULT_COMPRESSION_POLICY);
+
+    expect(encoder.calls.map((c) => c.quality.toFixed(2))).toEqual(['0.80', '0.65', '0.50', '0.50']);
+    expect(encoder.calls[3]).toMatchObject({ width: 1280, height: 960 });
+    expect(result).toMatchObject({ width: 1280, height: 960 });
+    expect(result.blob.size).toBe(1_000_000);
+  });
+
+  it('falls back to JPEG when the browser cannot encode WebP', async () => {
+    const encoder: FakeEncoder = { sizes: [300_000], calls: [], webp: false };
+    installCanvas(encoder);
+
+    const result = await compressImage(photo, resolveCompressionPolicy({ format: 'webp' }));
+
+    expect(encoder.calls.map((c) => c.type)).toEqual(['image/webp', 'image/jpeg']);
+    expect(result.blob.type).toBe('image/jpeg');
+  });
+
+  it('copies the EXIF block into the JPEG when the policy keeps it', async () => {
+    const encoder: FakeEncoder = { sizes: [100], calls: [] };
+    installCanvas(encoder);
+    const original = new Blob([makeJpegWithExif()], { type: 'image/jpeg' });
+
+    const result = await compressImage(original, resolveCompressionPolicy({ exif: 'keep' }));
+
+    const segment = extractExifSegment(await readBuffer(result.blob));
+    expect(segment).not.toBeNull();
+    expect(orientationOf(segment!)).toBe(1);
+  });
+});
@@ -6,6 +6,7 @@
  * - TYPE-001: Typed interfaces for all stores
  * - CRUD operations: save/get user data, routes, missions
  * - Sync queue: queue, retrieve, remove, process
+ * - Deferred photo verifications: photo Blob round-trip, processed in queue order
  *
  * Uses unique keys per test to avoid cross-test state pollution.
  */
@@ -13,7 +14,7 @@
 import { describe, it, expect, vi } from 'vitest';
 import 'fake-indexeddb/auto';
 import { offlineDb, SyncQueueItem } from '../services/offlineDb';
-import type { UserData } from '../types';
+import type { PhotoVerificationConfig, UserData } from '../types';
 
 let testCounter = 0;
 function uid() { return `t${++testCounter}_${Date.now()}`; }
@@ -25,6 +26,25 @@ function makeUserData(): UserData {
   };
 }
 
+function readText(blob: Blob): Promise<string> {
+  return new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blob);
+  });
+}
+
+function makeVerification(photo = new Blob(['jpeg-bytes'], { type: 'image/jpeg' })) {
+  return {
+    photo,
+    config: { criteria: [] } as unknown as PhotoVerificationConfig,
+    context: { customerId: 'C1', customerLocation: { lat: 4.6, lng: -74.08 } },
+    feedback: { mission_type: 'take_photo', verification_deferred: true },
+    missionName: 'Cooler photo',
+    customerName: 'Tienda Test',
+  };
+}
+
 describe('offlineDb', () => {
 
   // ── User Data ──
@@ -116,6 +136,48 @@ describe('offlineDb', () => {
     });
   });
 
+  // ── Deferred photo verifications ──
+  describe('photo verification queue', () => {
+    it('queues a photo verification and returns the photo as a Blob', async () => {
+      const b = uid();
+      await offlineDb.queuePhotoVerification(b, 'V1', 'TPV1', makeVerification());
+      const item = (await offlineDb.getPendingSyncs()).find(p => p.brandId === b)!;
+
+      expect(item.type).toBe('photo_verification');
+      if (item.type !== 'photo_verification') return;
+      expect(item.data.photo).toBeInstanceOf(Blob);
+      expect(item.data.photo.type).toBe('image/jpeg');
+      expect(await readText(item.data.photo)).toBe('jpeg-bytes');
+      expect(item.data.context.customerId).toBe('C1');
+      expect(item.data.missionName).toBe('Cooler photo');
+    });
+
+    it('processes items oldest first and keeps the ones that fail', async () => {
+      const b = uid();
+      const now = vi.spyOn(Date, 'now');
+      now.mockReturnValue(2000);
+      await offlineDb.queueMissionCompletion(b, 'V1', 'TLATE', {});
+      now.mockReturnValue(1000);
+      await offlineDb.queuePhotoVerification(b, 'V1', 'TEARLY', makeVerification());
+      now.mockRestore();
+
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const seen: string[] = [];
+      await offlineDb.processSyncQueue(async (item) => {
+        if (item.brandId !== b) return false;
+        seen.push(item.taskId);
+        if (item.type === 'photo_verification') throw new Error('offline again');
+        return true;
+      });
+
+      warn.mockRestore();
+
+      expect(seen).toEqual(['TEARLY', 'TLATE']);
+      const left = (await offlineDb.getPendingSyncs()).filter(p => p.brandId === b);
+      expect(left.map(p => p.taskId)).toEqual(['TEARLY']);
+    });
+  });
+
   // ── Connection pooling ──
   describe('PERF-001: connection pooling', () => {
     it('sequential operations reuse connection without errors', async () => {
@@ -0,0 +1,190 @@
+/**
+ * Unit tests for services/photoEvidence.ts
+ *
+ * Covers:
+ * - EXIF parsing: DateTimeOriginal (+ OffsetTimeOriginal), GPS in both byte orders
+ * - Non-JPEG / EXIF-less files return no metadata
+ * - collectPhotoEvidence: EXIF vs. file lastModified fallback, device geolocation
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { parseExif, collectPhotoEvidence } from '../services/photoEvidence';
+
+// ── Helpers ──
+
+interface ExifFixture {
+  dateTime?: string;
+  offset?: string;
+  gps?: { lat: [number, number, number]; latRef: 'N' | 'S'; lng: [number, number, number]; lngRef: 'E' | 'W' };
+  little?: boolean;
+}
+
+/** Build a minimal JPEG: SOI + APP1 "Exif" (IFD0 → Exif IFD / GPS IFD) + SOS. */
+function makeJpeg({ dateTime, offset, gps, little = false }: ExifFixture): ArrayBuffer {
+  const tiff = new DataView(new ArrayBuffer(512));
+  const ascii = (at: number, text: string) => {
+    for (let i = 0; i < text.length; i++) tiff.setUint8(at + i, text.charCodeAt(i));
+    tiff.setUint8(at + text.length, 0);
+  };
+  const entry = (at: number, tag: number, type: number, count: number, value: number) => {
+    tiff.setUint16(at, tag, little);
+    tiff.setUint16(at + 2, type, little);
+    tiff.setUint32(at + 4, count, little);
+    if (type === 3) tiff.setUint16(at + 8, value, little);
+    else tiff.setUint32(at + 8, value, little);
+  };
+
+  tiff.setUint16(0, little ? 0x4949 : 0x4d4d);
+  tiff.setUint16(2, 42, little);
+  tiff.setUint32(4, 8, little);
+
+  // IFD0 at 8: pointers to the Exif (40) and GPS (80) IFDs
+  tiff.setUint16(8, 2, little);
+  entry(10, 0x8769, 4, 1, 40);
+  entry(22, 0x8825, 4, 1, gps ? 80 : 0);
+  if (!gps) tiff.setUint16(8, 1, little);
+
+  // Exif IFD at 40; strings at 200 / 230
+  const exifEntries: Array<[number, string, number]> = [];
+  if (dateTime) exifEntries.push([0x9003, dateTime, 200]);
+  if (offset) exifEntries.push([0x9011, offset, 230]);
+  tiff.setUint16(40, exifEntries.length, little);
+  exifEntries.forEach(([tag, text, at], i) => {
+    entry(42 + i * 12, tag, 2, text.length + 1, at);
+    ascii(at, text);
+  });
+
+  // GPS IFD at 80; rationals at 300 / 330
+  if (gps) {
+    tiff.setUint16(80, 4, little);
+    entry(82, 0x0001, 2, 2, 0);
+    ascii(82 + 8, gps.latRef);
+    entry(94, 0x0002, 5, 3, 300);
+    entry(106, 0x0003, 2, 2, 0);
+    ascii(106 + 8, gps.lngRef);
+    entry(118, 0x0004, 5, 3, 330);
+    [[300, gps.lat], [330, gps.lng]].forEach(([at, dms]) => {
+      (dms as number[]).forEach((v, i) => {
+        tiff.setUint32((at as number) + i * 8, Math.round(v * 100), little);
+        tiff.setUint32((at as number) + i * 8 + 4, 100, little);
+      });
+    });
+  }
+
+  const app1Length = 2 + 6 + tiff.byteLength;
+  const jpeg = new DataView(new ArrayBuffer(2 + 2 + app1Length + 4));
+  jpeg.setUint16(0, 0xffd8);
+  jpeg.setUint16(2, 0xffe1);
+  jpeg.setUint16(4, app1Length);
+  jpeg.setUint32(6, 0x45786966); // "Exif"
+  jpeg.setUint16(10, 0);
+  new Uint8Array(jpeg.buffer).set(new Uint8Array(tiff.buffer), 12);
+  jpeg.setUint16(12 + tiff.byteLength, 0xffda);
+  return jpeg.buffer;
+}
+
+function mockGeolocation(position: { latitude: number; longitude: number; accuracy: number } | null) {
+  const getCurrentPosition = vi.fn((success: PositionCallback, error?: PositionErrorCallback | null) => {
+    if (position) success({ coords: position } as GeolocationPosition);
+    else error?.({ code: 1, message: 'denied' } as GeolocationPositionError);
+  });
+  Object.defineProperty(navigator, 'geolocation', { value: { getCurrentPosition }, configurable: true });
+  return getCurrentPosition;
+}
+
+describe('photoEvidence', () => {
+
+  afterEach(() => {
+    Object.defineProperty(navigator, 'geolocation', { value: undefined, configurable: true });
+  });
+
+  // ── parseExif ──
+
+  describe('parseExif', () => {
+    it('reads DateTimeOriginal with its offset', () => {
+      const meta = parseExif(makeJpeg({ dateTime: '2026:03:02 14:05:11', offset: '-05:00' }));
+      expect(meta.capturedAt).toBe('2026-03-02T19:05:11.000Z');
+    });
+
+    it('treats a DateTimeOriginal without offset as local time', () => {
+      const meta = parseExif(makeJpeg({ dateTime: '2026:03:02 14:05:11' }));
+      expect(meta.capturedAt).toBe(new Date(2026, 2, 2, 14, 5, 11).toISOString());
+    });
+
+    it('reads GPS coordinates with S/W as negative', () => {
+      const meta = parseExif(makeJpeg({
+        gps: { lat: [4, 36, 34.92], latRef: 'S', lng: [74, 4, 54.12], lngRef: 'W' },
+      }));
+      expect(meta.location?.lat).toBeCloseTo(-4.6097, 4);
+      expect(meta.location?.lng).toBeCloseTo(-74.0817, 4);
+    });
+
+    it('reads little-endian (Intel) EXIF', () => {
+      const meta = parseExif(makeJpeg({
+        dateTime: '2026:01:15 08:00:00',
+        offset: '+00:00',
+        gps: { lat: [40, 25, 0], latRef: 'N', lng: [3, 42, 0], lngRef: 'E' },
+        little: true,
+      }));
+      expect(meta.capturedAt).toBe('2026-01-15T08:00:00.000Z');
+      expect(meta.location?.lat).toBeCloseTo(40.4167, 4);
+      expect(meta.location?.lng).toBeCloseTo(3.7, 4);
+    });
+
+    it('ignores 0,0 GPS written without a fix', () => {
+      const meta = parseExif(makeJpeg({ gps: { lat: [0, 0, 0], latRef: 'N', lng: [0, 0, 0], lngRef: 'E' } }));
+      expect(meta.location).toBeUndefined();
+    });
+
+    it('returns {} for non-JPEG data', () => {
+      const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).buffer;
+      expect(parseExif(png)).toEqual({});
+    });
+
+    it('returns {} for a JPEG without EXIF', () => {
+      const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0x00, 0x02]).buffer;
+      expect(parseExif(jpeg)).toEqual({});
+    });
+  });
+
+  // ── collectPhotoEvidence ──
+
+  describe('collectPhotoEvidence', () => {
+    it('uses EXIF time and GPS plus the device position', async () => {
+      mockGeolocation({ latitude: 4.61, longitude: -74.08, accuracy: 15 });
+      const file = new File(
+        [makeJpeg({ dateTime: '2026:03:02 14:05:11', offset: '-05:00', gps: { lat: [4, 36, 0], latRef: 'N', lng: [74, 4, 0], lngRef: 'W' } })],
+        'photo.jpg',
+        { type: 'image/jpeg' },
+      );
+
+      const evidence = await collectPhotoEvidence(file);
+
+      expect(evidence.capturedAt).toBe('2026-03-02T19:05:11.000Z');
+      expect(evidence.capturedAtSource).toBe('exif');
+      expect(evidence.exifLocation?.lat).toBeCloseTo(4.6, 4);
+      expect(evidence.deviceLocation).toEqual({ lat: 4.61, lng: -74.08, accuracyM: 15 });
+      expect(evidence.deviceTime).toBeDefined();
+    });
+
+    it('falls back to the file lastModified without EXIF', async () => {
+      const lastModified = Date.UTC(2026, 2, 2, 12, 0, 0);
+      const file = new File([new Uint8Array([0xff, 0xd8, 0xff, 0xda])], 'photo.jpg', { type: 'image/jpeg', lastModified });
+
+      const evidence = await collectPhotoEvidence(file);
+
+      expect(evidence.capturedAt).toBe(new Date(lastModified).toISOString());
+      expect(evidence.capturedAtSource).toBe('file');
+      expect(evidence.exifLocation).toBeUndefined();
+    });
+
+    it('omits the device position when geolocation is denied or unavailable', async () => {
+      const file = new File([new Uint8Array([0xff, 0xd8])], 'photo.jpg', { type: 'image/jpeg' });
+
+      expect((await collectPhotoEvidence(file)).deviceLocation).toBeUndefined();
+
+      mockGeolocation(null);
+      expect((await collectPhotoEvidence(file)).deviceLocation).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for services/photoVerifyApi.ts (async verification)
+ *
+ * Covers:
+ * - parseServerSentEvents: complete events, multi-line data, unfinished tail
+ * - verifyPhotoAsync: queues with async: true, follows SSE progress to the result
+ * - Falls back to polling when the progress stream is unavailable
+ * - A failed job rejects with the job's error
+ * - An error answer rejects with its error code (e.g. BUDGET_EXCEEDED)
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { PhotoVerifyApiError, parseServerSentEvents, verifyPhotoAsync } from '../services/photoVerifyApi';
+import type { PhotoVerificationConfig, VerificationResult } from '../types';
+
+// ── Helpers ──
+
+const config = {
+  criteria: [{ id: 'c1', label: 'Cooler visible', type: 'boolean', required: true }],
+} as unknown as PhotoVerificationConfig;
+
+const result = { passed: true, overallConfidence: 0.9, score: 100 } as VerificationResult;
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function sse(text: string): Response {
+  return new Response(text, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+function mockFetch(handler: (url: string, init?: RequestInit) => Response) {
+  const fetchMock = vi.fn(async (url: string, init?: RequestInit) => handler(url, init));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+// ── parseServerSentEvents ──
+
+describe('parseServerSentEvents', () => {
+  it('splits complete events and keeps the unfinished tail', () => {
+    const { events, rest } = parseServerSentEvents(
+      'event: progress\ndata: {"stage":"analyzing"}\n\nevent: result\ndata: {"a":'
+    );
+    expect(events).toEqual([{ event: 'progress', data: '{"stage":"analyzing"}' }]);
+    expect(rest).toBe('event: result\ndata: {"a":');
+  });
+
+  it('joins multi-line data and defaults the event name', () => {
+    const { events } = parseServerSentEvents('data: line 1\r\ndata: line 2\r\n\r\n');
+    expect(events).toEqual([{ event: 'message', data: 'line 1\nline 2' }]);
+  });
+});
+
+// ── verifyPhotoAsync ──
+
+describe('verifyPhotoAsync', () => {
+  it('queues the job and resolves with the result from the stream', async () => {
+    const fetchMock = mockFetch((url) => {
+      if (url.endsWith('/api/verify')) return json({ success: true, data: { jobId: 'job-1', status: 'queued' } }, 202);
+      if (url.endsWith('/api/verify/job-1/events')) {
+        return sse(
+          'event: progress\ndata: {"status":"running","stage":"analyzing"}\n\n'
+          + `event: result\ndata: ${JSON.stringify({ jobId: 'job-1', status: 'succeeded', stage: 'done', result, error: null })}\n\n`
+        );
+      }
+      throw new Error(`Unexpected ${url}`);
+    });
+    const stages: string[] = [];
+
+    const verified = await verifyPhotoAsync('42', 'data:image/jpeg;base64,AAAA', config, {}, (s) => stages.push(s));
+
+    expect(verified).toEqual(result);
+    expect(stages).toEqual(['queued', 'analyzing']);
+    const body = JSON.parse(fetchMock.mock.calls[0][1]!.body as string);
+    expect(body).toMatchObject({ externalTaskId: '42', imageBase64: 'AAAA', async: true });
+  });
+
+  it('polls the job when the stream is unavailable', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    let polls = 0;
+    mockFetch((url) => {
+      if (url.endsWith('/api/verify')) return json({ success: true, data: { jobId: 'job-2', status: 'queued' } }, 202);
+      if (url.endsWith('/events')) return json({ success: false }, 502);
+      polls++;
+      return json({ success: true, data: { jobId: 'job-2', status: 'succeeded', stage: 'done', result, error: null } });
+    });
+
+    await expect(verifyPhotoAsync('42', 'AAAA', config)).resolves.toEqual(result);
+    expect(polls).toBe(1);
+  });
+
+  it('rejects with the error of a failed job', async () => {
+    mockFetch((url) => {
+      if (url.endsWith('/api/verify')) return json({ success: true, data: { jobId: 'job-3', status: 'queued' } }, 202);
+      return sse(
+        `event: failed\ndata: ${JSON.stringify({ jobId: 'job-3', status: 'failed', stage: 'done', result: null, error: 'Task not found' })}\n\n`
+      );
+    });
+
+    await expect(verifyPhotoAsync('42', 'AAAA', config)).rejects.toThrow('Task not found');
+  });
+
+  it('rejects with the error code of a refused request', async () => {
+    mockFetch(() => json({
+      success: false,
+      error: { code: 'BUDGET_EXCEEDED', message: 'Monthly budget exceeded: $10.00 of $10.00 spent in 2026-03.' },
+    }, 402));
+
+    const error = await verifyPhotoAsync('42', 'AAAA', config).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(PhotoVerifyApiError);
+    expect(error).toMatchObject({ code: 'BUDGET_EXCEEDED', status: 402 });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Unit tests for services/photoVerifySession.ts (per-rep sessions)
+ *
+ * Covers:
+ * - startSession: exchanges emp_code + PIN + a stable device id, stores the tokens
+ * - A refused PIN is reported as InvalidCredentialsError and stores nothing
+ * - authorizedFetch: sends the access token and device id
+ * - Refreshes a token about to expire, once for concurrent requests
+ * - Retries once after a 401 with a refreshed token
+ * - A refused refresh forgets the session
+ * - endSession revokes the refresh token and forgets the session
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { InvalidCredentialsError, authorizedFetch, endSession, getDeviceId, getSession, startSession } from '../services/photoVerifySession';
+
+// ── Helpers ──
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function tokens(n: number, ttlMs = 15 * 60_000) {
+  return {
+    sessionId: 's1',
+    accessToken: `access-${n}`,
+    accessTokenExpiresAt: new Date(Date.now() + ttlMs).toISOString(),
+    refreshToken: `pvr_refresh-${n}`,
+    refreshTokenExpiresAt: new Date(Date.now() + 30 * 86_400_000).toISOString(),
+  };
+}
+
+function mockFetch(handler: (url: string, init?: RequestInit) => Response) {
+  const fetchMock = vi.fn(async (url: string, init?: RequestInit) => handler(url, init));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+const header = (init: RequestInit | undefined, name: string) => (init?.headers as Record<string, string>)?.[name];
+const body = (init: RequestInit | undefined) => JSON.parse(init!.body as string);
+
+afterEach(() => {
+  localStorage.clear();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+// ── startSession ──
+
+describe('startSession', () => {
+  it('exchanges the emp_code and device id and stores the tokens', async () => {
+    const fetchMock = mockFetch(() => json({ success: true, data: tokens(1) }, 201));
+
+    await startSession('1234567', '2468');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('/api/photoVerify/auth/token');
+    expect(body(init)).toEqual({ grantType: 'emp_code', empCode: '1234567', pin: '2468', deviceId: getDeviceId() });
+    expect(getSession()).toMatchObject({ empCode: '1234567', accessToken: 'access-1', refreshToken: 'pvr_refresh-1' });
+    expect(getDeviceId()).toBe(body(init).deviceId);
+  });
+  it('reports a refused PIN and stores nothing', async () => {
+    mockFetch(() => json({ success: false, error: { code: 'UNAUTHORIZED' } }, 401));
+
+    await expect(startSession('1234567', '0000')).rejects.toBeInstanceOf(InvalidCredentialsError);
+    expect(getSession()).toBeNull();
+  });
+});
+
+// ── authorizedFetch ──
+
+describe('authorizedFetch', () => {
+  it('sends the access token and device id', async () => {
+    mockFetch(() => json({ success: true, data: tokens(1) }, 201));
+    await startSession('1234567', '2468');
+    const fetchMock = mockFetch(() => json({ success: true }));
+
+    await authorizedFetch('https://backend/api/verifications');
+
+    const init = fetchMock.mock.calls[0][1];
+    expect(header(init, 'Authorization')).toBe('Bearer access-1');
+    expect(header(init, 'X-Device-Id')).toBe(getDeviceId());
+  });
+
+  it('refreshes a token about to expire once for concurrent requests', async () => {
+    mockFetch(() => json({ success: true, data: tokens(1, 30_000) }, 201));
+    await startSession('1234567', '2468');
+    const fetchMock = mockFetch((url) =>
+      url.endsWith('/api/auth/token') ? json({ success: true, data: tokens(2) }) : json({ success: true })
+    );
+
+    await Promise.all([authorizedFetch('https://backend/api/a'), authorizedFetch('https://backend/api/b')]);
+
+    const refreshes = fetchMock.mock.calls.filter(([url]) => url.endsWith('/api/auth/token'));
+    expect(refreshes).toHaveLength(1);
+    expect(body(refreshes[0][1])).toMatchObject({ grantType: 'refresh_token', refreshToken: 'pvr_refresh-1' });
+    expect(header(fetchMock.mock.calls[2][1], 'Authorization')).toBe('Bearer access-2');
+    expect(getSession()?.refreshToken).toBe('pvr_refresh-2');
+  });
+
+  it('retries once with a refreshed token after a 401', async () => {
+    mockFetch(() => json({ success: true, data: tokens(1) }, 201));
+    await startSession('1234567', '2468');
+    const fetchMock = mockFetch((url, init) => {
+      if (url.endsWith('/api/auth/token')) return json({ success: true, data: tokens(2) });
+      return header(init, 'Authorization') === 'Bearer access-2' ? json({ success: true }) : json({}, 401);
+    });
+
+    const response = await authorizedFetch('https://backend/api/verify', { method: 'POST', body: '{}' });
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('forgets the session when the refresh is refused', async () => {
+    mockFetch(() => json({ success: true, data: tokens(1) }, 201));
+    await startSession('1234567', '2468');
+    mockFetch(() => json({ success: false }, 401));
+
+    const response = await authorizedFetch('https://backend/api/verify');
+
+    expect(response.status).toBe(401);
+    expect(getSession()).toBeNull();
+  });
+});
+
+// ── endSession ──
+
+describe('endSession', () => {
+  it('revokes the refresh token and forgets the session', async () => {
+    mockFetch(() => json({ success: true, data: tokens(1) }, 201));
+    await startSession('1234567', '2468');
+    const fetchMock = mockFetch(() => json({ success: true, data: { revoked: true } }));
+
+    await endSession();
+
+    expect(fetchMock.mock.calls[0][0]).toMatch(/\/api\/auth\/revoke$/);
+    expect(body(fetchMock.mock.calls[0][1])).toEqual({ refreshToken: 'pvr_refresh-1' });
+    expect(getSession()).toBeNull();
+  });
+});
@@ -69,21 +69,39 @@ export interface InsightChip {
 }
 
 // ── Photo Verification Types ──
-export type AIProvider = 'openai' | 'gemini';
+export type AIProvider = 'openai' | 'gemini' | 'openai_compatible' | 'local';
 
 export interface VerificationCriterion {
   id: string;
   label: string;
-  type: 'boolean' | 'count' | 'text';
+  type: 'boolean' | 'count' | 'text' | 'enum' | 'percentage' | 'presence_of_brand' | 'ordered_sequence';
   required: boolean;
   expectedValue?: string | number | boolean;
   min?: number;
   max?: number;
+  options?: string[];        // enum
+  acceptedValues?: string[]; // enum
+  brands?: string[];         // presence_of_brand
+  sequence?: string[];       // ordered_sequence, left to right
+  weight?: number;           // Share of the execution score (default 1)
+  imageIndex?: number; // Target one image of the set (0-based); omit for the whole set
+}
+
+// Client-side photo pipeline (services/imageCompression.ts); the brand sets defaults,
+// a task's / template's verificationConfig can override them
+export interface ImageCompressionPolicy {
+  maxDimension: number;   // Longest side in px; smaller photos are not upscaled
+  quality: number;        // 0-1 encoder quality
+  format: 'jpeg' | 'webp';
+  maxBytes: number;       // Quality, then size, step down until the photo fits
+  exif: 'strip' | 'keep'; // keep: copy the camera's EXIF block into the JPEG (orientation reset)
+  grayscaleCriteria: Array<VerificationCriterion['type']>; // Grayscale when every criterion is one of these
 }
 
 export interface PhotoVerificationConfig {
   prompt: string;
   criteria: VerificationCriterion[];
+  imageCompression?: Partial<ImageCompressionPolicy>;
   provider?: AIProvider;
   model?: string; // e.g., 'gpt-4o-mini', 'gemini-2.0-flash'
   maxRetries?: number;
@@ -95,20 +113,99 @@ export interface CriterionResult {
   criterionId: string;
   label: string;
   passed: boolean;
-  value: string | number | boolean | null;
+  value: string | number | boolean | string[] | null;
   confidence: number;
   reasoning: string;
+  imageIndex?: number;
+  detections?: BrandDetection[];
+  credit?: number; // 0-1 share of the criterion's weight earned towards the score
+}
+
+// presence_of_brand sighting; box is [x, y, width, height] normalized 0-1
+export interface BrandDetection {
+  brand: string;
+  box: [number, number, number, number];
+  confidence?: number;
+  imageIndex?: number;
+}
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+// Capture metadata sent with a photo (see services/photoEvidence.ts)
+export interface PhotoEvidence {
+  capturedAt?: string;                 // EXIF DateTimeOriginal, else the file's lastModified
+  capturedAtSource?: 'exif' | 'file';
+  exifLocation?: GeoPoint;             // GPS tags embedded in the photo
+  deviceLocation?: GeoPoint & { accuracyM?: number }; // navigator.geolocation when the photo was picked
+  deviceTime?: string;                 // Device clock at that moment
+}
+
+export interface IntegrityReport {
+  action: 'flag' | 'fail' | 'manual_review';
+  images: Array<{
+    imageIndex: number;
+    capturedAt?: string;
+    photoAgeMinutes?: number;
+    distanceMeters?: number;
+  }>;
+  issues: Array<{
+    imageIndex: number;
+    code: 'too_far' | 'too_old' | 'future_timestamp' | 'missing_timestamp' | 'missing_location';
+    message: string;
+  }>;
 }
 
 export interface VerificationResult {
+  verificationId?: string;
   passed: boolean;
   overallConfidence: number;
+  score?: number; // 0-100 weighted execution score
   criteriaResults: CriterionResult[];
   modelUsed: string;
   processingTimeMs: number;
   processedAt: string;
   mode: 'internal' | 'external';
   taskReference: string;
+  reviewId?: string; // Set when queued for manual review
+  duplicateOf?: {     // Set when the photo matches one from an earlier verification
+    verificationId: string;
+    externalTaskId?: string;
+    distance: number;
+    verifiedAt: string;
+    action: 'flag' | 'fail' | 'manual_review';
+  };
+  integrity?: IntegrityReport; // Capture time / distance checks on the photo evidence
+  budget?: {                   // Set once the tenant's monthly AI spend passes its warning threshold
+    state: 'ok' | 'warning' | 'downgraded' | 'exceeded';
+    spentUsd: number;
+    monthlyUsd: number | null;
+    percentUsed: number | null;
+    resetsAt: string;
+  };
+}
+
+// Async verification (POST /api/verify with async: true)
+export type VerificationStage = 'queued' | 'starting' | 'analyzing' | 'saving' | 'done';
+
+export interface VerificationJob {
+  jobId: string;
+  status: 'queued' | 'running' | 'succeeded' | 'failed';
+  stage: VerificationStage;
+  result: VerificationResult | null;
+  error: string | null;
+}
+
+// A mission's photo verification in the app; it keeps running if the user leaves the mission
+export interface MissionVerification {
+  runId: number; // Ignore updates from a verification the user already replaced
+  photo: string;
+  stage: VerificationStage;
+  result: VerificationResult | null;
+  error: string | null;
+  finalized: boolean;
 }
 
 export interface Mission {
@@ -190,4 +287,5 @@ export interface BrandConfig {
   images: BrandImages;
   storagePrefix: string;
   defaultEmpCode: string;
+  imageCompression?: Partial<ImageCompressionPolicy>;
 }